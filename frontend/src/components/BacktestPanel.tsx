@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { useMarketHistory } from '@/hooks/use-market-data';
+import { runBacktest } from '@/lib/backtest';
+import type { TemplateSettings } from '@/types/vault';
+
+interface BacktestTemplate {
+  id: string;
+  name: string;
+  settings: TemplateSettings;
+}
+
+interface BacktestPanelProps {
+  templates: BacktestTemplate[];
+}
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const formatMonth = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ templates }) => {
+  const marketHistory = useMarketHistory();
+  const history = marketHistory.value;
+  const [templateId, setTemplateId] = useState(() => templates.find(t => t.id === 'foundation')?.id || templates[0]?.id);
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+
+  // The first recorded month, then every January and July
+  const startOptions = history.filter((row, i) => i === 0 || row.month.endsWith('-01') || row.month.endsWith('-07'));
+  const startMonth = selectedStart || startOptions[0]?.month;
+  const template = templates.find(t => t.id === templateId);
+  const result = useMemo(
+    () => template && startMonth ? runBacktest(template.settings, history, startMonth) : null,
+    [history, template, startMonth]
+  );
+  const poolNames = marketHistory.sources.filter(source => source.poolId).map(source => source.name);
+
+  const points = result?.points || [];
+  const maxValue = Math.max(...points.map(p => Math.max(p.value, p.deposited)), 1);
+  const toX = (i: number) => points.length > 1 ? (i / (points.length - 1)) * 400 : 0;
+  const toY = (value: number) => 160 - (value / maxValue) * 140;
+  const linePath = (key: 'value' | 'deposited') => points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${toX(i)} ${toY(p[key])}`).join(' ');
+  const markerX = (date: Date | null) => {
+    if (!date) return null;
+    const index = points.findIndex(p => p.date.getTime() >= date.getTime());
+    return index === -1 ? null : toX(index);
+  };
+  const phase2X = markerX(result?.phase2Date ?? null);
+  const troughX = markerX(result?.maxDrawdownDate ?? null);
+  const gain = result ? result.finalValue - result.totalDeposited : 0;
+
+  return <div className="glass-card p-6 animate-fade-up stagger-3">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+          <History className="w-5 h-5 text-secondary" />
+          Historical Backtest
+        </h2>
+        {marketHistory.fetchedAt && <span className="text-xs text-muted-foreground">
+            {marketHistory.status === 'cached' ? 'Saved' : 'Loaded'} {marketHistory.fetchedAt.toLocaleDateString()}
+          </span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-semibold text-muted-foreground mb-1">Template</label>
+          <select value={templateId} onChange={e => setTemplateId(e.target.value)} className="select-premium text-sm w-full">
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-muted-foreground mb-1">Start</label>
+          <select value={startMonth || ''} onChange={e => setSelectedStart(e.target.value)} className="select-premium text-sm w-full">
+            {startOptions.map(row => <option key={row.month} value={row.month}>{formatMonth(new Date(`${row.month}-01T00:00:00Z`))}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {marketHistory.isLoading ? <div className="text-sm text-muted-foreground">Loading market history...</div> : history.length === 0 ? <div className="text-sm text-muted-foreground">
+          Market history is unavailable right now{marketHistory.error ? ` (${marketHistory.error})` : ''}, so there is nothing to replay.
+        </div> : !result ? <div className="text-sm text-muted-foreground">
+          No market history for that start date.
+        </div> : <>
+          <div className="flex items-center gap-4 mb-2 text-sm text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-primary/80"></div>
+              Deposited
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-secondary"></div>
+              Realized Value
+            </div>
+          </div>
+          <div className="h-48 relative">
+            <svg viewBox="0 0 400 180" className="w-full h-full" preserveAspectRatio="none">
+              {[0, 1, 2, 3].map(i => <line key={i} x1="0" y1={i * 45} x2="400" y2={i * 45} stroke="hsl(var(--border))" strokeWidth="0.5" strokeDasharray="4,4" opacity="0.5" />)}
+              <path d={linePath('deposited')} fill="none" stroke="hsl(var(--primary))" strokeWidth="2.5" opacity="0.8" />
+              <path d={linePath('value')} fill="none" stroke="hsl(var(--secondary))" strokeWidth="3" />
+              {phase2X !== null && <g>
+                  <line x1={phase2X} y1="0" x2={phase2X} y2="160" stroke="#f97316" strokeWidth="1.5" strokeDasharray="4,3" />
+                  <text x={Math.min(phase2X + 4, 360)} y="12" fontSize="10" fill="#f97316">Phase 2</text>
+                </g>}
+              {troughX !== null && <line x1={troughX} y1="0" x2={troughX} y2="160" stroke="#ef4444" strokeWidth="1" strokeDasharray="2,3" opacity="0.7" />}
+            </svg>
+            <div className="absolute bottom-0 left-0 right-0 flex justify-between px-2 text-xs text-muted-foreground">
+              <span>{formatMonth(points[0].date)}</span>
+              <span>{formatMonth(points[points.length - 1].date)}</span>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="soft-card text-center p-3">
+              <div className="text-lg font-black text-secondary">{formatUsd(result.finalValue)}</div>
+              <div className="text-xs text-muted-foreground font-medium">Realized Value</div>
+            </div>
+            <div className="soft-card text-center p-3">
+              <div className="text-lg font-black text-primary">{formatUsd(result.totalDeposited)}</div>
+              <div className="text-xs text-muted-foreground font-medium">Deposited ({gain >= 0 ? '+' : '-'}{formatUsd(Math.abs(gain))})</div>
+            </div>
+            <div className="soft-card text-center p-3">
+              <div className="text-lg font-black text-red-500">-{(result.maxDrawdown * 100).toFixed(1)}%</div>
+              <div className="text-xs text-muted-foreground font-medium">
+                Max Drawdown{result.maxDrawdownDate ? ` • ${formatMonth(result.maxDrawdownDate)}` : ''}
+              </div>
+            </div>
+            <div className="soft-card text-center p-3">
+              <div className="text-lg font-black text-orange-500">{result.phase2Date ? formatMonth(result.phase2Date) : '—'}</div>
+              <div className="text-xs text-muted-foreground font-medium">Phase 2 Start</div>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground mt-3">
+            {result.completedTerm
+              ? `Full term replayed, ending ${formatMonth(result.termEndDate)}.`
+              : `Recorded history ends before the term does (${formatMonth(result.termEndDate)}), so this is the value reached so far.`}
+            {' '}Strand rates are the monthly average APYs recorded by DeFi Llama for the pools each strand uses today{poolNames.length > 0 ? ` (${poolNames.join(', ')})` : ''}, so history starts when the newest of them launched; BTC follows CoinGecko prices. Drawdown excludes new deposits. Past performance does not predict future results.
+          </p>
+        </>}
+    </div>;
+};
@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Gavel, Lock, ThumbsDown, ThumbsUp, XOctagon } from 'lucide-react';
+import { castVote, createProposal, fetchContractProposals, type ContractProposal, type ProposalStatus } from '@/services/governanceService';
+import type { GroupTerminationBreakdown } from '@/lib/settlement';
+import type { Subclub } from '@/types/vault';
+import { TerminationSettlementPanel } from './TerminationSettlementPanel';
+
+interface ContractGovernanceProps {
+  club: Subclub;
+  /** Identity of the signed-in member */
+  currentMember: string;
+  /** Called after a proposal passes so the contract's members can be reloaded */
+  onContractChanged: () => void;
+  /** Group termination split: a preview at today's balance, or the recorded statement */
+  terminationBreakdown: GroupTerminationBreakdown;
+  /** When the contract's termination settlement was recorded, if it has been */
+  settledAt?: string | null;
+}
+
+const RESOLVED_SHOWN = 3;
+
+const STATUS_STYLES: Record<string, string> = {
+  open: 'bg-primary/20 text-primary',
+  passed: 'bg-defi-emerald/20 text-defi-emerald',
+  rejected: 'bg-destructive/20 text-destructive',
+  cancelled: 'bg-muted text-muted-foreground'
+};
+
+const shortId = (member: string) => `${member.slice(0, 6)}...${member.slice(-4)}`;
+
+export const ContractGovernance: React.FC<ContractGovernanceProps> = ({ club, currentMember, onContractChanged, terminationBreakdown, settledAt }) => {
+  const [proposals, setProposals] = useState<ContractProposal[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [targetMember, setTargetMember] = useState('');
+  const [reason, setReason] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadProposals = useCallback(async () => {
+    const result = await fetchContractProposals(club.id);
+    if (result.success) {
+      setProposals(result.proposals);
+      setUserId(result.userId);
+    } else {
+      console.error('[VaultClub] Failed to load proposals:', result.error);
+    }
+  }, [club.id]);
+
+  useEffect(() => {
+    loadProposals();
+  }, [loadProposals]);
+
+  const handleResult = async (result: { success: boolean; status?: ProposalStatus; error?: string }) => {
+    if (!result.success) {
+      alert(`❌ ${result.error}`);
+      return;
+    }
+    if (result.status === 'passed') {
+      alert('✅ The vote was unanimous and has been applied.');
+      onContractChanged();
+    } else if (result.status === 'rejected') {
+      alert('The proposal was rejected.');
+    }
+    await loadProposals();
+  };
+
+  const handlePropose = async () => {
+    if (!targetMember) return;
+    if (!confirm(`Propose removing ${shortId(targetMember)} from this contract?\n\nThey must have missed a deposit, and every other member must approve. If the vote passes, their principal stays locked until the Phase 2 trigger or the contract's completion date.`)) return;
+    setIsBusy(true);
+    const result = await createProposal(club.id, 'kick', targetMember, reason.trim());
+    setIsBusy(false);
+    if (result.success) {
+      setTargetMember('');
+      setReason('');
+    }
+    await handleResult(result);
+  };
+
+  const handleProposeTermination = async () => {
+    if (!confirm('Propose terminating this contract for every member?\n\nAll active members must approve. If the vote passes, principal is returned in full and 35% of the total yield is retained for the protocol reserve.')) return;
+    setIsBusy(true);
+    const result = await createProposal(club.id, 'terminate', null);
+    setIsBusy(false);
+    await handleResult(result);
+  };
+
+  const handleVote = async (proposal: ContractProposal, approve: boolean) => {
+    setIsBusy(true);
+    const result = await castVote(proposal.id, approve);
+    setIsBusy(false);
+    await handleResult(result);
+  };
+
+  const openProposals = proposals.filter(p => p.status === 'open');
+  const resolvedProposals = proposals.filter(p => p.status !== 'open').slice(0, RESOLVED_SHOWN);
+  const otherMembers = club.members.filter(member => member !== currentMember);
+  const label = (member: string | null) => !member ? 'Unknown member' : member === currentMember ? 'you' : shortId(member);
+  const title = (proposal: ContractProposal) => proposal.proposal_type === 'terminate' ? 'Terminate contract' : `Kick ${label(proposal.target_member)}`;
+  const isActive = club.status === 'active';
+  const terminationOpen = openProposals.some(p => p.proposal_type === 'terminate');
+
+  return <div className="space-y-4">
+      {club.status === 'terminated' && <div className="p-4 rounded-xl bg-muted/50 border border-border/50">
+          <TerminationSettlementPanel breakdown={terminationBreakdown} currentMember={currentMember} settledAt={settledAt} />
+        </div>}
+
+      {openProposals.map(proposal => {
+      const eligible = club.members.filter(member => member !== proposal.target_member).length;
+      const approvals = proposal.votes.filter(v => v.approve).length;
+      const myVote = proposal.votes.find(v => v.user_id === userId);
+      const isTarget = proposal.target_member === currentMember;
+      return <div key={proposal.id} className="p-4 rounded-xl bg-muted/50 border border-border/50">
+            <div className="flex justify-between items-start mb-2">
+              <div>
+                <div className="font-semibold text-foreground text-sm">{title(proposal)}</div>
+                <div className="text-xs text-muted-foreground">Opened {new Date(proposal.created_at).toLocaleDateString()}</div>
+              </div>
+              <span className="text-xs px-2 py-1 rounded-full bg-primary/20 text-primary tabular-nums">
+                {approvals}/{eligible} approve
+              </span>
+            </div>
+            {proposal.reason && <div className="text-sm text-muted-foreground mb-3">"{proposal.reason}"</div>}
+            <div className="progress-premium h-1.5 mb-3">
+              <div className="bar bg-gradient-to-r from-primary to-secondary" style={{ width: `${eligible > 0 ? approvals / eligible * 100 : 0}%` }}></div>
+            </div>
+            {isTarget ? <div className="text-xs text-muted-foreground">A vote on your removal is open. You cannot vote on it.</div> : <div className="flex items-center gap-2">
+                <button onClick={() => handleVote(proposal, true)} disabled={isBusy || myVote?.approve === true} className="flex-1 flex items-center justify-center gap-1 text-xs px-3 py-2 rounded-lg bg-defi-emerald/20 text-defi-emerald hover:bg-defi-emerald/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                  <ThumbsUp className="w-3 h-3" /> {myVote?.approve === true ? 'Approved' : 'Approve'}
+                </button>
+                <button onClick={() => handleVote(proposal, false)} disabled={isBusy} className="flex-1 flex items-center justify-center gap-1 text-xs px-3 py-2 rounded-lg bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                  <ThumbsDown className="w-3 h-3" /> Reject
+                </button>
+              </div>}
+            {proposal.proposal_type === 'terminate' && <div className="mt-4 pt-4 border-t border-border/50">
+                <TerminationSettlementPanel breakdown={terminationBreakdown} currentMember={currentMember} />
+              </div>}
+          </div>;
+    })}
+
+      {/* A kick needs someone besides the proposer and the target to vote */}
+      {isActive && otherMembers.length > 1 && <div className="p-4 rounded-xl border border-dashed border-border/50 space-y-3">
+          <div className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <Gavel className="w-4 h-4 text-muted-foreground" />
+            Propose removing a member
+          </div>
+          <select value={targetMember} onChange={e => setTargetMember(e.target.value)} className="w-full bg-background/50 rounded-xl px-3 py-2 text-sm text-foreground border border-border/50">
+            <option value="">Select a member</option>
+            {otherMembers.map(member => <option key={member} value={member}>{shortId(member)}</option>)}
+          </select>
+          <input value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason (optional)" maxLength={200} className="w-full bg-background/50 rounded-xl px-3 py-2 text-sm text-foreground border border-border/50" />
+          <button onClick={handlePropose} disabled={!targetMember || isBusy} className="w-full text-sm px-4 py-2 rounded-xl font-semibold bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Start Kick Vote
+          </button>
+          <div className="text-xs text-muted-foreground">Only members who have missed a deposit can be removed. Requires a unanimous vote of the other members.</div>
+        </div>}
+
+      {isActive && otherMembers.length > 0 && !terminationOpen && <div className="p-4 rounded-xl border border-dashed border-destructive/30 space-y-3">
+          <div className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <XOctagon className="w-4 h-4 text-destructive" />
+            Terminate the contract early
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Ends the contract for everyone. Principal is returned in full; 35% of the total yield goes to the protocol reserve and the rest is split by ownership share.
+          </div>
+          <button onClick={handleProposeTermination} disabled={isBusy} className="w-full text-sm px-4 py-2 rounded-xl font-semibold bg-destructive/10 text-destructive hover:bg-destructive/20 border border-destructive/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Start Termination Vote
+          </button>
+          <div className="text-xs text-muted-foreground">Requires a unanimous vote of all members.</div>
+        </div>}
+
+      {(club.removedMembers || []).filter(removed => removed.status === 'kicked').map(removed => <div key={removed.member} className="flex items-start gap-2 text-xs text-muted-foreground">
+          <Lock className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>
+            {removed.member === currentMember ? 'You were' : `${shortId(removed.member)} was`} removed by vote
+            {removed.removedAt ? ` on ${new Date(removed.removedAt).toLocaleDateString()}` : ''}. Principal locked until {removed.principalLockedUntil ? new Date(removed.principalLockedUntil).toLocaleDateString() : 'contract completion'}.
+          </span>
+        </div>)}
+
+      {resolvedProposals.length > 0 && <div className="space-y-2">
+          {resolvedProposals.map(proposal => <div key={proposal.id} className="flex justify-between items-center text-xs text-muted-foreground">
+              <span>{title(proposal)} • {new Date(proposal.resolved_at || proposal.created_at).toLocaleDateString()}</span>
+              <span className={`px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[proposal.status] || ''}`}>{proposal.status}</span>
+            </div>)}
+        </div>}
+    </div>;
+};
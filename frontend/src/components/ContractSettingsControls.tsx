@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Clock } from 'lucide-react';
+import type { ClubCreationData } from '@/types/vault';
+
+interface ContractSettingsControlsProps {
+  data: ClubCreationData;
+  onChange: React.Dispatch<React.SetStateAction<ClubCreationData>>;
+  /** Smallest selectable member cap, e.g. a live contract's current member count */
+  minMembers?: number;
+}
+
+export const ContractSettingsControls: React.FC<ContractSettingsControlsProps> = ({ data, onChange, minMembers = 1 }) => {
+  const [showExtendedLockup, setShowExtendedLockup] = useState(data.lockupPeriod > 11);
+
+  return <>
+      {/* Contract Type Toggle */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">Contract Type</label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(prev => ({ ...prev, isChargedContract: false, lockupPeriod: 5 }))}
+            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${!data.isChargedContract ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+          >
+            Traditional (Years)
+          </button>
+          <button
+            onClick={() => onChange(prev => ({ ...prev, isChargedContract: true, lockupPeriod: 3 }))}
+            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${data.isChargedContract ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+          >
+            Charged (Months)
+          </button>
+        </div>
+      </div>
+      
+      {/* Lockup Period - Full options */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">
+          Lockup Period ({data.isChargedContract ? 'Months' : 'Years'})
+        </label>
+        {data.isChargedContract ? (
+          <div className="grid grid-cols-6 gap-2">
+            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map(num => (
+              <button
+                key={num}
+                onClick={() => onChange(prev => ({ ...prev, lockupPeriod: num }))}
+                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${data.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+              >
+                {num}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-6 gap-2">
+              {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(num => (
+                <button
+                  key={num}
+                  onClick={() => onChange(prev => ({ ...prev, lockupPeriod: num }))}
+                  className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${data.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+                >
+                  {num}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowExtendedLockup(!showExtendedLockup)}
+                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${showExtendedLockup || data.lockupPeriod > 11 ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+              >
+                More
+              </button>
+            </div>
+            {showExtendedLockup && (
+              <div className="grid grid-cols-5 gap-2 mt-2">
+                {[12, 13, 14, 15, 16, 17, 18, 19, 20].map(num => (
+                  <button
+                    key={num}
+                    onClick={() => onChange(prev => ({ ...prev, lockupPeriod: num }))}
+                    className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${data.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+                  >
+                    {num}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      
+      {/* Rigor Level */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">Contribution Level</label>
+        <div className="grid grid-cols-4 gap-2">
+          {['light', 'medium', 'heavy', 'custom'].map(level => (
+            <button
+              key={level}
+              onClick={() => onChange(prev => ({ ...prev, rigorLevel: level }))}
+              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${data.rigorLevel === level ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Custom Deposit Frequency - Only show when rigor is custom */}
+      {data.rigorLevel === 'custom' && (
+        <div className="mb-4 space-y-3">
+          <div>
+            <label className="text-sm text-white/70 mb-2 block">Deposit Frequency</label>
+            <div className="grid grid-cols-4 gap-2">
+              {(['daily', 'weekly', 'monthly', 'yearly'] as const).map(freq => (
+                <button
+                  key={freq}
+                  onClick={() => onChange(prev => ({ ...prev, customDepositFrequency: freq }))}
+                  className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${data.customDepositFrequency === freq ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+                >
+                  {freq}
+                </button>
+              ))}
+            </div>
+          </div>
+          
+          <div>
+            <label className="text-sm text-white/70 mb-2 block">
+              Amount per {data.customDepositFrequency === 'daily' ? 'Day' : data.customDepositFrequency === 'weekly' ? 'Week' : data.customDepositFrequency === 'monthly' ? 'Month' : 'Year'}
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="10000"
+              value={data.customWeeklyAmount}
+              onChange={(e) => onChange(prev => ({ ...prev, customWeeklyAmount: Number(e.target.value) }))}
+              className="w-full px-4 py-2 rounded-lg bg-white/10 text-white border border-white/20 focus:border-blue-500 focus:outline-none"
+              placeholder="Amount ($)"
+            />
+            <div className="text-xs text-white/50 mt-1 text-center">
+              = ${(data.customWeeklyAmount * (data.customDepositFrequency === 'daily' ? 365 : data.customDepositFrequency === 'weekly' ? 52 : data.customDepositFrequency === 'monthly' ? 12 : 1)).toLocaleString()}/year
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Risk Level */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">Risk Level</label>
+        <div className="grid grid-cols-3 gap-2">
+          {['low', 'medium', 'high'].map(level => (
+            <button
+              key={level}
+              onClick={() => onChange(prev => ({ ...prev, riskLevel: level }))}
+              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${
+                data.riskLevel === level 
+                  ? level === 'low' ? 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
+                    : level === 'medium' ? 'bg-gradient-to-r from-yellow-500 to-amber-500 text-white'
+                    : 'bg-gradient-to-r from-red-500 to-rose-500 text-white'
+                  : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Members */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">Maximum Members</label>
+        <div className="grid grid-cols-8 gap-2">
+          {[1, 2, 3, 4, 5, 6, 7, 8].map(num => (
+            <button
+              key={num}
+              onClick={() => onChange(prev => ({ ...prev, maxMembers: num }))}
+              disabled={num < minMembers}
+              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all disabled:opacity-30 disabled:cursor-not-allowed ${data.maxMembers === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+            >
+              {num}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Privacy */}
+      <div className="mb-4">
+        <label className="text-sm text-white/70 mb-2 block">Privacy</label>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onChange(prev => ({ ...prev, isPrivate: true }))}
+            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${data.isPrivate ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+          >
+            Private
+          </button>
+          <button
+            onClick={() => onChange(prev => ({ ...prev, isPrivate: false }))}
+            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${!data.isPrivate ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+          >
+            Public
+          </button>
+        </div>
+      </div>
+      
+      {/* Phase 2 Settings - Only in Custom */}
+      <div className="border-t border-white/10 pt-4 mt-4">
+        <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          Phase 2 Trigger Settings
+        </h4>
+        <p className="text-white/50 text-xs mb-4">
+          Phase 2 transitions your strategy to wealth preservation. Set when this happens.
+        </p>
+        
+        <div className="grid grid-cols-2 gap-4">
+          {/* Time-based trigger */}
+          <div className="bg-white/5 rounded-xl p-4">
+            <label className="text-sm text-white/70 mb-2 block">Time-Based</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="range"
+                min="20"
+                max="80"
+                value={data.phase2TimePercent}
+                onChange={(e) => onChange(prev => ({ ...prev, phase2TimePercent: Number(e.target.value) }))}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="text-white font-medium text-sm w-12 text-right">{data.phase2TimePercent}%</span>
+            </div>
+            <p className="text-white/40 text-xs mt-2">Trigger at {data.phase2TimePercent}% completion</p>
+          </div>
+          
+          {/* Value-based trigger */}
+          <div className="bg-white/5 rounded-xl p-4">
+            <label className="text-sm text-white/70 mb-2 block">Value-Based</label>
+            <div className="flex items-center gap-2">
+              <span className="text-white/50">$</span>
+              <input
+                type="number"
+                min="10000"
+                max="10000000"
+                step="50000"
+                value={data.phase2ValueThreshold}
+                onChange={(e) => onChange(prev => ({ ...prev, phase2ValueThreshold: Number(e.target.value) }))}
+                className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <p className="text-white/40 text-xs mt-2">Trigger when vault reaches this value</p>
+          </div>
+        </div>
+        
+        <p className="text-white/50 text-xs mt-3 text-center">
+          Phase 2 triggers when <span className="text-white">either</span> condition is met (whichever comes first)
+        </p>
+      </div>
+    </>;
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { fetchDeposits, DEFAULT_DEPOSIT_PAGE_SIZE, type ContractDeposit } from '@/services/depositService';
+
+interface DepositActivityProps {
+  /** Show every member's deposits into this contract instead of the user's own */
+  contractId?: string;
+  /** Contract names keyed by id, used to label deposits in the cross-contract feed */
+  contractNames?: Record<string, string>;
+  /** Bump to reload the current page after a new deposit */
+  refreshKey?: number;
+  pageSize?: number;
+  emptyMessage?: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  confirmed: 'bg-defi-emerald/20 text-defi-emerald',
+  pending: 'bg-defi-orange/20 text-defi-orange',
+  failed: 'bg-destructive/20 text-destructive'
+};
+
+const formatUsd = (value: number) => `$${Number(value).toFixed(2)}`;
+
+export const DepositActivity: React.FC<DepositActivityProps> = ({
+  contractId,
+  contractNames = {},
+  refreshKey = 0,
+  pageSize = DEFAULT_DEPOSIT_PAGE_SIZE,
+  emptyMessage = 'No deposits yet - make your first deposit to get started'
+}) => {
+  const [page, setPage] = useState(0);
+  const [deposits, setDeposits] = useState<ContractDeposit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the newest page whenever the feed's scope changes
+  useEffect(() => {
+    setPage(0);
+  }, [contractId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchDeposits({ contractId, page, pageSize }).then(result => {
+      if (cancelled) return;
+      setDeposits(result.deposits);
+      setTotal(result.total);
+      setError(result.success ? null : result.error || 'Failed to load deposits');
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contractId, page, pageSize, refreshKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  if (isLoading && deposits.length === 0) {
+    return <div className="flex justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>;
+  }
+
+  if (error) {
+    return <div className="text-center py-8 text-sm text-destructive">{error}</div>;
+  }
+
+  if (total === 0) {
+    return <div className="text-center py-8 text-muted-foreground">{emptyMessage}</div>;
+  }
+
+  return <div className="space-y-3">
+      <div className={`space-y-2 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+        {deposits.map(deposit => <div key={deposit.id} className="p-3 rounded-xl bg-muted/50 border border-border/50">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="font-semibold text-foreground tabular-nums">{formatUsd(deposit.amount)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(deposit.deposited_at).toLocaleString()}
+                  {!contractId && contractNames[deposit.contract_id] ? ` • ${contractNames[deposit.contract_id]}` : ''}
+                  {contractId && deposit.wallet_address ? ` • ${deposit.wallet_address.slice(0, 6)}...${deposit.wallet_address.slice(-4)}` : ''}
+                </div>
+              </div>
+              <span className={`text-xs px-2 py-1 rounded-full capitalize ${STATUS_STYLES[deposit.status] || 'bg-muted text-muted-foreground'}`}>
+                {deposit.status}
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 mt-2 text-xs text-muted-foreground tabular-nums">
+              <div>S1 <span className="text-foreground">{formatUsd(deposit.strand1_amount)}</span></div>
+              <div>S2 <span className="text-foreground">{formatUsd(deposit.strand2_amount)}</span></div>
+              <div>S3 <span className="text-foreground">{formatUsd(deposit.strand3_amount)}</span></div>
+            </div>
+          </div>)}
+      </div>
+
+      {pageCount > 1 && <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0 || isLoading} className="p-1.5 rounded-lg hover:bg-muted transition-colors disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Newer deposits">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="tabular-nums">Page {page + 1} of {pageCount} • {total} deposit{total === 1 ? '' : 's'}</span>
+          <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page >= pageCount - 1 || isLoading} className="p-1.5 rounded-lg hover:bg-muted transition-colors disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Older deposits">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>}
+    </div>;
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { AlertTriangle, CalendarClock, XCircle } from 'lucide-react';
+import type { DepositScheduleSummary } from '@/lib/depositSchedule';
+import type { Subclub } from '@/types/vault';
+
+export interface ContractSchedule {
+  club: Subclub;
+  schedule: DepositScheduleSummary;
+}
+
+interface DepositObligationsProps {
+  schedules: ContractSchedule[];
+  className?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / DAY_MS));
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+export const DepositObligations: React.FC<DepositObligationsProps> = ({ schedules, className = '' }) => {
+  if (schedules.length === 0) return null;
+
+  const overdue = schedules.flatMap(({ club, schedule }) => schedule.overdue.map(period => ({ club, period })));
+  const missed = schedules.filter(({ schedule }) => schedule.missedCount > 0);
+  const upcoming = schedules
+    .filter(({ schedule }) => schedule.nextDue)
+    .sort((a, b) => a.schedule.nextDue.dueDate.getTime() - b.schedule.nextDue.dueDate.getTime());
+
+  return <div className={`glass-card p-6 ${className}`}>
+      <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        Deposit Schedule
+      </h2>
+
+      <div className="space-y-3">
+        {overdue.map(({ club, period }) => <div key={`${club.id}-${period.index}`} className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 flex items-start gap-3">
+            <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 shrink-0" />
+            <div className="flex-1 text-sm">
+              <div className="font-semibold text-foreground">
+                {formatUsd(period.amountDue - period.amountPaid)} overdue • {club.name}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Was due {period.dueDate.toLocaleDateString()} • grace period ends in {daysUntil(period.graceEndsAt)} day{daysUntil(period.graceEndsAt) === 1 ? '' : 's'}
+              </div>
+            </div>
+          </div>)}
+
+        {missed.map(({ club, schedule }) => <div key={`${club.id}-missed`} className="p-3 rounded-xl bg-destructive/10 border border-destructive/20 flex items-start gap-3">
+            <XCircle className="w-4 h-4 text-destructive mt-0.5 shrink-0" />
+            <div className="flex-1 text-sm">
+              <div className="font-semibold text-foreground">
+                {schedule.missedCount} missed deposit{schedule.missedCount === 1 ? '' : 's'} • {club.name}
+              </div>
+              <div className="text-xs text-muted-foreground">Unpaid after the 7-day grace period</div>
+            </div>
+          </div>)}
+
+        {upcoming.map(({ club, schedule }) => <div key={`${club.id}-next`} className="p-3 rounded-xl bg-muted/50 border border-border/50 flex justify-between items-center text-sm">
+            <div>
+              <div className="font-semibold text-foreground">{club.name}</div>
+              <div className="text-xs text-muted-foreground capitalize">{schedule.frequency} deposits</div>
+            </div>
+            <div className="text-right">
+              <div className="font-semibold text-foreground tabular-nums">{formatUsd(schedule.nextDue.amountDue - schedule.nextDue.amountPaid)}</div>
+              <div className="text-xs text-muted-foreground">
+                Due {schedule.nextDue.dueDate.toLocaleDateString()}
+                {daysUntil(schedule.nextDue.dueDate) > 0 ? ` (in ${daysUntil(schedule.nextDue.dueDate)}d)` : ' (today)'}
+              </div>
+            </div>
+          </div>)}
+
+        {overdue.length === 0 && missed.length === 0 && upcoming.length === 0 && <div className="text-center py-4 text-muted-foreground text-sm">
+            No deposits remaining on your contracts
+          </div>}
+      </div>
+    </div>;
+};
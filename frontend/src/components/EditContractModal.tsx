@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, Lock, Settings, X } from 'lucide-react';
+import { fetchContractParameterChanges, updateContractParameters, type ContractParameterChange } from '@/services/contractService';
+import {
+  PARAMETER_EDIT_LOCK_DAYS,
+  describeParameterChanges,
+  formatCountdown,
+  getNextEditAllowedAt,
+  hasParameterChanges,
+  toClubCreationData
+} from '@/lib/contractParameters';
+import type { ClubCreationData, Subclub } from '@/types/vault';
+import { ContractSettingsControls } from './ContractSettingsControls';
+
+interface EditContractModalProps {
+  club: Subclub;
+  onClose: () => void;
+  /** Called after the edit is saved so the contract can be reloaded */
+  onSaved: () => void;
+}
+
+const shortId = (member: string) => `${member.slice(0, 6)}...${member.slice(-4)}`;
+
+export const EditContractModal: React.FC<EditContractModalProps> = ({ club, onClose, onSaved }) => {
+  const [data, setData] = useState<ClubCreationData>(() => toClubCreationData(club));
+  const [changes, setChanges] = useState<ContractParameterChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchContractParameterChanges(club.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setChanges(result.changes);
+      } else {
+        console.error('[VaultClub] Failed to load contract changes:', result.error);
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [club.id]);
+
+  // Keep the countdown current while the modal is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const nextEditAllowedAt = getNextEditAllowedAt(changes, now);
+  const isLocked = nextEditAllowedAt !== null;
+  const canSave = !isLoading && !isLocked && !isSaving && hasParameterChanges(club, data);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    if (!confirm(`Save these changes to ${club.name}?\n\nContract parameters can only be changed once every ${PARAMETER_EDIT_LOCK_DAYS} days.`)) return;
+    setIsSaving(true);
+    const result = await updateContractParameters(club.id, data);
+    setIsSaving(false);
+    if (!result.success) {
+      alert(`❌ ${result.error}`);
+      return;
+    }
+    alert(`✅ Contract updated.${result.nextEditAllowedAt ? `\n\nThe next edit is allowed on ${new Date(result.nextEditAllowedAt).toLocaleDateString()}.` : ''}`);
+    onSaved();
+    onClose();
+  };
+
+  return <div className="fixed inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-up" role="dialog" aria-modal="true" aria-labelledby="edit-contract-title" onClick={onClose}>
+      <div className="bg-slate-900 rounded-2xl max-w-2xl w-full shadow-2xl max-h-[90vh] overflow-hidden ring-1 ring-white/10" onClick={e => e.stopPropagation()}>
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 rounded-t-2xl text-white flex justify-between items-start">
+          <div>
+            <h3 id="edit-contract-title" className="text-2xl font-bold">Edit Contract</h3>
+            <p className="text-white/80 mt-1">{club.name}</p>
+          </div>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors p-2 rounded-lg hover:bg-white/10" aria-label="Close modal">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-5" style={{ maxHeight: 'calc(90vh - 100px)' }}>
+          {isLocked ? <div className="p-4 rounded-xl bg-white/5 border border-white/10 flex items-start gap-3">
+              <Lock className="w-5 h-5 text-white/70 mt-0.5 shrink-0" />
+              <div>
+                <div className="text-white font-semibold">Next edit in {formatCountdown(nextEditAllowedAt, now)}</div>
+                <div className="text-white/60 text-xs mt-1">
+                  Parameters can be changed once every {PARAMETER_EDIT_LOCK_DAYS} days. Editing unlocks on {nextEditAllowedAt.toLocaleString()}.
+                </div>
+              </div>
+            </div> : <p className="text-white/60 text-xs">
+              Contract parameters can be changed once every {PARAMETER_EDIT_LOCK_DAYS} days. Saving starts a new {PARAMETER_EDIT_LOCK_DAYS}-day lock. Deposit changes apply to periods due after saving.
+            </p>}
+
+          <div className={isLocked ? 'opacity-50 pointer-events-none' : ''}>
+            <h4 className="text-white font-semibold mb-4 flex items-center gap-2">
+              <Settings className="w-4 h-4" />
+              Contract Settings
+            </h4>
+            <ContractSettingsControls data={data} onChange={setData} minMembers={Math.max(1, club.members.length)} />
+          </div>
+
+          <div className="border-t border-white/10 pt-4">
+            <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Change History
+            </h4>
+            {isLoading ? <div className="text-white/50 text-sm">Loading...</div> : changes.length === 0 ? <div className="text-white/50 text-sm">No changes since the contract was created.</div> : <div className="space-y-3">
+                {changes.map(change => <div key={change.id} className="bg-white/5 rounded-xl p-3">
+                    <div className="flex justify-between text-xs text-white/50 mb-1">
+                      <span>{new Date(change.changed_at).toLocaleString()}</span>
+                      {change.wallet_address && <span className="font-mono">{shortId(change.wallet_address)}</span>}
+                    </div>
+                    {describeParameterChanges(change.previous, change.changes, club.isChargedContract).map(line => <div key={line} className="text-sm text-white">{line}</div>)}
+                  </div>)}
+              </div>}
+          </div>
+
+          <button onClick={handleSave} disabled={!canSave} className="w-full py-4 rounded-xl font-semibold text-lg transition-all duration-300 shadow-lg flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed">
+            {isSaving && <Loader2 className="w-5 h-5 animate-spin" />}
+            {isLocked ? 'Editing Locked' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>;
+};
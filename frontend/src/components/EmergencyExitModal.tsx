@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Loader2, X } from 'lucide-react';
+import type { IndividualExitBreakdown } from '@/lib/settlement';
+import type { Subclub } from '@/types/vault';
+
+interface EmergencyExitModalProps {
+  club: Subclub;
+  breakdown: IndividualExitBreakdown;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+}
+
+const CONFIRMATION_PHRASE = 'EXIT';
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+export const EmergencyExitModal: React.FC<EmergencyExitModalProps> = ({ club, breakdown, onClose, onConfirm }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canConfirm = acknowledged && confirmation.trim().toUpperCase() === CONFIRMATION_PHRASE && !isSubmitting;
+
+  const handleConfirm = async () => {
+    if (!canConfirm) return;
+    setIsSubmitting(true);
+    await onConfirm();
+    setIsSubmitting(false);
+  };
+
+  return <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-up" onClick={onClose}>
+      <div className="glass-card max-w-md w-full max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-foreground">Emergency Exit</h3>
+            <p className="text-sm text-muted-foreground mt-1">{club.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-muted transition-colors">
+            <X className="w-5 h-5 text-muted-foreground" />
+          </button>
+        </div>
+
+        <div className="p-3 rounded-xl bg-destructive/10 border border-destructive/20 flex items-start gap-3">
+          <AlertTriangle className="w-4 h-4 text-destructive mt-0.5 shrink-0" />
+          <p className="text-xs text-destructive">
+            An individual exit returns your principal only. All accrued yield and profits are forfeited to the remaining members as a disruption fee. This cannot be undone.
+          </p>
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Principal deposited</span>
+            <span className="font-semibold text-foreground tabular-nums">{formatUsd(breakdown.principal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Your share ({breakdown.share.toFixed(2)}%) today</span>
+            <span className="font-semibold text-foreground tabular-nums">{formatUsd(breakdown.currentValue)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Forfeited yield</span>
+            <span className="font-semibold text-destructive tabular-nums">−{formatUsd(breakdown.forfeitedYield)}</span>
+          </div>
+          <div className="flex justify-between pt-2 border-t border-border/50">
+            <span className="font-semibold text-foreground">You receive</span>
+            <span className="font-bold text-secondary tabular-nums">{formatUsd(breakdown.payout)}</span>
+          </div>
+          {breakdown.payout < breakdown.principal && <p className="text-xs text-muted-foreground">
+              Your share is currently worth less than your principal, so the payout is limited to its value.
+            </p>}
+        </div>
+
+        <label className="flex items-start gap-2 text-xs text-muted-foreground cursor-pointer">
+          <input type="checkbox" checked={acknowledged} onChange={e => setAcknowledged(e.target.checked)} className="mt-0.5" />
+          I understand I will leave this contract and forfeit {formatUsd(breakdown.forfeitedYield)} in yield.
+        </label>
+
+        <div>
+          <label className="text-xs text-muted-foreground font-medium mb-1 block">Type {CONFIRMATION_PHRASE} to confirm</label>
+          <input value={confirmation} onChange={e => setConfirmation(e.target.value)} className="w-full bg-background/50 rounded-xl px-4 py-3 text-sm text-foreground border border-border/50" />
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 px-4 py-3 rounded-xl font-semibold bg-muted text-foreground hover:bg-muted/80 transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleConfirm} disabled={!canConfirm} className="flex-1 px-4 py-3 rounded-xl font-semibold bg-destructive text-destructive-foreground hover:bg-destructive/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2">
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Exit Contract
+          </button>
+        </div>
+      </div>
+    </div>;
+};
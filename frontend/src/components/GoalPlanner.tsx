@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import {
+  MAX_CONTRIBUTION,
+  MAX_LOCKUP_YEARS,
+  SAFE_WITHDRAWAL_RATE,
+  getTermForTargetDate,
+  solveContribution,
+  solveLockup,
+  targetValueForIncome
+} from '@/lib/goalPlanner';
+import type { StrandApys } from '@/lib/simulationEngine';
+import type { TemplateSettings } from '@/types/vault';
+
+interface GoalPlannerProps {
+  /** Current live strand APYs */
+  apys: StrandApys;
+  riskLevel: string;
+  /** Opens a Custom contract prefilled with the plan */
+  onUsePlan: (settings: TemplateSettings) => void;
+}
+
+type GoalType = 'value' | 'income';
+type SolveFor = 'contribution' | 'lockup';
+type PlanFrequency = 'weekly' | 'monthly';
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export const GoalPlanner: React.FC<GoalPlannerProps> = ({ apys, riskLevel, onUsePlan }) => {
+  const [goalType, setGoalType] = useState<GoalType>('value');
+  const [targetAmount, setTargetAmount] = useState(100000);
+  const [solveFor, setSolveFor] = useState<SolveFor>('contribution');
+  const [targetDate, setTargetDate] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() + 10);
+    return toDateInput(date);
+  });
+  const [frequency, setFrequency] = useState<PlanFrequency>('weekly');
+  const [contribution, setContribution] = useState(100);
+
+  const targetValue = goalType === 'income' ? targetValueForIncome(targetAmount) : targetAmount;
+  const term = solveFor === 'contribution' ? getTermForTargetDate(new Date(targetDate)) : null;
+
+  // A few dozen runs of the strand model at most, cheap enough to redo on every change
+  const market = { apys, riskLevel };
+  const plan = !(targetValue > 0) ? null : solveFor === 'contribution'
+    ? term ? solveContribution(targetValue, term, frequency, market) : null
+    : contribution > 0 ? solveLockup(targetValue, contribution, frequency, market) : null;
+
+  const periodLabel = frequency === 'weekly' ? 'week' : 'month';
+  const termLabel = (lockupPeriod: number, isCharged: boolean) => `${lockupPeriod} ${isCharged ? 'month' : 'year'}${lockupPeriod === 1 ? '' : 's'}`;
+
+  const unsolvedMessage = solveFor === 'contribution'
+    ? term ? `Not reachable with up to ${formatUsd(MAX_CONTRIBUTION)} per ${periodLabel} by that date.` : `Pick a date between one month and ${MAX_LOCKUP_YEARS} years away.`
+    : `Not reachable within ${MAX_LOCKUP_YEARS} years at ${formatUsd(contribution)} per ${periodLabel}.`;
+
+  return <div className="glass-card p-6 animate-fade-up stagger-2">
+      <h2 className="text-xl font-semibold text-foreground mb-5 flex items-center gap-2">
+        <Target className="w-5 h-5 text-primary" />
+        Goal Planner
+      </h2>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-muted-foreground mb-2">Goal</label>
+          <select value={goalType} onChange={e => {
+            const type = e.target.value as GoalType;
+            setGoalType(type);
+            setTargetAmount(type === 'income' ? 2000 : 100000);
+          }} className="select-premium w-full">
+            <option value="value">Target value</option>
+            <option value="income">Monthly retirement income</option>
+          </select>
+          <input type="number" min="1" step={goalType === 'income' ? 100 : 1000} value={targetAmount} onChange={e => setTargetAmount(Number(e.target.value))} className="input-premium text-sm w-full mt-2" placeholder="Amount ($)" />
+          {goalType === 'income' && <div className="text-xs text-muted-foreground mt-1">
+              Needs {formatUsd(targetValue)} at a {SAFE_WITHDRAWAL_RATE * 100}% yearly withdrawal rate
+            </div>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-muted-foreground mb-2">Solve for</label>
+          <select value={solveFor} onChange={e => setSolveFor(e.target.value as SolveFor)} className="select-premium w-full">
+            <option value="contribution">Required contribution</option>
+            <option value="lockup">Required lockup</option>
+          </select>
+          {solveFor === 'contribution' ? <input type="date" value={targetDate} min={toDateInput(new Date())} onChange={e => setTargetDate(e.target.value)} className="input-premium text-sm w-full mt-2" /> : <input type="number" min="1" max={MAX_CONTRIBUTION} value={contribution} onChange={e => setContribution(Number(e.target.value))} className="input-premium text-sm w-full mt-2" placeholder={`Amount per ${periodLabel} ($)`} />}
+          <div className="text-xs text-muted-foreground mt-1">
+            {solveFor === 'contribution' ? term ? `Contract term: ${termLabel(term.lockupPeriod, term.isChargedContract)}` : 'Target date' : `Contribution per ${periodLabel}`}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-muted-foreground mb-2">Deposit frequency</label>
+          <select value={frequency} onChange={e => setFrequency(e.target.value as PlanFrequency)} className="select-premium w-full">
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-5 soft-card p-4">
+        {!plan ? <div className="text-sm text-muted-foreground">{unsolvedMessage}</div> : <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <div className="text-2xl font-black text-secondary">
+                {solveFor === 'contribution'
+                  ? `${formatUsd(plan.settings.customWeeklyAmount)} / ${periodLabel}`
+                  : termLabel(plan.settings.lockupPeriod, plan.settings.isChargedContract)}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Projected {formatUsd(plan.finalValue)} from {formatUsd(plan.totalDeposited)} deposited over {termLabel(plan.settings.lockupPeriod, plan.settings.isChargedContract)}, at current rates
+              </div>
+            </div>
+            <button onClick={() => onUsePlan(plan.settings)} className="px-5 py-2.5 rounded-xl font-semibold bg-gradient-to-r from-secondary to-emerald-500 text-white hover:shadow-lg hover:shadow-secondary/25 transition-all duration-300 shrink-0">
+              Create This Contract
+            </button>
+          </div>}
+      </div>
+    </div>;
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import type { MarketDataResult } from '@/services/marketDataService';
+
+interface MarketDataProvenanceProps {
+  data: Pick<MarketDataResult<unknown>, 'status' | 'fetchedAt' | 'provider' | 'sources' | 'error'> & { isLoading?: boolean; isFetching?: boolean };
+  onRefresh?: () => void;
+  /** `inverse` for light text on the strand modal's colored header */
+  tone?: 'default' | 'inverse';
+}
+
+const formatAge = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+};
+
+const formatTvl = (tvl: number) => tvl >= 1e9 ? `$${(tvl / 1e9).toFixed(2)}B` : tvl >= 1e6 ? `$${(tvl / 1e6).toFixed(1)}M` : `$${Math.round(tvl / 1e3)}K`;
+
+const shortId = (id: string) => id.length > 14 ? `${id.slice(0, 8)}…${id.slice(-4)}` : id;
+
+/**
+ * Where a market value came from: whether it is live, a cached value and how
+ * old, or a built-in default, with the pools it was read from and a refresh.
+ */
+export const MarketDataProvenance: React.FC<MarketDataProvenanceProps> = ({ data, onRefresh, tone = 'default' }) => {
+  const [showSources, setShowSources] = useState(false);
+  const inverse = tone === 'inverse';
+
+  const status = data.isLoading
+    ? { label: 'Loading…', className: inverse ? 'bg-white/15 text-white' : 'bg-muted text-muted-foreground' }
+    : data.status === 'live'
+      ? { label: `Live • ${data.fetchedAt ? formatAge(data.fetchedAt) : ''}`, className: inverse ? 'bg-white/20 text-white' : 'bg-secondary/10 text-secondary' }
+      : data.status === 'cached'
+        ? { label: `Cached • ${data.fetchedAt ? formatAge(data.fetchedAt) : ''}`, className: 'bg-amber-500/15 text-amber-500' }
+        : { label: 'Default estimate', className: inverse ? 'bg-black/20 text-white' : 'bg-destructive/10 text-destructive' };
+  const mutedText = inverse ? 'text-white/70' : 'text-muted-foreground';
+
+  return <div className="text-xs">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span title={data.error ? `${data.provider} unavailable: ${data.error}` : `From ${data.provider}`} className={`font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+          {status.label}
+        </span>
+        {data.sources.length > 0 && <button onClick={() => setShowSources(prev => !prev)} className={`${mutedText} hover:underline`}>
+            {showSources ? 'Hide source' : 'Source'}
+          </button>}
+        {onRefresh && <button onClick={onRefresh} disabled={data.isFetching} className={`${mutedText} hover:opacity-80 disabled:opacity-50`} aria-label="Refresh">
+            <RefreshCw className={`w-3 h-3 ${data.isFetching ? 'animate-spin' : ''}`} />
+          </button>}
+      </div>
+      {showSources && <ul className={`mt-2 space-y-1 ${mutedText}`}>
+          {data.sources.map(source => <li key={source.poolId || source.name}>
+              <span className={inverse ? 'text-white' : 'text-foreground'}>{source.name}</span>
+              {source.poolId && <span title={source.poolId}> • pool {shortId(source.poolId)}</span>}
+              {source.tvlUsd !== undefined && <span> • TVL {formatTvl(source.tvlUsd)}</span>}
+              {source.apy !== undefined && <span> • {source.apy.toFixed(2)}%</span>}
+            </li>)}
+          <li>via {data.provider}{data.fetchedAt ? `, ${data.fetchedAt.toLocaleString()}` : ''}</li>
+        </ul>}
+      {data.status !== 'live' && data.error && !data.isLoading && <div className={`mt-1 ${mutedText}`}>Last refresh failed: {data.error}</div>}
+    </div>;
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useMarketSnapshots } from '@/hooks/use-market-snapshots';
+import type { MarketHistoryRange } from '@/services/marketSnapshotService';
+
+type HistoryMetric = 'apy' | 'btc';
+
+const RANGES: MarketHistoryRange[] = ['7D', '30D', '1Y'];
+
+const apyConfig: ChartConfig = {
+  strand1: { label: 'Strand 1 • Spark', color: 'hsl(12 90% 55%)' },
+  strand2: { label: 'Strand 2 • AAVE', color: 'hsl(270 70% 75%)' },
+  strand3: { label: 'Strand 3 • QuickSwap', color: 'hsl(190 90% 55%)' }
+};
+
+const btcConfig: ChartConfig = {
+  btc: { label: 'BTC Price', color: 'hsl(30 95% 58%)' }
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const MarketHistoryChart: React.FC = () => {
+  const [range, setRange] = useState<MarketHistoryRange>('30D');
+  const [metric, setMetric] = useState<HistoryMetric>('apy');
+  const { snapshots, source, error, isLoading } = useMarketSnapshots(range);
+
+  const rows = snapshots.map(snapshot => ({
+    time: snapshot.capturedAt.getTime(),
+    strand1: round(snapshot.strand1Apy, 2),
+    strand2: round(snapshot.strand2Apy, 2),
+    strand3: round(snapshot.strand3Apy, 2),
+    btc: Math.round(snapshot.btcPrice)
+  }));
+  const config = metric === 'apy' ? apyConfig : btcConfig;
+  const formatTick = (time: number) => new Date(time).toLocaleDateString(undefined, range === '1Y' ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' });
+
+  const tabClass = (isActive: boolean) => `px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${isActive ? 'bg-secondary text-white' : 'bg-muted/40 text-muted-foreground hover:text-foreground'}`;
+
+  return <div className="glass-card p-6 animate-fade-up stagger-3">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-secondary animate-pulse"></div>
+          Market History
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setMetric('apy')} className={tabClass(metric === 'apy')}>Strand APYs</button>
+          <button onClick={() => setMetric('btc')} className={tabClass(metric === 'btc')}>BTC Price</button>
+          <span className="w-px bg-border mx-1"></span>
+          {RANGES.map(option => <button key={option} onClick={() => setRange(option)} className={tabClass(range === option)}>{option}</button>)}
+        </div>
+      </div>
+
+      {isLoading ? <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">Loading history...</div> : rows.length < 2 ? <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+          {error ? `Market history unavailable: ${error}` : 'Not enough snapshots recorded for this range yet.'}
+        </div> : <ChartContainer config={config} className="h-64 w-full aspect-auto">
+          <LineChart data={rows} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid vertical={false} strokeDasharray="4 4" />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTick} tickLine={false} axisLine={false} minTickGap={32} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={metric === 'apy' ? 40 : 56}
+              domain={['auto', 'auto']}
+              tickFormatter={value => metric === 'apy' ? `${value}%` : `$${Math.round(value / 1000)}K`}
+            />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0] ? new Date(payload[0].payload.time).toLocaleString() : ''} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {Object.keys(config).map(key => <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />)}
+          </LineChart>
+        </ChartContainer>}
+
+      <div className="text-xs text-muted-foreground mt-3">
+        {source === 'local' ? 'Development stand-in data, not real market history.' : 'Recorded hourly from DeFi Llama and CoinGecko.'}
+        {' '}Points are averaged over {range === '7D' ? 'an hour' : range === '30D' ? '6 hours' : 'a day'}.
+      </div>
+    </div>;
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface MarketSparklineProps {
+  values: number[];
+  color: string;
+}
+
+/**
+ * A small trend line for the Live Market Data cards, scaled to its own range.
+ * Empty until there are at least two values.
+ */
+export const MarketSparkline: React.FC<MarketSparklineProps> = ({ values, color }) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const spread = max - min || 1;
+  const points = values.map((value, i) => `${10 + (i / (values.length - 1)) * 180},${35 - ((value - min) / spread) * 30}`).join(' ');
+
+  return <svg viewBox="0 0 200 40" className="w-full h-full" preserveAspectRatio="none">
+      {values.length > 1 && <polyline points={points} fill="none" stroke={color} strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />}
+    </svg>;
+};
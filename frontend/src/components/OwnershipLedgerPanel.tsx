@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { PieChart } from 'lucide-react';
+import { PENALTY_MISSED_DEPOSITS, type OwnershipLedger } from '@/lib/ownershipLedger';
+
+interface OwnershipLedgerPanelProps {
+  ledger: OwnershipLedger;
+  /** Identity of the signed-in member, highlighted as "Me" */
+  currentMember: string | null;
+}
+
+const HISTORY_PAGE_SIZE = 5;
+
+const shortId = (member: string) => `${member.slice(0, 6)}...${member.slice(-4)}`;
+
+export const OwnershipLedgerPanel: React.FC<OwnershipLedgerPanelProps> = ({ ledger, currentMember }) => {
+  const [visibleHistory, setVisibleHistory] = useState(HISTORY_PAGE_SIZE);
+  const label = (member: string) => member === currentMember ? 'Me' : shortId(member);
+  const history = [...ledger.history].reverse();
+
+  return <div className="space-y-4">
+      <h4 className="font-bold text-foreground flex items-center gap-2">
+        <PieChart className="w-4 h-4 text-primary" />
+        Ownership
+      </h4>
+
+      <div className="space-y-2">
+        {[...ledger.members].sort((a, b) => b.share - a.share).map(entry => <div key={entry.member} className="soft-card p-3">
+            <div className="flex justify-between items-center">
+              <div className="font-semibold text-foreground text-sm">{label(entry.member)}</div>
+              <div className="font-bold text-secondary tabular-nums">{entry.share.toFixed(2)}%</div>
+            </div>
+            <div className="progress-premium h-1.5 my-2">
+              <div className="bar bg-gradient-to-r from-primary to-secondary" style={{ width: `${entry.share}%` }}></div>
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+              <span>Contributed ${entry.contributed.toFixed(2)}</span>
+              <span className={entry.penaltyPoints > 0 ? 'text-destructive' : ''}>
+                Missed {entry.missedCount}{entry.penaltyPoints > 0 ? ` • −${entry.penaltyPoints.toFixed(2)}%` : ''}
+              </span>
+            </div>
+          </div>)}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Every {PENALTY_MISSED_DEPOSITS} missed deposits (after the 7-day grace period) move 3% ownership to the rest of the group.
+      </div>
+
+      {history.length > 0 && <div className="space-y-2">
+          <div className="text-sm font-semibold text-foreground">Share History</div>
+          {history.slice(0, visibleHistory).map((event, i) => <div key={`${event.at.getTime()}-${i}`} className="p-3 rounded-xl bg-muted/50 border border-border/50 text-xs">
+              <div className="flex justify-between">
+                <span className={event.type === 'penalty' ? 'text-destructive font-medium' : 'text-foreground font-medium'}>
+                  {event.type === 'penalty'
+                    ? `${label(event.member)} lost ${event.amount.toFixed(2)}% for missed deposits`
+                    : `${label(event.member)} deposited $${event.amount.toFixed(2)}`}
+                </span>
+                <span className="text-muted-foreground">{event.at.toLocaleDateString()}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-3 mt-1 text-muted-foreground tabular-nums">
+                {Object.entries(event.shares).map(([member, share]) => <span key={member}>{label(member)} {share.toFixed(1)}%</span>)}
+              </div>
+            </div>)}
+          {history.length > visibleHistory && <button onClick={() => setVisibleHistory(v => v + HISTORY_PAGE_SIZE)} className="w-full text-xs text-primary hover:underline py-1">
+              Show older changes
+            </button>}
+        </div>}
+    </div>;
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { MarketDataProvenance } from './MarketDataProvenance';
+import { usePoolScreening } from '@/hooks/use-market-data';
+import { POOL_MIN_SCORES, type PoolScores } from '@/lib/poolScreening';
+
+const SCORE_LABELS: Record<keyof PoolScores, string> = {
+  tvl: 'TVL',
+  stability: 'Stability',
+  ilRisk: 'IL risk',
+  stablecoin: 'Stablecoin'
+};
+
+const COLLAPSED_ROWS = 8;
+
+const formatTvl = (tvl: number) => tvl >= 1e9 ? `$${(tvl / 1e9).toFixed(2)}B` : tvl >= 1e6 ? `$${(tvl / 1e6).toFixed(1)}M` : `$${Math.round(tvl / 1e3)}K`;
+
+const scoreColor = (score: number) => score >= POOL_MIN_SCORES.low ? 'text-secondary' : score >= POOL_MIN_SCORES.high ? 'text-amber-500' : 'text-destructive';
+
+/**
+ * Strand 3 candidate pools ranked by quality score, with each risk level's
+ * pick marked.
+ */
+export const PoolScreeningPanel: React.FC = () => {
+  const screening = usePoolScreening();
+  const [showAll, setShowAll] = useState(false);
+  const { candidates, picks, riskScreened } = screening.value;
+  const rows = showAll ? candidates : candidates.slice(0, COLLAPSED_ROWS);
+  const picksFor = (poolId: string) => Object.keys(picks).filter(riskLevel => picks[riskLevel].poolId === poolId);
+
+  return <div className="glass-card p-6 animate-fade-up stagger-3">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-3 mb-2">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Strand 3 Pool Screening</h2>
+          <div className="text-sm text-muted-foreground">
+            Candidate pools scored on TVL, APY stability, impermanent loss and stablecoin exposure.
+            {riskScreened ? ' Each contract uses the pick for its risk level.' : ' Picks are shown for reference; the strand uses the top APY.'}
+          </div>
+        </div>
+        <MarketDataProvenance data={screening} onRefresh={screening.refresh} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 my-4">
+        {Object.keys(POOL_MIN_SCORES).map(riskLevel => {
+          const pick = picks[riskLevel];
+          return <div key={riskLevel} className="px-3 py-2 rounded-lg bg-muted/40 border border-border/40 text-sm">
+              <span className="capitalize font-medium text-foreground">{riskLevel}</span>
+              <span className="text-muted-foreground"> • score ≥ {POOL_MIN_SCORES[riskLevel]} • </span>
+              {pick ? <span className="font-semibold text-secondary">{pick.apy.toFixed(2)}%</span> : <span className="text-muted-foreground">—</span>}
+              {pick && !pick.meetsMinimum && <span className="text-amber-500"> (none qualify, best score used)</span>}
+            </div>;
+        })}
+      </div>
+
+      {candidates.length === 0 ? <div className="text-sm text-muted-foreground py-6 text-center">
+          {screening.isLoading ? 'Screening pools...' : 'No candidate pools to screen.'}
+        </div> : <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border/40">
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 pr-3 font-medium">Pool</th>
+                <th className="py-2 pr-3 font-medium text-right">Score</th>
+                <th className="py-2 pr-3 font-medium text-right">APY</th>
+                <th className="py-2 pr-3 font-medium text-right">30d Mean</th>
+                <th className="py-2 pr-3 font-medium text-right">TVL</th>
+                <th className="py-2 font-medium">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((candidate, i) => {
+                const riskLevels = picksFor(candidate.pool.pool);
+                return <tr key={candidate.pool.pool} className={`border-b border-border/20 ${riskLevels.length > 0 ? 'bg-secondary/5' : ''}`}>
+                    <td className="py-2 pr-3 text-muted-foreground">{i + 1}</td>
+                    <td className="py-2 pr-3">
+                      <div className="font-medium text-foreground">{candidate.pool.symbol}</div>
+                      <div className="text-xs text-muted-foreground">{candidate.pool.project}</div>
+                    </td>
+                    <td className="py-2 pr-3 text-right" title={(Object.keys(SCORE_LABELS) as (keyof PoolScores)[]).map(key => `${SCORE_LABELS[key]}: ${Math.round(candidate.scores[key] * 100)}`).join('\n')}>
+                      <span className={`font-semibold ${scoreColor(candidate.score)}`}>{Math.round(candidate.score)}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-right text-foreground">{candidate.pool.apy.toFixed(2)}%</td>
+                    <td className="py-2 pr-3 text-right text-muted-foreground">{typeof candidate.pool.apyMean30d === 'number' ? `${candidate.pool.apyMean30d.toFixed(2)}%` : '—'}</td>
+                    <td className="py-2 pr-3 text-right text-muted-foreground">{formatTvl(candidate.pool.tvlUsd)}</td>
+                    <td className="py-2 text-xs">
+                      {riskLevels.map(riskLevel => <span key={riskLevel} className="inline-block mr-1 mb-1 px-2 py-0.5 rounded-full bg-secondary/10 text-secondary capitalize">{riskLevel} pick</span>)}
+                      {candidate.flags.map(flag => <span key={flag} className="inline-block mr-1 mb-1 px-2 py-0.5 rounded-full bg-muted text-muted-foreground">{flag}</span>)}
+                    </td>
+                  </tr>;
+              })}
+            </tbody>
+          </table>
+          {candidates.length > COLLAPSED_ROWS && <button onClick={() => setShowAll(prev => !prev)} className="mt-3 text-sm text-muted-foreground hover:text-foreground">
+              {showAll ? 'Show fewer' : `Show all ${candidates.length} pools`}
+            </button>}
+        </div>}
+    </div>;
+};
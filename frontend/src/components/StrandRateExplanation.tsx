@@ -0,0 +1,67 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useStrandRateConfig } from '@/hooks/use-strand-rate-config';
+import { STRAND_KEYS, describeStrandRule, type StrandKey } from '@/lib/strandRates';
+
+interface StrandRateExplanationProps {
+  /** The rates currently shown for each strand */
+  rates: Record<StrandKey, number>;
+  /** Strand 3 rate projections use at each risk level, when the rule is risk screened */
+  riskAdjustedStrand3?: Record<string, number>;
+}
+
+/**
+ * For admins: how each strand's live APY is derived from DeFi Llama pools,
+ * which config the rules came from, and why a saved override was rejected.
+ */
+export const StrandRateExplanation: React.FC<StrandRateExplanationProps> = ({ rates, riskAdjustedStrand3 }) => {
+  const { result, isLoading, reload, isReloading } = useStrandRateConfig();
+
+  return <div className="glass-card p-6 animate-fade-up stagger-3">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h2 className="text-xl font-semibold text-foreground">How Strand Rates Are Derived</h2>
+        <button onClick={reload} disabled={isReloading} className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground disabled:opacity-50">
+          <RefreshCw className={`w-4 h-4 ${isReloading ? 'animate-spin' : ''}`} />
+          Reload config
+        </button>
+      </div>
+
+      {isLoading || !result ? <div className="text-sm text-muted-foreground">Loading strand config...</div> : <>
+          <div className="text-sm text-muted-foreground mb-4">
+            {result.source === 'supabase'
+              ? `Using the saved config from Supabase${result.updatedAt ? `, updated ${result.updatedAt.toLocaleString()}` : ''}.`
+              : 'Using the bundled config (src/data/strandRateConfig.ts).'}
+            {' '}Admin only.
+          </div>
+
+          {result.errors.length > 0 && <div className="mb-4 p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-sm">
+              <div className="font-medium text-destructive mb-1">The saved config was not used</div>
+              <ul className="list-disc pl-5 text-muted-foreground space-y-0.5">
+                {result.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {STRAND_KEYS.map((key, i) => {
+              const rule = result.config.strands[key];
+              return <div key={key} className="p-4 bg-muted/40 rounded-xl border border-border/40">
+                  <div className="flex items-baseline justify-between mb-2">
+                    <div className="font-semibold text-foreground">Strand {i + 1} • {rule.label}</div>
+                    <div className="text-sm font-medium text-secondary">{rates[key].toFixed(2)}%</div>
+                  </div>
+                  <ol className="list-decimal pl-5 text-sm text-muted-foreground space-y-1">
+                    {describeStrandRule(rule).map(step => <li key={step}>{step}</li>)}
+                  </ol>
+                  {key === 'strand3' && riskAdjustedStrand3 && <div className="mt-3 pt-3 border-t border-border/40 text-sm">
+                      <div className="text-muted-foreground mb-1">Used in contract projections:</div>
+                      {Object.entries(riskAdjustedStrand3).map(([riskLevel, apy]) => <div key={riskLevel} className="flex justify-between">
+                          <span className="capitalize text-foreground">{riskLevel} risk</span>
+                          <span className="font-medium text-secondary">{apy.toFixed(2)}%</span>
+                        </div>)}
+                    </div>}
+                </div>;
+            })}
+          </div>
+        </>}
+    </div>;
+};
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Check } from 'lucide-react';
+import { getContractFees } from '@/lib/feeSchedule';
+import {
+  getPhase2Config,
+  runStrandSimulation,
+  type ChartDataPoint,
+  type StrandApys
+} from '@/lib/simulationEngine';
+import type { TemplateSettings } from '@/types/vault';
+
+interface ComparisonTemplate {
+  id: string;
+  name: string;
+  settings: TemplateSettings;
+}
+
+interface TemplateComparisonProps {
+  templates: ComparisonTemplate[];
+  /** Current live strand APYs */
+  apys: StrandApys;
+}
+
+interface TemplateProjection {
+  template: ComparisonTemplate;
+  points: ChartDataPoint[];
+  years: number;
+  phase2Year: number | null;
+}
+
+const MIN_SELECTED = 2;
+const MAX_SELECTED = 4;
+const CURVE_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#a855f7'];
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const formatTerm = (years: number) => years < 1 ? `${Math.round(years * 12)} mo` : `${years} yr`;
+
+const finalPoint = (p: TemplateProjection) => p.points[p.points.length - 1];
+
+const COMPARISON_ROWS: { label: string; render: (p: TemplateProjection) => React.ReactNode }[] = [
+  { label: 'Final value', render: p => formatUsd(finalPoint(p)?.total ?? 0) },
+  { label: 'Total deposited', render: p => formatUsd(finalPoint(p)?.initialDeposits ?? 0) },
+  { label: 'Fees', render: p => formatUsd(finalPoint(p) ? finalPoint(p).cumulativeGasFees + finalPoint(p).cumulativeUtilityFees : 0) },
+  { label: 'Risk level', render: p => <span className="capitalize">{p.template.settings.riskLevel}</span> },
+  { label: 'Lockup', render: p => formatTerm(p.years) },
+  {
+    label: 'Phase 2',
+    render: p => p.phase2Year === null ? 'Not reached' : p.phase2Year < 1 ? `Week ${Math.round(p.phase2Year * 52)}` : `Year ${p.phase2Year.toFixed(1)}`
+  }
+];
+
+// Same strand model as the Future page, for one member following the template
+function projectTemplate(template: ComparisonTemplate, apys: StrandApys): TemplateProjection {
+  const { settings } = template;
+  const years = settings.isChargedContract ? settings.lockupPeriod / 12 : settings.lockupPeriod;
+  const weeks = Math.round(years * 52);
+  const { points, phase2Week } = runStrandSimulation({
+    apys,
+    years,
+    plan: settings,
+    riskLevel: settings.riskLevel,
+    phase2: getPhase2Config(settings),
+    fees: getContractFees(settings.isChargedContract),
+    memberCount: 1,
+    // Enough points for a smooth curve on short terms too
+    interval: Math.max(1, Math.round(weeks / 40))
+  });
+  return { template, points, years, phase2Year: phase2Week === null ? null : phase2Week / 52 };
+}
+
+export const TemplateComparison: React.FC<TemplateComparisonProps> = ({ templates, apys }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => templates.slice(0, MIN_SELECTED).map(t => t.id));
+
+  const toggle = (id: string) => setSelectedIds(prev => prev.includes(id)
+    ? prev.filter(selected => selected !== id)
+    : prev.length < MAX_SELECTED ? [...prev, id] : prev);
+
+  const projections = useMemo(
+    () => templates.filter(t => selectedIds.includes(t.id)).map(t => projectTemplate(t, apys)),
+    [templates, selectedIds, apys]
+  );
+
+  const maxYears = Math.max(...projections.map(p => p.years), 0);
+  const maxValue = Math.max(...projections.flatMap(p => p.points.map(point => Math.max(point.total, point.initialDeposits))), 1);
+  const toX = (year: number) => maxYears > 0 ? (year / maxYears) * 400 : 0;
+  const toY = (value: number) => 160 - (value / maxValue) * 140;
+
+  return <div className="space-y-4">
+      <div>
+        <div className="text-xs font-semibold text-white/50 mb-2 uppercase tracking-wider">
+          Pick {MIN_SELECTED}-{MAX_SELECTED} templates
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {templates.map(t => {
+            const isSelected = selectedIds.includes(t.id);
+            return <button key={t.id} onClick={() => toggle(t.id)} disabled={!isSelected && selectedIds.length >= MAX_SELECTED} className={`px-3 py-1.5 rounded-full text-xs font-medium flex items-center gap-1.5 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${isSelected ? 'bg-white text-slate-900' : 'bg-white/10 text-white/80 hover:bg-white/20'}`}>
+                {isSelected && <Check className="w-3 h-3" style={{ color: CURVE_COLORS[projections.findIndex(p => p.template.id === t.id)] }} />}
+                {t.name}
+              </button>;
+          })}
+        </div>
+      </div>
+
+      {projections.length < MIN_SELECTED ? <div className="text-white/50 text-sm">Pick at least {MIN_SELECTED} templates to compare.</div> : <>
+          {/* Overlaid projected value curves */}
+          <div className="bg-white/5 rounded-xl p-4">
+            <div className="h-44 relative">
+              <svg viewBox="0 0 400 170" className="w-full h-full" preserveAspectRatio="none">
+                {[0, 1, 2, 3].map(i => <line key={i} x1="0" y1={20 + i * 46.67} x2="400" y2={20 + i * 46.67} stroke="white" strokeOpacity="0.1" strokeWidth="0.5" strokeDasharray="4,4" />)}
+                {projections.map((projection, i) => <g key={projection.template.id}>
+                    <path d={projection.points.map((point, j) => `${j === 0 ? 'M' : 'L'} ${toX(point.year)} ${toY(point.total)}`).join(' ')} fill="none" stroke={CURVE_COLORS[i]} strokeWidth="2.5" strokeLinejoin="round" />
+                    {projection.phase2Year !== null && <circle cx={toX(projection.phase2Year)} cy={toY(projection.points.find(point => point.year >= projection.phase2Year)?.total ?? 0)} r="3.5" fill={CURVE_COLORS[i]} stroke="white" strokeWidth="1" />}
+                  </g>)}
+              </svg>
+              <div className="absolute bottom-0 left-0 right-0 flex justify-between text-xs text-white/50">
+                <span>Start</span>
+                <span>{formatTerm(maxYears)}</span>
+              </div>
+            </div>
+            <div className="text-xs text-white/50 mt-2">Projected value at current live rates. Dots mark the Phase 2 switchover.</div>
+          </div>
+
+          {/* Side-by-side figures */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-white">
+              <thead>
+                <tr className="text-xs text-white/50 text-left">
+                  <th className="py-2 pr-3 font-semibold"></th>
+                  {projections.map((projection, i) => <th key={projection.template.id} className="py-2 px-2 font-semibold text-right">
+                      <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: CURVE_COLORS[i] }}></span>
+                      {projection.template.name}
+                    </th>)}
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {COMPARISON_ROWS.map(({ label, render }) => <tr key={label} className="border-t border-white/10">
+                    <td className="py-2 pr-3 text-white/60 text-xs">{label}</td>
+                    {projections.map(projection => <td key={projection.template.id} className="py-2 px-2 text-right">{render(projection)}</td>)}
+                  </tr>)}
+              </tbody>
+            </table>
+          </div>
+        </>}
+    </div>;
+};
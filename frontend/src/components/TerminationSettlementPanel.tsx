@@ -0,0 +1,68 @@
+import React from 'react';
+import { YIELD_RETENTION_RATE, type GroupTerminationBreakdown } from '@/lib/settlement';
+
+interface TerminationSettlementPanelProps {
+  breakdown: GroupTerminationBreakdown;
+  /** Identity of the signed-in member, highlighted in the table */
+  currentMember: string;
+  /** Set once the termination has passed; without it the panel is a preview */
+  settledAt?: string | null;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+const shortId = (member: string) => `${member.slice(0, 6)}...${member.slice(-4)}`;
+
+export const TerminationSettlementPanel: React.FC<TerminationSettlementPanelProps> = ({ breakdown, currentMember, settledAt }) => {
+  const retentionPercent = Math.round(YIELD_RETENTION_RATE * 100);
+
+  return <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="text-sm font-semibold text-foreground">
+          {settledAt ? 'Settlement statement' : 'Settlement preview'}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {settledAt ? `Settled ${new Date(settledAt).toLocaleDateString()}` : 'At the current balance'}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="p-2 rounded-lg bg-background/50">
+          <div className="text-muted-foreground">Contract value</div>
+          <div className="font-semibold text-foreground tabular-nums">{formatUsd(breakdown.totalValue)}</div>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <div className="text-muted-foreground">Principal</div>
+          <div className="font-semibold text-foreground tabular-nums">{formatUsd(breakdown.totalPrincipal)}</div>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <div className="text-muted-foreground">Total yield</div>
+          <div className="font-semibold text-foreground tabular-nums">{formatUsd(breakdown.totalYield)}</div>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <div className="text-muted-foreground">Reserve ({retentionPercent}% of yield)</div>
+          <div className="font-semibold text-defi-orange tabular-nums">{formatUsd(breakdown.retainedYield)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <div className="grid grid-cols-4 gap-2 text-muted-foreground pb-1 border-b border-border/50">
+          <span>Member</span>
+          <span className="text-right">Principal</span>
+          <span className="text-right">Yield</span>
+          <span className="text-right">Payout</span>
+        </div>
+        {breakdown.members.map(entry => <div key={entry.member} className={`grid grid-cols-4 gap-2 tabular-nums ${entry.member === currentMember ? 'text-secondary font-semibold' : 'text-foreground'}`}>
+            <span className="font-mono truncate">{entry.member === currentMember ? 'You' : shortId(entry.member)}</span>
+            <span className="text-right">{formatUsd(entry.principal)}</span>
+            <span className="text-right">{formatUsd(entry.yieldShare)}</span>
+            <span className="text-right">{formatUsd(entry.payout)}</span>
+          </div>)}
+      </div>
+
+      {breakdown.totalYield < 0 ? <p className="text-xs text-muted-foreground">
+          The contract is worth less than its principal, so nothing is retained and principal is returned pro-rata.
+        </p> : <p className="text-xs text-muted-foreground">
+          Principal is returned in full. {100 - retentionPercent}% of the yield is split by ownership share.
+        </p>}
+    </div>;
+};
@@ -1,19 +1,68 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Database, User, Users, TrendingUp, X, Bitcoin, DollarSign, Zap, Shield, ArrowLeft, Wallet, Home, Share2, FileText, ChevronLeft, ChevronRight, Clock, Target, Sparkles, Flame, Rocket, Crown, TestTube, Settings, Check, Copy, Eye } from 'lucide-react';
+import { Database, User, Users, TrendingUp, X, Bitcoin, DollarSign, Zap, Shield, ArrowLeft, Wallet, Home, Share2, FileText, ChevronLeft, ChevronRight, Clock, Target, Sparkles, Flame, Rocket, Crown, TestTube, Settings, Check, Copy, Eye, RefreshCw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import type { Session } from '@supabase/supabase-js';
 import { ThemeToggle } from './ThemeToggle';
 import VaultBackground from './VaultBackground';
 import { TutorialProvider, useTutorial, TutorialBubble } from './tutorial';
 import { ToSAgreementModal, ToSViewer } from './ToSAgreementModal';
+import { DepositActivity } from './DepositActivity';
+import { DepositObligations } from './DepositObligations';
+import { OwnershipLedgerPanel } from './OwnershipLedgerPanel';
+import { ContractGovernance } from './ContractGovernance';
+import { EmergencyExitModal } from './EmergencyExitModal';
+import { ContractSettingsControls } from './ContractSettingsControls';
+import { EditContractModal } from './EditContractModal';
+import { BacktestPanel } from './BacktestPanel';
+import { TemplateComparison } from './TemplateComparison';
+import { GoalPlanner } from './GoalPlanner';
+import { MarketDataProvenance } from './MarketDataProvenance';
+import { MarketHistoryChart } from './MarketHistoryChart';
+import { MarketSparkline } from './MarketSparkline';
+import { PoolScreeningPanel } from './PoolScreeningPanel';
+import { StrandRateExplanation } from './StrandRateExplanation';
 import { 
   registerUser, 
   signInUser, 
   signOutUser, 
   triggerWalletCreation,
   fetchExistingWallet,
+  isCurrentUserAdmin,
   onAuthStateChange as authStateChange
 } from '@/services/authService';
+import { fetchContractDepositLedger, fetchDepositHistory, recordDeposit, type ContractDeposit } from '@/services/depositService';
+import { fetchGasEstimate, type GasEstimate } from '@/services/gasService';
+import { useBitcoinPrice, useLendingRates, usePoolScreening, useQuickSwapApy, useRefreshMarketData } from '@/hooks/use-market-data';
+import { useMarketSnapshots } from '@/hooks/use-market-snapshots';
+import { buildDepositSchedule, getAmountDueNow, getNextPaymentWindow, getWeeklyDepositAmount } from '@/lib/depositSchedule';
+import { buildOwnershipLedger, getWeightedOwnershipShare } from '@/lib/ownershipLedger';
+import { computeGroupTermination, computeIndividualExit } from '@/lib/settlement';
+import { DEFAULT_MONTE_CARLO_CONFIG, type MonteCarloConfig } from '@/lib/monteCarlo';
+import { useMonteCarlo } from '@/hooks/use-monte-carlo';
+import { buildContractStatement, buildProjectionTable, downloadCsv, printTables, summarizeStatementPeriods } from '@/lib/exporters';
+import { DEFAULT_RISK_LEVEL, formatAllocationPercent, getBlendedApy, getHoldingsAllocation, getStrandAllocation, splitDeposit, type ContractPhase } from '@/lib/allocation';
+import { exitContract, fetchContractExits, fetchContractSettlements, type ContractExit, type ContractSettlement } from '@/services/settlementService';
+import { createContract, fetchContract, fetchContractByAddress, fetchPublicContracts, fetchUserContracts, joinContract } from '@/services/contractService';
+import {
+  DEFAULT_PHASE2_TRIGGER,
+  DEFAULT_INFLATION_RATE,
+  describePhase2Trigger,
+  getCurrentContractPhase,
+  getFeeDrag,
+  getPhase2Config,
+  projectContractPhase2,
+  runBlendedCompound,
+  runStrandSimulation,
+  simulateStrands,
+  toCompoundPoints,
+  toRealValue,
+  type ChartDataPoint,
+  type Phase2TriggerConfig,
+  type SimulationInputs,
+  type StrandApys
+} from '@/lib/simulationEngine';
+import { getContractFees, getUtilityFeeRate, getWeeklyFees, summarizeAccruedFees } from '@/lib/feeSchedule';
+import type { ClubCreationData, DepositFrequency, Subclub, TemplateSettings } from '@/types/vault';
 
 // Type declarations
 interface VaultStats {
@@ -25,66 +74,6 @@ interface VaultStats {
   strand2Balance: string;
   strand3Balance: string;
 }
-interface AaveRates {
-  liquidityRate: number;
-  aavePolygonRate: number;
-}
-interface SchedulePeriod {
-  yearStart: number;
-  yearEnd: number;
-  amount: number;
-}
-interface ClubCreationData {
-  lockupPeriod: number;
-  rigorLevel: string;
-  riskLevel: string;
-  maxMembers: number;
-  isPrivate: boolean;
-  isChargedContract: boolean;
-  customDepositFrequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  customWeeklyAmount: number;
-  customSchedule: SchedulePeriod[];
-  // Phase 2 trigger settings
-  phase2TriggerType: 'time' | 'value' | 'both';
-  phase2TimePercent: number; // 0-100
-  phase2ValueThreshold: number; // Dollar amount
-}
-interface Subclub {
-  id: number;
-  contractAddress: string;
-  creator: string | null;
-  maxMembers: number;
-  lockupPeriod: number;
-  rigorLevel: string;
-  riskLevel: string;
-  isPrivate: boolean;
-  isChargedContract: boolean;
-  currentMembers: number;
-  createdAt: string;
-  status: string;
-  totalDeposits: number;
-  members: string[];
-  borderColor: string;
-  customDepositFrequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  customWeeklyAmount?: number;
-  customSchedule?: SchedulePeriod[];
-  strand1Balance: string;
-  strand2Balance: string;
-  strand3Balance: string;
-  totalContractBalance: string;
-}
-interface ChartDataPoint {
-  year: number;
-  total: number;
-  strand1: number;
-  strand2: number;
-  strand3: number;
-  wbtc: number;
-  phase: number;
-  initialDeposits: number;
-  cumulativeGasFees: number;
-  cumulativeUtilityFees: number;
-}
 interface StrandData {
   title: string;
   subtitle: string;
@@ -95,24 +84,29 @@ interface StrandData {
   icon: React.ReactNode;
 }
 
-// Rigor amounts mapping
-const rigorAmounts: Record<string, number> = {
-  light: 25,
-  medium: 50,
-  heavy: 100,
-  custom: 0
-};
-const toWeeklyAmount = (amount: number, frequency: 'daily' | 'weekly' | 'monthly' = 'weekly') => {
-  if (frequency === 'daily') return amount * 7;
-  if (frequency === 'monthly') return amount * 12 / 52;
-  return amount;
-};
-const periodsPerYear = (frequency: 'daily' | 'weekly' | 'monthly' = 'weekly') => {
-  if (frequency === 'daily') return 365;
-  if (frequency === 'monthly') return 12;
-  return 52;
+// Keeps contracts unique by id, letting the later list win
+const mergeContracts = (current: Subclub[], incoming: Subclub[]) => {
+  const byId = new Map(current.map(club => [club.id, club]));
+  incoming.forEach(club => byId.set(club.id, club));
+  return Array.from(byId.values());
 };
 
+// Joins a contract through the server and returns it with its refreshed member list
+async function joinContractAndReload(contract: Subclub, walletAddress: string): Promise<Subclub | null> {
+  const result = await joinContract(contract.id, getWeeklyDepositAmount(contract, new Date(contract.createdAt)), walletAddress);
+  if (!result.success) {
+    alert(`❌ ${result.error}`);
+    return null;
+  }
+  const refreshed = await fetchContract(contract.id);
+  alert(`✅ Successfully joined contract!\n\n${contract.lockupPeriod} ${contract.isChargedContract ? 'Month' : 'Year'} Lockup • ${contract.rigorLevel.charAt(0).toUpperCase() + contract.rigorLevel.slice(1)} Rigor\n\nYou can now start making deposits according to the contract schedule.`);
+  return refreshed.success ? refreshed.contract : {
+    ...contract,
+    currentMembers: contract.currentMembers + 1,
+    members: [...contract.members, walletAddress]
+  };
+}
+
 // Connect wallet and return address or null
 async function connectWallet(): Promise<string | null> {
   if (typeof window === 'undefined' || !window.ethereum) {
@@ -143,133 +137,11 @@ async function getVaultStats(): Promise<VaultStats> {
   };
 }
 
-// Get Spark Protocol USDC and AAVE lending rates on Polygon
-// AAVE rate: Supply USDC rate from AAVE V3 on Polygon
-async function getAaveRates(): Promise<AaveRates> {
-  try {
-    const response = await fetch('https://yields.llama.fi/pools');
-    if (!response.ok) {
-      throw new Error('API response not ok');
-    }
-    
-    const data = await response.json();
-    
-    // Spark Protocol USDC lending on Ethereum
-    const sparkPool = data.data.find((pool: {
-      project: string;
-      chain: string;
-      symbol: string;
-      apy: number;
-    }) => pool.project === 'sparklend' && pool.chain === 'Ethereum' && pool.symbol.includes('USDC'));
-    
-    // AAVE V3 on Polygon - USDC Supply rate
-    const aaveUsdcPolygon = data.data.find((pool: {
-      project: string;
-      chain: string;
-      symbol: string;
-      apy: number;
-    }) => pool.project === 'aave-v3' && pool.chain === 'Polygon' && pool.symbol === 'USDC');
-    
-    // AAVE V3 on Polygon - DAI Supply rate (for reference in re-deposit strategy)
-    const aaveDaiPolygon = data.data.find((pool: {
-      project: string;
-      chain: string;
-      symbol: string;
-      apy: number;
-    }) => pool.project === 'aave-v3' && pool.chain === 'Polygon' && pool.symbol === 'DAI');
-    
-    const usdcSupplyRate = aaveUsdcPolygon?.apy || 3.0;
-    const daiSupplyRate = aaveDaiPolygon?.apy || 3.6;
-    
-    // Calculate combined rate: USDC supply + DAI supply averaged (simulating re-deposit strategy)
-    // This represents supplying USDC, and the potential of re-depositing into DAI
-    const combinedRate = (usdcSupplyRate + daiSupplyRate) / 2 * 1.2; // 1.2x for yield optimization
-    
-    return {
-      liquidityRate: sparkPool?.apy || 3.5,
-      aavePolygonRate: combinedRate
-    };
-  } catch (error) {
-    console.error("Error fetching lending rates:", error);
-    return {
-      liquidityRate: 3.5,
-      aavePolygonRate: 4.0
-    };
-  }
-}
-
-// Get QuickSwap top bond/pool rate on Polygon
-async function getQuickSwapAPY(): Promise<number> {
-  try {
-    const response = await fetch('https://yields.llama.fi/pools');
-    if (response.ok) {
-      const data = await response.json();
-      // Find all QuickSwap pools on Polygon and get the top APY
-      const quickswapPools = data.data.filter((pool: {
-        project: string;
-        chain: string;
-        symbol: string;
-        apy: number;
-        tvlUsd: number;
-      }) => (pool.project === 'quickswap-v3' || pool.project === 'quickswap-dex' || pool.project === 'quickswap') 
-           && pool.chain === 'Polygon' 
-           && pool.tvlUsd > 100000 // Only consider pools with decent TVL
-           && pool.apy > 0);
-      
-      if (quickswapPools.length > 0) {
-        // Sort by APY descending and get the top one
-        quickswapPools.sort((a: { apy: number }, b: { apy: number }) => b.apy - a.apy);
-        return quickswapPools[0].apy;
-      }
-      
-      // Fallback: look for any high-yield Polygon pool
-      const polygonPools = data.data.filter((pool: {
-        chain: string;
-        apy: number;
-        tvlUsd: number;
-      }) => pool.chain === 'Polygon' && pool.tvlUsd > 500000 && pool.apy > 0);
-      
-      if (polygonPools.length > 0) {
-        polygonPools.sort((a: { apy: number }, b: { apy: number }) => b.apy - a.apy);
-        return Math.min(polygonPools[0].apy, 25); // Cap at 25% for reasonable display
-      }
-      
-      return 12.5; // Default fallback
-    }
-    throw new Error('API call failed');
-  } catch (error) {
-    console.error("Error fetching QuickSwap Rate:", error);
-    return 12.5;
-  }
-}
-
-// Get live Bitcoin price
-async function getBitcoinPrice(): Promise<number> {
-  try {
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd');
-    if (response.ok) {
-      const data = await response.json();
-      return data.bitcoin.usd;
-    }
-    throw new Error('API call failed');
-  } catch (error) {
-    console.error("Error fetching Bitcoin price:", error);
-    return 95000;
-  }
-}
-
 // Get member allocation data from contract
 async function getMemberAllocation(): Promise<unknown[]> {
   return [];
 }
 
-// Calculate simple averaged effective APY from 3 strand APYs
-function calculateAveragedAPY(apy1: number, apy2: number, apy3: number): number {
-  // Weighted average based on allocation: 10% Strand 1, 60% Strand 2, 30% Strand 3
-  const weightedAPY = (apy1 * 0.10) + (apy2 * 0.60) + (apy3 * 0.30);
-  return weightedAPY;
-}
-
 // Deposit amount (in ether) to vault contract
 async function depositToVault(amountEther: number): Promise<boolean> {
   if (typeof window === 'undefined' || !window.ethereum) {
@@ -353,6 +225,7 @@ const VaultClubWebsiteInner: React.FC<{
   // Template selection state
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [templateCarouselIndex, setTemplateCarouselIndex] = useState(0);
+  const [showTemplateComparison, setShowTemplateComparison] = useState(false);
   const [showCustomControls, setShowCustomControls] = useState(false);
   
   // Strands modal state
@@ -378,23 +251,53 @@ const VaultClubWebsiteInner: React.FC<{
   const [apyStrand1, setApyStrand1] = useState(3.5);
   const [apyStrand2, setApyStrand2] = useState(7.5);
   const [apyStrand3, setApyStrand3] = useState(12.5);
-  const [btcPrice, setBtcPrice] = useState(95000);
-  const [aaveRates, setAaveRates] = useState({
-    liquidityRate: 3.5,
-    aavePolygonRate: 7.5
-  });
-  const [quickSwapAPY, setQuickSwapAPY] = useState(12.5);
+  // Set once the calculator's APY slider is moved; live rate refreshes then leave the strand APYs alone
+  const [strandApysOverridden, setStrandApysOverridden] = useState(false);
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
+  // Spark & AAVE Polygon rates for Strands 1 and 2, QuickSwap for Strand 3, and the Bitcoin price
+  const lendingRates = useLendingRates();
+  const quickSwapApy = useQuickSwapApy();
+  const poolScreening = usePoolScreening();
+  const bitcoinPrice = useBitcoinPrice();
+  const aaveRates = lendingRates.value;
+  const quickSwapAPY = quickSwapApy.value;
+  const btcPrice = bitcoinPrice.value;
+  const marketDataRefresh = useRefreshMarketData();
+  // Last week of recorded rates for the Live Market Data sparklines
+  const weeklySnapshots = useMarketSnapshots('7D').snapshots;
+  // BTC price change across those snapshots; null until there are two to compare
+  const weeklyBtcChange = weeklySnapshots.length >= 2 && weeklySnapshots[0].btcPrice > 0
+    ? weeklySnapshots[weeklySnapshots.length - 1].btcPrice / weeklySnapshots[0].btcPrice - 1
+    : null;
   const [selectedContract, setSelectedContract] = useState(null);
-  const [showExtendedLockup, setShowExtendedLockup] = useState(false);
+  // Strand 3's screened pool for a risk level, when the strand rule asks for it
+  const getRiskAdjustedStrand3 = (riskLevel: string = DEFAULT_RISK_LEVEL) => poolScreening.value.riskScreened
+    ? poolScreening.value.picks[riskLevel] ?? poolScreening.value.picks[DEFAULT_RISK_LEVEL]
+    : undefined;
   const [simulationYears, setSimulationYears] = useState(15);
   const [simulationRigor, setSimulationRigor] = useState('heavy');
   const [customSimulationAmount, setCustomSimulationAmount] = useState(75);
   const [customDepositFrequency, setCustomDepositFrequency] = useState<'daily' | 'weekly' | 'monthly' | 'yearly'>('weekly');
-  const [chartData, setChartData] = useState([]);
+  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [projectionMode, setProjectionMode] = useState<'expected' | 'monteCarlo'>('expected');
+  const [monteCarloConfig, setMonteCarloConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO_CONFIG);
+  const [showRealValues, setShowRealValues] = useState(false);
+  const [inflationPercent, setInflationPercent] = useState(DEFAULT_INFLATION_RATE * 100);
+  // The Future page's own assumptions, independent of whichever contract was last opened
+  const [simulationPhase2, setSimulationPhase2] = useState<Phase2TriggerConfig>(DEFAULT_PHASE2_TRIGGER);
+  const [simulationRiskLevel, setSimulationRiskLevel] = useState(DEFAULT_RISK_LEVEL);
+  const [simulationCharged, setSimulationCharged] = useState(false);
+  const [simulationMembers, setSimulationMembers] = useState(1);
 
   // Subclub management
-  const [deployedSubclubs, setDeployedSubclubs] = useState([]);
-  const [lastDepositTime, setLastDepositTime] = useState(null);
+  const [deployedSubclubs, setDeployedSubclubs] = useState<Subclub[]>([]);
+  const [depositLedgerVersion, setDepositLedgerVersion] = useState(0);
+  const [depositHistory, setDepositHistory] = useState<ContractDeposit[]>([]);
+  const [contractLedgerDeposits, setContractLedgerDeposits] = useState<ContractDeposit[]>([]);
+  const [contractExits, setContractExits] = useState<ContractExit[]>([]);
+  const [contractSettlements, setContractSettlements] = useState<ContractSettlement[]>([]);
+  const [exitingContract, setExitingContract] = useState<Subclub | null>(null);
+  const [editingContract, setEditingContract] = useState<Subclub | null>(null);
   const [showCopiedBanner, setShowCopiedBanner] = useState(false);
 
   // Auth modal states
@@ -404,6 +307,7 @@ const VaultClubWebsiteInner: React.FC<{
   const [authPassword, setAuthPassword] = useState('');
   const [authConfirmPassword, setAuthConfirmPassword] = useState('');
   const [session, setSession] = useState<Session | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState('');
   const [authSuccess, setAuthSuccess] = useState('');
@@ -491,64 +395,145 @@ const VaultClubWebsiteInner: React.FC<{
     return () => subscription.unsubscribe();
   }, []);
 
+  // Admins see how the strand rates are derived on the Dataset page
+  const sessionUserId = session?.user?.id;
+  useEffect(() => {
+    if (!sessionUserId) {
+      setIsAdmin(false);
+      return;
+    }
+    let cancelled = false;
+    isCurrentUserAdmin().then(admin => {
+      if (!cancelled) setIsAdmin(admin);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionUserId]);
+
+  // Hydrate persisted contracts once the user is signed in and their wallet is known
+  useEffect(() => {
+    if (!walletConnected || !walletAddress) {
+      setDeployedSubclubs([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([fetchUserContracts(), fetchPublicContracts()]).then(([userResult, publicResult]) => {
+      if (cancelled) return;
+      if (!userResult.success) {
+        console.error('[VaultClub] Failed to load contracts:', userResult.error);
+      }
+      if (!publicResult.success) {
+        console.error('[VaultClub] Failed to load public contracts:', publicResult.error);
+      }
+      setDeployedSubclubs(mergeContracts(publicResult.contracts, userResult.contracts));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletConnected, walletAddress]);
+
+  // Load the user's deposit ledger for schedule tracking, and again after each deposit
+  useEffect(() => {
+    if (!walletConnected || !walletAddress) {
+      setDepositHistory([]);
+      return;
+    }
+    let cancelled = false;
+    fetchDepositHistory().then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setDepositHistory(result.deposits);
+      } else {
+        console.error('[VaultClub] Failed to load deposit history:', result.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletConnected, walletAddress, depositLedgerVersion]);
+
+  // Load every member's deposits, exits and settlements for the user's contracts for the ownership ledger
+  const userContractIds = deployedSubclubs.filter(club => club.members.includes(walletAddress)).map(club => club.id).join(',');
+  useEffect(() => {
+    if (!userContractIds) {
+      setContractLedgerDeposits([]);
+      setContractExits([]);
+      setContractSettlements([]);
+      return;
+    }
+    let cancelled = false;
+    const contractIds = userContractIds.split(',');
+    Promise.all([
+      fetchContractDepositLedger(contractIds),
+      fetchContractExits(contractIds),
+      fetchContractSettlements(contractIds)
+    ]).then(([ledgerResult, exitsResult, settlementsResult]) => {
+      if (cancelled) return;
+      if (ledgerResult.success) {
+        setContractLedgerDeposits(ledgerResult.deposits);
+      } else {
+        console.error('[VaultClub] Failed to load contract ledger:', ledgerResult.error);
+      }
+      if (exitsResult.success) {
+        setContractExits(exitsResult.exits);
+      } else {
+        console.error('[VaultClub] Failed to load contract exits:', exitsResult.error);
+      }
+      if (settlementsResult.success) {
+        setContractSettlements(settlementsResult.settlements);
+      } else {
+        console.error('[VaultClub] Failed to load contract settlements:', settlementsResult.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userContractIds, depositLedgerVersion]);
+
   // Handle URL-based contract joining
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
-    const joinContractId = urlParams.get('join');
-    if (joinContractId && walletConnected) {
-      // Find the contract to join
-      const contractToJoin = deployedSubclubs.find(club => club.contractAddress === joinContractId && !club.isPrivate && club.currentMembers < club.maxMembers && (!club.members || !club.members.includes(walletAddress)));
-      if (contractToJoin) {
-        // Auto-join the contract
-        const updatedContract = {
-          ...contractToJoin,
-          currentMembers: contractToJoin.currentMembers + 1,
-          members: [...(contractToJoin.members || []), walletAddress]
-        };
-        setDeployedSubclubs(prev => prev.map(club => club.contractAddress === joinContractId ? updatedContract : club));
-        alert(`✅ Successfully joined contract!\n\n${contractToJoin.lockupPeriod} ${contractToJoin.isChargedContract ? 'Month' : 'Year'} Lockup • ${contractToJoin.rigorLevel.charAt(0).toUpperCase() + contractToJoin.rigorLevel.slice(1)} Rigor\n\nYou can now start making deposits according to the contract schedule.`);
-
-        // Clean up URL
-        window.history.replaceState({}, document.title, window.location.pathname);
-      } else if (joinContractId) {
-        // Contract not found, full, private, or user already a member
-        const existingContract = deployedSubclubs.find(club => club.contractAddress === joinContractId);
-        if (existingContract) {
-          if (existingContract.isPrivate) {
-            alert('❌ This is a private contract. You need a direct invitation from the contract owner.');
-          } else if (existingContract.currentMembers >= existingContract.maxMembers) {
-            alert('❌ This contract is full. No more members can join.');
-          } else if (existingContract.members && existingContract.members.includes(walletAddress)) {
-            alert('ℹ️ You are already a member of this contract.');
-          }
-        } else {
-          alert('❌ Contract not found. The link may be invalid or the contract may not be deployed yet.');
-        }
+    const joinContractAddress = urlParams.get('join');
+    if (!joinContractAddress || !walletConnected || !walletAddress) return;
+
+    // Clean up URL before the round trip so the join is only attempted once
+    window.history.replaceState({}, document.title, window.location.pathname);
 
-        // Clean up URL
-        window.history.replaceState({}, document.title, window.location.pathname);
+    const joinFromLink = async () => {
+      const lookup = await fetchContractByAddress(joinContractAddress);
+      if (!lookup.success) {
+        alert(`❌ ${lookup.error}`);
+        return;
       }
-    }
-  }, [walletConnected, walletAddress, deployedSubclubs]);
+      const contract = lookup.contract;
+      if (contract.members.includes(walletAddress)) {
+        alert('ℹ️ You are already a member of this contract.');
+        return;
+      }
+      const joined = await joinContractAndReload(contract, walletAddress);
+      if (joined) {
+        setDeployedSubclubs(prev => mergeContracts(prev, [joined]));
+      }
+    };
+    joinFromLink();
+  }, [walletConnected, walletAddress]);
+
+  // Follow the live rates whenever they refresh, unless the calculator has overridden them
+  useEffect(() => {
+    if (strandApysOverridden) return;
+    setApyStrand1(aaveRates.liquidityRate);
+    setApyStrand2(aaveRates.aavePolygonRate);
+    setApyStrand3(quickSwapAPY);
+  }, [aaveRates.liquidityRate, aaveRates.aavePolygonRate, quickSwapAPY, strandApysOverridden]);
 
   // Load dynamic data
   useEffect(() => {
     const loadDynamicData = async () => {
       try {
-        // Load Spark & AAVE Polygon rates for Strand 1 and 2
-        const aaveData = await getAaveRates();
-        setAaveRates(aaveData);
-        setApyStrand1(aaveData.liquidityRate);
-        setApyStrand2(aaveData.aavePolygonRate);
-
-        // Load QuickSwap Rate for Strand 3
-        const quickSwapData = await getQuickSwapAPY();
-        setQuickSwapAPY(quickSwapData);
-        setApyStrand3(quickSwapData);
-
-        // Load Bitcoin price
-        const bitcoinPrice = await getBitcoinPrice();
-        setBtcPrice(bitcoinPrice);
+        // Estimate weekly gas from current Polygon gas and POL prices
+        const gas = await fetchGasEstimate();
+        setGasEstimate(gas.estimate);
 
         // Load vault stats
         const stats = await getVaultStats();
@@ -570,149 +555,34 @@ const VaultClubWebsiteInner: React.FC<{
 
   // Removed automatic wallet initialization to prevent auto-connection
 
-  // Calculate simulation data using simplified allocation model
+  // Strand 3 for a risk level: the calculator rate once it's been overridden,
+  // otherwise the screened pick for that risk level (or the market rate without screening)
+  const getStrand3Apy = (riskLevel?: string) => strandApysOverridden ? apyStrand3 : getRiskAdjustedStrand3(riskLevel)?.apy ?? apyStrand3;
+  const getStrandApys = (riskLevel?: string): StrandApys => ({ strand1: apyStrand1, strand2: apyStrand2, strand3: getStrand3Apy(riskLevel) });
+  const getSimulationInputs = (): SimulationInputs => ({
+    apys: getStrandApys(simulationRiskLevel),
+    years: simulationYears,
+    plan: {
+      rigorLevel: simulationRigor,
+      customDepositFrequency: customDepositFrequency,
+      customWeeklyAmount: customSimulationAmount
+    },
+    riskLevel: simulationRiskLevel,
+    phase2: simulationPhase2,
+    fees: getContractFees(simulationCharged, gasEstimate?.weeklyTotal),
+    memberCount: simulationMembers
+  });
+  // Strand projection for the Future page's own simulation settings
   const calculateSimulation = () => {
-    const data = [];
-    let V1 = 0,
-      V2 = 0,
-      V3 = 0,
-      wBTC = 0; // Starting balances including wBTC
-    let totalDeposited = 0; // Track cumulative deposits without compounding
-    const weeksPerYear = 52;
-    const totalWeeks = simulationYears * weeksPerYear;
-
-    // Convert APY to weekly rates using dynamic data
-    const r1 = Math.pow(1 + apyStrand1 / 100, 1 / weeksPerYear) - 1;
-    const r2 = Math.pow(1 + apyStrand2 / 100, 1 / weeksPerYear) - 1;
-    const r3 = Math.pow(1 + apyStrand3 / 100, 1 / weeksPerYear) - 1;
-
-    // Gas fee estimates (in USD) - these could also be made dynamic
-    const gasFeesPerWeek = {
-      harvestYield: 0.175,
-      strategyRebalance: 0.315,
-      chainlinkUpkeep: 0.085,
-      weeklyTotal: 0.575
-    };
-
-    // Utility fee: $1/week/user
-    const utilityFeePerWeek = (vaultStats.totalMembers || 1) * 1;
-    for (let week = 0; week <= totalWeeks; week++) {
-      const year = Math.floor(week / weeksPerYear) + 1;
-      const progressPercent = week / totalWeeks;
-
-      // Phase 2 trigger: 50% completion OR ~$1M vault value
-      const phase2Triggered = progressPercent >= 0.5 || V1 + V2 + V3 + wBTC >= 1000000;
-
-      // Calculate weekly deposit based on selected rigor
-      let weeklyDeposit;
-      if (simulationRigor === 'light') {
-        // Light rigor: monthly deposits converted to weekly
-        if (year <= 1) weeklyDeposit = 100 / 4.33; // $100/month
-        else if (year <= 2) weeklyDeposit = 150 / 4.33; // $150/month
-        else if (year <= 3) weeklyDeposit = 200 / 4.33; // $200/month
-        else weeklyDeposit = 250 / 4.33; // $250/month
-      } else if (simulationRigor === 'medium') {
-        // Medium rigor deposit schedule
-        if (year <= 3) weeklyDeposit = 50;else if (year <= 6) weeklyDeposit = 100;else if (year <= 10) weeklyDeposit = 200;else weeklyDeposit = 250;
-      } else if (simulationRigor === 'heavy') {
-        // Heavy rigor deposit schedule
-        if (year <= 3) weeklyDeposit = 100;else if (year <= 6) weeklyDeposit = 200;else if (year <= 10) weeklyDeposit = 300;else weeklyDeposit = 400;
-      } else {
-        // Custom rigor - use user-defined amount
-        weeklyDeposit = customSimulationAmount;
-      }
-
-      // Track total deposits
-      totalDeposited += weeklyDeposit;
-      if (week > 0) {
-        if (!phase2Triggered) {
-          // PHASE 1: Simple allocation with compound interest
-          // Split deposits: 15% Strand 1, 50% Strand 2, 25% Strand 3
-          const D1 = weeklyDeposit * 0.15;
-          const D2 = weeklyDeposit * 0.50;
-          const D3 = weeklyDeposit * 0.25;
-
-          // Apply compound interest to each strand
-          V1 = V1 * (1 + r1) + D1;
-          V2 = V2 * (1 + r2) + D2;
-          V3 = V3 * (1 + r3) + D3;
-        } else {
-          // PHASE 2: Transition to wBTC
-          // All new deposits go to Strand 1 (AAVE Reserve)
-          V1 = V1 * (1 + r1) + weeklyDeposit;
-          V2 = V2 * (1 + r2);
-          V3 = V3 * (1 + r3);
-
-          // Weekly 5% migration from Strands 2&3 to Strand 1, then to wBTC
-          const migrationFromV2 = V2 * 0.05;
-          const migrationFromV3 = V3 * 0.05;
-          V2 -= migrationFromV2;
-          V3 -= migrationFromV3;
-          V1 += migrationFromV2 + migrationFromV3;
-
-          // Weekly wBTC DCA purchases from Strand 1
-          let weeklyDCA;
-          if (simulationRigor === 'light') weeklyDCA = Math.min(V1 * 0.1, 1000);else if (simulationRigor === 'medium') weeklyDCA = Math.min(V1 * 0.1, 5000);else if (simulationRigor === 'heavy') weeklyDCA = Math.min(V1 * 0.1, 10000);else weeklyDCA = Math.min(V1 * 0.1, 2000); // Custom
-
-          V1 -= weeklyDCA;
-          wBTC += weeklyDCA;
-        }
-
-        // Subtract weekly gas fees and utility fees from the vault (proportionally distributed)
-        const totalBeforeGas = V1 + V2 + V3 + wBTC;
-        if (totalBeforeGas > 0) {
-          const gasReduction = gasFeesPerWeek.weeklyTotal;
-          const utilityReduction = utilityFeePerWeek;
-          const totalReduction = gasReduction + utilityReduction;
-          const gasRatio = totalReduction / totalBeforeGas;
-          V1 -= V1 * gasRatio;
-          V2 -= V2 * gasRatio;
-          V3 -= V3 * gasRatio;
-          wBTC -= wBTC * gasRatio;
-        }
-      } else {
-        // Initial deposits
-        const D1 = weeklyDeposit * 0.15;
-        const D2 = weeklyDeposit * 0.50;
-        const D3 = weeklyDeposit * 0.25;
-        V1 = D1;
-        V2 = D2;
-        V3 = D3;
-      }
-      const totalValue = V1 + V2 + V3 + wBTC;
-
-      // Add data point for each year
-      if (week % weeksPerYear === 0) {
-        data.push({
-          year: Math.floor(week / weeksPerYear),
-          total: Math.round(totalValue),
-          strand1: Math.round(V1),
-          strand2: Math.round(V2),
-          strand3: Math.round(V3),
-          wbtc: Math.round(wBTC),
-          phase: phase2Triggered ? 2 : 1,
-          initialDeposits: Math.round(totalDeposited),
-          cumulativeGasFees: Math.round(gasFeesPerWeek.weeklyTotal * week),
-          cumulativeUtilityFees: Math.round(utilityFeePerWeek * week)
-        });
-      }
-    }
-
-    // Final conversion: dump remaining strands into wBTC at contract conclusion
-    if (data.length > 0) {
-      const finalData = data[data.length - 1];
-      const remainingStrands = finalData.strand1 + finalData.strand2 + finalData.strand3;
-      finalData.wbtc += remainingStrands;
-      finalData.strand1 = 0;
-      finalData.strand2 = 0;
-      finalData.strand3 = 0;
-      finalData.total = finalData.wbtc;
-    }
-    setChartData(data);
+    setChartData(simulateStrands(getSimulationInputs()));
   };
   useEffect(() => {
     calculateSimulation();
-  }, [apyStrand1, apyStrand2, apyStrand3, btcPrice, simulationYears, simulationRigor, customSimulationAmount, vaultStats.totalMembers]);
+  }, [apyStrand1, apyStrand2, apyStrand3, strandApysOverridden, poolScreening.value, btcPrice, simulationYears, simulationRigor, customSimulationAmount, customDepositFrequency, simulationPhase2, simulationRiskLevel, simulationCharged, simulationMembers, gasEstimate]);
+  const monteCarlo = useMonteCarlo(
+    currentPage === 'simulation' && projectionMode === 'monteCarlo' ? getSimulationInputs() : null,
+    monteCarloConfig
+  );
   const closeModal = () => {
     setActiveModal(null);
     setActiveStrand(null);
@@ -721,117 +591,117 @@ const VaultClubWebsiteInner: React.FC<{
     setCurrentPage(page);
     tutorial.setCurrentPage(page); // Sync with tutorial system
   };
+  const getUserContracts = () => deployedSubclubs.filter(club => club.members && club.members.includes(walletAddress));
   const calculateWeeklyDepositAmount = () => {
     if (!walletConnected || !walletAddress) {
-      console.log("Debug: Wallet not connected");
-      return 0;
-    }
-
-    // Get all subclubs user is a member of
-    const userSubclubs = deployedSubclubs.filter(club => club.members && club.members.includes(walletAddress));
-    console.log("Debug calculateWeeklyDepositAmount:");
-    console.log("- Deployed contracts:", deployedSubclubs.length);
-    console.log("- User contracts:", userSubclubs.length);
-    console.log("- Wallet address:", walletAddress);
-    if (userSubclubs.length === 0) {
-      console.log("Debug: No user contracts found");
       return 0;
     }
 
-    // Weekly deposit amounts by rigor level (corrected from documents)
-    const rigorAmounts = {
-      light: 25,
-      // Will be calculated based on contract age: $100-$250/month
-      medium: 50,
-      // Years 1-3: $50/week, 4-6: $100/week, 7-10: $200/week, 11+: $250/week
-      heavy: 100,
-      // Years 1-3: $100/week, 4-6: $200/week, 7-10: $300/week, 11+: $400/week
-      custom: 0 // Will be calculated from custom schedule
-    };
-
     // Sum up weekly deposits for all contracts user is in
-    const totalAmount = userSubclubs.reduce((total, subclub) => {
-      let amount = rigorAmounts[subclub.rigorLevel] || 0;
-
-      // For light rigor, calculate based on contract age
-      if (subclub.rigorLevel === 'light') {
-        const contractStartDate = new Date(subclub.createdAt).getTime();
-        const now = Date.now();
-        const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-        if (yearsElapsed < 1) {
-          amount = 100 / 4.33;
-        } else if (yearsElapsed < 2) {
-          amount = 150 / 4.33;
-        } else if (yearsElapsed < 3) {
-          amount = 200 / 4.33;
-        } else {
-          amount = 250 / 4.33;
-        }
-      }
-      // For custom rigor, calculate based on custom schedule
-      else if (subclub.rigorLevel === 'custom') {
-        const freq = subclub.customDepositFrequency || 'weekly';
-        if (subclub.customSchedule) {
-          const contractStartDate = new Date(subclub.createdAt).getTime();
-          const now = Date.now();
-          const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-          const currentPeriod = subclub.customSchedule.find(period => yearsElapsed >= period.yearStart - 1 && yearsElapsed < period.yearEnd);
-          const rawAmount = currentPeriod ? currentPeriod.amount : subclub.customWeeklyAmount || 0;
-          amount = toWeeklyAmount(rawAmount, freq);
-        } else {
-          amount = toWeeklyAmount(subclub.customWeeklyAmount || 0, freq);
-        }
-      }
-      // For heavy rigor, calculate based on contract age
-      else if (subclub.rigorLevel === 'heavy') {
-        const contractStartDate = new Date(subclub.createdAt).getTime();
-        const now = Date.now();
-        const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-        if (yearsElapsed < 3) {
-          amount = 100;
-        } else if (yearsElapsed < 6) {
-          amount = 200;
-        } else if (yearsElapsed < 10) {
-          amount = 300;
-        } else {
-          amount = 400;
-        }
-      }
-
-      // For medium rigor, calculate based on contract age
-      if (subclub.rigorLevel === 'medium') {
-        const contractStartDate = new Date(subclub.createdAt).getTime();
-        const now = Date.now();
-        const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-        if (yearsElapsed < 3) {
-          amount = 50;
-        } else if (yearsElapsed < 6) {
-          amount = 100;
-        } else if (yearsElapsed < 10) {
-          amount = 200;
-        } else {
-          amount = 250;
-        }
-      }
-      console.log(`- Contract ${subclub.contractAddress.slice(0, 8)}: ${subclub.rigorLevel} = ${amount}/week`);
-      return total + amount;
-    }, 0);
-    console.log("Debug: Total weekly deposit amount:", totalAmount);
-    return totalAmount;
+    return getUserContracts().reduce((total, subclub) => total + getWeeklyDepositAmount(subclub), 0);
   };
-  const canDeposit = () => {
-    if (!lastDepositTime) return true;
-    const now = Date.now();
-    const lastDeposit = new Date(lastDepositTime).getTime();
-    const daysDifference = (now - lastDeposit) / (1000 * 60 * 60 * 24);
-    return daysDifference >= 5;
+
+  // Deposit schedule for each of the user's contracts, classified against their ledger
+  const getUserDepositSchedules = () => getUserContracts().filter(club => club.status === 'active').map(club => ({
+    club,
+    schedule: buildDepositSchedule(
+      club,
+      depositHistory,
+      new Date(),
+      club.memberJoinedAt?.[walletAddress] ? new Date(club.memberJoinedAt[walletAddress]) : undefined
+    )
+  }));
+
+  // Ownership shares for each of the user's contracts, derived from every member's deposits.
+  // A terminated contract's shares are frozen at its settlement date.
+  const getContractSettlement = (club: Subclub) => contractSettlements.find(settlement => settlement.contract_id === club.id) || null;
+  const getOwnershipLedger = (club: Subclub) => {
+    const settlement = getContractSettlement(club);
+    return buildOwnershipLedger(club, contractLedgerDeposits, contractExits, settlement ? new Date(settlement.settled_at) : new Date());
   };
+  const getOwnershipShare = () => getWeightedOwnershipShare(
+    getUserContracts().map(club => ({
+      ledger: getOwnershipLedger(club),
+      balance: parseFloat(club.totalContractBalance || "0")
+    })),
+    walletAddress
+  );
+  const getTotalDueNow = () => getUserDepositSchedules().reduce((total, { schedule }) => total + getAmountDueNow(schedule), 0);
+  const canDeposit = () => getTotalDueNow() > 0;
   const getDaysUntilNextDeposit = () => {
-    if (!lastDepositTime) return 0;
-    const now = Date.now();
-    const lastDeposit = new Date(lastDepositTime).getTime();
-    const daysDifference = (now - lastDeposit) / (1000 * 60 * 60 * 24);
-    return Math.max(0, Math.ceil(5 - daysDifference));
+    const windows = getUserDepositSchedules()
+      .map(({ schedule }) => getNextPaymentWindow(schedule))
+      .filter(Boolean)
+      .map(date => date.getTime());
+    if (windows.length === 0) return 0;
+    return Math.max(0, Math.ceil((Math.min(...windows) - Date.now()) / (1000 * 60 * 60 * 24)));
+  };
+  // Reloads one contract and its members after a server-side change such as a passed vote
+  const refreshContract = async (contractId: string) => {
+    const result = await fetchContract(contractId);
+    if (result.success) {
+      setDeployedSubclubs(prev => mergeContracts(prev, [result.contract]));
+    } else {
+      console.error('[VaultClub] Failed to refresh contract:', result.error);
+    }
+  };
+  // Projected Phase 2 switchover under the contract's own trigger, at current APYs
+  const getPhase2Projection = (club: Subclub) => projectContractPhase2(club, getStrandApys(club.riskLevel));
+  // Phase the contract is in today, from its actual balance and elapsed term; decides how new deposits are split
+  const getContractPhase = (club: Subclub): ContractPhase => getCurrentContractPhase(club);
+  const formatPhase2Projection = (club: Subclub) => {
+    if (getContractPhase(club) === 2) return 'Triggered';
+    const { date } = getPhase2Projection(club);
+    if (!date) return 'Not reached before maturity';
+    return date <= new Date() ? 'Behind projection' : date.toLocaleDateString();
+  };
+  // Statement export: summary and strand balances, every member's deposits and earnings by period
+  const exportContractStatement = (club: Subclub, format: 'csv' | 'pdf') => {
+    const deposits = contractLedgerDeposits.filter(deposit => deposit.contract_id === club.id);
+    const tables = buildContractStatement(
+      club,
+      deposits,
+      summarizeStatementPeriods(deposits, getBlendedApy(getStrandApys(club.riskLevel), getHoldingsAllocation(club)))
+    );
+    const filename = `statement-${club.contractAddress.slice(0, 10)}-${new Date().toISOString().slice(0, 10)}`;
+    if (format === 'csv') {
+      downloadCsv(filename, tables);
+    } else if (!printTables(`${club.name} Statement`, tables)) {
+      alert('Please allow pop-ups to print or save the statement as PDF.');
+    }
+  };
+  const exportProjection = (format: 'csv' | 'pdf') => {
+    const tables = [buildProjectionTable(chartData)];
+    if (format === 'csv') {
+      downloadCsv(`projection-${simulationRigor}-${simulationYears}y`, tables);
+    } else if (!printTables(`Strand Projection • ${simulationYears} Years`, tables)) {
+      alert('Please allow pop-ups to print or save the projection as PDF.');
+    }
+  };
+  // Group termination split: the recorded settlement once terminated, else a preview at today's balance
+  const getTerminationBreakdown = (club: Subclub) => {
+    const settlement = getContractSettlement(club);
+    return computeGroupTermination(getOwnershipLedger(club), settlement ? Number(settlement.total_value) : parseFloat(club.totalContractBalance || "0"));
+  };
+  const handleGovernanceChange = async (contractId: string) => {
+    await refreshContract(contractId);
+    setDepositLedgerVersion(prev => prev + 1);
+  };
+  const getExitBreakdown = (club: Subclub) => computeIndividualExit(getOwnershipLedger(club), walletAddress, parseFloat(club.totalContractBalance || "0"));
+  const handleEmergencyExit = async (club: Subclub) => {
+    const breakdown = getExitBreakdown(club);
+    const result = await exitContract(club.id);
+    if (!result.success) {
+      alert(`❌ Exit failed: ${result.error}`);
+      return;
+    }
+    const payout = result.payout ?? breakdown.payout;
+    const forfeitedYield = result.forfeitedYield ?? breakdown.forfeitedYield;
+    setExitingContract(null);
+    setVaultBalance(prev => Math.max(0, parseFloat(prev) - payout).toString());
+    setDepositLedgerVersion(prev => prev + 1);
+    await refreshContract(club.id);
+    alert(`✅ You have exited ${club.name}.\n\nPrincipal returned: $${payout.toFixed(2)}\nYield forfeited to the group: $${forfeitedYield.toFixed(2)}`);
   };
   const handleConnectWallet = async () => {
     setShowAuthModal(true);
@@ -964,149 +834,85 @@ const VaultClubWebsiteInner: React.FC<{
     tutorial.setCurrentPage('home'); // Sync with tutorial system
   };
   const handleDeposit = async () => {
-    const weeklyAmount = calculateWeeklyDepositAmount();
-    console.log("Debug deposit - Weekly amount:", weeklyAmount);
-    console.log("Debug deposit - User contracts:", deployedSubclubs.filter(club => club.members && club.members.includes(walletAddress)));
-    if (weeklyAmount === 0) {
+    const userContracts = getUserContracts();
+    if (userContracts.length === 0) {
       alert("You must join at least one contract before depositing.");
       return;
     }
-    if (!canDeposit()) {
+
+    // Pay whatever is currently due on each contract: overdue periods still in grace plus the next one once its window opens
+    const dues = getUserDepositSchedules()
+      .map(({ club, schedule }) => ({ club, amount: getAmountDueNow(schedule) }))
+      .filter(due => due.amount > 0);
+    const totalDue = dues.reduce((sum, due) => sum + due.amount, 0);
+    if (totalDue === 0) {
       const daysLeft = getDaysUntilNextDeposit();
-      alert(`You can deposit again in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`);
+      alert(`Nothing is due yet. You can deposit again in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`);
       return;
     }
-    const success = await depositToVault(weeklyAmount);
+    const success = await depositToVault(totalDue);
     if (success) {
       console.log("Deposit successful, updating balances...");
 
-      // Update individual strand balances for each contract the user is in
-      const userContracts = deployedSubclubs.filter(club => club.members && club.members.includes(walletAddress));
-      console.log("User contracts found:", userContracts.length);
-      if (userContracts.length === 0) {
-        alert("Error: No contracts found for user. Please create or join a contract first.");
+      // Record each contract's share in the deposit ledger; balances only move for recorded deposits
+      const recorded = await Promise.all(dues.map(async ({ club, amount }) => {
+        // Split according to the contract's strand allocation
+        const split = splitDeposit(amount, getStrandAllocation(club.riskLevel, getContractPhase(club)));
+        const result = await recordDeposit({
+          contractId: club.id,
+          amount,
+          split,
+          walletAddress
+        });
+        if (!result.success) {
+          console.error(`[VaultClub] Failed to record deposit for ${club.contractAddress.slice(0, 8)}:`, result.error);
+        }
+        return { club, amount, split, success: result.success, error: result.error };
+      }));
+      const failed = recorded.filter(entry => !entry.success);
+      if (failed.length > 0) {
+        alert(`⚠️ ${failed.length} of ${recorded.length} contract deposit${recorded.length === 1 ? '' : 's'} could not be recorded:\n\n${failed.map(entry => `${entry.club.name}: ${entry.error}`).join('\n')}`);
+      }
+      const succeeded = recorded.filter(entry => entry.success);
+      if (succeeded.length === 0) {
         return;
       }
-
-      // Split the deposit proportionally across all user's contracts
-      const amountPerContract = weeklyAmount / userContracts.length;
-      const strand1PerContract = amountPerContract * 0.10;
-      const strand2PerContract = amountPerContract * 0.60;
-      const strand3PerContract = amountPerContract * 0.30;
-      console.log("Amount per contract:", amountPerContract);
-      console.log("Strand allocations:", {
-        strand1PerContract,
-        strand2PerContract,
-        strand3PerContract
-      });
-
-      // Update each contract's balances proportionally based on their rigor requirements
-      setDeployedSubclubs(prev => {
-        const updated = prev.map(club => {
-          if (club.members && club.members.includes(walletAddress)) {
-            // Calculate this contract's weekly deposit amount
-            let contractWeeklyAmount = rigorAmounts[club.rigorLevel] || 0;
-
-            // For light rigor, calculate based on contract age
-            if (club.rigorLevel === 'light') {
-              const contractStartDate = new Date(club.createdAt).getTime();
-              const now = Date.now();
-              const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-              if (yearsElapsed < 1) {
-                contractWeeklyAmount = 100 / 4.33;
-              } else if (yearsElapsed < 2) {
-                contractWeeklyAmount = 150 / 4.33;
-              } else if (yearsElapsed < 3) {
-                contractWeeklyAmount = 200 / 4.33;
-              } else {
-                contractWeeklyAmount = 250 / 4.33;
-              }
-            }
-            // For custom rigor, calculate based on custom schedule
-            else if (club.rigorLevel === 'custom') {
-              const freq = club.customDepositFrequency || 'weekly';
-              if (club.customSchedule) {
-                const contractStartDate = new Date(club.createdAt).getTime();
-                const now = Date.now();
-                const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-                const currentPeriod = club.customSchedule.find(period => yearsElapsed >= period.yearStart - 1 && yearsElapsed < period.yearEnd);
-                const rawAmount = currentPeriod ? currentPeriod.amount : club.customWeeklyAmount || 0;
-                contractWeeklyAmount = toWeeklyAmount(rawAmount, freq);
-              } else {
-                contractWeeklyAmount = toWeeklyAmount(club.customWeeklyAmount || 0, freq);
-              }
-            }
-            // For heavy rigor, calculate based on contract age
-            else if (club.rigorLevel === 'heavy') {
-              const contractStartDate = new Date(club.createdAt).getTime();
-              const now = Date.now();
-              const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-              if (yearsElapsed < 3) {
-                contractWeeklyAmount = 100;
-              } else if (yearsElapsed < 6) {
-                contractWeeklyAmount = 200;
-              } else if (yearsElapsed < 10) {
-                contractWeeklyAmount = 300;
-              } else {
-                contractWeeklyAmount = 400;
-              }
-            }
-
-            // For medium rigor, calculate based on contract age  
-            else if (club.rigorLevel === 'medium') {
-              const contractStartDate = new Date(club.createdAt).getTime();
-              const now = Date.now();
-              const yearsElapsed = (now - contractStartDate) / (365.25 * 24 * 60 * 60 * 1000);
-              if (yearsElapsed < 3) {
-                contractWeeklyAmount = 50;
-              } else if (yearsElapsed < 6) {
-                contractWeeklyAmount = 100;
-              } else if (yearsElapsed < 10) {
-                contractWeeklyAmount = 200;
-              } else {
-                contractWeeklyAmount = 250;
-              }
-            }
-
-            // Split according to strand allocation (10%, 60%, 30%)
-            const strand1Addition = contractWeeklyAmount * 0.10;
-            const strand2Addition = contractWeeklyAmount * 0.60;
-            const strand3Addition = contractWeeklyAmount * 0.30;
-            const newClub = {
-              ...club,
-              strand1Balance: (parseFloat(club.strand1Balance || "0") + strand1Addition).toString(),
-              strand2Balance: (parseFloat(club.strand2Balance || "0") + strand2Addition).toString(),
-              strand3Balance: (parseFloat(club.strand3Balance || "0") + strand3Addition).toString(),
-              totalContractBalance: (parseFloat(club.totalContractBalance || "0") + contractWeeklyAmount).toString()
-            };
-            console.log(`Updated club ${newClub.contractAddress.slice(0, 8)} (${club.rigorLevel}):`, {
-              weeklyAmount: contractWeeklyAmount,
-              strand1: strand1Addition,
-              strand2: strand2Addition,
-              strand3: strand3Addition,
-              newTotal: newClub.totalContractBalance
-            });
-            return newClub;
-          }
-          return club;
+      const recordedAmount = succeeded.reduce((sum, entry) => sum + entry.amount, 0);
+      setDepositLedgerVersion(prev => prev + 1);
+
+      // Update each recorded contract's balances
+      setDeployedSubclubs(prev => prev.map(club => {
+        const entry = succeeded.find(e => e.club.id === club.id);
+        if (!entry) return club;
+        const newClub = {
+          ...club,
+          strand1Balance: (parseFloat(club.strand1Balance || "0") + entry.split.strand1).toString(),
+          strand2Balance: (parseFloat(club.strand2Balance || "0") + entry.split.strand2).toString(),
+          strand3Balance: (parseFloat(club.strand3Balance || "0") + entry.split.strand3).toString(),
+          totalContractBalance: (parseFloat(club.totalContractBalance || "0") + entry.amount).toString(),
+          totalDeposits: club.totalDeposits + entry.amount
+        };
+        console.log(`Updated club ${newClub.contractAddress.slice(0, 8)} (${club.rigorLevel}):`, {
+          amount: entry.amount,
+          ...entry.split,
+          newTotal: newClub.totalContractBalance
         });
-        return updated;
-      });
+        return newClub;
+      }));
 
       // Update user's total balance
       setVaultBalance(prev => {
         const currentTotal = parseFloat(prev);
-        const newTotal = (currentTotal + weeklyAmount).toString();
+        const newTotal = (currentTotal + recordedAmount).toString();
         console.log("Updated vault balance:", newTotal);
         return newTotal;
       });
-      setLastDepositTime(new Date().toISOString());
       setVaultStats(prev => {
         const updated = {
           ...prev,
           totalMembers: prev.totalMembers === 0 ? 1 : prev.totalMembers,
-          totalDeposits: (parseFloat(prev.totalDeposits) + weeklyAmount).toString(),
-          transactions: prev.transactions + 1
+          totalDeposits: (parseFloat(prev.totalDeposits) + recordedAmount).toString(),
+          transactions: prev.transactions + succeeded.length
         };
         console.log("Updated vault stats:", updated);
         return updated;
@@ -1127,36 +933,21 @@ const VaultClubWebsiteInner: React.FC<{
     const colors = ['border-yellow-500', 'border-green-500', 'border-blue-500', 'border-red-500', 'border-purple-500', 'border-orange-500', 'border-pink-500', 'border-indigo-500'];
     const randomColor = colors[Math.floor(Math.random() * colors.length)];
 
-    // Create new subclub object with assigned color
-    const newSubclub = {
-      id: Date.now(),
+    // Persist the contract so it survives reloads and is visible on other devices
+    const templateName = CONTRACT_TEMPLATES.find(t => t.id === selectedTemplate)?.name || 'Custom';
+    const result = await createContract(clubCreationData, {
+      name: `${templateName} • ${clubCreationData.lockupPeriod} ${clubCreationData.isChargedContract ? 'Month' : 'Year'}`,
+      walletAddress,
       contractAddress,
-      creator: walletAddress,
-      maxMembers: clubCreationData.maxMembers,
-      lockupPeriod: clubCreationData.lockupPeriod,
-      rigorLevel: clubCreationData.rigorLevel,
-      isPrivate: clubCreationData.isPrivate,
-      isChargedContract: clubCreationData.isChargedContract,
-      currentMembers: 1,
-      // Creator is first member
-      createdAt: new Date().toISOString(),
-      status: 'active',
-      totalDeposits: 0,
-      members: [walletAddress],
-      borderColor: randomColor,
-      // Store the color with the contract
-      customDepositFrequency: clubCreationData.rigorLevel === 'custom' ? clubCreationData.customDepositFrequency : undefined,
-      customWeeklyAmount: clubCreationData.rigorLevel === 'custom' ? clubCreationData.customWeeklyAmount : undefined,
-      customSchedule: clubCreationData.rigorLevel === 'custom' ? clubCreationData.customSchedule : undefined,
-      // Contract-specific strand balances
-      strand1Balance: "0",
-      strand2Balance: "0",
-      strand3Balance: "0",
-      totalContractBalance: "0"
-    };
+      borderColor: randomColor
+    });
+    if (!result.success || !result.contract) {
+      alert(`❌ Contract deployment failed: ${result.error || 'Unknown error'}`);
+      return;
+    }
 
     // Add to deployed subclubs
-    setDeployedSubclubs(prev => [...prev, newSubclub]);
+    setDeployedSubclubs(prev => [...prev, result.contract]);
 
     // Success notification
     alert(`✅ Contract Deployed Successfully!
@@ -1167,7 +958,7 @@ Max Members: ${clubCreationData.maxMembers}
 Lockup Period: ${clubCreationData.lockupPeriod} ${clubCreationData.isChargedContract ? 'month' : 'year'}${clubCreationData.lockupPeriod === 1 ? '' : 's'}
 Investment Rigor: ${clubCreationData.rigorLevel.charAt(0).toUpperCase() + clubCreationData.rigorLevel.slice(1)}
 Privacy: ${clubCreationData.isPrivate ? 'Private (invitation only)' : 'Public (visible to all)'}
-Utility Fee: ${clubCreationData.isChargedContract ? '$1.25' : '$1.00'}/user/week
+Utility Fee: $${getUtilityFeeRate(clubCreationData.isChargedContract).toFixed(2)}/user/week
 
 Your contract is now live and ready for members to join!`);
     setActiveModal(null);
@@ -1177,9 +968,8 @@ Your contract is now live and ready for members to join!`);
   
   // Calculate effective APY to check for net negative returns
   const calculateEffectiveAPY = () => {
-    // Use current market rates (weighted average)
-    const weightedAPY = calculateAveragedAPY(apyStrand1, apyStrand2, apyStrand3);
-    return weightedAPY;
+    // Current market rates weighted by the new contract's Phase 1 split
+    return getBlendedApy(getStrandApys(clubCreationData.riskLevel), getStrandAllocation(clubCreationData.riskLevel));
   };
   
   // Check if contract would result in net negative returns (APY < 1.5%)
@@ -1460,6 +1250,16 @@ Your contract is now live and ready for members to join!`);
     }
   };
 
+  // Open the create modal on the Custom template with settings worked out elsewhere (e.g. the goal planner)
+  const prefillCustomContract = (settings: TemplateSettings) => {
+    setClubCreationData(prev => ({ ...prev, ...settings }));
+    setSelectedTemplate('custom');
+    setShowCustomControls(true);
+    setShowTemplateComparison(false);
+    setTemplateCarouselIndex(Math.max(0, CONTRACT_TEMPLATES.findIndex(t => t.id === 'custom')));
+    setActiveModal('createClub');
+  };
+
   const CreateClubModal = () => {
     const currentTemplate = CONTRACT_TEMPLATES[templateCarouselIndex];
     
@@ -1473,7 +1273,7 @@ Your contract is now live and ready for members to join!`);
                 <h3 id="create-club-title" className="text-2xl font-bold">Create Your Contract</h3>
                 <p className="text-white/80 mt-1">Choose a template that fits your goals</p>
               </div>
-              <button onClick={() => { closeModal(); setSelectedTemplate(null); setShowCustomControls(false); setTemplateCarouselIndex(0); }} className="text-white/80 hover:text-white transition-colors p-2 rounded-lg hover:bg-white/10" aria-label="Close modal">
+              <button onClick={() => { closeModal(); setSelectedTemplate(null); setShowCustomControls(false); setTemplateCarouselIndex(0); setShowTemplateComparison(false); }} className="text-white/80 hover:text-white transition-colors p-2 rounded-lg hover:bg-white/10" aria-label="Close modal">
                 <X className="w-6 h-6" />
               </button>
             </div>
@@ -1492,6 +1292,19 @@ Your contract is now live and ready for members to join!`);
               </div>
             </div>
             
+            {/* Switch between browsing and comparing templates */}
+            <div className="px-6 pt-2 flex justify-end">
+              <button onClick={() => setShowTemplateComparison(prev => !prev)} className="text-sm text-white/70 hover:text-white px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 transition-all duration-200">
+                {showTemplateComparison ? 'Back to Templates' : 'Compare Templates'}
+              </button>
+            </div>
+            
+            {showTemplateComparison ? <div className="px-6 py-4">
+                <TemplateComparison
+                  templates={CONTRACT_TEMPLATES.filter(t => t.settings).map(t => ({ id: t.id, name: t.name, settings: t.settings }))}
+                  apys={getStrandApys()}
+                />
+              </div> : <>
             {/* Template Carousel */}
             <div className="px-6 py-4">
               {/* Carousel Navigation */}
@@ -1619,6 +1432,7 @@ Your contract is now live and ready for members to join!`);
                 <span className="text-white/50 text-sm">{templateCarouselIndex + 1} / {CONTRACT_TEMPLATES.length}</span>
               </div>
             </div>
+            </>}
             
             {/* Custom Controls (shown only for Custom template) */}
             {showCustomControls && (
@@ -1629,240 +1443,7 @@ Your contract is now live and ready for members to join!`);
                     Custom Settings
                   </h4>
                   
-                  {/* Contract Type Toggle */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">Contract Type</label>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => setClubCreationData(prev => ({ ...prev, isChargedContract: false, lockupPeriod: 5 }))}
-                        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${!clubCreationData.isChargedContract ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                      >
-                        Traditional (Years)
-                      </button>
-                      <button
-                        onClick={() => setClubCreationData(prev => ({ ...prev, isChargedContract: true, lockupPeriod: 3 }))}
-                        className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.isChargedContract ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                      >
-                        Charged (Months)
-                      </button>
-                    </div>
-                  </div>
-                  
-                  {/* Lockup Period - Full options */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">
-                      Lockup Period ({clubCreationData.isChargedContract ? 'Months' : 'Years'})
-                    </label>
-                    {clubCreationData.isChargedContract ? (
-                      <div className="grid grid-cols-6 gap-2">
-                        {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map(num => (
-                          <button
-                            key={num}
-                            onClick={() => setClubCreationData(prev => ({ ...prev, lockupPeriod: num }))}
-                            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                          >
-                            {num}
-                          </button>
-                        ))}
-                      </div>
-                    ) : (
-                      <>
-                        <div className="grid grid-cols-6 gap-2">
-                          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(num => (
-                            <button
-                              key={num}
-                              onClick={() => setClubCreationData(prev => ({ ...prev, lockupPeriod: num }))}
-                              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                            >
-                              {num}
-                            </button>
-                          ))}
-                          <button
-                            onClick={() => setShowExtendedLockup(!showExtendedLockup)}
-                            className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${showExtendedLockup || clubCreationData.lockupPeriod > 11 ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                          >
-                            More
-                          </button>
-                        </div>
-                        {showExtendedLockup && (
-                          <div className="grid grid-cols-5 gap-2 mt-2">
-                            {[12, 13, 14, 15, 16, 17, 18, 19, 20].map(num => (
-                              <button
-                                key={num}
-                                onClick={() => setClubCreationData(prev => ({ ...prev, lockupPeriod: num }))}
-                                className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.lockupPeriod === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                              >
-                                {num}
-                              </button>
-                            ))}
-                          </div>
-                        )}
-                      </>
-                    )}
-                  </div>
-                  
-                  {/* Rigor Level */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">Contribution Level</label>
-                    <div className="grid grid-cols-4 gap-2">
-                      {['light', 'medium', 'heavy', 'custom'].map(level => (
-                        <button
-                          key={level}
-                          onClick={() => setClubCreationData(prev => ({ ...prev, rigorLevel: level }))}
-                          className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${clubCreationData.rigorLevel === level ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                        >
-                          {level}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  
-                  {/* Custom Deposit Frequency - Only show when rigor is custom */}
-                  {clubCreationData.rigorLevel === 'custom' && (
-                    <div className="mb-4 space-y-3">
-                      <div>
-                        <label className="text-sm text-white/70 mb-2 block">Deposit Frequency</label>
-                        <div className="grid grid-cols-4 gap-2">
-                          {(['daily', 'weekly', 'monthly', 'yearly'] as const).map(freq => (
-                            <button
-                              key={freq}
-                              onClick={() => setClubCreationData(prev => ({ ...prev, customDepositFrequency: freq }))}
-                              className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${clubCreationData.customDepositFrequency === freq ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                            >
-                              {freq}
-                            </button>
-                          ))}
-                        </div>
-                      </div>
-                      
-                      <div>
-                        <label className="text-sm text-white/70 mb-2 block">
-                          Amount per {clubCreationData.customDepositFrequency === 'daily' ? 'Day' : clubCreationData.customDepositFrequency === 'weekly' ? 'Week' : clubCreationData.customDepositFrequency === 'monthly' ? 'Month' : 'Year'}
-                        </label>
-                        <input
-                          type="number"
-                          min="1"
-                          max="10000"
-                          value={clubCreationData.customWeeklyAmount}
-                          onChange={(e) => setClubCreationData(prev => ({ ...prev, customWeeklyAmount: Number(e.target.value) }))}
-                          className="w-full px-4 py-2 rounded-lg bg-white/10 text-white border border-white/20 focus:border-blue-500 focus:outline-none"
-                          placeholder="Amount ($)"
-                        />
-                        <div className="text-xs text-white/50 mt-1 text-center">
-                          = ${(clubCreationData.customWeeklyAmount * (clubCreationData.customDepositFrequency === 'daily' ? 365 : clubCreationData.customDepositFrequency === 'weekly' ? 52 : clubCreationData.customDepositFrequency === 'monthly' ? 12 : 1)).toLocaleString()}/year
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* Risk Level */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">Risk Level</label>
-                    <div className="grid grid-cols-3 gap-2">
-                      {['low', 'medium', 'high'].map(level => (
-                        <button
-                          key={level}
-                          onClick={() => setClubCreationData(prev => ({ ...prev, riskLevel: level }))}
-                          className={`py-2 px-3 rounded-lg text-sm font-medium transition-all capitalize ${
-                            clubCreationData.riskLevel === level 
-                              ? level === 'low' ? 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
-                                : level === 'medium' ? 'bg-gradient-to-r from-yellow-500 to-amber-500 text-white'
-                                : 'bg-gradient-to-r from-red-500 to-rose-500 text-white'
-                              : 'bg-white/10 text-white/70 hover:bg-white/20'
-                          }`}
-                        >
-                          {level}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  
-                  {/* Members */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">Maximum Members</label>
-                    <div className="grid grid-cols-8 gap-2">
-                      {[1, 2, 3, 4, 5, 6, 7, 8].map(num => (
-                        <button
-                          key={num}
-                          onClick={() => setClubCreationData(prev => ({ ...prev, maxMembers: num }))}
-                          className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.maxMembers === num ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                        >
-                          {num}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                  
-                  {/* Privacy */}
-                  <div className="mb-4">
-                    <label className="text-sm text-white/70 mb-2 block">Privacy</label>
-                    <div className="grid grid-cols-2 gap-2">
-                      <button
-                        onClick={() => setClubCreationData(prev => ({ ...prev, isPrivate: true }))}
-                        className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${clubCreationData.isPrivate ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                      >
-                        Private
-                      </button>
-                      <button
-                        onClick={() => setClubCreationData(prev => ({ ...prev, isPrivate: false }))}
-                        className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${!clubCreationData.isPrivate ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
-                      >
-                        Public
-                      </button>
-                    </div>
-                  </div>
-                  
-                  {/* Phase 2 Settings - Only in Custom */}
-                  <div className="border-t border-white/10 pt-4 mt-4">
-                    <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
-                      <Clock className="w-4 h-4" />
-                      Phase 2 Trigger Settings
-                    </h4>
-                    <p className="text-white/50 text-xs mb-4">
-                      Phase 2 transitions your strategy to wealth preservation. Set when this happens.
-                    </p>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      {/* Time-based trigger */}
-                      <div className="bg-white/5 rounded-xl p-4">
-                        <label className="text-sm text-white/70 mb-2 block">Time-Based</label>
-                        <div className="flex items-center gap-2">
-                          <input
-                            type="range"
-                            min="20"
-                            max="80"
-                            value={clubCreationData.phase2TimePercent}
-                            onChange={(e) => setClubCreationData(prev => ({ ...prev, phase2TimePercent: Number(e.target.value) }))}
-                            className="flex-1 accent-blue-500"
-                          />
-                          <span className="text-white font-medium text-sm w-12 text-right">{clubCreationData.phase2TimePercent}%</span>
-                        </div>
-                        <p className="text-white/40 text-xs mt-2">Trigger at {clubCreationData.phase2TimePercent}% completion</p>
-                      </div>
-                      
-                      {/* Value-based trigger */}
-                      <div className="bg-white/5 rounded-xl p-4">
-                        <label className="text-sm text-white/70 mb-2 block">Value-Based</label>
-                        <div className="flex items-center gap-2">
-                          <span className="text-white/50">$</span>
-                          <input
-                            type="number"
-                            min="10000"
-                            max="10000000"
-                            step="50000"
-                            value={clubCreationData.phase2ValueThreshold}
-                            onChange={(e) => setClubCreationData(prev => ({ ...prev, phase2ValueThreshold: Number(e.target.value) }))}
-                            className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          />
-                        </div>
-                        <p className="text-white/40 text-xs mt-2">Trigger when vault reaches this value</p>
-                      </div>
-                    </div>
-                    
-                    <p className="text-white/50 text-xs mt-3 text-center">
-                      Phase 2 triggers when <span className="text-white">either</span> condition is met (whichever comes first)
-                    </p>
-                  </div>
+                  <ContractSettingsControls data={clubCreationData} onChange={setClubCreationData} />
                 </div>
               </div>
             )}
@@ -1943,11 +1524,15 @@ Your contract is now live and ready for members to join!`);
         </div>
       </div>;
   };
+  const strandAllocation = getStrandAllocation(selectedContract?.riskLevel);
   const strandData = {
     1: {
       title: "Capital Strand",
-      subtitle: "Spark Protocol • 10% Allocation",
+      subtitle: `Spark Protocol • ${formatAllocationPercent(strandAllocation.strand1)} Allocation`,
       apy: `${apyStrand1.toFixed(1)}% APY`,
+      rate: apyStrand1,
+      marketRate: aaveRates.liquidityRate,
+      marketData: lendingRates,
       description: "Stablecoin lending that tracks ownership and holds emergency reserves",
       features: ["Spark Protocol stablecoin lending (≈3-5% APY)", "Tracks ownership and holds emergency reserves", "Provides capital for wBTC purchases in Phase 2", "Lowest risk, steady returns from lending"],
       color: "from-pink-500 to-rose-600",
@@ -1955,8 +1540,11 @@ Your contract is now live and ready for members to join!`);
     },
     2: {
       title: "Yield Strand",
-      subtitle: "AAVE Protocol Polygon • 60% Allocation",
+      subtitle: `AAVE Protocol Polygon • ${formatAllocationPercent(strandAllocation.strand2)} Allocation`,
       apy: `${apyStrand2.toFixed(1)}% APY`,
+      rate: apyStrand2,
+      marketRate: aaveRates.aavePolygonRate,
+      marketData: lendingRates,
       description: "AAVE Protocol lending with enhanced yield compounding",
       features: ["AAVE Protocol Polygon lending (≈7-10% APY)", "Supply APY enhanced by smart compounding", "Core lending engine of the system", "Medium risk, optimized returns"],
       color: "from-purple-500 to-indigo-600",
@@ -1964,8 +1552,11 @@ Your contract is now live and ready for members to join!`);
     },
     3: {
       title: "Momentum Strand",
-      subtitle: "QuickSwap V3 LP • 30% Allocation",
-      apy: `${apyStrand3.toFixed(1)}% APY`,
+      subtitle: `QuickSwap V3 LP • ${formatAllocationPercent(strandAllocation.strand3)} Allocation`,
+      apy: `${getStrand3Apy(selectedContract?.riskLevel).toFixed(1)}% APY`,
+      rate: getStrand3Apy(selectedContract?.riskLevel),
+      marketRate: getRiskAdjustedStrand3(selectedContract?.riskLevel)?.apy ?? quickSwapAPY,
+      marketData: getRiskAdjustedStrand3(selectedContract?.riskLevel) ? poolScreening : quickSwapApy,
       description: "Concentrated liquidity farming on QuickSwap V3 wETH/USDC",
       features: ["QuickSwap V3 LP Farming wETH/USDC (≈12-15% APY)", "High-velocity fee generation engine", "Concentrated liquidity maximizes returns", "Highest APY from trading fees"],
       color: "from-cyan-500 to-blue-600",
@@ -1975,6 +1566,9 @@ Your contract is now live and ready for members to join!`);
       title: "Bitcoin Strategy",
       subtitle: "wBTC Phase 2 • Future Allocation",
       apy: `${btcPrice.toLocaleString()}`,
+      rate: btcPrice,
+      marketRate: btcPrice,
+      marketData: bitcoinPrice,
       description: "Wrapped Bitcoin accumulation via weekly DCA for wealth preservation",
       features: ["Automatic pivot to wBTC accumulation in Phase 2", "Weekly Dollar Cost Averaging (DCA) purchases", "100% wBTC allocation by contract conclusion", "Preserves wealth in world's premier digital store of value"],
       color: "from-orange-400 to-orange-600",
@@ -2004,8 +1598,12 @@ Your contract is now live and ready for members to join!`);
             </div>
             <div className="mt-4">
               <div className="text-3xl font-bold">{data.apy}</div>
-              {strand !== 4 && <div className="text-white/80">Current Market Rate</div>}
-              {strand === 4 && <div className="text-white/80">Live Bitcoin Price</div>}
+              <div className="text-white/80">
+                {Math.abs(data.rate - data.marketRate) > 0.005
+                  ? `Calculator Rate (market: ${data.marketRate.toFixed(2)}%)`
+                  : `${data.marketData.status === 'live' ? 'Current' : data.marketData.status === 'cached' ? 'Last Known' : 'Default'} ${strand === 4 ? 'Bitcoin Price' : 'Market Rate'}`}
+              </div>
+              <div className="mt-2"><MarketDataProvenance data={data.marketData} onRefresh={data.marketData.refresh} tone="inverse" /></div>
             </div>
           </div>
           
@@ -2038,13 +1636,13 @@ Your contract is now live and ready for members to join!`);
   };
   
   // Calculate earnings for different time periods (real data from contracts)
-  const calculateEarnings = (period: '1W' | '1M' | '1Y' | 'All') => {
-    if (!selectedContract) return { deposits: 0, earnings: 0 };
-    const balance = parseFloat(selectedContract.totalContractBalance || "0");
-    const avgAPY = (apyStrand1 + apyStrand2 + apyStrand3) / 3 / 100;
+  const calculateEarnings = (period: '1W' | '1M' | '1Y' | 'All', club: Subclub | null = selectedContract) => {
+    if (!club) return { deposits: 0, earnings: 0 };
+    const balance = parseFloat(club.totalContractBalance || "0");
+    const avgAPY = getBlendedApy(getStrandApys(club.riskLevel), getHoldingsAllocation(club)) / 100;
     
     // Calculate actual time elapsed since contract creation
-    const startDate = new Date(selectedContract.createdAt);
+    const startDate = new Date(club.createdAt);
     const now = new Date();
     const msElapsed = now.getTime() - startDate.getTime();
     const daysElapsed = msElapsed / (1000 * 60 * 60 * 24);
@@ -2091,7 +1689,7 @@ Your contract is now live and ready for members to join!`);
     }
     
     const balance = parseFloat(selectedContract.totalContractBalance || "0");
-    const avgAPY = (apyStrand1 + apyStrand2 + apyStrand3) / 3 / 100;
+    const avgAPY = getBlendedApy(getStrandApys(selectedContract.riskLevel), getHoldingsAllocation(selectedContract)) / 100;
     const startDate = new Date(selectedContract.createdAt);
     const now = new Date();
     const totalDays = Math.max((now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24), 1);
@@ -2242,6 +1840,13 @@ Your contract is now live and ready for members to join!`);
               const depositFillPath = depositPath + ` L 400 140 L 0 140 Z`;
               const earningsFillPath = earningsPath + ` L 400 140 L 0 140 Z`;
               
+              // Phase 2 switchover, when it falls inside the all-time window
+              const startTime = selectedContract ? new Date(selectedContract.createdAt).getTime() : 0;
+              const phase2Date = selectedContract && earningsTimeline === 'All' && getContractPhase(selectedContract) === 2 ? getPhase2Projection(selectedContract).date : null;
+              const phase2X = phase2Date && phase2Date.getTime() > startTime && phase2Date.getTime() <= Date.now()
+                ? (phase2Date.getTime() - startTime) / Math.max(Date.now() - startTime, 1) * 400
+                : null;
+              
               return (
                 <>
                   {/* Fill areas */}
@@ -2269,6 +1874,14 @@ Your contract is now live and ready for members to join!`);
                     strokeLinejoin="round"
                   />
                   
+                  {/* Phase 2 switchover */}
+                  {phase2X !== null && (
+                    <g>
+                      <line x1={phase2X} y1="0" x2={phase2X} y2="140" stroke="#f97316" strokeWidth="1.5" strokeDasharray="4,3" />
+                      <text x={Math.min(phase2X + 4, 360)} y="12" fontSize="10" fill="#f97316">Phase 2</text>
+                    </g>
+                  )}
+                  
                   {/* End point indicators */}
                   {points.length > 0 && (
                     <>
@@ -2318,6 +1931,9 @@ Your contract is now live and ready for members to join!`);
         </div>
       </div>
 
+      {/* Upcoming and overdue deposits */}
+      {walletConnected && <DepositObligations schedules={getUserDepositSchedules()} className="mb-8 max-w-3xl mx-auto animate-fade-up stagger-2" />}
+
       {/* Contract Progress Bars - Clicking opens modal */}
       {walletConnected && deployedSubclubs.filter(club => club.creator === walletAddress || club.members && club.members.includes(walletAddress)).length > 0 && <div className="mb-12 animate-fade-up stagger-2">
           <div className="text-center mb-6">
@@ -2397,7 +2013,7 @@ Your contract is now live and ready for members to join!`);
       {/* Strands Modal - Triggered by clicking on a contract */}
       {showStrandsModal && selectedContract && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-fade-up" onClick={() => setShowStrandsModal(false)}>
-          <div className="glass-card max-w-lg w-full p-6 space-y-6" onClick={(e) => e.stopPropagation()}>
+          <div className="glass-card max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-6" onClick={(e) => e.stopPropagation()}>
             {/* Modal Header */}
             <div className="flex justify-between items-start">
               <div>
@@ -2425,6 +2041,13 @@ Your contract is now live and ready for members to join!`);
                 <div className="text-xs text-muted-foreground font-medium">{selectedContract.isChargedContract ? 'Month' : 'Year'} Lockup</div>
               </div>
             </div>
+            {(() => {
+              const accruedFees = summarizeAccruedFees(contractLedgerDeposits.filter(deposit => deposit.contract_id === selectedContract.id));
+              return accruedFees.deposits > 0 && <div className="text-xs text-muted-foreground text-center">
+                  Utility fees accrued: <span className="font-semibold text-foreground">${accruedFees.utilityFees.toFixed(2)}</span> over {accruedFees.deposits} deposit{accruedFees.deposits === 1 ? '' : 's'}
+                  {' '}(${getUtilityFeeRate(selectedContract.isChargedContract).toFixed(2)}/member/week, owed and not yet deducted from the balance)
+                </div>;
+            })()}
             
             {/* DNA Strand Section */}
             <div className="space-y-4">
@@ -2511,16 +2134,33 @@ Your contract is now live and ready for members to join!`);
                     </div>
                     <div>
                       <div className="font-bold text-foreground">Phase 2 • wBTC</div>
-                      <div className="text-xs text-muted-foreground">Bitcoin accumulation</div>
+                      <div className="text-xs text-muted-foreground">Triggers at {describePhase2Trigger(getPhase2Config(selectedContract))}</div>
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="font-bold text-orange-500">Pending</div>
+                    <div className="font-bold text-orange-500">{(() => {
+                      if (getContractPhase(selectedContract) === 2) return 'Active';
+                      const { date } = getPhase2Projection(selectedContract);
+                      if (!date) return 'At maturity';
+                      return date <= new Date() ? 'Pending' : `Est. ${date.toLocaleDateString()}`;
+                    })()}</div>
                     <ChevronRight className="w-4 h-4 text-muted-foreground inline" />
                   </div>
                 </div>
               </button>
             </div>
+
+            {/* Ownership - shared with every member of a multi-member contract */}
+            {selectedContract.members.length > 1 && <OwnershipLedgerPanel ledger={getOwnershipLedger(selectedContract)} currentMember={walletAddress} />}
+
+            {/* Deposit Activity */}
+            <div className="space-y-4">
+              <h4 className="font-bold text-foreground flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+                Deposit Activity
+              </h4>
+              <DepositActivity contractId={selectedContract.id} refreshKey={depositLedgerVersion} pageSize={5} emptyMessage="No deposits into this contract yet" />
+            </div>
           </div>
         </div>
       )}
@@ -2570,55 +2210,69 @@ Your contract is now live and ready for members to join!`);
             </h2>
             <div className="text-sm text-muted-foreground">
               <span className="text-foreground/70">Averaged Earnings Rate: </span>
-              <span className="text-secondary font-semibold">{calculateAveragedAPY(aaveRates.liquidityRate, apyStrand2, quickSwapAPY).toFixed(2)}%</span>
+              <span className="text-secondary font-semibold">{getBlendedApy(
+                { strand1: aaveRates.liquidityRate, strand2: aaveRates.aavePolygonRate, strand3: quickSwapAPY },
+                selectedContract ? getHoldingsAllocation(selectedContract) : getStrandAllocation()
+              ).toFixed(2)}%</span>
+              <button onClick={marketDataRefresh.refresh} disabled={marketDataRefresh.isRefreshing} className="ml-3 inline-flex items-center gap-1 text-primary/80 hover:text-primary disabled:opacity-50">
+                <RefreshCw className={`w-3.5 h-3.5 ${marketDataRefresh.isRefreshing ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
             </div>
           </div>
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="p-5 bg-muted/40 rounded-2xl border border-border/40 hover:border-red-500/30 transition-all duration-300">
               <div className="text-sm text-muted-foreground mb-2">Spark USDC Lending</div>
-              <div className="text-2xl font-bold text-red-500 mb-3">{aaveRates.liquidityRate.toFixed(2)}%</div>
+              <div className="text-2xl font-bold text-red-500 mb-1">{aaveRates.liquidityRate.toFixed(2)}%</div>
+              <div className="mb-3"><MarketDataProvenance data={lendingRates} onRefresh={lendingRates.refresh} /></div>
               <div className="h-12 bg-gradient-to-r from-red-500/10 to-orange-500/5 rounded-lg p-2">
-                <svg viewBox="0 0 200 40" className="w-full h-full">
-                  <polyline points="10,25 30,28 50,24 70,26 90,23 110,25 130,22 150,24 170,21 190,23" fill="none" stroke="hsl(12 90% 55%)" strokeWidth="2.5" strokeLinecap="round" />
-                </svg>
+                <MarketSparkline values={weeklySnapshots.map(snapshot => snapshot.strand1Apy)} color="hsl(12 90% 55%)" />
               </div>
             </div>
             
             <div className="p-5 bg-muted/40 rounded-2xl border border-border/40 hover:border-violet-300/30 transition-all duration-300">
               <div className="text-sm text-muted-foreground mb-2">AAVE Lending Rate</div>
-              <div className="text-2xl font-bold text-violet-300 mb-3">{apyStrand2.toFixed(2)}%</div>
+              <div className="text-2xl font-bold text-violet-300 mb-1">{aaveRates.aavePolygonRate.toFixed(2)}%</div>
+              <div className="mb-3"><MarketDataProvenance data={lendingRates} onRefresh={lendingRates.refresh} /></div>
               <div className="h-12 bg-gradient-to-r from-violet-300/10 to-violet-300/5 rounded-lg p-2">
-                <svg viewBox="0 0 200 40" className="w-full h-full">
-                  <polyline points="10,20 30,18 50,22 70,19 90,21 110,17 130,20 150,16 170,19 190,15" fill="none" stroke="hsl(270 70% 75%)" strokeWidth="2.5" strokeLinecap="round" />
-                </svg>
+                <MarketSparkline values={weeklySnapshots.map(snapshot => snapshot.strand2Apy)} color="hsl(270 70% 75%)" />
               </div>
             </div>
             
             <div className="p-5 bg-muted/40 rounded-2xl border border-border/40 hover:border-cyan-400/30 transition-all duration-300">
               <div className="text-sm text-muted-foreground mb-2">QuickSwap Rate</div>
-              <div className="text-2xl font-bold text-cyan-400 mb-3">{quickSwapAPY.toFixed(2)}%</div>
+              <div className="text-2xl font-bold text-cyan-400 mb-1">{quickSwapAPY.toFixed(2)}%</div>
+              <div className="mb-3"><MarketDataProvenance data={quickSwapApy} onRefresh={quickSwapApy.refresh} /></div>
               <div className="h-12 bg-gradient-to-r from-cyan-400/10 to-cyan-400/5 rounded-lg p-2">
-                <svg viewBox="0 0 200 40" className="w-full h-full">
-                  <polyline points="10,30 30,25 50,28 70,22 90,26 110,20 130,24 150,18 170,22 190,16" fill="none" stroke="hsl(190 90% 55%)" strokeWidth="2.5" strokeLinecap="round" />
-                </svg>
+                <MarketSparkline values={weeklySnapshots.map(snapshot => snapshot.strand3Apy)} color="hsl(190 90% 55%)" />
               </div>
             </div>
             
             <div className="p-5 bg-muted/40 rounded-2xl border border-border/40 hover:border-orange-400/30 transition-all duration-300">
               <div className="flex justify-between items-start mb-2">
                 <div className="text-sm text-muted-foreground">Bitcoin Price</div>
-                <div className="text-xs text-secondary font-medium px-2 py-0.5 bg-secondary/10 rounded-full">+2.4%</div>
+                {weeklyBtcChange !== null && <div title="Change over the last 7 days of recorded snapshots" className={`text-xs font-medium px-2 py-0.5 rounded-full ${weeklyBtcChange >= 0 ? 'text-secondary bg-secondary/10' : 'text-destructive bg-destructive/10'}`}>
+                    {weeklyBtcChange >= 0 ? '+' : ''}{(weeklyBtcChange * 100).toFixed(1)}% 7D
+                  </div>}
               </div>
-              <div className="text-2xl font-bold text-orange-400 mb-3">${btcPrice.toLocaleString()}</div>
+              <div className="text-2xl font-bold text-orange-400 mb-1">${btcPrice.toLocaleString()}</div>
+              <div className="mb-3"><MarketDataProvenance data={bitcoinPrice} onRefresh={bitcoinPrice.refresh} /></div>
               <div className="h-12 bg-gradient-to-r from-orange-500/10 to-orange-500/5 rounded-lg p-2">
-                <svg viewBox="0 0 200 40" className="w-full h-full">
-                  <polyline points="10,30 30,20 50,25 70,15 90,20 110,10 130,15 150,25 170,15 190,20" fill="none" stroke="hsl(30 95% 58%)" strokeWidth="2.5" strokeLinecap="round" />
-                </svg>
+                <MarketSparkline values={weeklySnapshots.map(snapshot => snapshot.btcPrice)} color="hsl(30 95% 58%)" />
               </div>
             </div>
           </div>
         </div>
 
+        <MarketHistoryChart />
+
+        <PoolScreeningPanel />
+
+        {isAdmin && <StrandRateExplanation
+            rates={{ strand1: aaveRates.liquidityRate, strand2: aaveRates.aavePolygonRate, strand3: quickSwapAPY }}
+            riskAdjustedStrand3={poolScreening.value.riskScreened ? Object.fromEntries(Object.entries(poolScreening.value.picks).map(([riskLevel, pick]) => [riskLevel, pick.apy])) : undefined}
+          />}
+
         <div className="glass-card p-6 animate-fade-up stagger-3">
           <h2 className="text-xl font-semibold text-foreground mb-2">Protocol Access & Resources</h2>
           <div className="text-sm text-muted-foreground mb-5">Direct links to DeFi protocols powering The Vault Club</div>
@@ -2822,8 +2476,8 @@ Your contract is now live and ready for members to join!`);
               <div className="text-sm text-muted-foreground mb-5">Turnkey • Polygon Network</div>
               
               <div className="flex flex-wrap justify-center gap-3 mt-6">
-                <button onClick={handleDeposit} disabled={!canDeposit() || calculateWeeklyDepositAmount() === 0} className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${!canDeposit() || calculateWeeklyDepositAmount() === 0 ? 'bg-muted text-muted-foreground cursor-not-allowed' : 'bg-gradient-to-r from-secondary to-emerald-500 hover:shadow-lg hover:shadow-secondary/25 text-white hover:-translate-y-0.5'}`}>
-                  {calculateWeeklyDepositAmount() === 0 ? 'Join/Create a Contract' : !canDeposit() ? `Deposit in ${getDaysUntilNextDeposit()}d` : `Deposit ${calculateWeeklyDepositAmount()}`}
+                <button onClick={handleDeposit} disabled={!canDeposit()} className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ${!canDeposit() ? 'bg-muted text-muted-foreground cursor-not-allowed' : 'bg-gradient-to-r from-secondary to-emerald-500 hover:shadow-lg hover:shadow-secondary/25 text-white hover:-translate-y-0.5'}`}>
+                  {getUserContracts().length === 0 ? 'Join/Create a Contract' : !canDeposit() ? `Deposit in ${getDaysUntilNextDeposit()}d` : `Deposit $${getTotalDueNow().toFixed(2)}`}
                 </button>
                 <a 
                   href={`https://polygonscan.com/address/${walletAddress}`} 
@@ -2857,7 +2511,7 @@ Your contract is now live and ready for members to join!`);
             </div>
             <div className="text-center p-5 rounded-2xl bg-muted/50 border border-border/50">
               <div className="text-3xl font-bold text-primary tabular-nums mb-1">
-                {parseFloat(vaultStats.totalDeposits || "0") > 0 && parseFloat(vaultBalance) > 0 ? (parseFloat(vaultBalance) / parseFloat(vaultStats.totalDeposits) * 100).toFixed(1) : 0}%
+                {walletConnected ? getOwnershipShare().toFixed(1) : 0}%
               </div>
               <div className="text-sm text-muted-foreground">Ownership Share</div>
             </div>
@@ -2868,11 +2522,11 @@ Your contract is now live and ready for members to join!`);
           </div>
         </div>
 
+        {walletConnected && <DepositObligations schedules={getUserDepositSchedules()} className="animate-fade-up stagger-3" />}
+
         {walletConnected && <div className="glass-card p-6 animate-fade-up stagger-3">
             <h2 className="text-xl font-semibold text-foreground mb-4">Recent Activity</h2>
-            <div className="text-center py-8 text-muted-foreground">
-              {(vaultStats.transactions || 0) > 0 ? `${vaultStats.transactions} transaction${vaultStats.transactions === 1 ? '' : 's'} recorded` : "No transactions yet - make your first deposit to get started"}
-            </div>
+            <DepositActivity refreshKey={depositLedgerVersion} contractNames={Object.fromEntries(deployedSubclubs.map(club => [club.id, club.name]))} />
           </div>}
       </div>
     </div>;
@@ -2925,7 +2579,7 @@ Your contract is now live and ready for members to join!`);
               </div> : <div className="grid md:grid-cols-2 gap-4">
                 {deployedSubclubs.filter(club => !club.isPrivate).map(subclub => {
               const isUserMember = walletConnected && subclub.members && subclub.members.includes(walletAddress);
-              const canJoin = !isUserMember && subclub.currentMembers < subclub.maxMembers;
+              const canJoin = walletConnected && !isUserMember && subclub.currentMembers < subclub.maxMembers;
               const isFull = subclub.currentMembers >= subclub.maxMembers;
               return <div key={subclub.id} className="p-4 bg-background/30 backdrop-blur-sm rounded-xl border border-border/20 hover:border-primary/30 transition-colors">
                       <div className="flex justify-between items-start mb-2">
@@ -2943,9 +2597,11 @@ Your contract is now live and ready for members to join!`);
                         <div className="flex flex-col items-end space-y-1">
                           {isUserMember ? <span className="text-xs px-3 py-1 rounded-full bg-primary/20 text-primary">
                               Member
-                            </span> : canJoin ? <button className="text-xs px-3 py-1 rounded-full transition-colors bg-defi-emerald hover:bg-defi-emerald/80 text-background font-medium" onClick={() => {
-                      // Join contract logic here
-                      alert(`Joining contract ${subclub.contractAddress.slice(0, 8)}...`);
+                            </span> : canJoin ? <button className="text-xs px-3 py-1 rounded-full transition-colors bg-defi-emerald hover:bg-defi-emerald/80 text-background font-medium" onClick={async () => {
+                      const joined = await joinContractAndReload(subclub, walletAddress);
+                      if (joined) {
+                        setDeployedSubclubs(prev => mergeContracts(prev, [joined]));
+                      }
                     }}>
                               Join
                             </button> : isFull ? <span className="text-xs px-3 py-1 rounded-full bg-muted text-muted-foreground">
@@ -3014,9 +2670,26 @@ Your contract is now live and ready for members to join!`);
                   <div className="text-sm text-muted-foreground">
                     Rigor: <span className="font-medium text-foreground capitalize">{subclub.rigorLevel}</span>
                   </div>
+                  <div className="text-sm text-muted-foreground">
+                    Phase 2: <span className="font-medium text-foreground">{formatPhase2Projection(subclub)}</span>
+                    <span className="text-xs"> ({describePhase2Trigger(getPhase2Config(subclub))})</span>
+                  </div>
                   <div className="text-xs text-muted-foreground mt-2">
                     {subclub.creator === walletAddress ? 'Created' : 'Joined'}: {new Date(subclub.createdAt).toLocaleDateString()}
                   </div>
+                  {subclub.members.includes(walletAddress) && <div className="flex gap-3 mt-2 text-xs text-muted-foreground">
+                      Statement:
+                      <button onClick={() => exportContractStatement(subclub, 'csv')} className="text-primary/80 hover:text-primary hover:underline">CSV</button>
+                      <button onClick={() => exportContractStatement(subclub, 'pdf')} className="text-primary/80 hover:text-primary hover:underline">PDF</button>
+                    </div>}
+                  {subclub.status === 'active' && <div className="flex gap-4 mt-2">
+                      {subclub.creator === walletAddress && <button onClick={() => setEditingContract(subclub)} className="text-xs text-primary/80 hover:text-primary hover:underline">
+                          Edit Contract
+                        </button>}
+                      {subclub.members.includes(walletAddress) && <button onClick={() => setExitingContract(subclub)} className="text-xs text-destructive/80 hover:text-destructive hover:underline">
+                          Emergency Exit
+                        </button>}
+                    </div>}
                   
                   {/* Share Button */}
                   <button onClick={() => {
@@ -3052,35 +2725,60 @@ Your contract is now live and ready for members to join!`);
             </div>}
         </div>
 
+        {/* Governance - group contracts and removals by vote */}
+        {walletConnected && deployedSubclubs.filter(club => club.members.includes(walletAddress) && club.members.length > 1 || (club.removedMembers || []).some(removed => removed.member === walletAddress)).length > 0 && <div className="glass-card p-6 animate-fade-up stagger-3">
+            <h2 className="text-xl font-semibold text-foreground mb-5 flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-primary animate-pulse"></div>
+              Governance
+            </h2>
+            <div className="space-y-6">
+              {deployedSubclubs.filter(club => club.members.includes(walletAddress) && club.members.length > 1 || (club.removedMembers || []).some(removed => removed.member === walletAddress)).map(subclub => <div key={subclub.id} className={`p-4 bg-background/30 rounded-xl border-l-4 ${getContractColor(subclub)}`}>
+                  <h3 className="font-semibold text-foreground mb-3">{subclub.name}</h3>
+                  <ContractGovernance club={subclub} currentMember={walletAddress} onContractChanged={() => handleGovernanceChange(subclub.id)} terminationBreakdown={getTerminationBreakdown(subclub)} settledAt={getContractSettlement(subclub)?.settled_at} />
+                </div>)}
+            </div>
+          </div>}
+
         {/* Member Directory - Third */}
         <div className="glass-card p-6 animate-fade-up stagger-3">
           <h2 className="text-xl font-semibold text-foreground mb-5">Member Directory</h2>
           
           {walletConnected ? <div className="space-y-6">
-              {deployedSubclubs.filter(club => club.creator === walletAddress || club.members && club.members.includes(walletAddress)).map(subclub => <div key={subclub.id} className={`p-4 bg-white/10 rounded-lg border-l-4 ${getContractColor(subclub)}`}>
+              {deployedSubclubs.filter(club => club.creator === walletAddress || club.members && club.members.includes(walletAddress)).map(subclub => {
+                const ownership = getOwnershipLedger(subclub).members;
+                return <div key={subclub.id} className={`p-4 bg-white/10 rounded-lg border-l-4 ${getContractColor(subclub)}`}>
                   <h3 className="font-semibold text-white mb-3">
                     {subclub.lockupPeriod} Year Lockup - {subclub.rigorLevel.charAt(0).toUpperCase() + subclub.rigorLevel.slice(1)} Rigor
                   </h3>
                   <div className="grid md:grid-cols-2 gap-4">
-                    <div className="p-3 bg-white/10 rounded-lg">
+                    {(subclub.members.length > 0 ? subclub.members : [walletAddress]).map(member => {
+                      const memberOwnership = ownership.find(entry => entry.member === member);
+                      return <div key={member} className="p-3 bg-white/10 rounded-lg">
                       <div className="flex justify-between items-start mb-2">
                         <div>
-                          <div className="font-semibold text-white">Me ({walletAddress?.slice(0, 6)}...{walletAddress?.slice(-4)})</div>
-                          <div className="text-sm text-slate-300">Penalties: 0/15</div>
+                          <div className="font-semibold text-white">
+                            {member === walletAddress ? `Me (${member?.slice(0, 6)}...${member?.slice(-4)})` : `${member.slice(0, 6)}...${member.slice(-4)}`}
+                          </div>
+                          <div className="text-sm text-slate-300">Missed deposits: {memberOwnership?.missedCount || 0}</div>
                         </div>
                         <span className="text-xs px-2 py-1 rounded-full bg-green-100 text-green-800">
                           Active
                         </span>
                       </div>
                       <div className="text-sm text-slate-300">
-                        Contributed: <span className="font-medium text-white">${parseFloat(vaultBalance).toFixed(2)}</span>
+                        Contributed: <span className="font-medium text-white">${(memberOwnership?.contributed || 0).toFixed(2)}</span>
+                      </div>
+                      <div className="text-sm text-slate-300">
+                        Ownership: <span className="font-medium text-white">{(memberOwnership?.share || 0).toFixed(1)}%</span>
                       </div>
                       <div className="text-xs text-slate-300 mt-1">
-                        Role: {subclub.creator === walletAddress ? 'Owner' : 'Member'}
+                        Role: {subclub.creator === member ? 'Owner' : 'Member'}
                       </div>
-                    </div>
+                    </div>;
+                    })}
                   </div>
-                </div>)}
+                </div>;
+              })}
               {deployedSubclubs.filter(club => club.creator === walletAddress || club.members && club.members.includes(walletAddress)).length === 0 && <div className="text-center py-8 text-slate-300">
                   <div className="font-medium">No contracts yet</div>
                   <div className="text-sm">Join a contract to see member information</div>
@@ -3093,77 +2791,49 @@ Your contract is now live and ready for members to join!`);
     </div>;
   const FutureSimulationPage = () => {
     // Simple compound interest calculation
-    const simpleAPY = calculateAveragedAPY(apyStrand1, apyStrand2, apyStrand3);
+    const allocation = getStrandAllocation(simulationRiskLevel);
+    const simpleAPY = getBlendedApy(getStrandApys(simulationRiskLevel), allocation);
     
-    // Calculate simple compound growth data with frequency support
-    const calculateSimpleCompound = () => {
-      const data = [];
-      const periodsPerYear = customDepositFrequency === 'daily' ? 365 : 
-                              customDepositFrequency === 'weekly' ? 52 : 
-                              customDepositFrequency === 'monthly' ? 12 : 1;
-      const totalPeriods = Math.ceil(simulationYears * periodsPerYear);
-      let totalValue = 0;
-      let totalDeposited = 0;
-      const periodRate = Math.pow(1 + simpleAPY / 100, 1 / periodsPerYear) - 1;
-      
-      // Calculate deposit per period based on rigor and frequency
-      const getDepositPerPeriod = (year: number) => {
-        let weeklyAmount = 0;
-        if (simulationRigor === 'light') {
-          if (year <= 1) weeklyAmount = 100 / 4.33;
-          else if (year <= 2) weeklyAmount = 150 / 4.33;
-          else weeklyAmount = 250 / 4.33;
-        } else if (simulationRigor === 'medium') {
-          if (year <= 3) weeklyAmount = 50;
-          else if (year <= 6) weeklyAmount = 100;
-          else if (year <= 10) weeklyAmount = 200;
-          else weeklyAmount = 250;
-        } else if (simulationRigor === 'heavy') {
-          if (year <= 3) weeklyAmount = 100;
-          else if (year <= 6) weeklyAmount = 200;
-          else if (year <= 10) weeklyAmount = 300;
-          else weeklyAmount = 400;
-        } else {
-          // Custom amount - convert based on frequency
-          if (customDepositFrequency === 'daily') return customSimulationAmount;
-          if (customDepositFrequency === 'weekly') return customSimulationAmount;
-          if (customDepositFrequency === 'monthly') return customSimulationAmount;
-          if (customDepositFrequency === 'yearly') return customSimulationAmount;
-        }
-        
-        // Convert weekly amount to the appropriate frequency
-        if (customDepositFrequency === 'daily') return weeklyAmount / 7;
-        if (customDepositFrequency === 'weekly') return weeklyAmount;
-        if (customDepositFrequency === 'monthly') return weeklyAmount * 4.33;
-        if (customDepositFrequency === 'yearly') return weeklyAmount * 52;
-        return weeklyAmount;
-      };
-      
-      for (let period = 0; period <= totalPeriods; period++) {
-        const year = Math.floor(period / periodsPerYear) + 1;
-        const depositPerPeriod = getDepositPerPeriod(year);
-        
-        if (period > 0) {
-          totalValue = totalValue * (1 + periodRate) + depositPerPeriod;
-          totalDeposited += depositPerPeriod;
-        }
-        
-        // Add data point for each year
-        if (period % periodsPerYear === 0) {
-          data.push({
-            year: Math.floor(period / periodsPerYear),
-            total: Math.round(totalValue),
-            deposited: Math.round(totalDeposited),
-            earnings: Math.round(totalValue - totalDeposited)
-          });
-        }
-      }
-      
-      return data;
-    };
+    // Real values are in today's dollars; nominal values leave inflation out
+    const inflationRate = showRealValues ? inflationPercent / 100 : 0;
+    const valueUnit = showRealValues ? " (today's $)" : '';
+    
+    // Simple compound growth at the selected deposit frequency
+    const calculateSimpleCompound = () => runBlendedCompound({
+      apy: simpleAPY,
+      years: simulationYears,
+      plan: {
+        rigorLevel: simulationRigor,
+        customDepositFrequency: customDepositFrequency,
+        customWeeklyAmount: customSimulationAmount
+      },
+      frequency: customDepositFrequency,
+      inflationRate,
+      phase2: simulationPhase2
+    });
     
-    const compoundData = calculateSimpleCompound();
-    const maxValue = Math.max(...compoundData.map(d => Math.max(d.total, d.deposited)), 1);
+    const strandProjection = runStrandSimulation(getSimulationInputs());
+    const blendedProjection = calculateSimpleCompound();
+    // Monte Carlo bands come from the strand model, so the curve they spread around is its fixed-APY run
+    const compoundData = projectionMode === 'monteCarlo' ? toCompoundPoints(strandProjection.points, inflationRate) : blendedProjection.points;
+    // P10-P90 spread of the strand model over sampled market paths
+    const bands = projectionMode === 'monteCarlo' && monteCarlo.result ? monteCarlo.result.bands.map(band => ({
+      year: band.year,
+      p10: toRealValue(band.p10, band.year, inflationRate),
+      p50: toRealValue(band.p50, band.year, inflationRate),
+      p90: toRealValue(band.p90, band.year, inflationRate)
+    })) : [];
+    const maxValue = Math.max(...compoundData.map(d => Math.max(d.total, d.deposited)), ...bands.map(band => band.p90), 1);
+    const updateMonteCarloConfig = (changes: Partial<MonteCarloConfig>) => setMonteCarloConfig(prev => ({ ...prev, ...changes }));
+    // Where the plotted curve meets the Phase 2 trigger, as a fraction of the chart
+    const phase2Year = projectionMode === 'monteCarlo'
+      ? (strandProjection.phase2Week !== null ? strandProjection.phase2Week / 52 : null)
+      : blendedProjection.phase2Year;
+    const finalYear = compoundData[compoundData.length - 1]?.year || 0;
+    const phase2Position = phase2Year !== null && finalYear > 0 ? Math.min(1, phase2Year / finalYear) : null;
+    const feeDrag = getFeeDrag(getSimulationInputs());
+    // Fees at the projection's contract type and member count
+    const weeklyFees = getWeeklyFees(simulationCharged, simulationMembers, gasEstimate?.weeklyTotal);
     
     return <div className="relative z-10 px-6 py-8 pb-32">
         <div ref={futurePageIntroRef} className={`flex items-center mb-8 animate-fade-up ${tutorial.currentStepData?.target === 'future-page-intro' ? 'tutorial-highlight' : ''}`}>
@@ -3196,14 +2866,20 @@ Your contract is now live and ready for members to join!`);
                   step="0.5"
                   value={simpleAPY} 
                   onChange={e => {
+                    // Keep the strands' relative rates and scale them so the blend matches
                     const val = Number(e.target.value);
-                    setApyStrand1(val * 0.3);
-                    setApyStrand2(val * 0.6);
-                    setApyStrand3(val * 1.5);
+                    const scale = val / getBlendedApy({ strand1: 0.3, strand2: 0.6, strand3: 1.5 }, allocation);
+                    setApyStrand1(0.3 * scale);
+                    setApyStrand2(0.6 * scale);
+                    setApyStrand3(1.5 * scale);
+                    setStrandApysOverridden(true);
                   }} 
                   className="w-full" 
                 />
                 <div className="text-center text-2xl font-black text-secondary mt-2">{simpleAPY.toFixed(1)}%</div>
+                {strandApysOverridden && <button onClick={() => setStrandApysOverridden(false)} className="block mx-auto mt-1 text-xs text-muted-foreground hover:text-foreground">
+                    Use live rates
+                  </button>}
               </div>
               
               {/* Time Period */}
@@ -3286,6 +2962,63 @@ Your contract is now live and ready for members to join!`);
                   </div>}
               </div>
             </div>
+            
+            {/* Nominal vs. inflation-adjusted values */}
+            <div className="mt-6 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex gap-2">
+                {([[false, 'Nominal'], [true, 'Real (today\'s $)']] as const).map(([real, label]) => <button key={label} onClick={() => setShowRealValues(real)} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${showRealValues === real ? 'bg-primary text-white' : 'bg-muted/40 text-muted-foreground hover:text-foreground'}`}>
+                    {label}
+                  </button>)}
+              </div>
+              {showRealValues && <div className="flex-1 flex items-center gap-3">
+                  <label className="text-sm font-semibold text-muted-foreground whitespace-nowrap">Inflation: {inflationPercent.toFixed(1)}%/yr</label>
+                  <input type="range" min="0" max="8" step="0.5" value={inflationPercent} onChange={e => setInflationPercent(Number(e.target.value))} className="w-full" />
+                </div>}
+            </div>
+
+            {/* Projection assumptions */}
+            <div className="mt-6 pt-6 border-t border-border/30 grid md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-sm font-semibold text-muted-foreground mb-2">Phase 2 Trigger</label>
+                <select value={simulationPhase2.triggerType} onChange={e => setSimulationPhase2(prev => ({ ...prev, triggerType: e.target.value as Phase2TriggerConfig['triggerType'] }))} className="select-premium">
+                  <option value="both">Time or value, whichever first</option>
+                  <option value="time">Time only</option>
+                  <option value="value">Vault value only</option>
+                </select>
+                {simulationPhase2.triggerType !== 'value' && <div className="mt-3 flex items-center gap-3">
+                    <input type="range" min="20" max="80" value={simulationPhase2.timePercent} onChange={e => setSimulationPhase2(prev => ({ ...prev, timePercent: Number(e.target.value) }))} className="w-full" />
+                    <span className="text-sm font-bold text-foreground whitespace-nowrap">{simulationPhase2.timePercent}% of term</span>
+                  </div>}
+                {simulationPhase2.triggerType !== 'time' && <div className="mt-3">
+                    <label className="block text-xs font-semibold text-muted-foreground mb-1">Vault value ($)</label>
+                    <input type="number" min="10000" max="10000000" step="50000" value={simulationPhase2.valueThreshold} onChange={e => setSimulationPhase2(prev => ({ ...prev, valueThreshold: Number(e.target.value) }))} className="input-premium text-sm w-full" />
+                  </div>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-muted-foreground mb-2">Risk Level</label>
+                <select value={simulationRiskLevel} onChange={e => setSimulationRiskLevel(e.target.value)} className="select-premium">
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+                <div className="text-center text-foreground font-bold text-sm mt-2">
+                  {formatAllocationPercent(allocation.strand1)} / {formatAllocationPercent(allocation.strand2)} / {formatAllocationPercent(allocation.strand3)} across Strands 1-3
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-muted-foreground mb-2">Contract Type & Members</label>
+                <select value={simulationCharged ? 'charged' : 'traditional'} onChange={e => setSimulationCharged(e.target.value === 'charged')} className="select-premium">
+                  <option value="traditional">Traditional (${getUtilityFeeRate(false).toFixed(2)}/member/week)</option>
+                  <option value="charged">Charged (${getUtilityFeeRate(true).toFixed(2)}/member/week)</option>
+                </select>
+                <div className="mt-3">
+                  <label className="block text-xs font-semibold text-muted-foreground mb-1">Members sharing gas</label>
+                  <input type="number" min="1" max="100" value={simulationMembers} onChange={e => setSimulationMembers(Math.max(1, Math.round(Number(e.target.value)) || 1))} className="input-premium text-sm w-full" />
+                </div>
+              </div>
+            </div>
           </div>
 
           {/* Growth Visualization - Smooth Curve Chart */}
@@ -3303,9 +3036,57 @@ Your contract is now live and ready for members to join!`);
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 rounded-full bg-secondary"></div>
-                  <span className="text-sm text-muted-foreground font-medium">Total Value</span>
+                  <span className="text-sm text-muted-foreground font-medium">Total Value{valueUnit}{projectionMode === 'monteCarlo' ? ' • strand model' : ''}</span>
                 </div>
+                {bands.length > 0 && <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm bg-accent/30 border border-accent"></div>
+                    <span className="text-sm text-muted-foreground font-medium">P10–P90 • Median</span>
+                  </div>}
+                {phase2Position !== null && <div className="flex items-center gap-2" title={`Triggers at ${describePhase2Trigger(getSimulationInputs().phase2)}`}>
+                    <div className="w-3 h-0.5 bg-orange-500"></div>
+                    <span className="text-sm text-muted-foreground font-medium">Phase 2 • Y{phase2Year.toFixed(1)}</span>
+                  </div>}
+              </div>
+            </div>
+            
+            {/* Projection mode */}
+            <div className="mb-4 space-y-3">
+              <div className="flex gap-2">
+                {([['expected', 'Expected'], ['monteCarlo', 'Monte Carlo']] as const).map(([mode, label]) => <button key={mode} onClick={() => setProjectionMode(mode)} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 ${projectionMode === mode ? 'bg-secondary text-white' : 'bg-muted/40 text-muted-foreground hover:text-foreground'}`}>
+                    {label}
+                  </button>)}
               </div>
+              {projectionMode === 'monteCarlo' && <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-xs">
+                  <div>
+                    <label className="block font-semibold text-muted-foreground mb-1">APY volatility: {Math.round(monteCarloConfig.apyVolatility * 100)}%</label>
+                    <input type="range" min="0" max="100" step="5" value={monteCarloConfig.apyVolatility * 100} onChange={e => updateMonteCarloConfig({ apyVolatility: Number(e.target.value) / 100 })} className="w-full" />
+                  </div>
+                  <div>
+                    <label className="block font-semibold text-muted-foreground mb-1">BTC volatility: {Math.round(monteCarloConfig.btcVolatility * 100)}%</label>
+                    <input type="range" min="0" max="150" step="5" value={monteCarloConfig.btcVolatility * 100} onChange={e => updateMonteCarloConfig({ btcVolatility: Number(e.target.value) / 100 })} className="w-full" />
+                  </div>
+                  <div>
+                    <label className="block font-semibold text-muted-foreground mb-1">Paths</label>
+                    <select value={monteCarloConfig.runs} onChange={e => updateMonteCarloConfig({ runs: Number(e.target.value) })} className="select-premium text-sm w-full">
+                      <option value="250">250</option>
+                      <option value="500">500</option>
+                      <option value="1000">1,000</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block font-semibold text-muted-foreground mb-1">Seed</label>
+                    <input type="number" min="0" value={monteCarloConfig.seed} onChange={e => updateMonteCarloConfig({ seed: Number(e.target.value) })} className="input-premium text-sm w-full" />
+                  </div>
+                  <div>
+                    <label className="block font-semibold text-muted-foreground mb-1">Target value ($)</label>
+                    <input type="number" min="0" step="1000" value={monteCarloConfig.targetValue} onChange={e => updateMonteCarloConfig({ targetValue: Number(e.target.value) })} className="input-premium text-sm w-full" />
+                  </div>
+                </div>}
+              {projectionMode === 'monteCarlo' && <div className="text-sm text-muted-foreground">
+                  {monteCarlo.error ? <span className="text-red-500">{monteCarlo.error}</span> : monteCarlo.isRunning ? `Running ${monteCarloConfig.runs.toLocaleString()} paths...` : monteCarlo.result && <span>
+                      <span className="text-secondary font-semibold">{(monteCarlo.result.probabilityOfTarget * 100).toFixed(1)}%</span> chance of reaching ${monteCarloConfig.targetValue.toLocaleString()} by the end of the term ({monteCarlo.result.runs.toLocaleString()} paths)
+                    </span>}
+                </div>}
             </div>
             
             {/* SVG Curve Chart */}
@@ -3359,12 +3140,29 @@ Your contract is now live and ready for members to join!`);
                   const depositedFillPath = depositedPath + ` L 400 160 L 0 160 Z`;
                   const totalFillPath = totalPath + ` L 400 160 L 0 160 Z`;
                   
+                  // Percentile band: P90 left to right, then back along P10
+                  const lastBandYear = bands.length > 0 ? bands[bands.length - 1].year : 0;
+                  const bandPoints = bands.map(band => ({
+                    x: lastBandYear > 0 ? (band.year / lastBandYear) * 400 : 0,
+                    y10: 160 - (band.p10 / maxValue) * 140,
+                    y50: 160 - (band.p50 / maxValue) * 140,
+                    y90: 160 - (band.p90 / maxValue) * 140
+                  }));
+                  const bandPath = bandPoints.length > 1
+                    ? createSmoothPath(bandPoints.map(p => ({ x: p.x, y: p.y90 }))) + ' ' + createSmoothPath([...bandPoints].reverse().map(p => ({ x: p.x, y: p.y10 }))).replace(/^M/, 'L') + ' Z'
+                    : null;
+                  const medianPath = bandPoints.length > 1 ? createSmoothPath(bandPoints.map(p => ({ x: p.x, y: p.y50 }))) : null;
+                  
                   return (
                     <>
                       {/* Fill areas */}
                       <path d={depositedFillPath} fill="url(#depositedGradientFuture)" />
                       <path d={totalFillPath} fill="url(#totalGradientFuture)" />
                       
+                      {/* Monte Carlo percentile band and median */}
+                      {bandPath && <path d={bandPath} fill="hsl(var(--accent))" fillOpacity="0.2" stroke="hsl(var(--accent))" strokeOpacity="0.5" strokeWidth="1" />}
+                      {medianPath && <path d={medianPath} fill="none" stroke="hsl(var(--accent))" strokeWidth="2" strokeDasharray="6,4" />}
+                      
                       {/* Deposited line - thicker */}
                       <path 
                         d={depositedPath} 
@@ -3386,6 +3184,14 @@ Your contract is now live and ready for members to join!`);
                         strokeLinejoin="round"
                       />
                       
+                      {/* Phase 2 switchover */}
+                      {phase2Position !== null && (
+                        <g>
+                          <line x1={phase2Position * 400} y1="0" x2={phase2Position * 400} y2="160" stroke="#f97316" strokeWidth="1.5" strokeDasharray="4,3" />
+                          <text x={Math.min(phase2Position * 400 + 4, 360)} y="12" fontSize="10" fill="#f97316">Phase 2</text>
+                        </g>
+                      )}
+                      
                       {/* End point indicators */}
                       {points.length > 0 && (
                         <>
@@ -3432,23 +3238,58 @@ Your contract is now live and ready for members to join!`);
                   <div className="text-xl font-black text-secondary">
                     ${compoundData[compoundData.length - 1]?.total?.toLocaleString() || '0'}
                   </div>
-                  <div className="text-sm text-muted-foreground font-medium">Final Value</div>
+                  <div className="text-sm text-muted-foreground font-medium">Final Value{valueUnit}</div>
                 </div>
                 <div className="soft-card text-center p-4">
                   <div className="text-xl font-black text-primary">
                     ${compoundData[compoundData.length - 1]?.deposited?.toLocaleString() || '0'}
                   </div>
-                  <div className="text-sm text-muted-foreground font-medium">Total Deposited</div>
+                  <div className="text-sm text-muted-foreground font-medium">Total Deposited{valueUnit}</div>
                 </div>
                 <div className="soft-card text-center p-4">
                   <div className="text-xl font-black text-foreground">
                     ${compoundData[compoundData.length - 1]?.earnings?.toLocaleString() || '0'}
                   </div>
-                  <div className="text-sm text-muted-foreground font-medium">Interest Earned</div>
+                  <div className="text-sm text-muted-foreground font-medium">Interest Earned{valueUnit}</div>
+                </div>
+              </div>}
+            
+            {/* What gas and utility fees cost over the strand projection */}
+            {feeDrag.feesPaid > 0 && <div className="mt-4 soft-card p-4">
+                <div className="text-sm font-semibold text-foreground mb-3">Fee Drag</div>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-lg font-black text-foreground">${Math.round(feeDrag.feesPaid).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground font-medium">Fees Paid</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-black text-foreground">${Math.round(feeDrag.valueLost).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground font-medium">Final Value Lost</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-black text-red-500">{(feeDrag.shareOfReturns * 100).toFixed(1)}%</div>
+                    <div className="text-xs text-muted-foreground font-medium">of Returns</div>
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground mt-3">
+                  Compared with the same strand projection without gas and utility fees, in nominal dollars. Value lost includes the growth the fees would have earned.
                 </div>
               </div>}
+            
+            {/* Export the year-by-year strand projection */}
+            {chartData.length > 0 && <div className="mt-4 flex items-center justify-end gap-3 text-sm text-muted-foreground">
+                Strand projection:
+                <button onClick={() => exportProjection('csv')} className="text-primary/80 hover:text-primary hover:underline">Export CSV</button>
+                <button onClick={() => exportProjection('pdf')} className="text-primary/80 hover:text-primary hover:underline">Print / PDF</button>
+              </div>}
           </div>
 
+          {/* Work backwards from a goal to a contribution or lockup */}
+          <GoalPlanner apys={getStrandApys(simulationRiskLevel)} riskLevel={simulationRiskLevel} onUsePlan={prefillCustomContract} />
+
+          {/* Replay a template against past market data */}
+          <BacktestPanel templates={CONTRACT_TEMPLATES.filter(t => t.settings).map(t => ({ id: t.id, name: t.name, settings: t.settings }))} />
+
           {/* More Details Dropdown - Advanced Info */}
           <div className="glass-card p-6 animate-fade-up stagger-3">
             <button 
@@ -3469,7 +3310,7 @@ Your contract is now live and ready for members to join!`);
                 <div className="grid md:grid-cols-2 gap-4">
                   <div className="bg-background/30 backdrop-blur-sm p-4 rounded-xl border border-border/30">
                     <div className="text-sm text-muted-foreground mb-1">APY Used</div>
-                    <div className="text-xl font-bold text-foreground">{simpleAPY.toFixed(2)}%</div>
+                    <div className="text-xl font-bold text-foreground">{projectionMode === 'monteCarlo' ? 'Per strand' : `${simpleAPY.toFixed(2)}%`}</div>
                   </div>
                   <div className="bg-background/30 backdrop-blur-sm p-4 rounded-xl border border-border/30">
                     <div className="text-sm text-muted-foreground mb-1">Compounding</div>
@@ -3485,17 +3326,21 @@ Your contract is now live and ready for members to join!`);
                   <div className="bg-background/30 backdrop-blur-sm p-4 rounded-xl border border-orange-500/30">
                     <div className="text-sm text-muted-foreground mb-1">wBTC Conversion</div>
                     <div className="text-lg font-bold text-orange-500">Phase 2</div>
-                    <div className="text-xs text-muted-foreground mt-1">Activates after 50% completion</div>
+                    <div className="text-xs text-muted-foreground mt-1">Activates at {describePhase2Trigger(simulationPhase2)}</div>
                   </div>
                   <div className="bg-background/30 backdrop-blur-sm p-4 rounded-xl border border-destructive/30">
                     <div className="text-sm text-muted-foreground mb-1">Est. Gas Fees</div>
-                    <div className="text-lg font-bold text-destructive">~$0.58/week</div>
-                    <div className="text-xs text-muted-foreground mt-1">Network transaction costs</div>
+                    <div className="text-lg font-bold text-destructive">~${weeklyFees.gas.toFixed(2)}/week</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {gasEstimate?.source === 'live' ? `Polygon at ${gasEstimate.gasPriceGwei.toFixed(1)} gwei, POL $${gasEstimate.polPriceUsd.toFixed(2)}` : gasEstimate?.source === 'stub' ? 'Development estimate (stubbed prices)' : 'Network transaction costs (fixed estimate)'}
+                    </div>
                   </div>
                   <div className="bg-background/30 backdrop-blur-sm p-4 rounded-xl border border-primary/30">
                     <div className="text-sm text-muted-foreground mb-1">Utility Fee</div>
-                    <div className="text-lg font-bold text-primary">$1.00/week</div>
-                    <div className="text-xs text-muted-foreground mt-1">Platform service fee</div>
+                    <div className="text-lg font-bold text-primary">${weeklyFees.utility.toFixed(2)}/week</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      ${getUtilityFeeRate(simulationCharged).toFixed(2)}/user/week{simulationCharged ? ' (charged contract)' : ''} × {simulationMembers} member{simulationMembers === 1 ? '' : 's'}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -3654,6 +3499,8 @@ Your contract is now live and ready for members to join!`);
 
       {/* Create Club Modal */}
       {activeModal === 'createClub' && CreateClubModal()}
+      {editingContract && <EditContractModal club={editingContract} onClose={() => setEditingContract(null)} onSaved={() => refreshContract(editingContract.id)} />}
+      {exitingContract && <EmergencyExitModal club={exitingContract} breakdown={getExitBreakdown(exitingContract)} onClose={() => setExitingContract(null)} onConfirm={() => handleEmergencyExit(exitingContract)} />}
       
       {/* Auth Modal */}
       {showAuthModal && <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-up" role="dialog" aria-modal="true" aria-labelledby="auth-modal-title">
@@ -0,0 +1,470 @@
+/**
+ * Development stand-in for the `market_snapshots` table
+ *
+ * A year of synthetic snapshots, daily and then every six hours for the last
+ * 30 days, so the Dataset page's history charts work without Supabase. The
+ * market snapshot service replays them shifted so the last row is now.
+ *
+ * Rows are [UTC hour (YYYY-MM-DDTHH), strand 1 APY, strand 2 APY, strand 3 APY, BTC price].
+ */
+
+export type DevMarketSnapshotRow = [string, number, number, number, number];
+
+export const DEV_MARKET_SNAPSHOTS: DevMarketSnapshotRow[] = [
+  ['2025-10-19T00', 3.88, 5.24, 12.82, 67463],
+  ['2025-10-20T00', 3.82, 5.21, 13.47, 68331],
+  ['2025-10-21T00', 3.88, 5.22, 13.62, 68748],
+  ['2025-10-22T00', 3.78, 5.28, 13.84, 69778],
+  ['2025-10-23T00', 3.68, 5.11, 13.20, 68931],
+  ['2025-10-24T00', 3.70, 5.10, 13.46, 67764],
+  ['2025-10-25T00', 3.73, 5.13, 12.98, 71166],
+  ['2025-10-26T00', 3.76, 5.23, 12.57, 69770],
+  ['2025-10-27T00', 3.74, 5.21, 12.95, 70321],
+  ['2025-10-28T00', 3.72, 5.12, 12.60, 72832],
+  ['2025-10-29T00', 3.67, 5.13, 12.85, 69919],
+  ['2025-10-30T00', 3.68, 5.24, 11.61, 69355],
+  ['2025-10-31T00', 3.68, 5.16, 11.98, 69296],
+  ['2025-11-01T00', 3.60, 5.22, 12.42, 71220],
+  ['2025-11-02T00', 3.70, 5.25, 12.50, 68738],
+  ['2025-11-03T00', 3.74, 5.18, 12.23, 66406],
+  ['2025-11-04T00', 3.69, 5.12, 13.02, 62790],
+  ['2025-11-05T00', 3.60, 5.14, 13.85, 63873],
+  ['2025-11-06T00', 3.50, 4.90, 13.95, 62626],
+  ['2025-11-07T00', 3.45, 5.00, 14.50, 62959],
+  ['2025-11-08T00', 3.48, 5.04, 15.29, 64117],
+  ['2025-11-09T00', 3.53, 5.08, 14.13, 66520],
+  ['2025-11-10T00', 3.60, 5.13, 12.82, 65409],
+  ['2025-11-11T00', 3.66, 4.96, 12.68, 67364],
+  ['2025-11-12T00', 3.59, 5.10, 13.00, 67141],
+  ['2025-11-13T00', 3.62, 5.16, 13.03, 69393],
+  ['2025-11-14T00', 3.59, 5.11, 13.61, 69507],
+  ['2025-11-15T00', 3.54, 5.19, 14.40, 68709],
+  ['2025-11-16T00', 3.47, 5.17, 14.16, 68199],
+  ['2025-11-17T00', 3.57, 5.07, 14.78, 65879],
+  ['2025-11-18T00', 3.54, 5.12, 15.28, 67543],
+  ['2025-11-19T00', 3.57, 5.13, 15.15, 68702],
+  ['2025-11-20T00', 3.57, 5.15, 15.28, 68765],
+  ['2025-11-21T00', 3.63, 5.19, 16.26, 69456],
+  ['2025-11-22T00', 3.61, 5.15, 15.96, 71341],
+  ['2025-11-23T00', 3.60, 5.18, 16.78, 66457],
+  ['2025-11-24T00', 3.54, 5.19, 16.68, 66963],
+  ['2025-11-25T00', 3.53, 5.24, 16.51, 66050],
+  ['2025-11-26T00', 3.69, 5.26, 15.86, 65926],
+  ['2025-11-27T00', 3.68, 5.24, 13.95, 65092],
+  ['2025-11-28T00', 3.75, 5.12, 13.80, 66913],
+  ['2025-11-29T00', 3.80, 5.25, 12.67, 66314],
+  ['2025-11-30T00', 3.78, 5.29, 13.31, 61571],
+  ['2025-12-01T00', 3.85, 5.15, 13.66, 59104],
+  ['2025-12-02T00', 3.86, 5.25, 13.48, 59475],
+  ['2025-12-03T00', 3.90, 5.25, 13.35, 62140],
+  ['2025-12-04T00', 3.96, 5.21, 14.93, 60230],
+  ['2025-12-05T00', 4.01, 5.18, 14.81, 61486],
+  ['2025-12-06T00', 4.01, 5.22, 13.71, 58995],
+  ['2025-12-07T00', 4.04, 5.13, 13.00, 56667],
+  ['2025-12-08T00', 4.10, 5.19, 13.84, 55248],
+  ['2025-12-09T00', 4.08, 5.08, 14.19, 57814],
+  ['2025-12-10T00', 4.02, 5.21, 14.65, 57579],
+  ['2025-12-11T00', 3.89, 5.33, 14.42, 56666],
+  ['2025-12-12T00', 3.91, 5.35, 15.17, 55120],
+  ['2025-12-13T00', 3.97, 5.46, 15.82, 54891],
+  ['2025-12-14T00', 3.92, 5.53, 15.63, 55132],
+  ['2025-12-15T00', 4.00, 5.48, 14.00, 54587],
+  ['2025-12-16T00', 3.88, 5.53, 14.07, 53709],
+  ['2025-12-17T00', 3.87, 5.58, 13.99, 55791],
+  ['2025-12-18T00', 3.86, 5.65, 14.77, 58416],
+  ['2025-12-19T00', 3.82, 5.69, 13.46, 56722],
+  ['2025-12-20T00', 3.70, 5.75, 12.64, 56753],
+  ['2025-12-21T00', 3.69, 5.71, 12.28, 57177],
+  ['2025-12-22T00', 3.81, 5.68, 12.61, 58854],
+  ['2025-12-23T00', 3.80, 5.54, 12.27, 60705],
+  ['2025-12-24T00', 3.70, 5.45, 12.89, 62123],
+  ['2025-12-25T00', 3.70, 5.50, 12.96, 60160],
+  ['2025-12-26T00', 3.61, 5.42, 13.48, 59268],
+  ['2025-12-27T00', 3.57, 5.33, 12.48, 59127],
+  ['2025-12-28T00', 3.51, 5.35, 11.07, 59726],
+  ['2025-12-29T00', 3.49, 5.16, 11.62, 59320],
+  ['2025-12-30T00', 3.37, 5.07, 11.86, 58616],
+  ['2025-12-31T00', 3.44, 5.13, 12.31, 59208],
+  ['2026-01-01T00', 3.53, 5.18, 12.60, 55902],
+  ['2026-01-02T00', 3.60, 5.29, 12.41, 55222],
+  ['2026-01-03T00', 3.73, 5.12, 12.70, 59153],
+  ['2026-01-04T00', 3.68, 5.18, 13.82, 59007],
+  ['2026-01-05T00', 3.72, 5.25, 13.17, 58913],
+  ['2026-01-06T00', 3.74, 5.31, 13.09, 58644],
+  ['2026-01-07T00', 3.68, 5.26, 13.58, 58865],
+  ['2026-01-08T00', 3.63, 5.17, 15.09, 60828],
+  ['2026-01-09T00', 3.68, 4.93, 15.26, 61708],
+  ['2026-01-10T00', 3.79, 4.97, 15.00, 62674],
+  ['2026-01-11T00', 3.67, 5.07, 14.99, 61509],
+  ['2026-01-12T00', 3.76, 5.23, 13.95, 60427],
+  ['2026-01-13T00', 3.78, 5.23, 13.60, 58854],
+  ['2026-01-14T00', 3.91, 5.32, 12.79, 56729],
+  ['2026-01-15T00', 4.00, 5.39, 13.86, 58083],
+  ['2026-01-16T00', 3.94, 5.39, 12.46, 56930],
+  ['2026-01-17T00', 3.93, 5.42, 12.02, 56784],
+  ['2026-01-18T00', 3.95, 5.43, 12.45, 57168],
+  ['2026-01-19T00', 3.92, 5.48, 12.48, 55912],
+  ['2026-01-20T00', 3.88, 5.46, 12.41, 56208],
+  ['2026-01-21T00', 3.88, 5.45, 12.34, 54311],
+  ['2026-01-22T00', 3.90, 5.52, 12.62, 54073],
+  ['2026-01-23T00', 3.92, 5.41, 11.47, 54212],
+  ['2026-01-24T00', 3.86, 5.46, 10.90, 50411],
+  ['2026-01-25T00', 3.79, 5.58, 10.80, 48558],
+  ['2026-01-26T00', 3.75, 5.59, 11.23, 48843],
+  ['2026-01-27T00', 3.84, 5.63, 11.32, 49710],
+  ['2026-01-28T00', 3.94, 5.68, 12.03, 48269],
+  ['2026-01-29T00', 3.92, 5.71, 11.89, 49780],
+  ['2026-01-30T00', 3.95, 5.76, 11.81, 53507],
+  ['2026-01-31T00', 4.02, 5.70, 11.92, 57592],
+  ['2026-02-01T00', 3.98, 5.75, 12.55, 57655],
+  ['2026-02-02T00', 3.91, 5.73, 12.77, 59561],
+  ['2026-02-03T00', 3.95, 5.69, 13.26, 60523],
+  ['2026-02-04T00', 3.95, 5.66, 13.05, 61752],
+  ['2026-02-05T00', 3.88, 5.57, 13.01, 59326],
+  ['2026-02-06T00', 3.85, 5.36, 12.56, 60332],
+  ['2026-02-07T00', 3.88, 5.34, 12.41, 58037],
+  ['2026-02-08T00', 3.99, 5.37, 13.08, 56672],
+  ['2026-02-09T00', 3.97, 5.19, 13.50, 58228],
+  ['2026-02-10T00', 3.85, 5.17, 13.80, 55475],
+  ['2026-02-11T00', 3.73, 5.07, 13.32, 53386],
+  ['2026-02-12T00', 3.74, 5.09, 13.63, 54495],
+  ['2026-02-13T00', 3.83, 5.19, 12.75, 53777],
+  ['2026-02-14T00', 3.77, 5.08, 12.69, 53834],
+  ['2026-02-15T00', 3.80, 4.93, 11.93, 53848],
+  ['2026-02-16T00', 3.79, 4.91, 11.94, 52762],
+  ['2026-02-17T00', 3.83, 4.95, 11.93, 51825],
+  ['2026-02-18T00', 3.82, 4.70, 11.38, 51926],
+  ['2026-02-19T00', 3.73, 4.74, 11.56, 50006],
+  ['2026-02-20T00', 3.71, 4.72, 11.91, 50916],
+  ['2026-02-21T00', 3.72, 4.66, 11.87, 50868],
+  ['2026-02-22T00', 3.77, 4.70, 11.49, 49020],
+  ['2026-02-23T00', 3.74, 4.65, 10.90, 48905],
+  ['2026-02-24T00', 3.72, 4.68, 11.35, 48386],
+  ['2026-02-25T00', 3.86, 4.67, 12.10, 48595],
+  ['2026-02-26T00', 3.92, 4.47, 11.68, 48976],
+  ['2026-02-27T00', 3.96, 4.71, 11.94, 50809],
+  ['2026-02-28T00', 3.99, 4.80, 12.29, 50633],
+  ['2026-03-01T00', 4.01, 4.72, 13.02, 49255],
+  ['2026-03-02T00', 4.02, 4.92, 12.84, 49327],
+  ['2026-03-03T00', 4.08, 4.93, 12.33, 49729],
+  ['2026-03-04T00', 4.10, 5.00, 11.88, 52277],
+  ['2026-03-05T00', 4.18, 5.00, 12.09, 51700],
+  ['2026-03-06T00', 4.25, 4.93, 12.53, 51056],
+  ['2026-03-07T00', 4.18, 5.00, 13.32, 51088],
+  ['2026-03-08T00', 4.12, 5.08, 13.23, 51581],
+  ['2026-03-09T00', 4.20, 5.17, 12.86, 55036],
+  ['2026-03-10T00', 4.18, 5.24, 12.44, 55017],
+  ['2026-03-11T00', 4.06, 5.38, 13.27, 53224],
+  ['2026-03-12T00', 3.95, 5.22, 13.91, 52591],
+  ['2026-03-13T00', 3.94, 5.18, 13.72, 51058],
+  ['2026-03-14T00', 3.94, 5.04, 13.58, 51548],
+  ['2026-03-15T00', 3.96, 5.02, 12.96, 51826],
+  ['2026-03-16T00', 3.92, 5.16, 13.38, 51705],
+  ['2026-03-17T00', 3.89, 5.09, 12.75, 51243],
+  ['2026-03-18T00', 3.90, 5.13, 13.07, 54393],
+  ['2026-03-19T00', 3.85, 5.12, 14.70, 51669],
+  ['2026-03-20T00', 3.82, 5.13, 14.62, 52310],
+  ['2026-03-21T00', 3.80, 5.16, 14.48, 53500],
+  ['2026-03-22T00', 3.69, 5.07, 14.32, 52023],
+  ['2026-03-23T00', 3.63, 5.12, 13.78, 53004],
+  ['2026-03-24T00', 3.69, 5.15, 13.99, 52896],
+  ['2026-03-25T00', 3.61, 5.14, 14.14, 52165],
+  ['2026-03-26T00', 3.61, 5.20, 13.48, 53156],
+  ['2026-03-27T00', 3.73, 5.14, 13.49, 52980],
+  ['2026-03-28T00', 3.83, 5.16, 13.95, 52013],
+  ['2026-03-29T00', 3.83, 5.15, 12.77, 54203],
+  ['2026-03-30T00', 3.88, 4.99, 13.19, 54053],
+  ['2026-03-31T00', 3.90, 5.02, 12.24, 53782],
+  ['2026-04-01T00', 3.98, 4.97, 11.65, 51819],
+  ['2026-04-02T00', 3.90, 5.00, 12.73, 52493],
+  ['2026-04-03T00', 3.91, 5.20, 12.40, 51558],
+  ['2026-04-04T00', 3.94, 5.24, 11.80, 49942],
+  ['2026-04-05T00', 3.95, 5.25, 11.07, 49704],
+  ['2026-04-06T00', 3.91, 5.28, 11.12, 49629],
+  ['2026-04-07T00', 3.88, 5.36, 12.06, 49166],
+  ['2026-04-08T00', 3.93, 5.27, 12.14, 50255],
+  ['2026-04-09T00', 4.01, 5.22, 12.12, 50577],
+  ['2026-04-10T00', 3.91, 5.21, 11.75, 51152],
+  ['2026-04-11T00', 3.84, 5.03, 11.83, 51573],
+  ['2026-04-12T00', 3.81, 5.11, 11.72, 50752],
+  ['2026-04-13T00', 3.83, 4.96, 11.38, 50768],
+  ['2026-04-14T00', 3.88, 4.95, 11.65, 49889],
+  ['2026-04-15T00', 3.90, 5.10, 11.31, 53355],
+  ['2026-04-16T00', 3.85, 5.09, 11.51, 54956],
+  ['2026-04-17T00', 3.78, 4.90, 11.95, 56245],
+  ['2026-04-18T00', 3.81, 5.14, 12.12, 56697],
+  ['2026-04-19T00', 3.87, 5.17, 13.15, 54814],
+  ['2026-04-20T00', 3.84, 4.85, 13.58, 54295],
+  ['2026-04-21T00', 3.90, 5.05, 13.49, 53958],
+  ['2026-04-22T00', 3.86, 4.97, 13.03, 54981],
+  ['2026-04-23T00', 3.86, 4.98, 12.89, 56458],
+  ['2026-04-24T00', 3.89, 4.97, 13.26, 56269],
+  ['2026-04-25T00', 3.81, 5.10, 13.47, 54830],
+  ['2026-04-26T00', 3.88, 5.13, 12.46, 57410],
+  ['2026-04-27T00', 3.89, 5.20, 12.58, 57222],
+  ['2026-04-28T00', 3.80, 5.28, 12.59, 56816],
+  ['2026-04-29T00', 3.82, 5.27, 12.99, 56279],
+  ['2026-04-30T00', 3.81, 5.07, 12.70, 57406],
+  ['2026-05-01T00', 3.89, 5.03, 12.61, 60062],
+  ['2026-05-02T00', 3.87, 5.09, 13.61, 60183],
+  ['2026-05-03T00', 3.94, 5.03, 13.64, 60107],
+  ['2026-05-04T00', 3.94, 5.13, 14.98, 59051],
+  ['2026-05-05T00', 3.90, 5.17, 14.15, 59932],
+  ['2026-05-06T00', 3.93, 5.13, 14.34, 57440],
+  ['2026-05-07T00', 3.97, 4.99, 13.77, 56603],
+  ['2026-05-08T00', 3.94, 5.06, 13.72, 56027],
+  ['2026-05-09T00', 3.96, 5.20, 13.63, 56655],
+  ['2026-05-10T00', 4.03, 5.22, 12.77, 60801],
+  ['2026-05-11T00', 4.15, 5.03, 12.72, 61571],
+  ['2026-05-12T00', 4.19, 5.09, 12.54, 59834],
+  ['2026-05-13T00', 4.17, 5.17, 11.88, 58190],
+  ['2026-05-14T00', 4.16, 4.99, 11.78, 57535],
+  ['2026-05-15T00', 4.16, 4.93, 11.31, 56955],
+  ['2026-05-16T00', 4.14, 4.87, 11.41, 58216],
+  ['2026-05-17T00', 4.20, 5.03, 11.03, 57588],
+  ['2026-05-18T00', 4.03, 5.20, 10.71, 57586],
+  ['2026-05-19T00', 4.05, 5.07, 11.13, 57595],
+  ['2026-05-20T00', 3.93, 5.09, 11.96, 54710],
+  ['2026-05-21T00', 3.97, 5.11, 12.29, 55440],
+  ['2026-05-22T00', 4.04, 5.08, 12.83, 54857],
+  ['2026-05-23T00', 4.07, 5.00, 12.73, 57633],
+  ['2026-05-24T00', 4.08, 4.99, 12.03, 56422],
+  ['2026-05-25T00', 4.08, 5.07, 12.32, 57308],
+  ['2026-05-26T00', 4.06, 5.19, 12.10, 56484],
+  ['2026-05-27T00', 4.10, 5.19, 11.97, 55630],
+  ['2026-05-28T00', 4.07, 5.24, 12.22, 53826],
+  ['2026-05-29T00', 4.08, 5.24, 11.64, 55053],
+  ['2026-05-30T00', 4.05, 5.20, 12.19, 57178],
+  ['2026-05-31T00', 4.00, 5.23, 11.69, 61061],
+  ['2026-06-01T00', 3.96, 5.32, 11.37, 62520],
+  ['2026-06-02T00', 4.09, 5.08, 11.20, 63459],
+  ['2026-06-03T00', 4.07, 5.01, 12.59, 63658],
+  ['2026-06-04T00', 3.95, 5.09, 11.55, 65802],
+  ['2026-06-05T00', 3.91, 5.10, 12.38, 66079],
+  ['2026-06-06T00', 3.82, 4.94, 13.10, 67524],
+  ['2026-06-07T00', 3.77, 5.02, 13.35, 68822],
+  ['2026-06-08T00', 3.64, 4.99, 13.82, 70313],
+  ['2026-06-09T00', 3.70, 4.77, 13.82, 71353],
+  ['2026-06-10T00', 3.86, 4.70, 13.52, 71489],
+  ['2026-06-11T00', 3.91, 4.67, 14.12, 69992],
+  ['2026-06-12T00', 3.92, 4.64, 14.09, 68713],
+  ['2026-06-13T00', 3.82, 4.76, 14.14, 67707],
+  ['2026-06-14T00', 3.83, 4.86, 13.43, 67559],
+  ['2026-06-15T00', 3.86, 4.91, 13.15, 63746],
+  ['2026-06-16T00', 3.93, 4.95, 13.11, 63308],
+  ['2026-06-17T00', 3.94, 4.91, 12.44, 62066],
+  ['2026-06-18T00', 3.90, 4.86, 11.75, 63238],
+  ['2026-06-19T00', 3.81, 4.93, 11.20, 63923],
+  ['2026-06-20T00', 3.90, 4.95, 10.87, 64067],
+  ['2026-06-21T00', 3.90, 4.80, 10.63, 64418],
+  ['2026-06-22T00', 3.87, 4.81, 11.22, 65875],
+  ['2026-06-23T00', 3.92, 4.88, 11.15, 65900],
+  ['2026-06-24T00', 3.90, 4.85, 11.15, 62850],
+  ['2026-06-25T00', 3.87, 4.86, 10.68, 62864],
+  ['2026-06-26T00', 3.90, 4.85, 12.07, 58493],
+  ['2026-06-27T00', 3.88, 4.69, 12.69, 63062],
+  ['2026-06-28T00', 3.73, 4.72, 12.99, 62586],
+  ['2026-06-29T00', 3.76, 4.53, 13.46, 63299],
+  ['2026-06-30T00', 3.77, 4.50, 13.77, 62500],
+  ['2026-07-01T00', 3.78, 4.48, 12.32, 62502],
+  ['2026-07-02T00', 3.79, 4.58, 11.80, 62500],
+  ['2026-07-03T00', 3.83, 4.61, 12.61, 66144],
+  ['2026-07-04T00', 3.78, 4.46, 13.11, 69100],
+  ['2026-07-05T00', 3.83, 4.56, 12.69, 67795],
+  ['2026-07-06T00', 3.88, 4.50, 11.59, 65987],
+  ['2026-07-07T00', 4.03, 4.70, 11.25, 64712],
+  ['2026-07-08T00', 4.03, 4.64, 12.14, 64628],
+  ['2026-07-09T00', 3.96, 4.78, 11.81, 65088],
+  ['2026-07-10T00', 3.95, 4.76, 12.06, 63896],
+  ['2026-07-11T00', 3.83, 4.58, 11.34, 62609],
+  ['2026-07-12T00', 3.83, 4.60, 11.77, 62877],
+  ['2026-07-13T00', 3.78, 4.56, 10.55, 62636],
+  ['2026-07-14T00', 3.81, 4.63, 10.64, 62387],
+  ['2026-07-15T00', 3.86, 4.65, 11.23, 63470],
+  ['2026-07-16T00', 3.87, 4.78, 10.99, 62892],
+  ['2026-07-17T00', 3.82, 4.72, 12.04, 66127],
+  ['2026-07-18T00', 3.82, 4.79, 12.78, 67700],
+  ['2026-07-19T00', 3.89, 4.68, 12.38, 68626],
+  ['2026-07-20T00', 3.97, 4.71, 11.87, 68009],
+  ['2026-07-21T00', 3.92, 4.65, 12.82, 66888],
+  ['2026-07-22T00', 3.92, 4.86, 13.51, 67582],
+  ['2026-07-23T00', 3.88, 4.90, 14.40, 68833],
+  ['2026-07-24T00', 3.95, 4.92, 14.56, 68508],
+  ['2026-07-25T00', 3.97, 5.04, 13.53, 68450],
+  ['2026-07-26T00', 3.97, 4.98, 13.27, 70038],
+  ['2026-07-27T00', 4.08, 5.04, 13.40, 67121],
+  ['2026-07-28T00', 4.19, 5.05, 13.31, 65110],
+  ['2026-07-29T00', 4.16, 4.95, 13.29, 66025],
+  ['2026-07-30T00', 4.15, 4.97, 12.71, 68784],
+  ['2026-07-31T00', 4.09, 4.81, 12.58, 67389],
+  ['2026-08-01T00', 4.02, 4.79, 12.75, 65254],
+  ['2026-08-02T00', 4.00, 4.93, 13.14, 65036],
+  ['2026-08-03T00', 3.99, 4.92, 13.06, 66443],
+  ['2026-08-04T00', 3.98, 4.71, 13.00, 64867],
+  ['2026-08-05T00', 4.01, 4.67, 13.05, 69007],
+  ['2026-08-06T00', 3.94, 4.58, 12.16, 64589],
+  ['2026-08-07T00', 3.82, 4.64, 11.80, 61353],
+  ['2026-08-08T00', 3.73, 4.71, 11.39, 60780],
+  ['2026-08-09T00', 3.75, 4.85, 12.65, 62619],
+  ['2026-08-10T00', 3.76, 4.87, 13.72, 65234],
+  ['2026-08-11T00', 3.75, 4.92, 13.79, 65388],
+  ['2026-08-12T00', 3.72, 4.80, 13.37, 62678],
+  ['2026-08-13T00', 3.79, 4.86, 12.58, 65235],
+  ['2026-08-14T00', 3.85, 4.70, 13.68, 66791],
+  ['2026-08-15T00', 3.97, 4.60, 13.90, 67648],
+  ['2026-08-16T00', 3.97, 4.64, 14.42, 64934],
+  ['2026-08-17T00', 3.89, 4.53, 13.93, 63900],
+  ['2026-08-18T00', 3.91, 4.58, 13.84, 62757],
+  ['2026-08-19T00', 3.88, 4.68, 14.19, 62991],
+  ['2026-08-20T00', 3.85, 4.84, 13.70, 64204],
+  ['2026-08-21T00', 3.92, 4.82, 14.10, 62285],
+  ['2026-08-22T00', 3.97, 4.85, 13.02, 63521],
+  ['2026-08-23T00', 3.91, 4.97, 12.57, 63286],
+  ['2026-08-24T00', 3.92, 4.94, 12.72, 62369],
+  ['2026-08-25T00', 3.96, 4.95, 12.83, 57794],
+  ['2026-08-26T00', 4.02, 4.95, 11.73, 58001],
+  ['2026-08-27T00', 4.04, 5.05, 11.14, 60623],
+  ['2026-08-28T00', 4.01, 5.26, 11.16, 61844],
+  ['2026-08-29T00', 3.98, 5.15, 11.93, 63491],
+  ['2026-08-30T00', 4.07, 5.22, 11.63, 60657],
+  ['2026-08-31T00', 4.01, 5.15, 11.21, 61710],
+  ['2026-09-01T00', 4.02, 5.12, 11.42, 61514],
+  ['2026-09-02T00', 4.02, 5.18, 12.08, 60399],
+  ['2026-09-03T00', 3.92, 5.30, 12.18, 62354],
+  ['2026-09-04T00', 3.82, 5.25, 12.22, 59941],
+  ['2026-09-05T00', 3.79, 5.31, 12.89, 62734],
+  ['2026-09-06T00', 3.73, 5.17, 13.17, 64466],
+  ['2026-09-07T00', 3.75, 5.04, 13.59, 65971],
+  ['2026-09-08T00', 3.79, 4.99, 13.68, 67509],
+  ['2026-09-09T00', 3.75, 4.83, 13.79, 68486],
+  ['2026-09-10T00', 3.76, 4.92, 13.33, 68390],
+  ['2026-09-11T00', 3.74, 4.97, 14.22, 67971],
+  ['2026-09-12T00', 3.87, 5.11, 14.56, 69160],
+  ['2026-09-13T00', 3.97, 5.09, 14.33, 67193],
+  ['2026-09-14T00', 3.99, 5.21, 14.50, 68055],
+  ['2026-09-15T00', 3.97, 5.21, 13.49, 70147],
+  ['2026-09-16T00', 3.93, 5.10, 12.96, 68607],
+  ['2026-09-17T00', 3.98, 5.19, 12.11, 70473],
+  ['2026-09-18T00', 4.02, 5.13, 11.24, 69080],
+  ['2026-09-19T00', 3.97, 5.15, 11.13, 65325],
+  ['2026-09-19T06', 3.98, 5.08, 11.43, 64245],
+  ['2026-09-19T12', 3.96, 5.04, 11.29, 65438],
+  ['2026-09-19T18', 3.98, 5.07, 11.41, 64049],
+  ['2026-09-20T00', 3.96, 5.04, 11.14, 64522],
+  ['2026-09-20T06', 3.94, 5.01, 10.85, 62704],
+  ['2026-09-20T12', 3.95, 5.07, 10.94, 61866],
+  ['2026-09-20T18', 3.87, 5.08, 11.33, 62138],
+  ['2026-09-21T00', 3.90, 5.14, 11.69, 61769],
+  ['2026-09-21T06', 3.93, 5.18, 11.25, 61434],
+  ['2026-09-21T12', 3.88, 5.17, 11.45, 60536],
+  ['2026-09-21T18', 3.82, 5.23, 11.58, 61809],
+  ['2026-09-22T00', 3.78, 5.27, 12.22, 63585],
+  ['2026-09-22T06', 3.77, 5.28, 12.18, 64495],
+  ['2026-09-22T12', 3.81, 5.28, 11.78, 65182],
+  ['2026-09-22T18', 3.79, 5.30, 11.87, 66696],
+  ['2026-09-23T00', 3.83, 5.28, 11.99, 68379],
+  ['2026-09-23T06', 3.81, 5.30, 12.36, 69608],
+  ['2026-09-23T12', 3.83, 5.23, 11.98, 69865],
+  ['2026-09-23T18', 3.84, 5.35, 11.73, 71003],
+  ['2026-09-24T00', 3.86, 5.27, 11.50, 71185],
+  ['2026-09-24T06', 3.84, 5.26, 11.66, 70398],
+  ['2026-09-24T12', 3.86, 5.22, 11.52, 70946],
+  ['2026-09-24T18', 3.84, 5.23, 12.02, 70988],
+  ['2026-09-25T00', 3.83, 5.26, 11.92, 72089],
+  ['2026-09-25T06', 3.79, 5.29, 11.78, 71303],
+  ['2026-09-25T12', 3.85, 5.25, 12.32, 71980],
+  ['2026-09-25T18', 3.89, 5.20, 12.68, 73479],
+  ['2026-09-26T00', 3.89, 5.19, 13.41, 73679],
+  ['2026-09-26T06', 3.87, 5.16, 13.53, 74037],
+  ['2026-09-26T12', 3.88, 5.24, 13.41, 74546],
+  ['2026-09-26T18', 3.92, 5.19, 13.70, 76500],
+  ['2026-09-27T00', 3.88, 5.14, 13.37, 74565],
+  ['2026-09-27T06', 3.89, 5.05, 13.50, 76114],
+  ['2026-09-27T12', 3.84, 5.04, 12.90, 76966],
+  ['2026-09-27T18', 3.82, 5.02, 12.91, 77573],
+  ['2026-09-28T00', 3.81, 5.02, 12.74, 77715],
+  ['2026-09-28T06', 3.77, 5.03, 12.16, 77201],
+  ['2026-09-28T12', 3.83, 5.03, 11.79, 77497],
+  ['2026-09-28T18', 3.80, 4.96, 11.58, 78318],
+  ['2026-09-29T00', 3.81, 4.95, 11.32, 77162],
+  ['2026-09-29T06', 3.85, 4.96, 11.06, 74932],
+  ['2026-09-29T12', 3.81, 5.08, 10.74, 74868],
+  ['2026-09-29T18', 3.82, 5.07, 10.69, 73459],
+  ['2026-09-30T00', 3.79, 5.14, 10.50, 74351],
+  ['2026-09-30T06', 3.73, 5.13, 10.62, 75454],
+  ['2026-09-30T12', 3.70, 5.15, 10.77, 74696],
+  ['2026-09-30T18', 3.72, 5.11, 10.57, 74693],
+  ['2026-10-01T00', 3.64, 5.11, 10.31, 73195],
+  ['2026-10-01T06', 3.63, 5.14, 10.23, 74521],
+  ['2026-10-01T12', 3.59, 5.08, 10.74, 74955],
+  ['2026-10-01T18', 3.62, 5.04, 11.02, 75245],
+  ['2026-10-02T00', 3.65, 5.04, 11.41, 74581],
+  ['2026-10-02T06', 3.62, 4.97, 11.78, 73831],
+  ['2026-10-02T12', 3.59, 4.93, 11.66, 72545],
+  ['2026-10-02T18', 3.58, 4.90, 11.51, 71593],
+  ['2026-10-03T00', 3.59, 4.88, 11.57, 71859],
+  ['2026-10-03T06', 3.60, 4.79, 11.42, 71079],
+  ['2026-10-03T12', 3.63, 4.72, 11.23, 70803],
+  ['2026-10-03T18', 3.62, 4.77, 11.12, 71782],
+  ['2026-10-04T00', 3.58, 4.69, 11.52, 72237],
+  ['2026-10-04T06', 3.59, 4.70, 11.68, 71034],
+  ['2026-10-04T12', 3.62, 4.68, 11.99, 71137],
+  ['2026-10-04T18', 3.57, 4.62, 12.34, 71017],
+  ['2026-10-05T00', 3.56, 4.64, 12.22, 70494],
+  ['2026-10-05T06', 3.56, 4.65, 12.68, 70555],
+  ['2026-10-05T12', 3.62, 4.74, 13.19, 71627],
+  ['2026-10-05T18', 3.63, 4.75, 13.13, 70914],
+  ['2026-10-06T00', 3.63, 4.72, 13.61, 71462],
+  ['2026-10-06T06', 3.62, 4.64, 13.57, 71063],
+  ['2026-10-06T12', 3.59, 4.59, 12.88, 71647],
+  ['2026-10-06T18', 3.59, 4.71, 12.86, 71515],
+  ['2026-10-07T00', 3.64, 4.72, 12.90, 71160],
+  ['2026-10-07T06', 3.62, 4.79, 13.20, 72907],
+  ['2026-10-07T12', 3.61, 4.80, 12.92, 73917],
+  ['2026-10-07T18', 3.57, 4.82, 13.24, 75409],
+  ['2026-10-08T00', 3.55, 4.88, 13.01, 74631],
+  ['2026-10-08T06', 3.51, 4.93, 13.49, 74029],
+  ['2026-10-08T12', 3.49, 4.91, 14.23, 75094],
+  ['2026-10-08T18', 3.48, 4.83, 13.99, 76370],
+  ['2026-10-09T00', 3.54, 4.82, 13.75, 75844],
+  ['2026-10-09T06', 3.48, 4.87, 13.40, 76998],
+  ['2026-10-09T12', 3.44, 4.81, 13.47, 76197],
+  ['2026-10-09T18', 3.47, 4.82, 13.10, 76880],
+  ['2026-10-10T00', 3.50, 4.73, 13.63, 77435],
+  ['2026-10-10T06', 3.52, 4.65, 13.40, 77074],
+  ['2026-10-10T12', 3.56, 4.59, 13.11, 74932],
+  ['2026-10-10T18', 3.55, 4.61, 12.60, 74331],
+  ['2026-10-11T00', 3.57, 4.69, 12.79, 74032],
+  ['2026-10-11T06', 3.54, 4.65, 12.59, 74201],
+  ['2026-10-11T12', 3.54, 4.73, 12.67, 73113],
+  ['2026-10-11T18', 3.59, 4.77, 12.70, 72395],
+  ['2026-10-12T00', 3.54, 4.73, 12.97, 71602],
+  ['2026-10-12T06', 3.50, 4.74, 13.03, 72228],
+  ['2026-10-12T12', 3.52, 4.81, 12.77, 73241],
+  ['2026-10-12T18', 3.50, 4.84, 12.82, 73508],
+  ['2026-10-13T00', 3.53, 4.84, 13.14, 74431],
+  ['2026-10-13T06', 3.54, 4.82, 12.91, 73900],
+  ['2026-10-13T12', 3.54, 4.82, 13.79, 74580],
+  ['2026-10-13T18', 3.56, 4.79, 13.55, 74264],
+  ['2026-10-14T00', 3.57, 4.74, 14.02, 73698],
+  ['2026-10-14T06', 3.61, 4.64, 13.98, 74001],
+  ['2026-10-14T12', 3.61, 4.67, 14.04, 74186],
+  ['2026-10-14T18', 3.56, 4.64, 13.30, 74859],
+  ['2026-10-15T00', 3.57, 4.64, 13.04, 74269],
+  ['2026-10-15T06', 3.63, 4.72, 13.01, 75637],
+  ['2026-10-15T12', 3.58, 4.64, 12.86, 74733],
+  ['2026-10-15T18', 3.57, 4.65, 13.76, 74061],
+  ['2026-10-16T00', 3.58, 4.67, 13.72, 75050],
+  ['2026-10-16T06', 3.63, 4.62, 13.75, 74789],
+  ['2026-10-16T12', 3.64, 4.55, 13.20, 72418],
+  ['2026-10-16T18', 3.66, 4.57, 13.20, 70074],
+  ['2026-10-17T00', 3.65, 4.54, 12.77, 69197],
+  ['2026-10-17T06', 3.67, 4.57, 12.75, 69713],
+  ['2026-10-17T12', 3.66, 4.58, 12.76, 70272],
+  ['2026-10-17T18', 3.66, 4.58, 12.71, 69656],
+  ['2026-10-18T00', 3.73, 4.60, 12.84, 71943],
+  ['2026-10-18T06', 3.77, 4.54, 13.04, 72808],
+  ['2026-10-18T12', 3.83, 4.60, 13.26, 71634],
+  ['2026-10-18T18', 3.80, 4.62, 13.40, 70633],
+  ['2026-10-19T00', 3.79, 4.61, 13.40, 70983]
+];
@@ -0,0 +1,9 @@
+/**
+ * Bundled strand rate configuration
+ *
+ * Shared with the edge functions from
+ * supabase/functions/_shared/strandRateConfig.ts. Used as-is unless an admin
+ * has saved a valid override in the `strand_rate_config` table.
+ */
+
+export { DEFAULT_STRAND_RATE_CONFIG } from '../../supabase/functions/_shared/strandRateConfig.ts';
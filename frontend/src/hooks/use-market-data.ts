@@ -0,0 +1,71 @@
+import { useIsFetching, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+
+import {
+  bitcoinPriceProvider,
+  lendingRatesProvider,
+  loadMarketData,
+  marketHistoryProvider,
+  poolScreeningProvider,
+  quickSwapApyProvider,
+  type MarketDataProvider,
+  type MarketDataResult
+} from "@/services/marketDataService";
+
+const MARKET_DATA_PROVIDERS: MarketDataProvider<unknown>[] = [lendingRatesProvider, quickSwapApyProvider, poolScreeningProvider, bitcoinPriceProvider, marketHistoryProvider];
+
+export type MarketDataState<T> = MarketDataResult<T> & {
+  isLoading: boolean;
+  isFetching: boolean;
+  /** Fetches from the source now, ignoring the cache */
+  refresh: () => Promise<void>;
+};
+
+const marketDataKey = (provider: MarketDataProvider<unknown>) => ["marketData", provider.id];
+
+async function forceRefresh(queryClient: QueryClient, provider: MarketDataProvider<unknown>) {
+  await queryClient.fetchQuery({
+    queryKey: marketDataKey(provider),
+    queryFn: () => loadMarketData(provider, true),
+    staleTime: 0
+  });
+}
+
+/**
+ * A provider's current value, refreshed every TTL. Until the first load
+ * finishes this is the provider's fallback with `isLoading` set, so callers
+ * always have a value to show.
+ */
+export function useMarketData<T>(provider: MarketDataProvider<T>): MarketDataState<T> {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: marketDataKey(provider),
+    queryFn: () => loadMarketData(provider),
+    staleTime: provider.ttlMs,
+    refetchInterval: provider.ttlMs
+  });
+
+  return {
+    ...(query.data ?? { value: provider.fallback, status: "fallback", fetchedAt: null, provider: provider.label, sources: [] }),
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    refresh: () => forceRefresh(queryClient, provider)
+  };
+}
+
+/**
+ * Refreshes every market data provider at once, ignoring their caches.
+ */
+export function useRefreshMarketData() {
+  const queryClient = useQueryClient();
+  const isRefreshing = useIsFetching({ queryKey: ["marketData"] }) > 0;
+  const refresh = async () => {
+    await Promise.all(MARKET_DATA_PROVIDERS.map(provider => forceRefresh(queryClient, provider)));
+  };
+  return { refresh, isRefreshing };
+}
+
+export const useLendingRates = () => useMarketData(lendingRatesProvider);
+export const useQuickSwapApy = () => useMarketData(quickSwapApyProvider);
+export const usePoolScreening = () => useMarketData(poolScreeningProvider);
+export const useBitcoinPrice = () => useMarketData(bitcoinPriceProvider);
+export const useMarketHistory = () => useMarketData(marketHistoryProvider);
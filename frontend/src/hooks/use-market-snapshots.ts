@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchMarketSnapshots, type MarketHistoryRange } from "@/services/marketSnapshotService";
+
+/** Snapshots are taken hourly, so there is nothing new to fetch more often */
+const SNAPSHOT_STALE_MS = 15 * 60 * 1000;
+
+/**
+ * Strand APY and BTC price history for a range, shared between components
+ * asking for the same range.
+ */
+export function useMarketSnapshots(range: MarketHistoryRange) {
+  const query = useQuery({
+    queryKey: ["marketSnapshots", range],
+    queryFn: () => fetchMarketSnapshots(range),
+    staleTime: SNAPSHOT_STALE_MS
+  });
+
+  return {
+    snapshots: query.data?.snapshots ?? [],
+    source: query.data?.source,
+    error: query.data?.error,
+    isLoading: query.isLoading
+  };
+}
@@ -0,0 +1,49 @@
+import * as React from "react";
+
+import type { MonteCarloConfig, MonteCarloResult } from "@/lib/monteCarlo";
+import type { SimulationInputs } from "@/lib/simulationEngine";
+import type { MonteCarloRequest, MonteCarloResponse } from "@/workers/monteCarlo.worker";
+
+/**
+ * Runs a Monte Carlo projection in a Web Worker whenever the inputs or config
+ * change. Pass null inputs to stop. A run still in progress when the inputs
+ * change is abandoned by terminating its worker.
+ */
+export function useMonteCarlo(inputs: SimulationInputs | null, config: MonteCarloConfig) {
+  const [result, setResult] = React.useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Inputs are rebuilt on every render, so compare them by value
+  const requestKey = inputs ? JSON.stringify({ inputs, config }) : null;
+
+  React.useEffect(() => {
+    if (!requestKey) {
+      setIsRunning(false);
+      return;
+    }
+    const request: MonteCarloRequest = { id: Date.now(), ...JSON.parse(requestKey) };
+    const worker = new Worker(new URL("../workers/monteCarlo.worker.ts", import.meta.url), { type: "module" });
+    setIsRunning(true);
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      if (event.data.id !== request.id) return;
+      if (event.data.result) {
+        setResult(event.data.result);
+        setError(null);
+      } else {
+        setError(event.data.error || "Failed to run projection");
+      }
+      setIsRunning(false);
+      worker.terminate();
+    };
+    worker.onerror = event => {
+      console.error("[MonteCarlo] Worker failed:", event.message);
+      setError(event.message || "Failed to run projection");
+      setIsRunning(false);
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [requestKey]);
+
+  return { result, isRunning, error };
+}
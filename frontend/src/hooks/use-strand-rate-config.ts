@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchStrandRateConfig } from "@/services/strandConfigService";
+
+/**
+ * The strand rate rules in effect and where they came from. The service
+ * keeps its own cache, so this only re-renders when the rules are re-read.
+ */
+export function useStrandRateConfig() {
+  const query = useQuery({
+    queryKey: ["strandRateConfig"],
+    queryFn: () => fetchStrandRateConfig(),
+    staleTime: Infinity
+  });
+
+  return {
+    result: query.data,
+    isLoading: query.isLoading,
+    /** Re-reads the saved override, e.g. after an admin edits it */
+    reload: async () => {
+      await fetchStrandRateConfig(true);
+      await query.refetch();
+    },
+    isReloading: query.isFetching && !query.isLoading
+  };
+}
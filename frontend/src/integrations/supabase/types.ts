@@ -202,13 +202,160 @@ export type Database = {
         }
         Relationships: []
       }
+      contract_deposits: {
+        Row: {
+          amount: number
+          contract_id: string
+          created_at: string
+          deposited_at: string
+          fee_weeks: number
+          id: string
+          status: string
+          strand1_amount: number
+          strand2_amount: number
+          strand3_amount: number
+          tx_hash: string | null
+          user_id: string
+          utility_fee: number
+          utility_fee_rate: number
+          wallet_address: string | null
+        }
+        Insert: {
+          amount: number
+          contract_id: string
+          created_at?: string
+          deposited_at?: string
+          fee_weeks?: number
+          id?: string
+          status?: string
+          strand1_amount?: number
+          strand2_amount?: number
+          strand3_amount?: number
+          tx_hash?: string | null
+          user_id: string
+          utility_fee?: number
+          utility_fee_rate?: number
+          wallet_address?: string | null
+        }
+        Update: {
+          amount?: number
+          contract_id?: string
+          created_at?: string
+          deposited_at?: string
+          fee_weeks?: number
+          id?: string
+          status?: string
+          strand1_amount?: number
+          strand2_amount?: number
+          strand3_amount?: number
+          tx_hash?: string | null
+          user_id?: string
+          utility_fee?: number
+          utility_fee_rate?: number
+          wallet_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_deposits_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_exits: {
+        Row: {
+          contract_id: string
+          current_value: number
+          exited_at: string
+          forfeited_yield: number
+          id: string
+          payout: number
+          principal: number
+          user_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          contract_id: string
+          current_value: number
+          exited_at?: string
+          forfeited_yield?: number
+          id?: string
+          payout: number
+          principal: number
+          user_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          contract_id?: string
+          current_value?: number
+          exited_at?: string
+          forfeited_yield?: number
+          id?: string
+          payout?: number
+          principal?: number
+          user_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_exits_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_parameter_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changes: Json
+          contract_id: string
+          id: string
+          previous: Json
+          wallet_address: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changes: Json
+          contract_id: string
+          id?: string
+          previous: Json
+          wallet_address?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          contract_id?: string
+          id?: string
+          previous?: Json
+          wallet_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_parameter_changes_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contract_participants: {
         Row: {
           contract_id: string
           contribution_amount: number
           created_at: string
+          fees_accrued_until: string | null
           id: string
           joined_at: string
+          principal_locked_until: string | null
+          removed_at: string | null
           status: string
           updated_at: string
           user_id: string
@@ -218,8 +365,11 @@ export type Database = {
           contract_id: string
           contribution_amount: number
           created_at?: string
+          fees_accrued_until?: string | null
           id?: string
           joined_at?: string
+          principal_locked_until?: string | null
+          removed_at?: string | null
           status?: string
           updated_at?: string
           user_id: string
@@ -229,8 +379,11 @@ export type Database = {
           contract_id?: string
           contribution_amount?: number
           created_at?: string
+          fees_accrued_until?: string | null
           id?: string
           joined_at?: string
+          principal_locked_until?: string | null
+          removed_at?: string | null
           status?: string
           updated_at?: string
           user_id?: string
@@ -246,54 +399,235 @@ export type Database = {
           },
         ]
       }
+      contract_proposal_votes: {
+        Row: {
+          approve: boolean
+          created_at: string
+          id: string
+          proposal_id: string
+          user_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          approve: boolean
+          created_at?: string
+          id?: string
+          proposal_id: string
+          user_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          approve?: boolean
+          created_at?: string
+          id?: string
+          proposal_id?: string
+          user_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_proposal_votes_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "contract_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_proposals: {
+        Row: {
+          contract_id: string
+          created_at: string
+          id: string
+          proposal_type: string
+          proposed_by: string
+          reason: string | null
+          resolved_at: string | null
+          status: string
+          target_member: string | null
+          target_user_id: string | null
+        }
+        Insert: {
+          contract_id: string
+          created_at?: string
+          id?: string
+          proposal_type: string
+          proposed_by: string
+          reason?: string | null
+          resolved_at?: string | null
+          status?: string
+          target_member?: string | null
+          target_user_id?: string | null
+        }
+        Update: {
+          contract_id?: string
+          created_at?: string
+          id?: string
+          proposal_type?: string
+          proposed_by?: string
+          reason?: string | null
+          resolved_at?: string | null
+          status?: string
+          target_member?: string | null
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_proposals_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_settlements: {
+        Row: {
+          contract_id: string
+          id: string
+          proposal_id: string | null
+          retained_yield: number
+          retention_rate: number
+          settled_at: string
+          total_principal: number
+          total_value: number
+          total_yield: number
+        }
+        Insert: {
+          contract_id: string
+          id?: string
+          proposal_id?: string | null
+          retained_yield: number
+          retention_rate: number
+          settled_at?: string
+          total_principal: number
+          total_value: number
+          total_yield: number
+        }
+        Update: {
+          contract_id?: string
+          id?: string
+          proposal_id?: string | null
+          retained_yield?: number
+          retention_rate?: number
+          settled_at?: string
+          total_principal?: number
+          total_value?: number
+          total_yield?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_settlements_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: true
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_settlements_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "contract_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contracts: {
         Row: {
+          border_color: string | null
+          contract_address: string | null
           contract_type: string
           created_at: string
           current_amount: number
           current_participants: number
+          custom_amount: number | null
+          custom_schedule: Json | null
+          deposit_frequency: string | null
           description: string | null
           end_date: string | null
           id: string
+          is_charged_contract: boolean
+          is_private: boolean
+          lockup_period: number
           maximum_participants: number
           minimum_contribution: number
           name: string
+          phase2_time_percent: number
+          phase2_trigger_type: string
+          phase2_value_threshold: number
+          rigor_level: string
+          risk_level: string
           start_date: string | null
           status: string
+          strand1_balance: number
+          strand2_balance: number
+          strand3_balance: number
           target_amount: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          border_color?: string | null
+          contract_address?: string | null
           contract_type?: string
           created_at?: string
           current_amount?: number
           current_participants?: number
+          custom_amount?: number | null
+          custom_schedule?: Json | null
+          deposit_frequency?: string | null
           description?: string | null
           end_date?: string | null
           id?: string
+          is_charged_contract?: boolean
+          is_private?: boolean
+          lockup_period?: number
           maximum_participants?: number
           minimum_contribution?: number
           name: string
+          phase2_time_percent?: number
+          phase2_trigger_type?: string
+          phase2_value_threshold?: number
+          rigor_level?: string
+          risk_level?: string
           start_date?: string | null
           status?: string
+          strand1_balance?: number
+          strand2_balance?: number
+          strand3_balance?: number
           target_amount: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          border_color?: string | null
+          contract_address?: string | null
           contract_type?: string
           created_at?: string
           current_amount?: number
           current_participants?: number
+          custom_amount?: number | null
+          custom_schedule?: Json | null
+          deposit_frequency?: string | null
           description?: string | null
           end_date?: string | null
           id?: string
+          is_charged_contract?: boolean
+          is_private?: boolean
+          lockup_period?: number
           maximum_participants?: number
           minimum_contribution?: number
           name?: string
+          phase2_time_percent?: number
+          phase2_trigger_type?: string
+          phase2_value_threshold?: number
+          rigor_level?: string
+          risk_level?: string
           start_date?: string | null
           status?: string
+          strand1_balance?: number
+          strand2_balance?: number
+          strand3_balance?: number
           target_amount?: number
           updated_at?: string
           user_id?: string
@@ -333,6 +667,36 @@ export type Database = {
         }
         Relationships: []
       }
+      market_snapshots: {
+        Row: {
+          btc_price: number
+          captured_at: string
+          id: string
+          source: string
+          strand1_apy: number
+          strand2_apy: number
+          strand3_apy: number
+        }
+        Insert: {
+          btc_price: number
+          captured_at?: string
+          id?: string
+          source?: string
+          strand1_apy: number
+          strand2_apy: number
+          strand3_apy: number
+        }
+        Update: {
+          btc_price?: number
+          captured_at?: string
+          id?: string
+          source?: string
+          strand1_apy?: number
+          strand2_apy?: number
+          strand3_apy?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -363,6 +727,27 @@ export type Database = {
         }
         Relationships: []
       }
+      strand_rate_config: {
+        Row: {
+          config: Json
+          id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          config: Json
+          id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          config?: Json
+          id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       user_wallets: {
         Row: {
           created_at: string
@@ -414,6 +799,10 @@ export type Database = {
     }
     Functions: {
       can_access_api_keys: { Args: never; Returns: boolean }
+      cast_proposal_vote: {
+        Args: { p_approve: boolean; p_proposal_id: string }
+        Returns: string
+      }
       check_contract_owner: {
         Args: { p_contract_id: string }
         Returns: boolean
@@ -436,11 +825,47 @@ export type Database = {
         }
         Returns: boolean
       }
+      contract_member_missed_deposits: {
+        Args: { p_contract_id: string; p_user_id: string }
+        Returns: number
+      }
+      contract_ownership_shares: {
+        Args: { p_contract_id: string }
+        Returns: {
+          contributed: number
+          penalty_points: number
+          share: number
+          user_id: string
+        }[]
+      }
+      create_contract_proposal: {
+        Args: {
+          p_contract_id: string
+          p_proposal_type: string
+          p_reason?: string
+          p_target_member?: string
+        }
+        Returns: string
+      }
+      exit_contract: {
+        Args: { p_contract_id: string }
+        Returns: string
+      }
       generate_api_key: { Args: never; Returns: string }
       get_current_user_role: {
         Args: never
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_market_snapshots: {
+        Args: { p_bucket: unknown; p_since: string }
+        Returns: {
+          btc_price: number
+          captured_at: string
+          strand1_apy: number
+          strand2_apy: number
+          strand3_apy: number
+        }[]
+      }
       get_user_contracts: {
         Args: never
         Returns: {
@@ -498,6 +923,22 @@ export type Database = {
         }
         Returns: undefined
       }
+      record_deposit: {
+        Args: {
+          p_amount: number
+          p_contract_id: string
+          p_strand1_amount: number
+          p_strand2_amount: number
+          p_strand3_amount: number
+          p_tx_hash?: string
+          p_wallet_address?: string
+        }
+        Returns: string
+      }
+      resolve_contract_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: string
+      }
       save_learning_progress: {
         Args: {
           p_category_index: number
@@ -507,6 +948,10 @@ export type Database = {
         Returns: undefined
       }
       sync_user_email: { Args: never; Returns: undefined }
+      update_contract_parameters: {
+        Args: { p_contract_id: string; p_parameters: Json }
+        Returns: string
+      }
       validate_api_key: {
         Args: { input_api_key: string }
         Returns: {
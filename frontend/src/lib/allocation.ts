@@ -0,0 +1,83 @@
+/**
+ * Strand allocation model
+ *
+ * How a contract's deposits are split across the three strands. In Phase 1 the
+ * split follows the contract's risk level: riskier contracts weight the
+ * Momentum strand (QuickSwap LP) more heavily and the Capital strand less.
+ * Once Phase 2 triggers, every new deposit goes to the Capital strand, which
+ * funds the weekly wBTC purchases. Rigor only sets how much is deposited, not
+ * how it is split.
+ *
+ * Deposits, projections and the blended APYs shown around the app all read
+ * their weights from here so they agree with each other.
+ */
+
+import type { Subclub } from '@/types/vault';
+
+/** Fraction of a deposit going to each strand; the three sum to 1 */
+export interface StrandAllocation {
+  strand1: number;
+  strand2: number;
+  strand3: number;
+}
+
+export type ContractPhase = 1 | 2;
+
+export const DEFAULT_RISK_LEVEL = 'medium';
+
+const PHASE1_ALLOCATIONS: Record<string, StrandAllocation> = {
+  low: { strand1: 0.2, strand2: 0.6, strand3: 0.2 },
+  medium: { strand1: 0.1, strand2: 0.6, strand3: 0.3 },
+  high: { strand1: 0.05, strand2: 0.55, strand3: 0.4 }
+};
+
+export const PHASE2_ALLOCATION: StrandAllocation = { strand1: 1, strand2: 0, strand3: 0 };
+
+/**
+ * Target split for new deposits at a risk level and phase. Unknown risk levels
+ * use the medium split.
+ */
+export function getStrandAllocation(riskLevel: string = DEFAULT_RISK_LEVEL, phase: ContractPhase = 1): StrandAllocation {
+  if (phase === 2) return PHASE2_ALLOCATION;
+  return PHASE1_ALLOCATIONS[riskLevel] ?? PHASE1_ALLOCATIONS[DEFAULT_RISK_LEVEL];
+}
+
+/**
+ * Dollar amount of `amount` going to each strand.
+ */
+export function splitDeposit(amount: number, allocation: StrandAllocation): StrandAllocation {
+  return {
+    strand1: amount * allocation.strand1,
+    strand2: amount * allocation.strand2,
+    strand3: amount * allocation.strand3
+  };
+}
+
+/**
+ * Blended APY (in percent) of holdings split by `allocation`.
+ */
+export function getBlendedApy(apys: StrandAllocation, allocation: StrandAllocation): number {
+  return apys.strand1 * allocation.strand1 + apys.strand2 * allocation.strand2 + apys.strand3 * allocation.strand3;
+}
+
+/**
+ * The split of what a contract actually holds, from its strand balances.
+ * Falls back to the Phase 1 target for its risk level before anything is deposited.
+ */
+export function getHoldingsAllocation(
+  club: Pick<Subclub, 'riskLevel' | 'strand1Balance' | 'strand2Balance' | 'strand3Balance'>
+): StrandAllocation {
+  const strand1 = parseFloat(club.strand1Balance || '0');
+  const strand2 = parseFloat(club.strand2Balance || '0');
+  const strand3 = parseFloat(club.strand3Balance || '0');
+  const total = strand1 + strand2 + strand3;
+  if (!(total > 0)) return getStrandAllocation(club.riskLevel);
+  return { strand1: strand1 / total, strand2: strand2 / total, strand3: strand3 / total };
+}
+
+/**
+ * A weight as a whole percentage, e.g. "60%".
+ */
+export function formatAllocationPercent(weight: number): string {
+  return `${Math.round(weight * 100)}%`;
+}
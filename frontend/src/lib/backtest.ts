@@ -0,0 +1,158 @@
+/**
+ * Backtests
+ *
+ * Replays a contract template's deposit schedule against recorded monthly
+ * market history instead of today's APYs (see /src/lib/marketHistory.ts):
+ * each week earns the strand rates of the month it falls in and wBTC follows
+ * the BTC price, interpolated between the monthly prices. Uses the same strand model as the projections, so Phase 2
+ * triggers on the template's own settings.
+ *
+ * When the history ends before the term does, the replay stops there and
+ * reports the value reached so far.
+ */
+
+import { getContractFees } from '@/lib/feeSchedule';
+import type { MarketHistoryPoint } from '@/lib/marketHistory';
+import {
+  getPhase2Config,
+  runStrandSimulation,
+  type SimulationFees,
+  type SimulationPath
+} from '@/lib/simulationEngine';
+import type { TemplateSettings } from '@/types/vault';
+
+export interface BacktestPoint {
+  date: Date;
+  value: number;
+  deposited: number;
+  phase: number;
+}
+
+export interface BacktestResult {
+  /** One point per week */
+  points: BacktestPoint[];
+  /** False when the history ran out before the end of the term */
+  completedTerm: boolean;
+  termEndDate: Date;
+  finalValue: number;
+  totalDeposited: number;
+  /** Largest fall from a peak in deposit-adjusted value, 0-1 */
+  maxDrawdown: number;
+  /** Bottom of the largest fall, or null if value never fell */
+  maxDrawdownDate: Date | null;
+  /** Null if Phase 2 did not trigger within the replayed period */
+  phase2Date: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKS_PER_YEAR = 52;
+
+const monthStart = (month: string) => new Date(`${month}-01T00:00:00Z`);
+const addWeeks = (date: Date, weeks: number) => new Date(date.getTime() + weeks * 7 * DAY_MS);
+
+// Fractional months since the first row, e.g. 1.5 for mid-February when history starts in January
+function monthsSinceStart(history: MarketHistoryPoint[], date: Date): number {
+  const first = monthStart(history[0].month);
+  const whole = (date.getUTCFullYear() - first.getUTCFullYear()) * 12 + date.getUTCMonth() - first.getUTCMonth();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return whole + (date.getUTCDate() - 1) / daysInMonth;
+}
+
+function btcPriceAt(history: MarketHistoryPoint[], date: Date): number {
+  const position = Math.min(Math.max(monthsSinceStart(history, date), 0), history.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, history.length - 1);
+  return history[lower].btc + (history[upper].btc - history[lower].btc) * (position - lower);
+}
+
+/**
+ * Weekly market path from `start`, using each week's month for strand APYs.
+ */
+export function getHistoricalPath(history: MarketHistoryPoint[], start: Date, weeks: number): SimulationPath {
+  const path: SimulationPath = { apys: [], btcReturns: [] };
+  for (let week = 0; week <= weeks; week++) {
+    const weekStart = addWeeks(start, Math.max(week - 1, 0));
+    const row = history[Math.min(Math.floor(monthsSinceStart(history, weekStart)), history.length - 1)];
+    path.apys.push({ strand1: row.strand1, strand2: row.strand2, strand3: row.strand3 });
+    path.btcReturns.push(week === 0 ? 0 : btcPriceAt(history, addWeeks(start, week)) / btcPriceAt(history, weekStart) - 1);
+  }
+  return path;
+}
+
+/**
+ * Largest peak-to-trough fall of a value series once deposits are taken out,
+ * so new money coming in does not hide losses.
+ */
+function getMaxDrawdown(points: BacktestPoint[]): { drawdown: number; date: Date | null } {
+  let index = 1;
+  let peak = 1;
+  let worst = { drawdown: 0, date: null as Date | null };
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    if (previous.value <= 0) continue;
+    const deposit = points[i].deposited - previous.deposited;
+    index *= (points[i].value - deposit) / previous.value;
+    peak = Math.max(peak, index);
+    const drawdown = 1 - index / peak;
+    if (drawdown > worst.drawdown) {
+      worst = { drawdown, date: points[i].date };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Replays `settings` from the start of `startMonth` against `history`, or
+ * returns null if the history does not cover at least a week from that month.
+ */
+export function runBacktest(
+  settings: TemplateSettings,
+  history: MarketHistoryPoint[],
+  startMonth: string,
+  fees: SimulationFees = getContractFees(settings.isChargedContract)
+): BacktestResult | null {
+  if (history.length === 0) return null;
+  const start = monthStart(startMonth);
+  // BTC prices are interpolated up to the last row's month start
+  const historyEnd = monthStart(history[history.length - 1].month);
+  const availableWeeks = Math.floor((historyEnd.getTime() - start.getTime()) / (7 * DAY_MS));
+  if (start < monthStart(history[0].month) || availableWeeks < 1) return null;
+
+  const termYears = settings.isChargedContract ? settings.lockupPeriod / 12 : settings.lockupPeriod;
+  const termWeeks = Math.round(termYears * WEEKS_PER_YEAR);
+  const weeks = Math.min(termWeeks, availableWeeks);
+  const path = getHistoricalPath(history, start, weeks);
+
+  const { points, phase2Week } = runStrandSimulation({
+    apys: path.apys[0],
+    years: weeks / WEEKS_PER_YEAR,
+    termYears,
+    plan: settings,
+    riskLevel: settings.riskLevel,
+    phase2: getPhase2Config(settings),
+    fees,
+    memberCount: 1,
+    path,
+    interval: 1
+  });
+
+  const replayed = points.map((point, week) => ({
+    date: addWeeks(start, week),
+    value: point.total,
+    deposited: point.initialDeposits,
+    phase: point.phase
+  }));
+  const final = replayed[replayed.length - 1];
+  const { drawdown, date } = getMaxDrawdown(replayed);
+
+  return {
+    points: replayed,
+    completedTerm: weeks === termWeeks,
+    termEndDate: addWeeks(start, termWeeks),
+    finalValue: final.value,
+    totalDeposited: final.deposited,
+    maxDrawdown: drawdown,
+    maxDrawdownDate: date,
+    phase2Date: phase2Week === null ? null : addWeeks(start, phase2Week)
+  };
+}
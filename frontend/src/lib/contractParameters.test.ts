@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getPreviousDepositParameters } from '@/lib/contractParameters';
+
+describe('getPreviousDepositParameters', () => {
+  const current = { rigor_level: 'custom', deposit_frequency: 'monthly', custom_amount: 300, custom_schedule: null, risk_level: 'high' };
+
+  it('works back through the edits that changed the deposit terms, oldest first', () => {
+    const history = getPreviousDepositParameters(current, [
+      { changed_at: '2026-05-01T00:00:00Z', previous: { deposit_frequency: 'weekly', custom_amount: 75 } },
+      { changed_at: '2026-03-01T00:00:00Z', previous: { rigor_level: 'medium', deposit_frequency: null, custom_amount: null } },
+      { changed_at: '2026-04-01T00:00:00Z', previous: { risk_level: 'low' } }
+    ]);
+    expect(history).toEqual([
+      { until: '2026-03-01T00:00:00Z', parameters: { rigor_level: 'medium', deposit_frequency: null, custom_amount: null, custom_schedule: null } },
+      { until: '2026-05-01T00:00:00Z', parameters: { rigor_level: 'custom', deposit_frequency: 'weekly', custom_amount: 75, custom_schedule: null } }
+    ]);
+  });
+
+  it('is empty without edits to the deposit terms', () => {
+    expect(getPreviousDepositParameters(current, [{ changed_at: '2026-04-01T00:00:00Z', previous: { is_private: true } }])).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Contract parameter edits
+ *
+ * The Terms of Service allow a live contract's parameters to be changed at
+ * most once every 60 days. The window is enforced server-side; these helpers
+ * drive the Edit Contract flow: prefilling the settings controls from a
+ * contract, working out when the next edit is allowed, and describing the
+ * entries in a contract's change history. The history also tells the deposit
+ * schedule which terms were in force before each edit.
+ */
+
+import type { ClubCreationData, Subclub } from '@/types/vault';
+
+export const PARAMETER_EDIT_LOCK_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PARAMETER_LABELS: Record<string, string> = {
+  lockup_period: 'Lockup period',
+  is_charged_contract: 'Contract type',
+  rigor_level: 'Contribution level',
+  risk_level: 'Risk level',
+  maximum_participants: 'Maximum members',
+  is_private: 'Privacy',
+  deposit_frequency: 'Deposit frequency',
+  custom_amount: 'Custom amount',
+  custom_schedule: 'Custom schedule',
+  phase2_trigger_type: 'Phase 2 trigger',
+  phase2_time_percent: 'Phase 2 time trigger',
+  phase2_value_threshold: 'Phase 2 value trigger'
+};
+
+/** The columns that decide what members owe and how often */
+const DEPOSIT_TERM_COLUMNS = ['rigor_level', 'deposit_frequency', 'custom_amount', 'custom_schedule'];
+
+export interface ParameterChangeRecord {
+  changed_at: string;
+  /** The changed columns' values before the edit */
+  previous: unknown;
+}
+
+/**
+ * The deposit term columns in force before each edit that changed them,
+ * oldest first, worked back from the contract's `current` columns.
+ */
+export function getPreviousDepositParameters(
+  current: Record<string, unknown>,
+  changes: ParameterChangeRecord[]
+): { until: string; parameters: Record<string, unknown> }[] {
+  let parameters = Object.fromEntries(DEPOSIT_TERM_COLUMNS.map(column => [column, current[column]]));
+  const history: { until: string; parameters: Record<string, unknown> }[] = [];
+  [...changes]
+    .sort((a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime())
+    .forEach(change => {
+      const previous = (change.previous || {}) as Record<string, unknown>;
+      const columns = DEPOSIT_TERM_COLUMNS.filter(column => column in previous);
+      if (columns.length === 0) return;
+      parameters = { ...parameters, ...Object.fromEntries(columns.map(column => [column, previous[column]])) };
+      history.unshift({ until: change.changed_at, parameters });
+    });
+  return history;
+}
+
+/**
+ * The settings controls' state for an existing contract.
+ */
+export function toClubCreationData(club: Subclub): ClubCreationData {
+  return {
+    lockupPeriod: club.lockupPeriod,
+    rigorLevel: club.rigorLevel,
+    riskLevel: club.riskLevel,
+    maxMembers: club.maxMembers,
+    isPrivate: club.isPrivate,
+    isChargedContract: club.isChargedContract,
+    customDepositFrequency: club.customDepositFrequency || 'weekly',
+    customWeeklyAmount: club.customWeeklyAmount || 75,
+    customSchedule: club.customSchedule || [],
+    phase2TriggerType: club.phase2TriggerType,
+    phase2TimePercent: club.phase2TimePercent,
+    phase2ValueThreshold: club.phase2ValueThreshold
+  };
+}
+
+// Custom schedule settings only apply (and are only stored) for custom rigor
+const comparable = (data: ClubCreationData) => JSON.stringify(data.rigorLevel === 'custom'
+  ? data
+  : { ...data, customDepositFrequency: null, customWeeklyAmount: null, customSchedule: null });
+
+/**
+ * Whether the edited settings differ from the contract's current ones.
+ */
+export function hasParameterChanges(club: Subclub, data: ClubCreationData): boolean {
+  return comparable(toClubCreationData(club)) !== comparable(data);
+}
+
+/**
+ * When the next edit is allowed given the contract's change history, or null
+ * if it can be edited now.
+ */
+export function getNextEditAllowedAt(
+  changes: { changed_at: string }[],
+  now: Date = new Date()
+): Date | null {
+  if (changes.length === 0) return null;
+  const lastChange = Math.max(...changes.map(change => new Date(change.changed_at).getTime()));
+  const next = new Date(lastChange + PARAMETER_EDIT_LOCK_DAYS * DAY_MS);
+  return next > now ? next : null;
+}
+
+/**
+ * Time left until `target` as "12d 4h", "3h 20m" or "45m".
+ */
+export function formatCountdown(target: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.ceil((target.getTime() - now.getTime()) / 60000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor(minutes % (24 * 60) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+function formatParameterValue(key: string, value: unknown, isCharged: boolean): string {
+  if (value === null || value === undefined) return '—';
+  switch (key) {
+    case 'lockup_period':
+      return `${value} ${isCharged ? 'month' : 'year'}${value === 1 ? '' : 's'}`;
+    case 'is_charged_contract':
+      return value ? 'Charged' : 'Traditional';
+    case 'is_private':
+      return value ? 'Private' : 'Public';
+    case 'custom_amount':
+    case 'phase2_value_threshold':
+      return `$${Number(value).toLocaleString()}`;
+    case 'phase2_time_percent':
+      return `${value}%`;
+    case 'custom_schedule':
+      return Array.isArray(value) ? `${value.length} period${value.length === 1 ? '' : 's'}` : '—';
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * One line per changed parameter, e.g. "Risk level: medium → high".
+ * `isChargedContract` is the contract's type when the entry does not change it.
+ */
+export function describeParameterChanges(previous: unknown, changes: unknown, isChargedContract: boolean): string[] {
+  const before = (previous || {}) as Record<string, unknown>;
+  const after = (changes || {}) as Record<string, unknown>;
+  const chargedBefore = 'is_charged_contract' in before ? Boolean(before.is_charged_contract) : isChargedContract;
+  const chargedAfter = 'is_charged_contract' in after ? Boolean(after.is_charged_contract) : isChargedContract;
+
+  return Object.keys(after).map(key => {
+    const label = PARAMETER_LABELS[key] || key;
+    return `${label}: ${formatParameterValue(key, before[key], chargedBefore)} → ${formatParameterValue(key, after[key], chargedAfter)}`;
+  });
+}
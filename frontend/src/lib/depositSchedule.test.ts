@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildDepositSchedule } from '@/lib/depositSchedule';
+import type { Subclub } from '@/types/vault';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T00:00:00Z');
+
+const club = (overrides: Partial<Subclub> = {}) => ({
+  id: 'contract-1',
+  rigorLevel: 'medium',
+  lockupPeriod: 5,
+  isChargedContract: false,
+  createdAt: START.toISOString(),
+  ...overrides
+}) as Subclub;
+
+const deposit = (daysAfterStart: number, amount = 50) => ({
+  contract_id: 'contract-1',
+  amount,
+  deposited_at: new Date(START.getTime() + daysAfterStart * DAY_MS).toISOString()
+});
+
+describe('buildDepositSchedule', () => {
+  it('classifies weekly periods against the deposits', () => {
+    const now = new Date(START.getTime() + 24 * DAY_MS);
+    const schedule = buildDepositSchedule(club(), [deposit(0), deposit(10)], now);
+    expect(schedule.periods.map(period => period.status)).toEqual(['paid', 'late', 'missed', 'in-grace', 'upcoming']);
+    expect(schedule.missedCount).toBe(1);
+    expect(schedule.lateCount).toBe(1);
+    expect(schedule.overdue.map(period => period.index)).toEqual([3]);
+    expect(schedule.nextDue?.index).toBe(4);
+  });
+
+  it('is empty when the start date is invalid', () => {
+    const schedule = buildDepositSchedule(club({ createdAt: 'not a date' }), [deposit(0)]);
+    expect(schedule.periods).toEqual([]);
+    expect(schedule.nextDue).toBeNull();
+    expect(schedule.missedCount).toBe(0);
+  });
+
+  it('is empty when the lockup period is invalid', () => {
+    const schedule = buildDepositSchedule(club({ lockupPeriod: NaN }), []);
+    expect(schedule.periods).toEqual([]);
+  });
+
+  it('owes each period under the terms in force on its due date after a mid-contract edit', () => {
+    // Medium ($50/week) until day 28, heavy ($100/week) from then on
+    const edited = club({ rigorLevel: 'heavy', previousTerms: [{ until: new Date(START.getTime() + 27.5 * DAY_MS).toISOString(), rigorLevel: 'medium' }] });
+    const now = new Date(START.getTime() + 45 * DAY_MS);
+    const schedule = buildDepositSchedule(edited, [deposit(0), deposit(7), deposit(14), deposit(21), deposit(28, 100), deposit(35, 100)], now);
+    expect(schedule.periods.map(period => period.amountDue)).toEqual([50, 50, 50, 50, 100, 100, 100, 100]);
+    expect(schedule.periods.map(period => period.status)).toEqual(['paid', 'paid', 'paid', 'paid', 'paid', 'paid', 'in-grace', 'upcoming']);
+    expect(schedule.missedCount).toBe(0);
+  });
+
+  it('moves to the new frequency on the contract start grid after an edit', () => {
+    const edited = club({
+      rigorLevel: 'custom',
+      customDepositFrequency: 'monthly',
+      customWeeklyAmount: 200,
+      previousTerms: [{ until: new Date(START.getTime() + 30 * DAY_MS).toISOString(), rigorLevel: 'custom', customDepositFrequency: 'weekly', customWeeklyAmount: 20 }]
+    });
+    const schedule = buildDepositSchedule(edited, [], new Date('2026-03-15T00:00:00Z'));
+    expect(schedule.frequency).toBe('monthly');
+    expect(schedule.periods.map(period => [period.dueDate.toISOString().slice(0, 10), period.amountDue])).toEqual([
+      ['2026-01-01', 20], ['2026-01-08', 20], ['2026-01-15', 20], ['2026-01-22', 20], ['2026-01-29', 20],
+      ['2026-02-01', 200], ['2026-03-01', 200], ['2026-04-01', 200]
+    ]);
+    expect(schedule.periods.map(period => period.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Deposit schedule engine
+ *
+ * Computes each contract's deposit due dates from its rigor level (or custom
+ * frequency) and start date, and classifies every period against the deposit
+ * ledger, as described in section 3 of the Terms of Service:
+ *
+ * - paid:     covered by the end of its due date
+ * - late:     covered after the due date but within the 7-day grace period
+ * - in-grace: past due, unpaid, grace period still running
+ * - missed:   still unpaid when the grace period ended
+ * - upcoming: not yet due
+ *
+ * Deposits are applied to the oldest open period first. A period closes when
+ * its grace period ends, so a deposit made after that counts towards the next
+ * open period rather than curing the missed one.
+ *
+ * Each period is owed under the deposit terms in force on its due date. A
+ * parameter edit only changes the periods falling due after it; earlier ones
+ * keep the terms recorded in the contract's `previousTerms`.
+ */
+
+import type { DepositFrequency, DepositTerms, Subclub } from '@/types/vault';
+
+export type PeriodStatus = 'paid' | 'late' | 'in-grace' | 'missed' | 'upcoming';
+
+export const GRACE_PERIOD_DAYS = 7;
+/** Upcoming deposits can be paid this many days ahead of their due date */
+export const EARLY_PAYMENT_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+// Amounts within a cent of the due amount count as paid
+const PAYMENT_TOLERANCE = 0.01;
+
+/** Amount owed per period for the preset rigor levels, by contract year */
+const RIGOR_SCHEDULES: Record<string, { frequency: DepositFrequency; tiers: { untilYear: number; amount: number }[] }> = {
+  // $100-$250 per month, stepping up each year
+  light: {
+    frequency: 'monthly',
+    tiers: [
+      { untilYear: 1, amount: 100 },
+      { untilYear: 2, amount: 150 },
+      { untilYear: 3, amount: 200 },
+      { untilYear: Infinity, amount: 250 }
+    ]
+  },
+  // Years 1-3: $50/week, 4-6: $100/week, 7-10: $200/week, 11+: $250/week
+  medium: {
+    frequency: 'weekly',
+    tiers: [
+      { untilYear: 3, amount: 50 },
+      { untilYear: 6, amount: 100 },
+      { untilYear: 10, amount: 200 },
+      { untilYear: Infinity, amount: 250 }
+    ]
+  },
+  // Years 1-3: $100/week, 4-6: $200/week, 7-10: $300/week, 11+: $400/week
+  heavy: {
+    frequency: 'weekly',
+    tiers: [
+      { untilYear: 3, amount: 100 },
+      { untilYear: 6, amount: 200 },
+      { untilYear: 10, amount: 300 },
+      { untilYear: Infinity, amount: 400 }
+    ]
+  }
+};
+
+export interface LedgerDeposit {
+  contract_id: string;
+  amount: number;
+  deposited_at: string;
+}
+
+export interface SchedulePeriodStatus {
+  index: number;
+  dueDate: Date;
+  graceEndsAt: Date;
+  amountDue: number;
+  amountPaid: number;
+  paidAt: Date | null;
+  status: PeriodStatus;
+}
+
+export interface DepositScheduleSummary {
+  contractId: string;
+  frequency: DepositFrequency;
+  periods: SchedulePeriodStatus[];
+  /** Unpaid periods still within their grace period */
+  overdue: SchedulePeriodStatus[];
+  /** The next period that is not yet due */
+  nextDue: SchedulePeriodStatus | null;
+  missedCount: number;
+  lateCount: number;
+}
+
+export const toWeeklyAmount = (amount: number, frequency: DepositFrequency = 'weekly') => {
+  if (frequency === 'daily') return amount * 7;
+  if (frequency === 'monthly') return amount * 12 / 52;
+  if (frequency === 'yearly') return amount / 52;
+  return amount;
+};
+
+export const periodsPerYear = (frequency: DepositFrequency = 'weekly') => {
+  if (frequency === 'daily') return 365;
+  if (frequency === 'monthly') return 12;
+  if (frequency === 'yearly') return 1;
+  return 52;
+};
+
+/**
+ * Computes the contract end date from its lockup period.
+ * Charged contracts lock up for months, traditional contracts for years.
+ */
+export function getContractEndDate(startDate: Date, lockupPeriod: number, isChargedContract: boolean): Date {
+  const end = new Date(startDate);
+  if (isChargedContract) {
+    end.setMonth(end.getMonth() + lockupPeriod);
+  } else {
+    end.setFullYear(end.getFullYear() + lockupPeriod);
+  }
+  return end;
+}
+
+/**
+ * The deposit terms in force at `at`: the contract's current ones unless a
+ * later parameter edit replaced them.
+ */
+export function getDepositTermsAt(club: DepositTerms & Pick<Subclub, 'previousTerms'>, at: Date): DepositTerms {
+  return club.previousTerms?.find(terms => at < new Date(terms.until)) || club;
+}
+
+/**
+ * How often deposits fall due for a contract, now or under the terms in force at `at`.
+ */
+export function getDepositFrequency(club: Pick<Subclub, 'rigorLevel' | 'customDepositFrequency' | 'previousTerms'>, at?: Date): DepositFrequency {
+  const terms = at ? getDepositTermsAt(club, at) : club;
+  if (terms.rigorLevel === 'custom') {
+    return terms.customDepositFrequency || 'weekly';
+  }
+  return RIGOR_SCHEDULES[terms.rigorLevel]?.frequency || 'weekly';
+}
+
+/**
+ * Amount owed per period, in the plan's own frequency, `yearsElapsed` years
+ * into a contract.
+ */
+export function getScheduledAmount(
+  plan: Pick<Subclub, 'rigorLevel' | 'customWeeklyAmount' | 'customSchedule'>,
+  yearsElapsed: number
+): number {
+  if (plan.rigorLevel === 'custom') {
+    const currentPeriod = plan.customSchedule?.find(period => yearsElapsed >= period.yearStart - 1 && yearsElapsed < period.yearEnd);
+    return currentPeriod ? currentPeriod.amount : plan.customWeeklyAmount || 0;
+  }
+
+  const schedule = RIGOR_SCHEDULES[plan.rigorLevel];
+  if (!schedule) return 0;
+  return schedule.tiers.find(tier => yearsElapsed < tier.untilYear)?.amount || 0;
+}
+
+/**
+ * Amount owed for the period falling due at `at`, in the frequency of the
+ * terms in force then.
+ */
+export function getPeriodAmount(
+  club: Pick<Subclub, 'rigorLevel' | 'createdAt' | 'customWeeklyAmount' | 'customSchedule' | 'previousTerms'>,
+  at: Date = new Date()
+): number {
+  const yearsElapsed = Math.max(0, (at.getTime() - new Date(club.createdAt).getTime()) / YEAR_MS);
+  return getScheduledAmount(getDepositTermsAt(club, at), yearsElapsed);
+}
+
+/**
+ * The contract's deposit requirement at `at` expressed per week.
+ */
+export function getWeeklyDepositAmount(
+  club: Pick<Subclub, 'rigorLevel' | 'createdAt' | 'customWeeklyAmount' | 'customSchedule' | 'customDepositFrequency' | 'previousTerms'>,
+  at: Date = new Date()
+): number {
+  return toWeeklyAmount(getPeriodAmount(club, at), getDepositFrequency(club, at));
+}
+
+/**
+ * Due date of the period with the given index. Period 0 is due on the start date.
+ */
+export function getDueDate(startDate: Date, frequency: DepositFrequency, index: number): Date {
+  const due = new Date(startDate);
+  if (frequency === 'daily') {
+    due.setDate(due.getDate() + index);
+  } else if (frequency === 'weekly') {
+    due.setDate(due.getDate() + index * 7);
+  } else if (frequency === 'monthly') {
+    due.setMonth(due.getMonth() + index);
+  } else {
+    due.setFullYear(due.getFullYear() + index);
+  }
+  return due;
+}
+
+/**
+ * Stretches of the contract between parameter edits, each with the deposit
+ * frequency in force during it. Due dates in every stretch stay on the grid
+ * from the contract's start date.
+ */
+function getFrequencySegments(club: Subclub, startDate: Date, endDate: Date): { from: Date; to: Date; frequency: DepositFrequency }[] {
+  const edits = (club.previousTerms || [])
+    .map(terms => new Date(terms.until))
+    .filter(until => until > startDate && until < endDate);
+  const bounds = [startDate, ...edits, endDate];
+  return bounds.slice(0, -1).map((from, i) => ({ from, to: bounds[i + 1], frequency: getDepositFrequency(club, from) }));
+}
+
+/**
+ * Builds the contract's deposit schedule up to and including the next period
+ * that is not yet due, and classifies each period against the given deposits.
+ * Periods falling due before `memberSince` (the member's join date) are not owed.
+ */
+export function buildDepositSchedule(
+  club: Subclub,
+  deposits: LedgerDeposit[],
+  now: Date = new Date(),
+  memberSince?: Date
+): DepositScheduleSummary {
+  const frequency = getDepositFrequency(club);
+  const startDate = new Date(club.createdAt);
+  const endDate = getContractEndDate(startDate, club.lockupPeriod, club.isChargedContract);
+  const summary = (periods: SchedulePeriodStatus[]): DepositScheduleSummary => ({
+    contractId: club.id,
+    frequency,
+    periods,
+    overdue: periods.filter(period => period.status === 'in-grace'),
+    nextDue: periods.find(period => period.status === 'upcoming') || null,
+    missedCount: periods.filter(period => period.status === 'missed').length,
+    lateCount: periods.filter(period => period.status === 'late').length
+  });
+  // Without a valid start and end there are no due dates (and the loop below would never end)
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    return summary([]);
+  }
+
+  const queue = deposits
+    .filter(deposit => deposit.contract_id === club.id)
+    .map(deposit => ({ at: new Date(deposit.deposited_at), remaining: Number(deposit.amount) || 0 }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const periods: SchedulePeriodStatus[] = [];
+  let cursor = 0;
+  let index = 0;
+
+  segments: for (const segment of getFrequencySegments(club, startDate, endDate)) {
+    for (let step = 0; ; step++) {
+      const dueDate = getDueDate(startDate, segment.frequency, step);
+      if (dueDate < segment.from) continue;
+      if (dueDate >= segment.to) break;
+      const periodIndex = index++;
+      // Due dates stay on the contract's grid; a member only owes those after joining
+      if (memberSince && dueDate.getTime() + DAY_MS < memberSince.getTime()) continue;
+
+      const dueDayEnd = new Date(dueDate.getTime() + DAY_MS);
+      const graceEndsAt = new Date(dueDate.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+      const amountDue = getPeriodAmount(club, dueDate);
+      let amountPaid = 0;
+      let paidAt: Date | null = null;
+
+      // Apply deposits made before this period closed, oldest first
+      while (cursor < queue.length && amountPaid < amountDue - PAYMENT_TOLERANCE && queue[cursor].at <= graceEndsAt) {
+        const deposit = queue[cursor];
+        const applied = Math.min(deposit.remaining, amountDue - amountPaid);
+        amountPaid += applied;
+        deposit.remaining -= applied;
+        if (amountPaid >= amountDue - PAYMENT_TOLERANCE) {
+          paidAt = deposit.at;
+        }
+        if (deposit.remaining <= PAYMENT_TOLERANCE) {
+          cursor++;
+        }
+      }
+
+      let status: PeriodStatus;
+      if (paidAt) {
+        status = paidAt <= dueDayEnd ? 'paid' : 'late';
+      } else if (now < dueDate) {
+        status = 'upcoming';
+      } else if (now <= graceEndsAt) {
+        status = 'in-grace';
+      } else {
+        status = 'missed';
+      }
+
+      periods.push({ index: periodIndex, dueDate, graceEndsAt, amountDue, amountPaid, paidAt, status });
+
+      if (dueDate > now) break segments;
+    }
+  }
+
+  return summary(periods);
+}
+
+/**
+ * Periods that can be paid right now: anything past due and still in grace,
+ * plus the next period once it is within the early payment window.
+ */
+export function getPayablePeriods(schedule: DepositScheduleSummary, now: Date = new Date()): SchedulePeriodStatus[] {
+  const payable = schedule.periods.filter(period => period.status === 'in-grace');
+  const next = schedule.nextDue;
+  if (next && next.dueDate.getTime() - now.getTime() <= EARLY_PAYMENT_DAYS * DAY_MS) {
+    payable.push(next);
+  }
+  return payable;
+}
+
+/**
+ * Outstanding amount that can be paid into the contract right now.
+ */
+export function getAmountDueNow(schedule: DepositScheduleSummary, now: Date = new Date()): number {
+  return getPayablePeriods(schedule, now).reduce((sum, period) => sum + (period.amountDue - period.amountPaid), 0);
+}
+
+/**
+ * When the next payment window opens, or null if one is open now or the schedule has ended.
+ */
+export function getNextPaymentWindow(schedule: DepositScheduleSummary, now: Date = new Date()): Date | null {
+  if (getPayablePeriods(schedule, now).length > 0 || !schedule.nextDue) return null;
+  return new Date(schedule.nextDue.dueDate.getTime() - EARLY_PAYMENT_DAYS * DAY_MS);
+}
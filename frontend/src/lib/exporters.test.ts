@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeStatementPeriods, tablesToCsv, type StatementDeposit } from '@/lib/exporters';
+
+const csv = (rows: (string | number)[][]) => tablesToCsv([{ title: 'Test', columns: ['Value'], rows }]).split('\r\n').slice(1);
+
+describe('tablesToCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(csv([['a,b'], ['say "hi"'], ['two\nlines']])).toEqual(['"a,b"', '"say ""hi"""', '"two\nlines"']);
+  });
+
+  it('keeps cells that would run as formulas as text', () => {
+    expect(csv([['=SUM(A1:A2)'], ['+1+1'], ['-2+3'], ['@cmd'], ['=HYPERLINK("x")']]))
+      .toEqual(["'=SUM(A1:A2)", "'+1+1", "'-2+3", "'@cmd", '"\'=HYPERLINK(""x"")"']);
+  });
+
+  it('leaves numbers alone', () => {
+    expect(csv([[-12.5], ['-12.50'], ['+3'], [0]])).toEqual(['-12.5', '-12.50', '+3', '0']);
+  });
+
+  it('separates several tables with their titles', () => {
+    const text = tablesToCsv([
+      { title: 'One', columns: ['A'], rows: [[1]] },
+      { title: 'Two', columns: ['B'], rows: [[2]] }
+    ]);
+    expect(text).toBe('One\r\nA\r\n1\r\n\r\nTwo\r\nB\r\n2');
+  });
+});
+
+describe('summarizeStatementPeriods', () => {
+  const NOW = new Date('2026-06-01T00:00:00Z');
+  const deposit = (daysAgo: number, amount: number, status = 'confirmed'): StatementDeposit => ({
+    deposited_at: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    wallet_address: '0xabc',
+    amount,
+    strand1_amount: 0,
+    strand2_amount: 0,
+    strand3_amount: 0,
+    status
+  });
+
+  it('sums the confirmed deposits made in each period', () => {
+    const periods = summarizeStatementPeriods([deposit(3, 50), deposit(20, 100), deposit(200, 400), deposit(1, 999, 'pending')], 0, NOW);
+    expect(periods.map(({ period, deposits }) => [period, deposits])).toEqual([['1W', 50], ['1M', 150], ['1Y', 550], ['All', 550]]);
+  });
+
+  it('estimates earnings for the part of the period each deposit was held', () => {
+    const [week, , year] = summarizeStatementPeriods([deposit(365, 1000)], 10, NOW);
+    expect(week.earnings).toBeCloseTo(1000 * 0.1 * 7 / 365);
+    expect(year.earnings).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Client-side exports
+ *
+ * Turns projections and contract statements into tables, then into a CSV
+ * download or a printable page the browser can save as PDF. Nothing leaves
+ * the device; the files are built from data already loaded in the app.
+ */
+
+import type { ChartDataPoint } from '@/lib/simulationEngine';
+import type { Subclub } from '@/types/vault';
+
+export type ExportCell = string | number;
+
+export interface ExportTable {
+  title: string;
+  columns: string[];
+  rows: ExportCell[][];
+}
+
+/** Deposit ledger entry as stored in `contract_deposits` */
+export interface StatementDeposit {
+  deposited_at: string;
+  wallet_address: string | null;
+  amount: number;
+  strand1_amount: number;
+  strand2_amount: number;
+  strand3_amount: number;
+  status: string;
+}
+
+export interface StatementEarnings {
+  period: string;
+  /** Confirmed deposits made within the period */
+  deposits: number;
+  /** Estimated at the contract's blended APY */
+  earnings: number;
+}
+
+const money = (value: number) => value.toFixed(2);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Statement periods and their length in days; 'All' covers the whole contract */
+const STATEMENT_PERIODS: [string, number][] = [['1W', 7], ['1M', 30], ['1Y', 365], ['All', Infinity]];
+
+/**
+ * The Future page's strand projection, one row per year.
+ */
+export function buildProjectionTable(points: ChartDataPoint[]): ExportTable {
+  return {
+    title: 'Projection',
+    columns: ['Year', 'Phase', 'Strand 1', 'Strand 2', 'Strand 3', 'wBTC', 'Total', 'Deposits', 'Gas Fees', 'Utility Fees'],
+    rows: points.map(point => [
+      point.year,
+      point.phase,
+      point.strand1,
+      point.strand2,
+      point.strand3,
+      point.wbtc,
+      point.total,
+      point.initialDeposits,
+      point.cumulativeGasFees,
+      point.cumulativeUtilityFees
+    ])
+  };
+}
+
+/**
+ * Deposits and estimated earnings for each statement period, from the
+ * confirmed deposits themselves. Earnings are simple interest at the blended
+ * `apy` (percent) for the part of the period each deposit was held.
+ */
+export function summarizeStatementPeriods(deposits: StatementDeposit[], apy: number, now: Date = new Date()): StatementEarnings[] {
+  const confirmed = deposits
+    .filter(deposit => deposit.status === 'confirmed')
+    .map(deposit => ({ at: new Date(deposit.deposited_at).getTime(), amount: Number(deposit.amount) || 0 }))
+    .filter(deposit => deposit.at <= now.getTime());
+
+  return STATEMENT_PERIODS.map(([period, days]) => {
+    const since = now.getTime() - days * DAY_MS;
+    return {
+      period,
+      deposits: confirmed.filter(deposit => deposit.at >= since).reduce((sum, deposit) => sum + deposit.amount, 0),
+      earnings: confirmed.reduce((sum, deposit) => {
+        const heldDays = (now.getTime() - Math.max(deposit.at, since)) / DAY_MS;
+        return sum + deposit.amount * apy / 100 * heldDays / 365;
+      }, 0)
+    };
+  });
+}
+
+/**
+ * A contract's statement: summary and strand balances, its deposit ledger, and earnings by period.
+ */
+export function buildContractStatement(club: Subclub, deposits: StatementDeposit[], earnings: StatementEarnings[]): ExportTable[] {
+  const sorted = [...deposits].sort((a, b) => new Date(a.deposited_at).getTime() - new Date(b.deposited_at).getTime());
+  return [
+    {
+      title: 'Contract',
+      columns: ['Field', 'Value'],
+      rows: [
+        ['Name', club.name],
+        ['Contract address', club.contractAddress],
+        ['Status', club.status],
+        ['Created', new Date(club.createdAt).toISOString().slice(0, 10)],
+        ['Lockup', `${club.lockupPeriod} ${club.isChargedContract ? 'months' : 'years'}`],
+        ['Members', `${club.currentMembers}/${club.maxMembers}`],
+        ['Strand 1 balance', money(parseFloat(club.strand1Balance || '0'))],
+        ['Strand 2 balance', money(parseFloat(club.strand2Balance || '0'))],
+        ['Strand 3 balance', money(parseFloat(club.strand3Balance || '0'))],
+        ['Total balance', money(parseFloat(club.totalContractBalance || '0'))]
+      ]
+    },
+    {
+      title: 'Deposits',
+      columns: ['Date', 'Member', 'Amount', 'Strand 1', 'Strand 2', 'Strand 3', 'Status'],
+      rows: sorted.map(deposit => [
+        new Date(deposit.deposited_at).toISOString().slice(0, 10),
+        deposit.wallet_address || '',
+        money(deposit.amount),
+        money(deposit.strand1_amount),
+        money(deposit.strand2_amount),
+        money(deposit.strand3_amount),
+        deposit.status
+      ])
+    },
+    {
+      title: 'Earnings by Period',
+      columns: ['Period', 'Deposits', 'Earnings (est.)'],
+      rows: earnings.map(entry => [entry.period, money(entry.deposits), money(entry.earnings)])
+    }
+  ];
+}
+
+/** Cells spreadsheet apps would run as formulas */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function escapeCsv(cell: ExportCell): string {
+  let text = String(cell);
+  // Contract names and other member-entered text could otherwise run as a
+  // formula; numbers such as "-12.50" are left as numbers
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV text for one or more tables. With several, each starts with its title
+ * and they are separated by blank lines.
+ */
+export function tablesToCsv(tables: ExportTable[]): string {
+  return tables.map(table => [
+    ...(tables.length > 1 ? [escapeCsv(table.title)] : []),
+    table.columns.map(escapeCsv).join(','),
+    ...table.rows.map(row => row.map(escapeCsv).join(','))
+  ].join('\r\n')).join('\r\n\r\n');
+}
+
+/**
+ * Saves `tables` as a CSV file.
+ */
+export function downloadCsv(filename: string, tables: ExportTable[]): void {
+  const blob = new Blob([tablesToCsv(tables)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+function escapeHtml(text: ExportCell): string {
+  return String(text).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+}
+
+/**
+ * Opens `tables` as a plain printable page and brings up the print dialog,
+ * where the user can save it as PDF. Returns false if a popup blocker stopped the window.
+ */
+export function printTables(title: string, tables: ExportTable[]): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  const body = tables.map(table => `
+    <h2>${escapeHtml(table.title)}</h2>
+    <table>
+      <thead><tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+      <tbody>${table.rows.length === 0
+        ? `<tr><td colspan="${table.columns.length}">None</td></tr>`
+        : table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+    </table>`).join('');
+
+  printWindow.document.write(`<!doctype html>
+<html>
+<head>
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 32px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .generated { color: #666; font-size: 12px; margin-bottom: 24px; }
+    h2 { font-size: 15px; margin: 24px 0 8px; }
+    table { border-collapse: collapse; width: 100%; font-size: 12px; }
+    th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; }
+    th { background: #f3f4f6; }
+    tr { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="generated">Generated ${escapeHtml(new Date().toLocaleString())} by The Vault Club</div>
+  ${body}
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHARGED_UTILITY_FEE,
+  TRADITIONAL_UTILITY_FEE,
+  WEEKLY_GAS_FEES,
+  getContractFees,
+  getUtilityFeeRate,
+  getWeeklyFees,
+  summarizeAccruedFees
+} from '@/lib/feeSchedule';
+
+describe('getUtilityFeeRate', () => {
+  it('charges more for charged contracts', () => {
+    expect(getUtilityFeeRate(false)).toBe(TRADITIONAL_UTILITY_FEE);
+    expect(getUtilityFeeRate(true)).toBe(CHARGED_UTILITY_FEE);
+  });
+});
+
+describe('getContractFees', () => {
+  it('uses the fixed gas estimate unless given one', () => {
+    expect(getContractFees(false)).toEqual({ gasPerWeek: WEEKLY_GAS_FEES.weeklyTotal, utilityPerMemberPerWeek: 1 });
+    expect(getContractFees(true, 2)).toEqual({ gasPerWeek: 2, utilityPerMemberPerWeek: 1.25 });
+  });
+});
+
+describe('getWeeklyFees', () => {
+  it('charges the utility fee per member on top of gas', () => {
+    expect(getWeeklyFees(true, 4, 0.5)).toEqual({ gas: 0.5, utility: 5, total: 5.5 });
+  });
+
+  it('charges at least one member', () => {
+    expect(getWeeklyFees(false, 0, 0).utility).toBe(1);
+  });
+});
+
+describe('summarizeAccruedFees', () => {
+  it('totals fees and member-weeks across deposits', () => {
+    // Supabase returns numeric columns as strings
+    const deposits = [
+      { fee_weeks: 1, utility_fee: 1.25 },
+      { fee_weeks: 4, utility_fee: '5.00' as unknown as number },
+      { fee_weeks: null, utility_fee: null }
+    ];
+    expect(summarizeAccruedFees(deposits)).toEqual({ utilityFees: 6.25, weeks: 5, deposits: 3 });
+  });
+
+  it('is empty without deposits', () => {
+    expect(summarizeAccruedFees([])).toEqual({ utilityFees: 0, weeks: 0, deposits: 0 });
+  });
+});
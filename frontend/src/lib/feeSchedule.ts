@@ -0,0 +1,83 @@
+/**
+ * Fee schedule
+ *
+ * What a contract costs to run, per the Terms of Service: network gas for the
+ * whole vault each week, plus a utility fee per member per week of $1.00, or
+ * $1.25 for charged contracts (terms under a year).
+ *
+ * Projections take their fees from here, and the deposit ledger records the
+ * utility fee accrued since the member's previous charge on each deposit
+ * (`record_deposit` applies the same rates server-side, by whole weeks elapsed). Accrued fees are owed, not yet deducted: deposits
+ * are still credited to the contract in full.
+ */
+
+import type { SimulationFees } from '@/lib/simulationEngine';
+
+/** Fixed weekly gas estimates in USD, used until a live estimate is available (see gasService.ts) */
+export const WEEKLY_GAS_FEES = {
+  harvestYield: 0.175,
+  strategyRebalance: 0.315,
+  chainlinkUpkeep: 0.085,
+  weeklyTotal: 0.575
+};
+
+/** Utility fee per member per week for traditional contracts */
+export const TRADITIONAL_UTILITY_FEE = 1;
+/** Charged contracts pay a higher utility fee */
+export const CHARGED_UTILITY_FEE = 1.25;
+
+export interface WeeklyFees {
+  gas: number;
+  utility: number;
+  total: number;
+}
+
+/** The parts of a deposit ledger row that carry its fee */
+export interface DepositFeeRecord {
+  fee_weeks: number;
+  utility_fee: number;
+}
+
+export interface AccruedFeeSummary {
+  /** Utility fees accrued across the deposits */
+  utilityFees: number;
+  /** Member-weeks the fees cover */
+  weeks: number;
+  deposits: number;
+}
+
+/**
+ * Utility fee per member per week.
+ */
+export function getUtilityFeeRate(isChargedContract: boolean): number {
+  return isChargedContract ? CHARGED_UTILITY_FEE : TRADITIONAL_UTILITY_FEE;
+}
+
+/**
+ * Fees for a traditional or charged contract, as the simulations take them.
+ */
+export function getContractFees(isChargedContract: boolean, gasPerWeek: number = WEEKLY_GAS_FEES.weeklyTotal): SimulationFees {
+  return {
+    gasPerWeek,
+    utilityPerMemberPerWeek: getUtilityFeeRate(isChargedContract)
+  };
+}
+
+/**
+ * What a contract pays a week with `memberCount` members (at least one).
+ */
+export function getWeeklyFees(isChargedContract: boolean, memberCount: number, gas: number = WEEKLY_GAS_FEES.weeklyTotal): WeeklyFees {
+  const utility = Math.max(1, memberCount) * getUtilityFeeRate(isChargedContract);
+  return { gas, utility, total: gas + utility };
+}
+
+/**
+ * Totals the utility fees recorded on deposit ledger rows.
+ */
+export function summarizeAccruedFees(deposits: DepositFeeRecord[]): AccruedFeeSummary {
+  return deposits.reduce((summary, deposit) => ({
+    utilityFees: summary.utilityFees + Number(deposit.utility_fee || 0),
+    weeks: summary.weeks + (deposit.fee_weeks || 0),
+    deposits: summary.deposits + 1
+  }), { utilityFees: 0, weeks: 0, deposits: 0 });
+}
@@ -0,0 +1,143 @@
+/**
+ * Goal planner
+ *
+ * Works the projections backwards: given a target value (or a monthly
+ * retirement income), finds the smallest contribution or the shortest lockup
+ * that reaches it under current rates. Each candidate is run through the same
+ * strand model as the Future page, and since more money or more time never
+ * ends lower, a binary search over whole dollars or a scan over lockups is enough.
+ *
+ * Results are shaped as contract settings so they can prefill a Custom contract.
+ */
+
+import { getContractFees } from '@/lib/feeSchedule';
+import {
+  DEFAULT_PHASE2_TRIGGER,
+  runStrandSimulation,
+  type Phase2TriggerConfig,
+  type StrandApys
+} from '@/lib/simulationEngine';
+import type { DepositFrequency, TemplateSettings } from '@/types/vault';
+
+/** Share of savings withdrawn per year in retirement (the "4% rule") */
+export const SAFE_WITHDRAWAL_RATE = 0.04;
+/** Largest contribution per deposit the contract settings accept */
+export const MAX_CONTRIBUTION = 10000;
+/** Longest traditional lockup, in years */
+export const MAX_LOCKUP_YEARS = 20;
+
+export interface GoalMarket {
+  apys: StrandApys;
+  riskLevel: string;
+  phase2?: Phase2TriggerConfig;
+}
+
+export interface ContractTerm {
+  lockupPeriod: number;
+  isChargedContract: boolean;
+}
+
+export interface GoalPlan {
+  settings: TemplateSettings;
+  /** Projected value at the end of the term */
+  finalValue: number;
+  totalDeposited: number;
+}
+
+const MONTH_MS = 365.25 / 12 * 24 * 60 * 60 * 1000;
+
+/**
+ * Savings needed to draw `monthlyIncome` a month at the safe withdrawal rate.
+ */
+export function targetValueForIncome(monthlyIncome: number): number {
+  return monthlyIncome * 12 / SAFE_WITHDRAWAL_RATE;
+}
+
+/**
+ * Longest term that matures by `targetDate`: months for under a year (a
+ * charged contract), whole years otherwise. Null if the date is less than a
+ * month away or beyond the longest lockup.
+ */
+export function getTermForTargetDate(targetDate: Date, now: Date = new Date()): ContractTerm | null {
+  const months = Math.floor((targetDate.getTime() - now.getTime()) / MONTH_MS);
+  if (months < 1) return null;
+  if (months < 12) return { lockupPeriod: months, isChargedContract: true };
+  const years = Math.floor(months / 12);
+  return years > MAX_LOCKUP_YEARS ? null : { lockupPeriod: years, isChargedContract: false };
+}
+
+function buildSettings(term: ContractTerm, amount: number, frequency: DepositFrequency, market: GoalMarket): TemplateSettings {
+  const phase2 = market.phase2 || DEFAULT_PHASE2_TRIGGER;
+  return {
+    ...term,
+    rigorLevel: 'custom',
+    riskLevel: market.riskLevel,
+    customDepositFrequency: frequency,
+    customWeeklyAmount: amount,
+    customSchedule: [],
+    phase2TriggerType: phase2.triggerType,
+    phase2TimePercent: phase2.timePercent,
+    phase2ValueThreshold: phase2.valueThreshold
+  };
+}
+
+function projectPlan(settings: TemplateSettings, market: GoalMarket): GoalPlan {
+  const { points } = runStrandSimulation({
+    apys: market.apys,
+    years: settings.isChargedContract ? settings.lockupPeriod / 12 : settings.lockupPeriod,
+    plan: settings,
+    riskLevel: settings.riskLevel,
+    phase2: market.phase2 || DEFAULT_PHASE2_TRIGGER,
+    fees: getContractFees(settings.isChargedContract),
+    memberCount: 1
+  });
+  const final = points[points.length - 1];
+  return { settings, finalValue: final?.total ?? 0, totalDeposited: final?.initialDeposits ?? 0 };
+}
+
+/**
+ * Smallest whole-dollar contribution per deposit that reaches `targetValue`
+ * over `term`, or null if even the largest allowed contribution falls short.
+ */
+export function solveContribution(
+  targetValue: number,
+  term: ContractTerm,
+  frequency: DepositFrequency,
+  market: GoalMarket
+): GoalPlan | null {
+  const highest = projectPlan(buildSettings(term, MAX_CONTRIBUTION, frequency, market), market);
+  if (highest.finalValue < targetValue) return null;
+
+  let low = 1;
+  let high = MAX_CONTRIBUTION;
+  // `best` always holds the plan for `high`, the smallest amount known to reach the target
+  let best = highest;
+  while (low < high) {
+    const amount = Math.floor((low + high) / 2);
+    const plan = projectPlan(buildSettings(term, amount, frequency, market), market);
+    if (plan.finalValue >= targetValue) {
+      high = amount;
+      best = plan;
+    } else {
+      low = amount + 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Shortest traditional lockup, in whole years, at which `amount` per deposit
+ * reaches `targetValue`, or null if it takes longer than the longest lockup.
+ */
+export function solveLockup(
+  targetValue: number,
+  amount: number,
+  frequency: DepositFrequency,
+  market: GoalMarket
+): GoalPlan | null {
+  for (let years = 1; years <= MAX_LOCKUP_YEARS; years++) {
+    const plan = projectPlan(buildSettings({ lockupPeriod: years, isChargedContract: false }, amount, frequency, market), market);
+    if (plan.finalValue >= targetValue) return plan;
+  }
+  return null;
+}
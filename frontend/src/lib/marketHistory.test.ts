@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildMarketHistory, combineRuleHistory, monthlyAverages, monthlyOpens } from '@/lib/marketHistory';
+import type { RateRule } from '@/lib/strandRates';
+
+const day = (date: string, value: number) => ({ date: new Date(`${date}T00:00:00Z`), value });
+
+const rule = (overrides: Partial<RateRule>): RateRule => ({
+  label: 'Test',
+  method: 'weighted',
+  selectors: [{ project: 'a' }],
+  minTvlUsd: 0,
+  multiplier: 1,
+  ...overrides
+});
+
+describe('monthlyAverages / monthlyOpens', () => {
+  const rows = [day('2024-01-20', 6), day('2024-01-05', 2), day('2024-01-10', 4), day('2024-02-01', 10)];
+
+  it('averages each month', () => {
+    expect(monthlyAverages(rows)).toEqual({ '2024-01': 4, '2024-02': 10 });
+  });
+
+  it('takes the earliest row of each month', () => {
+    expect(monthlyOpens(rows)).toEqual({ '2024-01': 2, '2024-02': 10 });
+  });
+});
+
+describe('combineRuleHistory', () => {
+  it('weights pools by their selectors and skips months a pool is missing', () => {
+    const weighted = rule({
+      selectors: [{ project: 'a', weight: 3 }, { project: 'b', weight: 1 }],
+      multiplier: 1.2,
+      multiplierReason: 'test'
+    });
+    const combined = combineRuleHistory(weighted, [{ '2024-01': 4, '2024-02': 8 }, { '2024-02': 4 }]);
+    expect(combined).toEqual({ '2024-02': (8 * 3 + 4) / 4 * 1.2 });
+  });
+
+  it('takes the best pool each month for a max rule, capped', () => {
+    const max = rule({ method: 'max', maxApy: 20 });
+    expect(combineRuleHistory(max, [{ '2024-01': 12, '2024-02': 30 }, { '2024-01': 15 }])).toEqual({ '2024-01': 15, '2024-02': 20 });
+  });
+});
+
+describe('buildMarketHistory', () => {
+  it('keeps the latest unbroken run of months every series covers', () => {
+    const months = ['2023-11', '2023-12', '2024-01', '2024-02', '2024-03'];
+    const series = (value: number) => Object.fromEntries(months.map(month => [month, value]));
+    // Strand 2 has a gap in December, so history restarts in January
+    const strand2 = series(3);
+    delete strand2['2023-12'];
+
+    const history = buildMarketHistory({ strand1: series(2), strand2, strand3: series(10) }, series(40000));
+    expect(history.map(row => row.month)).toEqual(['2024-01', '2024-02', '2024-03']);
+    expect(history[0]).toEqual({ month: '2024-01', strand1: 2, strand2: 3, strand3: 10, btc: 40000 });
+  });
+
+  it('is empty when no month has every series', () => {
+    expect(buildMarketHistory({ strand1: { '2024-01': 2 }, strand2: {}, strand3: { '2024-01': 9 } }, { '2024-01': 40000 })).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Market history for backtests
+ *
+ * Builds the monthly series a backtest replays from recorded data: each
+ * strand's APY comes from the daily DeFi Llama APY history of the pools its
+ * rate rule uses today, combined the way the rule combines them (weighted
+ * average or highest) with its multiplier and cap. Daily rows are averaged
+ * per month. BTC is the first recorded price of each month.
+ *
+ * Backtests step through the rows month by month, so only the latest
+ * unbroken run of months where every series has data is kept. History
+ * therefore starts when the youngest pool does.
+ */
+
+import { adjustRuleApy, type RateRule, type StrandKey } from '@/lib/strandRates';
+
+export interface MarketHistoryPoint {
+  /** YYYY-MM */
+  month: string;
+  /** Strand APYs (percent) averaged over the month */
+  strand1: number;
+  strand2: number;
+  strand3: number;
+  /** BTC price in USD at the start of the month */
+  btc: number;
+}
+
+export interface DatedValue {
+  date: Date;
+  value: number;
+}
+
+/** Values keyed by YYYY-MM */
+export type MonthlySeries = Record<string, number>;
+
+export const toMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const date = new Date(`${month}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return toMonth(date);
+};
+
+/**
+ * The mean of each month's rows.
+ */
+export function monthlyAverages(rows: DatedValue[]): MonthlySeries {
+  const sums: Record<string, { total: number; count: number }> = {};
+  rows.filter(row => Number.isFinite(row.value)).forEach(row => {
+    const month = toMonth(row.date);
+    sums[month] = sums[month] || { total: 0, count: 0 };
+    sums[month].total += row.value;
+    sums[month].count += 1;
+  });
+  return Object.fromEntries(Object.entries(sums).map(([month, { total, count }]) => [month, total / count]));
+}
+
+/**
+ * The earliest row of each month.
+ */
+export function monthlyOpens(rows: DatedValue[]): MonthlySeries {
+  const opens: Record<string, DatedValue> = {};
+  rows.filter(row => Number.isFinite(row.value)).forEach(row => {
+    const month = toMonth(row.date);
+    if (!opens[month] || row.date < opens[month].date) opens[month] = row;
+  });
+  return Object.fromEntries(Object.entries(opens).map(([month, row]) => [month, row.value]));
+}
+
+/**
+ * A strand's monthly APY from the monthly APYs of the pools its rule used,
+ * in the order `deriveStrandRate` returned them. A weighted rule needs every
+ * pool in a month; a max rule takes the best pool with data.
+ */
+export function combineRuleHistory(rule: RateRule, pools: MonthlySeries[]): MonthlySeries {
+  const months = Array.from(new Set(pools.flatMap(pool => Object.keys(pool))));
+  const combined: MonthlySeries = {};
+
+  months.forEach(month => {
+    if (rule.method === 'weighted') {
+      if (pools.some(pool => pool[month] === undefined)) return;
+      const weights = pools.map((_, i) => rule.selectors[i]?.weight ?? 1);
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      combined[month] = adjustRuleApy(rule, pools.reduce((sum, pool, i) => sum + pool[month] * weights[i], 0) / totalWeight);
+    } else {
+      const apys = pools.map(pool => pool[month]).filter(apy => apy !== undefined);
+      combined[month] = adjustRuleApy(rule, Math.max(...apys));
+    }
+  });
+  return combined;
+}
+
+/**
+ * Monthly rows for the latest unbroken run of months that every strand and
+ * the BTC price cover, oldest first.
+ */
+export function buildMarketHistory(strands: Record<StrandKey, MonthlySeries>, btc: MonthlySeries): MarketHistoryPoint[] {
+  const covered = (month: string) => btc[month] !== undefined
+    && strands.strand1[month] !== undefined
+    && strands.strand2[month] !== undefined
+    && strands.strand3[month] !== undefined;
+  const months = Object.keys(btc).filter(covered).sort();
+  if (months.length === 0) return [];
+
+  let first = months.length - 1;
+  while (first > 0 && nextMonth(months[first - 1]) === months[first]) first--;
+
+  return months.slice(first).map(month => ({
+    month,
+    strand1: strands.strand1[month],
+    strand2: strands.strand2[month],
+    strand3: strands.strand3[month],
+    btc: btc[month]
+  }));
+}
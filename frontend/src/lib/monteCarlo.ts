@@ -0,0 +1,149 @@
+/**
+ * Monte Carlo projections
+ *
+ * Runs the strand simulation many times over sampled market paths and
+ * summarises the spread of outcomes. Each path varies:
+ *
+ * - Strand APYs: a mean-reverting random walk in log space around today's
+ *   APY for each strand, so rates wander but stay positive and drift back.
+ * - wBTC price: geometric Brownian motion with the given drift and volatility.
+ *
+ * Paths come from a seeded generator, so the same seed and settings always
+ * give the same bands. Heavy enough to run off the main thread; see
+ * workers/monteCarlo.worker.ts and hooks/use-monte-carlo.ts.
+ */
+
+import { runStrandSimulation, type SimulationInputs, type SimulationPath, type StrandApys } from '@/lib/simulationEngine';
+
+export interface MonteCarloConfig {
+  /** Number of sampled paths */
+  runs: number;
+  seed: number;
+  /** Annualised volatility of each strand's APY, as a fraction (0.3 = 30%) */
+  apyVolatility: number;
+  /** Annualised volatility of the BTC price, as a fraction */
+  btcVolatility: number;
+  /** Expected annual BTC return, as a fraction */
+  btcDrift: number;
+  /** Final value whose probability of being reached is reported */
+  targetValue: number;
+}
+
+export interface PercentileBand {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  /** One entry per simulated data point (yearly, plus the end of the term) */
+  bands: PercentileBand[];
+  /** Share of paths, 0-1, finishing at or above the target value */
+  probabilityOfTarget: number;
+  runs: number;
+}
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  runs: 500,
+  seed: 42,
+  apyVolatility: 0.3,
+  btcVolatility: 0.6,
+  btcDrift: 0,
+  targetValue: 100000
+};
+
+const WEEKS_PER_YEAR = 52;
+/** Share of an APY's deviation from today's rate that decays each week */
+const APY_MEAN_REVERSION = 0.05;
+
+/**
+ * Deterministic uniform generator in [0, 1) (mulberry32).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = state + 0x6d2b79f5 >>> 0;
+    let t = state;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function sampleNormal(rng: () => number): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * One sampled market path covering `weeks` weeks.
+ */
+export function samplePath(weeks: number, apys: StrandApys, config: MonteCarloConfig, rng: () => number): SimulationPath {
+  const apyStep = config.apyVolatility / Math.sqrt(WEEKS_PER_YEAR);
+  const btcStep = config.btcVolatility / Math.sqrt(WEEKS_PER_YEAR);
+  const btcMean = (config.btcDrift - config.btcVolatility * config.btcVolatility / 2) / WEEKS_PER_YEAR;
+  const deviation = { strand1: 0, strand2: 0, strand3: 0 };
+  const path: SimulationPath = { apys: [], btcReturns: [] };
+
+  for (let week = 0; week <= weeks; week++) {
+    for (const strand of ['strand1', 'strand2', 'strand3'] as const) {
+      deviation[strand] = deviation[strand] * (1 - APY_MEAN_REVERSION) + apyStep * sampleNormal(rng);
+    }
+    path.apys.push({
+      strand1: apys.strand1 * Math.exp(deviation.strand1),
+      strand2: apys.strand2 * Math.exp(deviation.strand2),
+      strand3: apys.strand3 * Math.exp(deviation.strand3)
+    });
+    path.btcReturns.push(Math.exp(btcMean + btcStep * sampleNormal(rng)) - 1);
+  }
+
+  return path;
+}
+
+/**
+ * Value at percentile `p` (0-1) of an ascending list, interpolating between entries.
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Runs the strand simulation over `config.runs` sampled paths.
+ */
+export function runMonteCarlo(inputs: SimulationInputs, config: MonteCarloConfig): MonteCarloResult {
+  const rng = createRng(config.seed);
+  const weeks = Math.round(inputs.years * WEEKS_PER_YEAR);
+  const runs = Math.max(1, Math.floor(config.runs));
+  // totalsByPoint[i] holds every run's total at data point i
+  const totalsByPoint: number[][] = [];
+  let years: number[] = [];
+  let reachedTarget = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const { points } = runStrandSimulation({ ...inputs, path: samplePath(weeks, inputs.apys, config, rng) });
+    if (run === 0) years = points.map(point => point.year);
+    points.forEach((point, i) => {
+      (totalsByPoint[i] ??= []).push(point.total);
+    });
+    if ((points[points.length - 1]?.total ?? 0) >= config.targetValue) reachedTarget++;
+  }
+
+  const bands = totalsByPoint.map((totals, i) => {
+    const sorted = totals.sort((a, b) => a - b);
+    return {
+      year: years[i],
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9))
+    };
+  });
+
+  return { bands, probabilityOfTarget: reachedTarget / runs, runs };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { buildOwnershipLedger, PENALTY_OWNERSHIP_POINTS, type OwnershipLedger } from '@/lib/ownershipLedger';
+import { computeIndividualExit } from '@/lib/settlement';
+import type { Subclub } from '@/types/vault';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T00:00:00Z');
+// Periods 0-8 have closed by now; period 9 is in grace
+const NOW = new Date(START.getTime() + 64 * DAY_MS);
+const WEEKS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const club = (members: string[], memberJoinedAt?: Record<string, string>) => ({
+  id: 'contract-1',
+  rigorLevel: 'medium',
+  lockupPeriod: 5,
+  isChargedContract: false,
+  createdAt: START.toISOString(),
+  members,
+  memberJoinedAt
+}) as Subclub;
+
+// Half a day after each due date, so a deposit always counts towards that week
+const deposits = (member: string, weeks: number[], amount = 50) => weeks.map(week => ({
+  contract_id: 'contract-1',
+  user_id: member,
+  wallet_address: member,
+  amount,
+  deposited_at: new Date(START.getTime() + (week * 7 + 0.5) * DAY_MS).toISOString()
+}));
+
+const member = (ledger: OwnershipLedger, id: string) => ledger.members.find(entry => entry.member === id)!;
+const totalShare = (ledger: OwnershipLedger) => ledger.members.reduce((sum, entry) => sum + entry.share, 0);
+
+describe('buildOwnershipLedger', () => {
+  it('splits by contribution when nobody misses a deposit', () => {
+    const ledger = buildOwnershipLedger(club(['a', 'b']), [...deposits('a', WEEKS, 100), ...deposits('b', WEEKS)], [], NOW);
+    expect(member(ledger, 'a').share).toBeCloseTo(1000 / 1500 * 100);
+    expect(member(ledger, 'b').share).toBeCloseTo(500 / 1500 * 100);
+    expect(ledger.members.every(entry => entry.missedCount === 0 && entry.penaltyPoints === 0)).toBe(true);
+    expect(ledger.history.some(event => event.type === 'penalty')).toBe(false);
+    expect(totalShare(ledger)).toBeCloseTo(100);
+  });
+
+  it('takes 3% on the third missed deposit and redistributes it pro-rata', () => {
+    const ledger = buildOwnershipLedger(club(['a', 'b', 'c']), [
+      ...deposits('a', WEEKS, 100),
+      ...deposits('b', WEEKS),
+      ...deposits('c', [0, 4, 5, 6, 7, 8, 9])
+    ], [], NOW);
+
+    const c = member(ledger, 'c');
+    expect(c.missedCount).toBe(3);
+    expect(c.penaltyPoints).toBe(PENALTY_OWNERSHIP_POINTS);
+
+    // The penalty lands when week 3's grace ends: a has 400, b 200, so they take 2 and 1 points
+    const penalty = ledger.history.filter(event => event.type === 'penalty');
+    expect(penalty).toHaveLength(1);
+    expect(penalty[0].member).toBe('c');
+    expect(penalty[0].at).toEqual(new Date(START.getTime() + 28 * DAY_MS));
+
+    const total = 1000 + 500 + 350;
+    expect(member(ledger, 'a').share).toBeCloseTo(1000 / total * 100 + 2);
+    expect(member(ledger, 'b').share).toBeCloseTo(500 / total * 100 + 1);
+    expect(c.share).toBeCloseTo(350 / total * 100 - 3);
+    expect(totalShare(ledger)).toBeCloseTo(100);
+  });
+
+  it('takes another 3% on the sixth missed deposit', () => {
+    const ledger = buildOwnershipLedger(club(['a', 'b']), [
+      ...deposits('a', WEEKS),
+      ...deposits('b', [0, 7, 8, 9])
+    ], [], NOW);
+
+    const b = member(ledger, 'b');
+    expect(b.missedCount).toBe(6);
+    expect(b.penaltyPoints).toBe(2 * PENALTY_OWNERSHIP_POINTS);
+    expect(ledger.history.filter(event => event.type === 'penalty').map(event => event.at)).toEqual([
+      new Date(START.getTime() + 28 * DAY_MS),
+      new Date(START.getTime() + 49 * DAY_MS)
+    ]);
+    expect(b.share).toBeCloseTo(200 / 700 * 100 - 6);
+    expect(member(ledger, 'a').share).toBeCloseTo(500 / 700 * 100 + 6);
+    expect(totalShare(ledger)).toBeCloseTo(100);
+  });
+
+  it('does not count the periods before a member joined', () => {
+    const joinedAt = new Date(START.getTime() + 28 * DAY_MS).toISOString();
+    const ledger = buildOwnershipLedger(club(['a', 'b', 'c'], { c: joinedAt }), [
+      ...deposits('a', WEEKS),
+      ...deposits('b', WEEKS),
+      ...deposits('c', [4, 5, 6, 7, 8, 9])
+    ], [], NOW);
+
+    const c = member(ledger, 'c');
+    expect(c.missedCount).toBe(0);
+    expect(c.penaltyPoints).toBe(0);
+    expect(c.share).toBeCloseTo(300 / 1300 * 100);
+    expect(member(ledger, 'a').share).toBeCloseTo(500 / 1300 * 100);
+    expect(totalShare(ledger)).toBeCloseTo(100);
+  });
+
+  it('stops counting missed deposits once a member is kicked', () => {
+    const kicked = {
+      ...club(['a']),
+      removedMembers: [{ member: 'b', status: 'kicked', removedAt: new Date(START.getTime() + 30 * DAY_MS).toISOString() }]
+    } as Subclub;
+    const ledger = buildOwnershipLedger(kicked, [...deposits('a', WEEKS), ...deposits('b', [0])], [], NOW);
+
+    // Weeks 1-3 closed before the kick; later weeks are not owed
+    expect(member(ledger, 'b').missedCount).toBe(3);
+    expect(member(ledger, 'b').penaltyPoints).toBe(PENALTY_OWNERSHIP_POINTS);
+  });
+
+  it('values an individual exit from the share after penalties', () => {
+    const ledger = buildOwnershipLedger(club(['a', 'b']), [
+      ...deposits('a', WEEKS),
+      ...deposits('b', [0, 7, 8, 9])
+    ], [], NOW);
+
+    // At a balance equal to deposits the penalties leave b below their principal
+    const exit = computeIndividualExit(ledger, 'b', 700);
+    expect(exit.share).toBeCloseTo(200 / 700 * 100 - 6);
+    expect(exit.currentValue).toBeCloseTo(200 - 42);
+    expect(exit.payout).toBeCloseTo(200 - 42);
+  });
+
+  it('keeps a sole member at 100% however many deposits they miss', () => {
+    const ledger = buildOwnershipLedger(club(['a']), deposits('a', [0, 4, 5, 6, 7, 8, 9]), [], NOW);
+
+    const a = member(ledger, 'a');
+    expect(a.missedCount).toBe(3);
+    // Nobody to redistribute to, so no penalty is taken
+    expect(a.penaltyPoints).toBe(0);
+    expect(a.share).toBeCloseTo(100);
+  });
+});
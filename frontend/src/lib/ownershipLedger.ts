@@ -0,0 +1,202 @@
+/**
+ * Ownership ledger
+ *
+ * Derives each member's ownership share of a contract from the deposit
+ * ledger and applies the Behavioral Enforcement rule from the Terms of
+ * Service: every three missed deposits (post-grace period) cost the member
+ * 3% ownership, redistributed to the rest of the group pro-rata to their
+ * current shares.
+ *
+ * Shares start from each member's contributions. Penalties are carried as
+ * percentage-point adjustments on top of that base, so later deposits keep
+ * moving the base while earlier penalties stay in force. A member who exits
+ * drops out of the ledger; the remaining members' shares are renormalized.
+ * Missed deposits count from a member's join date until they exit or are
+ * kicked.
+ *
+ * `contract_ownership_shares` in supabase/migrations/20261019240000_*.sql
+ * is the server-side port the `exit_contract` RPC pays from; keep the two in step.
+ */
+
+import { buildDepositSchedule } from '@/lib/depositSchedule';
+import type { Subclub } from '@/types/vault';
+
+export const PENALTY_MISSED_DEPOSITS = 3;
+export const PENALTY_OWNERSHIP_POINTS = 3;
+
+export interface OwnershipDeposit {
+  contract_id: string;
+  user_id: string;
+  wallet_address: string | null;
+  amount: number;
+  deposited_at: string;
+}
+
+export interface OwnershipExit {
+  contract_id: string;
+  user_id: string;
+  wallet_address: string | null;
+  exited_at: string;
+}
+
+export interface MemberOwnership {
+  member: string;
+  contributed: number;
+  missedCount: number;
+  penaltyPoints: number;
+  /** Ownership in percent, 0-100 */
+  share: number;
+}
+
+export interface OwnershipEvent {
+  at: Date;
+  type: 'deposit' | 'penalty' | 'exit';
+  member: string;
+  /** Deposit amount, ownership points lost for penalties, or principal withdrawn on exit */
+  amount: number;
+  /** Every member's share (percent) after this event */
+  shares: Record<string, number>;
+}
+
+export interface OwnershipLedger {
+  contractId: string;
+  members: MemberOwnership[];
+  history: OwnershipEvent[];
+}
+
+// Same identity the contract's members list uses: wallet address, else user id
+const depositIdentity = (deposit: Pick<OwnershipDeposit, 'user_id' | 'wallet_address'>) => deposit.wallet_address || deposit.user_id;
+
+function computeShares(
+  members: string[],
+  contributed: Record<string, number>,
+  adjustments: Record<string, number>
+): Record<string, number> {
+  const total = members.reduce((sum, member) => sum + contributed[member], 0);
+  if (total <= 0) {
+    return Object.fromEntries(members.map(member => [member, 0]));
+  }
+
+  const raw = members.map(member => Math.max(0, contributed[member] / total * 100 + adjustments[member]));
+  const rawTotal = raw.reduce((sum, value) => sum + value, 0);
+  return Object.fromEntries(members.map((member, i) => [member, rawTotal > 0 ? raw[i] / rawTotal * 100 : 0]));
+}
+
+/**
+ * Builds the ownership ledger for a contract from every member's deposits.
+ */
+export function buildOwnershipLedger(
+  club: Subclub,
+  deposits: OwnershipDeposit[],
+  exits: OwnershipExit[] = [],
+  now: Date = new Date()
+): OwnershipLedger {
+  const contractDeposits = deposits.filter(deposit => deposit.contract_id === club.id);
+  const contractExits = exits.filter(exit => exit.contract_id === club.id);
+  const exitedAt: Record<string, Date> = Object.fromEntries(contractExits.map(exit => [depositIdentity(exit), new Date(exit.exited_at)]));
+  // Kicked members stop owing deposits when they are removed
+  const removedAt: Record<string, Date> = Object.fromEntries((club.removedMembers || [])
+    .filter(removed => removed.removedAt)
+    .map(removed => [removed.member, new Date(removed.removedAt)]));
+  const allMembers = Array.from(new Set([...club.members, ...contractDeposits.map(depositIdentity)]));
+  // Shares are only ever computed over members still in the contract at that point
+  const members = [...allMembers];
+
+  const contributed: Record<string, number> = Object.fromEntries(allMembers.map(member => [member, 0]));
+  const adjustments: Record<string, number> = Object.fromEntries(allMembers.map(member => [member, 0]));
+  const penaltyPoints: Record<string, number> = Object.fromEntries(allMembers.map(member => [member, 0]));
+  const missedCounts: Record<string, number> = {};
+
+  const events: Omit<OwnershipEvent, 'shares'>[] = contractDeposits.map(deposit => ({
+    at: new Date(deposit.deposited_at),
+    type: 'deposit',
+    member: depositIdentity(deposit),
+    amount: Number(deposit.amount) || 0
+  }));
+
+  contractExits.forEach(exit => {
+    events.push({ at: new Date(exit.exited_at), type: 'exit', member: depositIdentity(exit), amount: 0 });
+  });
+
+  // A penalty lands when a member's every third missed deposit passes its grace period
+  allMembers.forEach(member => {
+    const joinedAt = club.memberJoinedAt?.[member];
+    const leftAt = exitedAt[member] || removedAt[member];
+    const schedule = buildDepositSchedule(
+      club,
+      contractDeposits.filter(deposit => depositIdentity(deposit) === member),
+      leftAt && leftAt < now ? leftAt : now,
+      joinedAt ? new Date(joinedAt) : undefined
+    );
+    const missed = schedule.periods.filter(period => period.status === 'missed');
+    missedCounts[member] = missed.length;
+    missed.forEach((period, i) => {
+      if ((i + 1) % PENALTY_MISSED_DEPOSITS === 0) {
+        events.push({ at: period.graceEndsAt, type: 'penalty', member, amount: PENALTY_OWNERSHIP_POINTS });
+      }
+    });
+  });
+
+  events.sort((a, b) => a.at.getTime() - b.at.getTime() || (a.type === b.type ? 0 : a.type === 'deposit' ? -1 : 1));
+
+  const history: OwnershipEvent[] = [];
+  events.forEach(event => {
+    if (event.type === 'deposit') {
+      contributed[event.member] += event.amount;
+      history.push({ ...event, shares: computeShares(members, contributed, adjustments) });
+    } else if (event.type === 'exit') {
+      const index = members.indexOf(event.member);
+      if (index === -1) return;
+      members.splice(index, 1);
+      const principal = contributed[event.member];
+      contributed[event.member] = 0;
+      adjustments[event.member] = 0;
+      history.push({ ...event, amount: principal, shares: computeShares(members, contributed, adjustments) });
+    } else {
+      if (!members.includes(event.member)) return;
+      const current = computeShares(members, contributed, adjustments);
+      const others = members.filter(member => member !== event.member && current[member] > 0);
+      const points = Math.min(event.amount, current[event.member]);
+      // Nobody to redistribute to, or nothing left to lose
+      if (others.length === 0 || points <= 0) return;
+
+      const othersTotal = others.reduce((sum, member) => sum + current[member], 0);
+      adjustments[event.member] -= points;
+      others.forEach(member => {
+        adjustments[member] += points * current[member] / othersTotal;
+      });
+      penaltyPoints[event.member] += points;
+      history.push({ ...event, amount: points, shares: computeShares(members, contributed, adjustments) });
+    }
+  });
+
+  const shares = computeShares(members, contributed, adjustments);
+  return {
+    contractId: club.id,
+    members: members.map(member => ({
+      member,
+      contributed: contributed[member],
+      missedCount: missedCounts[member] || 0,
+      penaltyPoints: penaltyPoints[member],
+      share: shares[member]
+    })),
+    history
+  };
+}
+
+/**
+ * A member's share of the combined value of several contracts, weighting each
+ * contract's ownership share by its balance.
+ */
+export function getWeightedOwnershipShare(
+  ledgers: { ledger: OwnershipLedger; balance: number }[],
+  member: string
+): number {
+  const totalBalance = ledgers.reduce((sum, { balance }) => sum + balance, 0);
+  if (totalBalance <= 0) return 0;
+  const owned = ledgers.reduce((sum, { ledger, balance }) => {
+    const entry = ledger.members.find(m => m.member === member);
+    return sum + (entry ? entry.share / 100 * balance : 0);
+  }, 0);
+  return owned / totalBalance * 100;
+}
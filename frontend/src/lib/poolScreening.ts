@@ -0,0 +1,139 @@
+/**
+ * Pool quality and risk screening
+ *
+ * Scores Strand 3 candidate pools so the strand doesn't just chase whichever
+ * farm has the highest APY today. Each pool gets four 0–1 scores from the
+ * fields DeFi Llama already returns:
+ * - TVL: log scale from $100K (0) to $100M (1)
+ * - Stability: low `sigma` (APY volatility) and no spike above the 30-day mean
+ *   (`apyMean30d`)
+ * - IL risk: 1 without impermanent-loss exposure (`ilRisk`)
+ * - Stablecoin: 1 for stablecoin pools, less for single volatile assets and
+ *   least for volatile pairs (`stablecoin`, `exposure`)
+ * weighted into a 0–100 quality score.
+ *
+ * A contract's risk level sets the minimum score a pool needs; among those,
+ * the pool with the best risk-adjusted APY (today's APY, but no more than its
+ * 30-day mean) is chosen.
+ */
+
+import { DEFAULT_RISK_LEVEL } from '@/lib/allocation';
+import type { RatePool } from '@/lib/strandRates';
+
+/** A DeFi Llama pool with the fields screening reads */
+export interface ScreenablePool extends RatePool {
+  apyMean30d?: number | null;
+  sigma?: number | null;
+  ilRisk?: string | null;
+  stablecoin?: boolean | null;
+  exposure?: string | null;
+}
+
+export interface PoolScores {
+  tvl: number;
+  stability: number;
+  ilRisk: number;
+  stablecoin: number;
+}
+
+export interface ScreenedPool {
+  pool: ScreenablePool;
+  scores: PoolScores;
+  /** Weighted quality score, 0–100 */
+  score: number;
+  /** Today's APY, capped at the 30-day mean so spikes don't count */
+  riskAdjustedApy: number;
+  /** Short notes on what lowered the score */
+  flags: string[];
+}
+
+export interface RiskAdjustedChoice {
+  pick: ScreenedPool;
+  /** False when no pool met the risk level's minimum and the best-scored one was used */
+  meetsMinimum: boolean;
+  minScore: number;
+}
+
+export const POOL_SCORE_WEIGHTS: PoolScores = {
+  tvl: 0.3,
+  stability: 0.35,
+  ilRisk: 0.2,
+  stablecoin: 0.15
+};
+
+/** Minimum quality score a pool needs at each risk level */
+export const POOL_MIN_SCORES: Record<string, number> = {
+  low: 70,
+  medium: 50,
+  high: 35
+};
+
+/** Stability score for pools without 30-day history */
+const UNKNOWN_STABILITY = 0.4;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Scores one pool.
+ */
+export function scorePool(pool: ScreenablePool): ScreenedPool {
+  const flags: string[] = [];
+
+  const tvl = clamp((Math.log10(Math.max(pool.tvlUsd, 1)) - 5) / 3);
+  if (tvl < 0.34) flags.push('Low TVL');
+
+  const mean = pool.apyMean30d;
+  const hasHistory = typeof mean === 'number' && mean > 0;
+  let stability = UNKNOWN_STABILITY;
+  if (hasHistory) {
+    // sigma is the standard deviation of daily APY changes, in percentage points
+    const volatility = typeof pool.sigma === 'number' ? 1 / (1 + pool.sigma) : UNKNOWN_STABILITY;
+    const spike = clamp(pool.apy / mean - 1);
+    stability = volatility * (1 - spike / 2);
+    if (spike > 0.25) flags.push(`APY ${Math.round(spike * 100)}% above 30-day mean`);
+    if (volatility < 0.5) flags.push('Volatile APY');
+  } else {
+    flags.push('No 30-day history');
+  }
+
+  const ilRisk = pool.ilRisk === 'no' ? 1 : pool.ilRisk === 'yes' ? 0.3 : 0.5;
+  if (pool.ilRisk === 'yes') flags.push('Impermanent loss');
+
+  const stablecoin = pool.stablecoin ? 1 : pool.exposure === 'single' ? 0.6 : 0.3;
+
+  const scores = { tvl, stability, ilRisk, stablecoin };
+  const score = (Object.keys(POOL_SCORE_WEIGHTS) as (keyof PoolScores)[])
+    .reduce((sum, key) => sum + scores[key] * POOL_SCORE_WEIGHTS[key], 0) * 100;
+
+  return {
+    pool,
+    scores,
+    score,
+    riskAdjustedApy: hasHistory ? Math.min(pool.apy, mean) : pool.apy,
+    flags
+  };
+}
+
+/**
+ * Scores pools and ranks them, best score first.
+ */
+export function screenPools(pools: ScreenablePool[]): ScreenedPool[] {
+  return pools.map(scorePool).sort((a, b) => b.score - a.score || b.riskAdjustedApy - a.riskAdjustedApy);
+}
+
+/**
+ * The pool a contract at `riskLevel` should use: the best risk-adjusted APY
+ * among pools meeting the level's minimum score, or the best-scored pool when
+ * none do. Null when there are no candidates. Unknown risk levels use medium.
+ */
+export function selectRiskAdjustedPool(screened: ScreenedPool[], riskLevel: string = DEFAULT_RISK_LEVEL): RiskAdjustedChoice | null {
+  if (screened.length === 0) return null;
+  const minScore = POOL_MIN_SCORES[riskLevel] ?? POOL_MIN_SCORES[DEFAULT_RISK_LEVEL];
+  const qualifying = screened.filter(candidate => candidate.score >= minScore);
+  if (qualifying.length === 0) {
+    const best = screened.reduce((top, candidate) => candidate.score > top.score ? candidate : top);
+    return { pick: best, meetsMinimum: false, minScore };
+  }
+  const pick = qualifying.reduce((top, candidate) => candidate.riskAdjustedApy > top.riskAdjustedApy ? candidate : top);
+  return { pick, meetsMinimum: true, minScore };
+}
@@ -0,0 +1,118 @@
+/**
+ * Settlement calculations
+ *
+ * Payout math for leaving a contract early, per the "Emergency Withdrawal"
+ * section of the Terms of Service. An individual exit returns principal only:
+ * everything the member's ownership is worth above what they deposited is
+ * forfeited to the remaining members as a disruption fee. The exit value is
+ * the member's ownership share, after missed-deposit penalties, of the
+ * contract balance: the same ledger shares the `exit_contract` RPC pays from,
+ * so the preview matches what is paid.
+ *
+ * A unanimous group termination returns 100% of principal and retains 35% of
+ * the contract's total yield for the protocol reserve. The remaining yield is
+ * split by ownership share, so missed-deposit penalties carry through.
+ */
+
+import type { OwnershipLedger } from '@/lib/ownershipLedger';
+
+export interface IndividualExitBreakdown {
+  /** Total the member has deposited into the contract */
+  principal: number;
+  /** Ownership share (percent) before exiting */
+  share: number;
+  /** What the member's share of the contract balance is worth today */
+  currentValue: number;
+  /** Value above principal, forfeited to the remaining members */
+  forfeitedYield: number;
+  /** Amount returned to the member: principal, or less if the share or the contract balance is worth less */
+  payout: number;
+}
+
+/**
+ * Computes what a member would receive for an emergency exit today.
+ */
+export function computeIndividualExit(
+  ledger: OwnershipLedger,
+  member: string,
+  contractBalance: number
+): IndividualExitBreakdown {
+  const entry = ledger.members.find(m => m.member === member);
+  const principal = entry?.contributed || 0;
+  const share = entry?.share || 0;
+  const currentValue = share / 100 * contractBalance;
+
+  return {
+    principal,
+    share,
+    currentValue,
+    forfeitedYield: Math.max(0, currentValue - principal),
+    payout: Math.max(0, Math.min(principal, currentValue, contractBalance))
+  };
+}
+
+/** Share of total yield kept by the protocol reserve on group termination */
+export const YIELD_RETENTION_RATE = 0.35;
+
+export interface MemberTerminationSettlement {
+  member: string;
+  /** Total the member has deposited into the contract */
+  principal: number;
+  /** Ownership share (percent) at termination */
+  share: number;
+  /** The member's part of the yield left after the reserve retention */
+  yieldShare: number;
+  /** Principal plus yield share */
+  payout: number;
+}
+
+export interface GroupTerminationBreakdown {
+  totalPrincipal: number;
+  /** Contract balance being settled */
+  totalValue: number;
+  /** Balance above principal; negative when the contract is at a loss */
+  totalYield: number;
+  retainedYield: number;
+  distributedYield: number;
+  members: MemberTerminationSettlement[];
+}
+
+/**
+ * Splits a contract balance between its members for a group termination.
+ * Used both for the preview while a vote is open and for the statement once
+ * a settlement has been recorded (pass the settled balance).
+ *
+ * If the balance is below total principal there is no yield to retain and
+ * principal is returned pro-rata to what each member deposited.
+ */
+export function computeGroupTermination(
+  ledger: OwnershipLedger,
+  contractBalance: number
+): GroupTerminationBreakdown {
+  const totalPrincipal = ledger.members.reduce((sum, m) => sum + m.contributed, 0);
+  const totalYield = contractBalance - totalPrincipal;
+  const retainedYield = Math.max(0, totalYield) * YIELD_RETENTION_RATE;
+  const distributedYield = Math.max(0, totalYield) - retainedYield;
+  const recovery = totalYield < 0 && totalPrincipal > 0 ? contractBalance / totalPrincipal : 1;
+
+  const members = ledger.members.map(m => {
+    const principal = m.contributed * recovery;
+    const yieldShare = m.share / 100 * distributedYield;
+    return {
+      member: m.member,
+      principal,
+      share: m.share,
+      yieldShare,
+      payout: principal + yieldShare
+    };
+  });
+
+  return {
+    totalPrincipal,
+    totalValue: contractBalance,
+    totalYield,
+    retainedYield,
+    distributedYield,
+    members
+  };
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SIMULATION_FEES,
+  getCurrentContractPhase,
+  getFeeDrag,
+  isPhase2Triggered,
+  runBlendedCompound,
+  runStrandSimulation,
+  simulateBlendedCompound,
+  simulateStrands,
+  toCompoundPoints,
+  toRealValue,
+  type DepositPlan,
+  type SimulationInputs
+} from '@/lib/simulationEngine';
+
+const PLAN: DepositPlan = { rigorLevel: 'custom', customDepositFrequency: 'weekly', customWeeklyAmount: 100 };
+const NO_FEES = { gasPerWeek: 0, utilityPerMemberPerWeek: 0 };
+const NEVER = { triggerType: 'value' as const, timePercent: 100, valueThreshold: Infinity };
+
+const inputs = (overrides: Partial<SimulationInputs> = {}): SimulationInputs => ({
+  apys: { strand1: 0, strand2: 0, strand3: 0 },
+  years: 1,
+  plan: PLAN,
+  phase2: NEVER,
+  fees: NO_FEES,
+  memberCount: 1,
+  ...overrides
+});
+
+describe('isPhase2Triggered', () => {
+  const config = { triggerType: 'both' as const, timePercent: 50, valueThreshold: 1000 };
+
+  it('triggers on time only for time triggers', () => {
+    const time = { ...config, triggerType: 'time' as const };
+    expect(isPhase2Triggered(time, 0.5, 0)).toBe(true);
+    expect(isPhase2Triggered(time, 0.49, 5000)).toBe(false);
+  });
+
+  it('triggers on value only for value triggers', () => {
+    const value = { ...config, triggerType: 'value' as const };
+    expect(isPhase2Triggered(value, 0.1, 1000)).toBe(true);
+    expect(isPhase2Triggered(value, 0.9, 999)).toBe(false);
+  });
+
+  it('triggers on whichever comes first for both', () => {
+    expect(isPhase2Triggered(config, 0.5, 0)).toBe(true);
+    expect(isPhase2Triggered(config, 0, 1000)).toBe(true);
+    expect(isPhase2Triggered(config, 0.49, 999)).toBe(false);
+  });
+});
+
+describe('getCurrentContractPhase', () => {
+  const club = {
+    createdAt: '2026-01-01T00:00:00Z',
+    lockupPeriod: 10,
+    isChargedContract: false,
+    totalContractBalance: '5000',
+    phase2TriggerType: 'both' as const,
+    phase2TimePercent: 50,
+    phase2ValueThreshold: 1000000
+  };
+
+  it('uses the elapsed share of the term', () => {
+    expect(getCurrentContractPhase(club, new Date('2030-12-31T00:00:00Z'))).toBe(1);
+    expect(getCurrentContractPhase(club, new Date('2031-01-02T00:00:00Z'))).toBe(2);
+  });
+
+  it('uses the actual contract balance', () => {
+    const now = new Date('2027-01-01T00:00:00Z');
+    expect(getCurrentContractPhase(club, now)).toBe(1);
+    expect(getCurrentContractPhase({ ...club, totalContractBalance: '1000000' }, now)).toBe(2);
+  });
+});
+
+describe('simulateStrands', () => {
+  it('accumulates deposits without growth or fees and converts to wBTC at the end', () => {
+    const points = simulateStrands(inputs());
+    expect(points.map(point => point.year)).toEqual([0, 1]);
+    const final = points[1];
+    // One deposit in week 0 and one in each of the 52 weeks after
+    expect(final.initialDeposits).toBe(5300);
+    expect(final.total).toBe(5300);
+    expect(final.wbtc).toBe(5300);
+    expect([final.strand1, final.strand2, final.strand3]).toEqual([0, 0, 0]);
+  });
+
+  it('splits Phase 1 deposits by the risk level', () => {
+    const [medium] = simulateStrands(inputs());
+    expect([medium.strand1, medium.strand2, medium.strand3]).toEqual([10, 60, 30]);
+    const [high] = simulateStrands(inputs({ riskLevel: 'high' }));
+    expect([high.strand1, high.strand2, high.strand3]).toEqual([5, 55, 40]);
+  });
+
+  it('keeps holdings in the strands when the term runs past the simulated years', () => {
+    const final = simulateStrands(inputs({ termYears: 2 }))[1];
+    expect(final.wbtc).toBe(0);
+    expect(final.strand1 + final.strand2 + final.strand3).toBe(final.total);
+  });
+
+  it('grows with APY', () => {
+    const flat = simulateStrands(inputs({ years: 5 }));
+    const growing = simulateStrands(inputs({ years: 5, apys: { strand1: 5, strand2: 8, strand3: 15 } }));
+    expect(growing[5].total).toBeGreaterThan(flat[5].total);
+    expect(growing[5].initialDeposits).toBe(flat[5].initialDeposits);
+  });
+
+  it('switches to Phase 2 at the time trigger and starts buying wBTC', () => {
+    const phase2 = { triggerType: 'time' as const, timePercent: 50, valueThreshold: Infinity };
+    const { points, phase2Week } = runStrandSimulation(inputs({ years: 2, phase2 }));
+    expect(phase2Week).toBe(52);
+    expect(points.map(point => point.phase)).toEqual([1, 2, 2]);
+    expect(points[1].wbtc).toBeGreaterThan(0);
+  });
+
+  it('never triggers Phase 2 when the threshold is out of reach', () => {
+    const { points, phase2Week } = runStrandSimulation(inputs({ years: 3 }));
+    expect(phase2Week).toBeNull();
+    expect(points.every(point => point.phase === 1)).toBe(true);
+  });
+
+  it('charges gas and a utility fee per member each week', () => {
+    const final = simulateStrands(inputs({ fees: { gasPerWeek: 1, utilityPerMemberPerWeek: 2 }, memberCount: 3 }))[1];
+    expect(final.cumulativeGasFees).toBe(52);
+    expect(final.cumulativeUtilityFees).toBe(312);
+    expect(final.total).toBeLessThan(final.initialDeposits);
+  });
+});
+
+describe('simulateBlendedCompound', () => {
+  it('compounds once a period at the deposit frequency', () => {
+    const points = simulateBlendedCompound({ apy: 10, years: 2, plan: PLAN, frequency: 'yearly' });
+    // $100/week deposited as $5,200 at the end of each year
+    expect(points.map(point => point.total)).toEqual([0, 5200, 10920]);
+    expect(points[2].deposited).toBe(10400);
+    expect(points[2].earnings).toBe(520);
+  });
+
+  it('has no earnings at zero APY', () => {
+    const final = simulateBlendedCompound({ apy: 0, years: 1, plan: PLAN, frequency: 'weekly' })[1];
+    expect(final).toEqual({ year: 1, total: 5200, deposited: 5200, earnings: 0 });
+  });
+
+  it('reports today\'s dollars when given an inflation rate', () => {
+    const nominal = simulateBlendedCompound({ apy: 0, years: 1, plan: PLAN, frequency: 'yearly' })[1];
+    const real = simulateBlendedCompound({ apy: 0, years: 1, plan: PLAN, frequency: 'yearly', inflationRate: 0.1 })[1];
+    expect(nominal.total).toBe(5200);
+    expect(real.total).toBe(4727);
+    expect(real.deposited).toBe(4727);
+    expect(real.earnings).toBe(0);
+  });
+});
+
+describe('runBlendedCompound', () => {
+  it('finds where the blended curve meets the Phase 2 value trigger', () => {
+    const phase2 = { triggerType: 'value' as const, timePercent: 100, valueThreshold: 10000 };
+    // $100 a week at 0%: $10,000 after the 100th deposit
+    const { phase2Year } = runBlendedCompound({ apy: 0, years: 5, plan: PLAN, frequency: 'weekly', phase2 });
+    expect(phase2Year).toBeCloseTo(100 / 52);
+  });
+
+  it('tests the nominal value even when the curve is in today\'s dollars', () => {
+    const phase2 = { triggerType: 'value' as const, timePercent: 100, valueThreshold: 10000 };
+    const { phase2Year } = runBlendedCompound({ apy: 0, years: 5, plan: PLAN, frequency: 'weekly', inflationRate: 0.5, phase2 });
+    expect(phase2Year).toBeCloseTo(100 / 52);
+  });
+
+  it('uses the time trigger and has no marker without a trigger', () => {
+    const phase2 = { triggerType: 'time' as const, timePercent: 50, valueThreshold: Infinity };
+    expect(runBlendedCompound({ apy: 5, years: 4, plan: PLAN, frequency: 'monthly', phase2 }).phase2Year).toBe(2);
+    expect(runBlendedCompound({ apy: 5, years: 4, plan: PLAN, frequency: 'monthly' }).phase2Year).toBeNull();
+  });
+});
+
+describe('toCompoundPoints', () => {
+  it('reshapes strand points and deflates them like the Monte Carlo bands', () => {
+    const points = simulateStrands(inputs());
+    expect(toCompoundPoints(points)).toEqual([
+      { year: 0, total: 100, deposited: 100, earnings: 0 },
+      { year: 1, total: 5300, deposited: 5300, earnings: 0 }
+    ]);
+    expect(toCompoundPoints(points, 0.1)[1]).toEqual({ year: 1, total: 4818, deposited: 4818, earnings: 0 });
+  });
+});
+
+describe('toRealValue', () => {
+  it('deflates by the inflation rate compounded over the years', () => {
+    expect(toRealValue(121, 2, 0.1)).toBeCloseTo(100);
+    expect(toRealValue(500, 0, 0.1)).toBe(500);
+    expect(toRealValue(500, 10, 0)).toBe(500);
+  });
+});
+
+describe('getFeeDrag', () => {
+  it('is zero without fees', () => {
+    expect(getFeeDrag(inputs({ apys: { strand1: 5, strand2: 8, strand3: 15 } }))).toEqual({ feesPaid: 0, valueLost: 0, shareOfReturns: 0 });
+  });
+
+  it('compares the projection with a fee-free run', () => {
+    const drag = getFeeDrag(inputs({ years: 5, apys: { strand1: 5, strand2: 8, strand3: 15 }, fees: DEFAULT_SIMULATION_FEES }));
+    expect(drag.feesPaid).toBe(Math.round(DEFAULT_SIMULATION_FEES.gasPerWeek * 260) + 260);
+    // Fees also cost the growth they would have earned
+    expect(drag.valueLost).toBeGreaterThan(drag.feesPaid);
+    expect(drag.shareOfReturns).toBeGreaterThan(0);
+    expect(drag.shareOfReturns).toBeLessThan(1);
+  });
+
+  it('has no share of returns when there are no returns', () => {
+    const drag = getFeeDrag(inputs({ fees: DEFAULT_SIMULATION_FEES }));
+    expect(drag.valueLost).toBeGreaterThan(0);
+    expect(drag.shareOfReturns).toBe(0);
+  });
+});
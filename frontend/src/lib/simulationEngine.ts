@@ -0,0 +1,450 @@
+/**
+ * Simulation engine
+ *
+ * Projects a contract's growth from strand APYs, its deposit plan, the Phase 2
+ * trigger and fees. Pure functions of their inputs so the Home chart, the
+ * Future page and anything else can share them.
+ *
+ * - simulateStrands: week-by-week strand model. Deposits are split by the
+ *   allocation model for the contract's risk level and phase; once Phase 2
+ *   triggers, Strands 2 and 3 migrate 5% a week into Strand 1, and Strand 1
+ *   buys wBTC weekly. Everything left converts to wBTC at the end of the contract.
+ * - simulateBlendedCompound: a single blended APY compounded at the deposit
+ *   frequency, for the Compound Calculator. Optionally in today's dollars,
+ *   deflating each deposit and the value by an inflation rate. runBlendedCompound
+ *   also finds where the curve meets the Phase 2 trigger.
+ *
+ * Deposit amounts come from the same rigor schedules as the deposit ledger.
+ * APYs are fixed unless a sampled path is passed in (see monteCarlo.ts), in
+ * which case each week uses that path's APYs and wBTC price moves.
+ * Fees come from the fee schedule (feeSchedule.ts).
+ * Phase 2 follows the contract's own trigger: time (percent of the term),
+ * value (vault worth), or both, whichever is reached first.
+ */
+
+import { getStrandAllocation, splitDeposit, type ContractPhase } from '@/lib/allocation';
+import { getContractFees } from '@/lib/feeSchedule';
+import { getContractEndDate, getDepositFrequency, getScheduledAmount, periodsPerYear, toWeeklyAmount } from '@/lib/depositSchedule';
+import type { DepositFrequency, Phase2TriggerType, Subclub } from '@/types/vault';
+
+export interface ChartDataPoint {
+  year: number;
+  total: number;
+  strand1: number;
+  strand2: number;
+  strand3: number;
+  wbtc: number;
+  phase: number;
+  initialDeposits: number;
+  cumulativeGasFees: number;
+  cumulativeUtilityFees: number;
+}
+
+export interface CompoundDataPoint {
+  year: number;
+  total: number;
+  deposited: number;
+  earnings: number;
+}
+
+export interface StrandApys {
+  strand1: number;
+  strand2: number;
+  strand3: number;
+}
+
+/** Rigor level or custom schedule that determines deposit amounts */
+export type DepositPlan = Pick<Subclub, 'rigorLevel' | 'customDepositFrequency' | 'customWeeklyAmount' | 'customSchedule'>;
+
+export interface Phase2TriggerConfig {
+  triggerType: Phase2TriggerType;
+  /** Percent of the contract's duration, 0-100 */
+  timePercent: number;
+  /** Vault value in dollars */
+  valueThreshold: number;
+}
+
+export interface SimulationFees {
+  /** Protocol gas costs per week for the whole vault */
+  gasPerWeek: number;
+  utilityPerMemberPerWeek: number;
+}
+
+/** Week-by-week market conditions, indexed by week */
+export interface SimulationPath {
+  /** Strand APYs in percent */
+  apys: StrandApys[];
+  /** wBTC price change over the week, e.g. 0.02 for +2% */
+  btcReturns: number[];
+}
+
+export interface SimulationInputs {
+  apys: StrandApys;
+  years: number;
+  plan: DepositPlan;
+  /** Sets the Phase 1 strand split; defaults to medium */
+  riskLevel?: string;
+  phase2: Phase2TriggerConfig;
+  fees: SimulationFees;
+  /** Members charged the utility fee */
+  memberCount: number;
+  /** Members each making the plan's deposits; defaults to 1 */
+  depositors?: number;
+  /** Sampled market path; without it APYs stay at `apys` and wBTC holds its value */
+  path?: SimulationPath;
+  /**
+   * Full contract length when simulating only its first `years`. The time
+   * trigger is measured against it, and holdings only convert to wBTC once it is reached.
+   */
+  termYears?: number;
+  /** Weeks between data points; defaults to one point per year */
+  interval?: number;
+}
+
+export interface StrandSimulationResult {
+  /** One point per `interval` weeks (yearly by default), plus the final week */
+  points: ChartDataPoint[];
+  /** First week in Phase 2, or null if it never triggers within the term */
+  phase2Week: number | null;
+}
+
+export interface Phase2Projection {
+  /** Projected switchover date, or null if it is not reached within the term */
+  date: Date | null;
+  /** Years into the contract, or null if not reached */
+  year: number | null;
+}
+
+export interface CompoundInputs {
+  /** Blended APY in percent */
+  apy: number;
+  years: number;
+  plan: DepositPlan;
+  /** How often deposits are made and interest compounds */
+  frequency: DepositFrequency;
+  /** Annual inflation as a fraction; when set, values are in today's dollars */
+  inflationRate?: number;
+  /** Trigger to locate Phase 2 on the curve; the blended model's growth is unchanged by it */
+  phase2?: Phase2TriggerConfig;
+}
+
+export interface BlendedCompoundResult {
+  /** One point per year */
+  points: CompoundDataPoint[];
+  /** When the blended curve meets the Phase 2 trigger, in years, or null if it never does */
+  phase2Year: number | null;
+}
+
+export interface FeeDrag {
+  /** Gas and utility fees paid over the term */
+  feesPaid: number;
+  /** Final value lost to fees, including the growth the fees would have earned */
+  valueLost: number;
+  /** valueLost as a share of the returns without fees, 0-1; 0 when there are no returns */
+  shareOfReturns: number;
+}
+
+/** Fees for a traditional contract; see feeSchedule.ts for charged contracts */
+export const DEFAULT_SIMULATION_FEES: SimulationFees = getContractFees(false);
+
+export const DEFAULT_INFLATION_RATE = 0.025;
+
+export const DEFAULT_PHASE2_TRIGGER: Phase2TriggerConfig = {
+  triggerType: 'both',
+  timePercent: 50,
+  valueThreshold: 1000000
+};
+
+const WEEKS_PER_YEAR = 52;
+const PHASE2_MIGRATION_RATE = 0.05;
+const WBTC_DCA_RATE = 0.1;
+/** Largest weekly wBTC purchase by rigor level */
+const WBTC_DCA_CAPS: Record<string, number> = {
+  light: 1000,
+  medium: 5000,
+  heavy: 10000,
+  custom: 2000
+};
+
+const weeklyRate = (apy: number) => Math.pow(1 + apy / 100, 1 / WEEKS_PER_YEAR) - 1;
+
+/**
+ * Whether Phase 2 has triggered at `progress` (0-1 of the contract's duration)
+ * with the vault worth `value`. 'both' triggers on whichever comes first.
+ */
+export function isPhase2Triggered(config: Phase2TriggerConfig, progress: number, value: number): boolean {
+  const timeReached = progress >= config.timePercent / 100;
+  const valueReached = value >= config.valueThreshold;
+  if (config.triggerType === 'time') return timeReached;
+  if (config.triggerType === 'value') return valueReached;
+  return timeReached || valueReached;
+}
+
+/**
+ * A contract's Phase 2 trigger settings.
+ */
+export function getPhase2Config(club: Partial<Pick<Subclub, 'phase2TriggerType' | 'phase2TimePercent' | 'phase2ValueThreshold'>>): Phase2TriggerConfig {
+  return {
+    triggerType: club.phase2TriggerType || DEFAULT_PHASE2_TRIGGER.triggerType,
+    timePercent: Number.isFinite(club.phase2TimePercent) ? club.phase2TimePercent : DEFAULT_PHASE2_TRIGGER.timePercent,
+    valueThreshold: Number.isFinite(club.phase2ValueThreshold) ? club.phase2ValueThreshold : DEFAULT_PHASE2_TRIGGER.valueThreshold
+  };
+}
+
+/**
+ * Short description of a trigger, e.g. "50% of term or $1.0M".
+ */
+export function describePhase2Trigger(config: Phase2TriggerConfig): string {
+  const time = `${config.timePercent}% of term`;
+  const value = config.valueThreshold >= 1000000
+    ? `$${(config.valueThreshold / 1000000).toFixed(1)}M`
+    : `$${Math.round(config.valueThreshold / 1000)}K`;
+  if (config.triggerType === 'time') return time;
+  if (config.triggerType === 'value') return `${value} vault value`;
+  return `${time} or ${value}`;
+}
+
+/**
+ * Weekly deposit required by the plan `yearsElapsed` years into the contract.
+ */
+export function getPlanWeeklyDeposit(plan: DepositPlan, yearsElapsed: number): number {
+  return toWeeklyAmount(getScheduledAmount(plan, yearsElapsed), getDepositFrequency(plan));
+}
+
+/**
+ * Week-by-week strand projection, with the week Phase 2 triggers.
+ */
+export function runStrandSimulation(inputs: SimulationInputs): StrandSimulationResult {
+  const { apys, years, plan, riskLevel, phase2, fees, memberCount, depositors = 1, path, interval = WEEKS_PER_YEAR } = inputs;
+  const data: ChartDataPoint[] = [];
+  const totalWeeks = Math.round(years * WEEKS_PER_YEAR);
+  const termWeeks = Math.max(totalWeeks, Math.round((inputs.termYears ?? years) * WEEKS_PER_YEAR));
+  const fixedRates = [weeklyRate(apys.strand1), weeklyRate(apys.strand2), weeklyRate(apys.strand3)];
+  const utilityPerWeek = Math.max(1, memberCount) * fees.utilityPerMemberPerWeek;
+  const dcaCap = WBTC_DCA_CAPS[plan.rigorLevel] ?? WBTC_DCA_CAPS.custom;
+
+  let V1 = 0;
+  let V2 = 0;
+  let V3 = 0;
+  let wBTC = 0;
+  let totalDeposited = 0;
+  let phase2Week: number | null = null;
+
+  for (let week = 0; week <= totalWeeks; week++) {
+    const progress = termWeeks > 0 ? week / termWeeks : 1;
+    const phase2Triggered = phase2Week !== null || isPhase2Triggered(phase2, progress, V1 + V2 + V3 + wBTC);
+    if (phase2Triggered && phase2Week === null) {
+      phase2Week = week;
+    }
+    const weeklyDeposit = getPlanWeeklyDeposit(plan, Math.floor(week / WEEKS_PER_YEAR)) * depositors;
+    totalDeposited += weeklyDeposit;
+    const deposit = splitDeposit(weeklyDeposit, getStrandAllocation(riskLevel, phase2Triggered ? 2 : 1));
+
+    if (week === 0) {
+      V1 = deposit.strand1;
+      V2 = deposit.strand2;
+      V3 = deposit.strand3;
+    } else {
+      const weekApys = path?.apys[week];
+      const [r1, r2, r3] = weekApys
+        ? [weeklyRate(weekApys.strand1), weeklyRate(weekApys.strand2), weeklyRate(weekApys.strand3)]
+        : fixedRates;
+      wBTC *= 1 + (path?.btcReturns[week] ?? 0);
+      V1 = V1 * (1 + r1) + deposit.strand1;
+      V2 = V2 * (1 + r2) + deposit.strand2;
+      V3 = V3 * (1 + r3) + deposit.strand3;
+      if (phase2Triggered) {
+        // Strands 2 and 3 migrate into Strand 1, which buys wBTC
+        const migrated = (V2 + V3) * PHASE2_MIGRATION_RATE;
+        V2 -= V2 * PHASE2_MIGRATION_RATE;
+        V3 -= V3 * PHASE2_MIGRATION_RATE;
+        V1 += migrated;
+
+        const dca = Math.min(V1 * WBTC_DCA_RATE, dcaCap);
+        V1 -= dca;
+        wBTC += dca;
+      }
+
+      // Gas and utility fees come out of every holding proportionally
+      const totalBeforeFees = V1 + V2 + V3 + wBTC;
+      if (totalBeforeFees > 0) {
+        const feeRatio = (fees.gasPerWeek + utilityPerWeek) / totalBeforeFees;
+        V1 -= V1 * feeRatio;
+        V2 -= V2 * feeRatio;
+        V3 -= V3 * feeRatio;
+        wBTC -= wBTC * feeRatio;
+      }
+    }
+
+    if (week % interval === 0 || week === totalWeeks) {
+      data.push({
+        year: Math.round(week / WEEKS_PER_YEAR * 100) / 100,
+        total: Math.round(V1 + V2 + V3 + wBTC),
+        strand1: Math.round(V1),
+        strand2: Math.round(V2),
+        strand3: Math.round(V3),
+        wbtc: Math.round(wBTC),
+        phase: phase2Triggered ? 2 : 1,
+        initialDeposits: Math.round(totalDeposited),
+        cumulativeGasFees: Math.round(fees.gasPerWeek * week),
+        cumulativeUtilityFees: Math.round(utilityPerWeek * week)
+      });
+    }
+  }
+
+  // Remaining strands convert to wBTC when the contract concludes
+  const final = data[data.length - 1];
+  if (final && totalWeeks === termWeeks) {
+    final.wbtc += final.strand1 + final.strand2 + final.strand3;
+    final.strand1 = 0;
+    final.strand2 = 0;
+    final.strand3 = 0;
+    final.total = final.wbtc;
+  }
+
+  return { points: data, phase2Week };
+}
+
+/**
+ * Week-by-week strand projection with one data point per year.
+ */
+export function simulateStrands(inputs: SimulationInputs): ChartDataPoint[] {
+  return runStrandSimulation(inputs).points;
+}
+
+/**
+ * When a contract is projected to switch to Phase 2 under its own trigger,
+ * simulating every member's scheduled deposits from the start date.
+ */
+export function projectContractPhase2(
+  club: Pick<Subclub, 'createdAt' | 'lockupPeriod' | 'isChargedContract' | 'members' | 'riskLevel' | 'phase2TriggerType' | 'phase2TimePercent' | 'phase2ValueThreshold'> & DepositPlan,
+  apys: StrandApys,
+  fees: SimulationFees = getContractFees(club.isChargedContract)
+): Phase2Projection {
+  const memberCount = Math.max(1, club.members.length);
+  const { phase2Week } = runStrandSimulation({
+    apys,
+    years: club.isChargedContract ? club.lockupPeriod / 12 : club.lockupPeriod,
+    plan: club,
+    riskLevel: club.riskLevel,
+    phase2: getPhase2Config(club),
+    fees,
+    memberCount,
+    depositors: memberCount
+  });
+  if (phase2Week === null) {
+    return { date: null, year: null };
+  }
+
+  const date = new Date(club.createdAt);
+  date.setDate(date.getDate() + phase2Week * 7);
+  return { date, year: phase2Week / WEEKS_PER_YEAR };
+}
+
+/**
+ * The phase a contract is actually in at `now`: its own trigger checked
+ * against the share of the term elapsed and the current contract balance.
+ */
+export function getCurrentContractPhase(
+  club: Pick<Subclub, 'createdAt' | 'lockupPeriod' | 'isChargedContract' | 'totalContractBalance' | 'phase2TriggerType' | 'phase2TimePercent' | 'phase2ValueThreshold'>,
+  now: Date = new Date()
+): ContractPhase {
+  const start = new Date(club.createdAt);
+  const term = getContractEndDate(start, club.lockupPeriod, club.isChargedContract).getTime() - start.getTime();
+  const progress = term > 0 ? (now.getTime() - start.getTime()) / term : 0;
+  const balance = parseFloat(club.totalContractBalance || '0') || 0;
+  return isPhase2Triggered(getPhase2Config(club), progress, balance) ? 2 : 1;
+}
+
+/**
+ * `value` dollars `years` from now in today's dollars.
+ */
+export function toRealValue(value: number, years: number, inflationRate: number): number {
+  return value / Math.pow(1 + inflationRate, years);
+}
+
+/**
+ * Strand projection points in the Compound Calculator's shape, optionally in
+ * today's dollars. Values and cumulative deposits are deflated at each
+ * point's year, the same way Monte Carlo bands are.
+ */
+export function toCompoundPoints(points: ChartDataPoint[], inflationRate: number = 0): CompoundDataPoint[] {
+  return points.map(point => {
+    const total = toRealValue(point.total, point.year, inflationRate);
+    const deposited = toRealValue(point.initialDeposits, point.year, inflationRate);
+    return {
+      year: point.year,
+      total: Math.round(total),
+      deposited: Math.round(deposited),
+      earnings: Math.round(total - deposited)
+    };
+  });
+}
+
+/**
+ * How much the strand projection loses to gas and utility fees, by comparing
+ * it with the same projection run fee-free.
+ */
+export function getFeeDrag(inputs: SimulationInputs): FeeDrag {
+  const { points } = runStrandSimulation(inputs);
+  const { points: feeFreePoints } = runStrandSimulation({ ...inputs, fees: { gasPerWeek: 0, utilityPerMemberPerWeek: 0 } });
+  const final = points[points.length - 1];
+  const feeFree = feeFreePoints[feeFreePoints.length - 1];
+  if (!final || !feeFree) return { feesPaid: 0, valueLost: 0, shareOfReturns: 0 };
+
+  const valueLost = Math.max(0, feeFree.total - final.total);
+  const returnsWithoutFees = feeFree.total - feeFree.initialDeposits;
+  return {
+    feesPaid: final.cumulativeGasFees + final.cumulativeUtilityFees,
+    valueLost,
+    shareOfReturns: returnsWithoutFees > 0 ? Math.min(1, valueLost / returnsWithoutFees) : 0
+  };
+}
+
+/**
+ * Compounds a single blended APY at the deposit frequency, with one data point
+ * per year, and finds where the curve meets the Phase 2 trigger.
+ */
+export function runBlendedCompound(inputs: CompoundInputs): BlendedCompoundResult {
+  const { apy, years, plan, frequency, inflationRate = 0, phase2 } = inputs;
+  const data: CompoundDataPoint[] = [];
+  const perYear = periodsPerYear(frequency);
+  const totalPeriods = Math.ceil(years * perYear);
+  const periodRate = Math.pow(1 + apy / 100, 1 / perYear) - 1;
+  let totalValue = 0;
+  let totalDeposited = 0;
+  let phase2Year: number | null = null;
+
+  for (let period = 0; period <= totalPeriods; period++) {
+    // Each deposit counts at its value in today's dollars (unchanged without inflation)
+    const year = period / perYear;
+    if (period > 0) {
+      const deposit = getPlanWeeklyDeposit(plan, Math.floor(year)) * WEEKS_PER_YEAR / perYear;
+      totalValue = totalValue * (1 + periodRate) + deposit;
+      totalDeposited += toRealValue(deposit, year, inflationRate);
+    }
+    // The trigger is on the vault's actual (nominal) value
+    if (phase2 && phase2Year === null && years > 0 && isPhase2Triggered(phase2, year / years, totalValue)) {
+      phase2Year = year;
+    }
+
+    if (period % perYear === 0) {
+      const value = toRealValue(totalValue, year, inflationRate);
+      data.push({
+        year,
+        total: Math.round(value),
+        deposited: Math.round(totalDeposited),
+        earnings: Math.round(value - totalDeposited)
+      });
+    }
+  }
+
+  return { points: data, phase2Year };
+}
+
+/**
+ * Blended APY compound projection with one data point per year.
+ */
+export function simulateBlendedCompound(inputs: CompoundInputs): CompoundDataPoint[] {
+  return runBlendedCompound(inputs).points;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STRAND_RATE_CONFIG } from '@/data/strandRateConfig';
+import { deriveStrandRate, describeStrandRule, parseStrandRateConfig, type RatePool } from './strandRates';
+
+const pool = (id: string, project: string, chain: string, symbol: string, apy: number, tvlUsd = 1_000_000): RatePool =>
+  ({ pool: id, project, chain, symbol, apy, tvlUsd });
+
+const config = parseStrandRateConfig(DEFAULT_STRAND_RATE_CONFIG).config!;
+
+describe('deriveStrandRate', () => {
+  it('weights the matched pools and applies the multiplier', () => {
+    const pools = [
+      pool('usdc', 'aave-v3', 'Polygon', 'USDC', 4),
+      pool('dai', 'aave-v3', 'Polygon', 'DAI', 6)
+    ];
+    const rate = deriveStrandRate(config.strands.strand2, pools);
+    expect(rate.apy).toBeCloseTo(6);
+    expect(rate.pools.map(p => p.pool)).toEqual(['usdc', 'dai']);
+    expect(rate.fromFallback).toBe(false);
+  });
+
+  it('takes the top QuickSwap pool for Strand 3', () => {
+    const pools = [
+      pool('qs-low', 'quickswap-v3', 'Polygon', 'WETH-USDC', 9),
+      pool('qs-high', 'quickswap-dex', 'Polygon', 'WMATIC-USDC', 40),
+      pool('other', 'uniswap-v3', 'Polygon', 'WETH-USDC', 80)
+    ];
+    const rate = deriveStrandRate(config.strands.strand3, pools);
+    expect(rate.apy).toBe(40);
+    expect(rate.fromFallback).toBe(false);
+  });
+
+  it('falls back to any Polygon pool, capped at 25%, when no QuickSwap pool qualifies', () => {
+    const pools = [
+      pool('qs-small', 'quickswap-v3', 'Polygon', 'WETH-USDC', 30, 50_000),
+      pool('uni', 'uniswap-v3', 'Polygon', 'WETH-USDC', 60, 2_000_000),
+      pool('small', 'uniswap-v3', 'Polygon', 'WBTC-USDC', 90, 100_000),
+      pool('eth', 'uniswap-v3', 'Ethereum', 'WETH-USDC', 120, 5_000_000)
+    ];
+    const rate = deriveStrandRate(config.strands.strand3, pools);
+    expect(rate.apy).toBe(25);
+    expect(rate.pools.map(p => p.pool)).toEqual(['uni']);
+    expect(rate.fromFallback).toBe(true);
+  });
+
+  it('throws when neither the rule nor its fallback matches', () => {
+    expect(() => deriveStrandRate(config.strands.strand3, [pool('eth', 'uniswap-v3', 'Ethereum', 'WETH-USDC', 20)]))
+      .toThrow(/no pools match/);
+  });
+});
+
+describe('parseStrandRateConfig', () => {
+  it('accepts the bundled config', () => {
+    expect(parseStrandRateConfig(DEFAULT_STRAND_RATE_CONFIG).success).toBe(true);
+  });
+
+  it('requires a reason for a fallback multiplier', () => {
+    const raw = structuredClone(DEFAULT_STRAND_RATE_CONFIG);
+    raw.strands.strand3.fallback = { ...raw.strands.strand3.fallback!, multiplier: 2 };
+    const result = parseStrandRateConfig(raw);
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/^strands\.strand3\.fallback\.multiplierReason/);
+  });
+});
+
+describe('describeStrandRule', () => {
+  it('describes the fallback', () => {
+    expect(describeStrandRule(config.strands.strand3).at(-1))
+      .toBe('If nothing matches: highest APY among any pool on Polygon with at least $500,000 TVL, capped at 25%');
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Strand rate configuration
+ *
+ * The rules, schema and rate derivation live in
+ * supabase/functions/_shared/strandRates.ts so the market snapshot edge
+ * function runs the same code as the app; this re-exports them for `@/lib`
+ * imports.
+ */
+
+export * from '../../supabase/functions/_shared/strandRates.ts';
@@ -355,6 +355,18 @@ export async function getCurrentSession(): Promise<Session | null> {
   return session;
 }
 
+/**
+ * Whether the signed-in user has the admin role.
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('get_current_user_role');
+  if (error) {
+    console.error('[AuthService] Error fetching user role:', error);
+    return false;
+  }
+  return data === 'admin';
+}
+
 /**
  * Subscribes to auth state changes.
  */
@@ -0,0 +1,547 @@
+/**
+ * Contract Service for The Vault Club
+ *
+ * Persists Vault Club contracts to the shared Supabase `contracts` table and
+ * hydrates them back into the `Subclub` shape used by the UI.
+ *
+ * Contracts are stored with contract_type = 'vault_club'. The Vault Club
+ * specific settings (lockup, rigor, privacy, Phase 2 trigger, custom schedule)
+ * live in dedicated columns added by the contract settings migration.
+ *
+ * Live contracts can be edited by their owner at most once every 60 days.
+ * The window is enforced by a trigger on `contracts`, which also logs each
+ * edit to `contract_parameter_changes`.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { getPreviousDepositParameters } from '@/lib/contractParameters';
+import { getContractEndDate } from '@/lib/depositSchedule';
+import type { ClubCreationData, DepositFrequency, DepositTerms, Phase2TriggerType, SchedulePeriod, Subclub } from '@/types/vault';
+
+export const VAULT_CLUB_CONTRACT_TYPE = 'vault_club';
+
+type ContractRow = Tables<'contracts'>;
+export type ContractParticipant = Tables<'contract_participants'>;
+export type ContractParameterChange = Tables<'contract_parameter_changes'>;
+
+export interface ContractResult {
+  success: boolean;
+  contract?: Subclub;
+  error?: string;
+}
+
+export interface ContractListResult {
+  success: boolean;
+  contracts: Subclub[];
+  error?: string;
+}
+
+export interface JoinContractResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface UpdateContractResult {
+  success: boolean;
+  /** When the next edit is allowed, per the server */
+  nextEditAllowedAt?: string | null;
+  error?: string;
+}
+
+export interface CreateContractOptions {
+  name: string;
+  walletAddress: string | null;
+  contractAddress: string;
+  borderColor: string;
+}
+
+/**
+ * Maps the deposit term columns of a contract row, or of its values before an edit.
+ * Custom frequency and amounts only apply to custom rigor.
+ */
+function mapDepositTerms(columns: Partial<Pick<ContractRow, 'rigor_level' | 'deposit_frequency' | 'custom_amount' | 'custom_schedule'>>): DepositTerms {
+  const isCustom = columns.rigor_level === 'custom';
+  return {
+    rigorLevel: columns.rigor_level,
+    customDepositFrequency: isCustom ? (columns.deposit_frequency as DepositFrequency) || 'weekly' : undefined,
+    customWeeklyAmount: isCustom ? Number(columns.custom_amount) || 0 : undefined,
+    customSchedule: isCustom && Array.isArray(columns.custom_schedule)
+      ? (columns.custom_schedule as unknown as SchedulePeriod[])
+      : undefined
+  };
+}
+
+/**
+ * Maps a `contracts` row to the `Subclub` shape used throughout the UI.
+ * `members` is supplied by the caller since membership lives outside the row.
+ */
+export function mapContractRow(
+  row: ContractRow,
+  creator: string | null,
+  members: string[],
+  memberJoinedAt: Record<string, string> = {}
+): Subclub {
+  const strand1 = Number(row.strand1_balance) || 0;
+  const strand2 = Number(row.strand2_balance) || 0;
+  const strand3 = Number(row.strand3_balance) || 0;
+
+  return {
+    id: row.id,
+    contractAddress: row.contract_address || row.id,
+    name: row.name,
+    creator,
+    maxMembers: row.maximum_participants,
+    lockupPeriod: row.lockup_period,
+    rigorLevel: row.rigor_level,
+    riskLevel: row.risk_level,
+    isPrivate: row.is_private,
+    isChargedContract: row.is_charged_contract,
+    currentMembers: row.current_participants,
+    createdAt: row.start_date || row.created_at,
+    status: row.status,
+    totalDeposits: Number(row.current_amount) || 0,
+    members,
+    memberJoinedAt,
+    borderColor: row.border_color || 'border-gray-500',
+    ...mapDepositTerms(row),
+    phase2TriggerType: row.phase2_trigger_type as Phase2TriggerType,
+    phase2TimePercent: Number(row.phase2_time_percent),
+    phase2ValueThreshold: Number(row.phase2_value_threshold),
+    strand1Balance: strand1.toString(),
+    strand2Balance: strand2.toString(),
+    strand3Balance: strand3.toString(),
+    totalContractBalance: (Number(row.current_amount) || 0).toString()
+  };
+}
+
+/**
+ * The `contracts` columns holding the settings chosen in the contract modal.
+ * Shared by creation and the parameter edit RPC, whose keys are column names.
+ */
+function contractSettingsColumns(data: ClubCreationData) {
+  const isCustom = data.rigorLevel === 'custom';
+  return {
+    lockup_period: data.lockupPeriod,
+    is_charged_contract: data.isChargedContract,
+    rigor_level: data.rigorLevel,
+    risk_level: data.riskLevel,
+    maximum_participants: data.maxMembers,
+    is_private: data.isPrivate,
+    deposit_frequency: isCustom ? data.customDepositFrequency : null,
+    custom_amount: isCustom ? data.customWeeklyAmount : null,
+    custom_schedule: isCustom ? (data.customSchedule as unknown as Json) : null,
+    phase2_trigger_type: data.phase2TriggerType,
+    phase2_time_percent: data.phase2TimePercent,
+    phase2_value_threshold: data.phase2ValueThreshold
+  };
+}
+
+/**
+ * Identifies a participant in the `members` list: their wallet address when
+ * known, otherwise their user id.
+ */
+export function participantIdentity(participant: ContractParticipant): string {
+  return participant.wallet_address || participant.user_id;
+}
+
+/**
+ * Maps a contract row using its active participants for `members` and `creator`,
+ * its other participants for `removedMembers`, and its parameter edits for
+ * `previousTerms`.
+ */
+function mapContractWithParticipants(row: ContractRow, participants: ContractParticipant[], changes: ContractParameterChange[] = []): Subclub {
+  const active = participants.filter(p => p.contract_id === row.id && p.status === 'active');
+  const owner = participants.find(p => p.contract_id === row.id && p.user_id === row.user_id);
+  const removed = participants.filter(p => p.contract_id === row.id && p.status !== 'active');
+  return {
+    ...mapContractRow(
+      row,
+      owner ? participantIdentity(owner) : null,
+      active.map(participantIdentity),
+      // Removed members too, so their missed deposits in the ownership ledger start when they joined
+      Object.fromEntries(participants.filter(p => p.contract_id === row.id).map(p => [participantIdentity(p), p.joined_at]))
+    ),
+    removedMembers: removed.map(p => ({
+      member: participantIdentity(p),
+      status: p.status,
+      removedAt: p.removed_at,
+      principalLockedUntil: p.principal_locked_until
+    })),
+    previousTerms: getPreviousDepositParameters(row, changes.filter(change => change.contract_id === row.id))
+      .map(({ until, parameters }) => ({ until, ...mapDepositTerms(parameters) }))
+  };
+}
+
+/**
+ * Loads the participant records for a set of contracts in a single query.
+ */
+async function fetchParticipantsForContracts(
+  contractIds: string[]
+): Promise<{ participants: ContractParticipant[]; error?: string }> {
+  if (contractIds.length === 0) {
+    return { participants: [] };
+  }
+
+  const { data, error } = await supabase
+    .from('contract_participants')
+    .select('*')
+    .in('contract_id', contractIds)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    console.error('[ContractService] Error loading participants:', error);
+    return { participants: [], error: error.message };
+  }
+
+  return { participants: data || [] };
+}
+
+/**
+ * Loads the parameter edits of a set of contracts in a single query. Only
+ * participants can read them; other contracts come back without history.
+ */
+async function fetchParameterChangesForContracts(
+  contractIds: string[]
+): Promise<{ changes: ContractParameterChange[]; error?: string }> {
+  if (contractIds.length === 0) {
+    return { changes: [] };
+  }
+
+  const { data, error } = await supabase
+    .from('contract_parameter_changes')
+    .select('*')
+    .in('contract_id', contractIds);
+
+  if (error) {
+    console.error('[ContractService] Error loading parameter changes:', error);
+    return { changes: [], error: error.message };
+  }
+
+  return { changes: data || [] };
+}
+
+/**
+ * Creates a new Vault Club contract owned by the current user.
+ */
+export async function createContract(
+  data: ClubCreationData,
+  options: CreateContractOptions
+): Promise<ContractResult> {
+  console.log('[ContractService] Creating contract:', options.name);
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: 'You must be signed in to create a contract' };
+    }
+
+    const startDate = new Date();
+
+    const insert: TablesInsert<'contracts'> = {
+      user_id: user.id,
+      name: options.name,
+      contract_type: VAULT_CLUB_CONTRACT_TYPE,
+      contract_address: options.contractAddress,
+      status: 'active',
+      target_amount: 0,
+      current_amount: 0,
+      current_participants: 1,
+      start_date: startDate.toISOString(),
+      end_date: getContractEndDate(startDate, data.lockupPeriod, data.isChargedContract).toISOString(),
+      ...contractSettingsColumns(data),
+      border_color: options.borderColor
+    };
+
+    const { data: row, error } = await supabase
+      .from('contracts')
+      .insert(insert)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[ContractService] Error creating contract:', error);
+      return { success: false, error: error.message };
+    }
+
+    // The creator is enrolled as the first participant by a database trigger
+    console.log('[ContractService] Contract created:', row.id);
+    return {
+      success: true,
+      contract: mapContractRow(
+        row,
+        options.walletAddress,
+        options.walletAddress ? [options.walletAddress] : [],
+        options.walletAddress ? { [options.walletAddress]: row.created_at } : {}
+      )
+    };
+  } catch (error) {
+    console.error('[ContractService] Exception creating contract:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to create contract'
+    };
+  }
+}
+
+/**
+ * Loads every Vault Club contract the current user created or participates in.
+ * Uses the `get_user_contracts` RPC to resolve membership, then reads the full
+ * rows so all Vault Club settings are available.
+ */
+export async function fetchUserContracts(): Promise<ContractListResult> {
+  console.log('[ContractService] Fetching user contracts...');
+
+  try {
+    const { data: memberships, error: rpcError } = await supabase.rpc('get_user_contracts');
+
+    if (rpcError) {
+      console.error('[ContractService] Error fetching user contracts:', rpcError);
+      return { success: false, contracts: [], error: rpcError.message };
+    }
+
+    const vaultClubMemberships = (memberships || []).filter(m => m.contract_type === VAULT_CLUB_CONTRACT_TYPE);
+    if (vaultClubMemberships.length === 0) {
+      return { success: true, contracts: [] };
+    }
+
+    const { data: rows, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .in('id', vaultClubMemberships.map(m => m.contract_id))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[ContractService] Error loading contract rows:', error);
+      return { success: false, contracts: [], error: error.message };
+    }
+
+    const participantsResult = await fetchParticipantsForContracts((rows || []).map(row => row.id));
+    if (participantsResult.error) {
+      return { success: false, contracts: [], error: participantsResult.error };
+    }
+
+    const changesResult = await fetchParameterChangesForContracts((rows || []).map(row => row.id));
+    if (changesResult.error) {
+      return { success: false, contracts: [], error: changesResult.error };
+    }
+
+    const contracts = (rows || []).map(row => mapContractWithParticipants(row, participantsResult.participants, changesResult.changes));
+
+    console.log('[ContractService] Loaded contracts:', contracts.length);
+    return { success: true, contracts };
+  } catch (error) {
+    console.error('[ContractService] Exception fetching contracts:', error);
+    return {
+      success: false,
+      contracts: [],
+      error: (error as Error).message || 'Failed to fetch contracts'
+    };
+  }
+}
+
+/**
+ * Loads a single contract, with its current participants, by id.
+ */
+export async function fetchContract(contractId: string): Promise<ContractResult> {
+  try {
+    const { data: row, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('id', contractId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ContractService] Error loading contract:', error);
+      return { success: false, error: error.message };
+    }
+
+    if (!row) {
+      return { success: false, error: 'Contract not found' };
+    }
+
+    const participantsResult = await fetchParticipantsForContracts([row.id]);
+    if (participantsResult.error) {
+      return { success: false, error: participantsResult.error };
+    }
+
+    const changesResult = await fetchParameterChangesForContracts([row.id]);
+    if (changesResult.error) {
+      return { success: false, error: changesResult.error };
+    }
+
+    return { success: true, contract: mapContractWithParticipants(row, participantsResult.participants, changesResult.changes) };
+  } catch (error) {
+    console.error('[ContractService] Exception loading contract:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to load contract'
+    };
+  }
+}
+
+/**
+ * Resolves a contract from the address used in share links (`?join=`).
+ * Private contracts the user is not part of are not visible and resolve as not found.
+ */
+export async function fetchContractByAddress(contractAddress: string): Promise<ContractResult> {
+  try {
+    const { data: row, error } = await supabase
+      .from('contracts')
+      .select('id')
+      .eq('contract_type', VAULT_CLUB_CONTRACT_TYPE)
+      .eq('contract_address', contractAddress)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ContractService] Error resolving contract address:', error);
+      return { success: false, error: error.message };
+    }
+
+    if (!row) {
+      return { success: false, error: 'Contract not found. The link may be invalid, or the contract is private.' };
+    }
+
+    return fetchContract(row.id);
+  } catch (error) {
+    console.error('[ContractService] Exception resolving contract address:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to resolve contract'
+    };
+  }
+}
+
+/**
+ * Lists public Vault Club contracts that are still accepting members.
+ */
+export async function fetchPublicContracts(): Promise<ContractListResult> {
+  try {
+    const { data: rows, error } = await supabase
+      .from('contracts')
+      .select('*')
+      .eq('contract_type', VAULT_CLUB_CONTRACT_TYPE)
+      .eq('is_private', false)
+      .eq('status', 'active')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[ContractService] Error fetching public contracts:', error);
+      return { success: false, contracts: [], error: error.message };
+    }
+
+    // Participant rows of contracts the user has not joined are not readable,
+    // so public listings rely on the current_participants counter instead.
+    const participantsResult = await fetchParticipantsForContracts((rows || []).map(row => row.id));
+    const contracts = (rows || []).map(row => mapContractWithParticipants(row, participantsResult.participants));
+
+    return { success: true, contracts };
+  } catch (error) {
+    console.error('[ContractService] Exception fetching public contracts:', error);
+    return {
+      success: false,
+      contracts: [],
+      error: (error as Error).message || 'Failed to fetch public contracts'
+    };
+  }
+}
+
+/**
+ * Joins a contract via the `join_contract` RPC.
+ * Privacy and capacity are enforced server-side; their messages are surfaced as-is.
+ */
+export async function joinContract(
+  contractId: string,
+  contributionAmount: number,
+  walletAddress: string | null
+): Promise<JoinContractResult> {
+  console.log('[ContractService] Joining contract:', contractId);
+
+  try {
+    const { data, error } = await supabase.rpc('join_contract', {
+      p_contract_id: contractId,
+      p_contribution_amount: contributionAmount,
+      p_wallet_address: walletAddress || undefined
+    });
+
+    if (error) {
+      console.error('[ContractService] Join error:', error);
+      return { success: false, error: error.message };
+    }
+
+    if (!data) {
+      return { success: false, error: 'Unable to join contract' };
+    }
+
+    console.log('[ContractService] Joined contract:', contractId);
+    return { success: true };
+  } catch (error) {
+    console.error('[ContractService] Join exception:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to join contract'
+    };
+  }
+}
+
+/**
+ * Edits a live contract's parameters via the `update_contract_parameters` RPC.
+ * Only the owner may edit, and only once every 60 days; the server rejects
+ * edits inside the window with the date the next one is allowed.
+ */
+export async function updateContractParameters(
+  contractId: string,
+  data: ClubCreationData
+): Promise<UpdateContractResult> {
+  console.log('[ContractService] Updating contract parameters:', contractId);
+
+  try {
+    const { data: nextEditAllowedAt, error } = await supabase.rpc('update_contract_parameters', {
+      p_contract_id: contractId,
+      p_parameters: contractSettingsColumns(data) as unknown as Json
+    });
+
+    if (error) {
+      console.error('[ContractService] Update error:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log('[ContractService] Contract parameters updated:', contractId);
+    return { success: true, nextEditAllowedAt };
+  } catch (error) {
+    console.error('[ContractService] Update exception:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to update contract'
+    };
+  }
+}
+
+/**
+ * Loads a contract's parameter change history, newest first.
+ */
+export async function fetchContractParameterChanges(
+  contractId: string
+): Promise<{ success: boolean; changes: ContractParameterChange[]; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from('contract_parameter_changes')
+      .select('*')
+      .eq('contract_id', contractId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('[ContractService] Error fetching parameter changes:', error);
+      return { success: false, changes: [], error: error.message };
+    }
+
+    return { success: true, changes: data || [] };
+  } catch (error) {
+    console.error('[ContractService] Exception fetching parameter changes:', error);
+    return {
+      success: false,
+      changes: [],
+      error: (error as Error).message || 'Failed to fetch parameter changes'
+    };
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Deposit Service for The Vault Club
+ *
+ * Records deposits into the `contract_deposits` ledger and reads them back for
+ * the activity feeds. Each deposit stores its amount, contract, strand split,
+ * timestamp and status.
+ *
+ * Deposits are written through the `record_deposit` RPC, which also adds the
+ * amounts to the contract's strand balances in the same transaction.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ContractDeposit = Tables<'contract_deposits'>;
+export type DepositStatus = 'pending' | 'confirmed' | 'failed';
+
+export const DEFAULT_DEPOSIT_PAGE_SIZE = 10;
+
+export interface StrandSplit {
+  strand1: number;
+  strand2: number;
+  strand3: number;
+}
+
+export interface RecordDepositInput {
+  contractId: string;
+  amount: number;
+  split: StrandSplit;
+  walletAddress: string | null;
+  txHash?: string;
+}
+
+export interface RecordDepositResult {
+  success: boolean;
+  depositId?: string;
+  error?: string;
+}
+
+export interface DepositQuery {
+  /** Limit to a single contract; otherwise the current user's deposits across contracts */
+  contractId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface DepositPageResult {
+  success: boolean;
+  deposits: ContractDeposit[];
+  total: number;
+  error?: string;
+}
+
+/**
+ * Records a single deposit into a contract.
+ */
+export async function recordDeposit(input: RecordDepositInput): Promise<RecordDepositResult> {
+  console.log('[DepositService] Recording deposit:', input.contractId, input.amount);
+
+  try {
+    const { data, error } = await supabase.rpc('record_deposit', {
+      p_contract_id: input.contractId,
+      p_amount: input.amount,
+      p_strand1_amount: input.split.strand1,
+      p_strand2_amount: input.split.strand2,
+      p_strand3_amount: input.split.strand3,
+      p_wallet_address: input.walletAddress || undefined,
+      p_tx_hash: input.txHash
+    });
+
+    if (error) {
+      console.error('[DepositService] Error recording deposit:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, depositId: data };
+  } catch (error) {
+    console.error('[DepositService] Exception recording deposit:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to record deposit'
+    };
+  }
+}
+
+/**
+ * Loads one page of deposits, newest first.
+ * Without a contractId this returns the signed-in user's own deposits.
+ */
+export async function fetchDeposits(query: DepositQuery = {}): Promise<DepositPageResult> {
+  const page = Math.max(0, query.page || 0);
+  const pageSize = query.pageSize || DEFAULT_DEPOSIT_PAGE_SIZE;
+  const from = page * pageSize;
+
+  try {
+    let request = supabase
+      .from('contract_deposits')
+      .select('*', { count: 'exact' })
+      .order('deposited_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (query.contractId) {
+      request = request.eq('contract_id', query.contractId);
+    } else {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: true, deposits: [], total: 0 };
+      }
+      request = request.eq('user_id', user.id);
+    }
+
+    const { data, error, count } = await request;
+
+    if (error) {
+      console.error('[DepositService] Error fetching deposits:', error);
+      return { success: false, deposits: [], total: 0, error: error.message };
+    }
+
+    return { success: true, deposits: data || [], total: count || 0 };
+  } catch (error) {
+    console.error('[DepositService] Exception fetching deposits:', error);
+    return {
+      success: false,
+      deposits: [],
+      total: 0,
+      error: (error as Error).message || 'Failed to fetch deposits'
+    };
+  }
+}
+
+/**
+ * Loads all of the signed-in user's confirmed deposits, oldest first, for
+ * schedule tracking.
+ */
+export async function fetchDepositHistory(): Promise<{ success: boolean; deposits: ContractDeposit[]; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: true, deposits: [] };
+    }
+
+    const { data, error } = await supabase
+      .from('contract_deposits')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'confirmed')
+      .order('deposited_at', { ascending: true });
+
+    if (error) {
+      console.error('[DepositService] Error fetching deposit history:', error);
+      return { success: false, deposits: [], error: error.message };
+    }
+
+    return { success: true, deposits: data || [] };
+  } catch (error) {
+    console.error('[DepositService] Exception fetching deposit history:', error);
+    return {
+      success: false,
+      deposits: [],
+      error: (error as Error).message || 'Failed to fetch deposit history'
+    };
+  }
+}
+
+/**
+ * Loads every member's confirmed deposits into the given contracts, oldest
+ * first, for the ownership ledger.
+ */
+export async function fetchContractDepositLedger(
+  contractIds: string[]
+): Promise<{ success: boolean; deposits: ContractDeposit[]; error?: string }> {
+  if (contractIds.length === 0) {
+    return { success: true, deposits: [] };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('contract_deposits')
+      .select('*')
+      .in('contract_id', contractIds)
+      .eq('status', 'confirmed')
+      .order('deposited_at', { ascending: true });
+
+    if (error) {
+      console.error('[DepositService] Error fetching contract ledger:', error);
+      return { success: false, deposits: [], error: error.message };
+    }
+
+    return { success: true, deposits: data || [] };
+  } catch (error) {
+    console.error('[DepositService] Exception fetching contract ledger:', error);
+    return {
+      success: false,
+      deposits: [],
+      error: (error as Error).message || 'Failed to fetch contract ledger'
+    };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Gas Service for The Vault Club
+ *
+ * Estimates the vault's weekly network costs on Polygon from the current gas
+ * price (read over JSON-RPC) and the POL price, times the gas each keeper
+ * operation uses and how often it runs.
+ *
+ * Configured through env:
+ * - VITE_POLYGON_RPC_URL: JSON-RPC endpoint for `eth_gasPrice`
+ * - VITE_POL_PRICE_URL: price source returning `{ "<id>": { "usd": <price> } }` (CoinGecko's shape)
+ * - VITE_GAS_ESTIMATOR: `live` or `stub`. Defaults to `stub` in development,
+ *   which returns fixed prices without any network calls.
+ *
+ * Estimates are cached for a few minutes. If a source can't be reached the
+ * fixed weekly estimates in feeSchedule.ts are returned instead.
+ */
+
+import { WEEKLY_GAS_FEES } from '@/lib/feeSchedule';
+
+export type GasEstimateSource = 'live' | 'stub' | 'fallback';
+
+export interface GasOperation {
+  /** Gas used by one run */
+  gasUnits: number;
+  runsPerWeek: number;
+}
+
+export interface GasEstimate {
+  gasPriceGwei: number;
+  polPriceUsd: number;
+  /** Weekly USD cost per operation */
+  harvestYield: number;
+  strategyRebalance: number;
+  chainlinkUpkeep: number;
+  weeklyTotal: number;
+  source: GasEstimateSource;
+  fetchedAt: Date;
+}
+
+export interface GasEstimateResult {
+  success: boolean;
+  estimate: GasEstimate;
+  error?: string;
+}
+
+/** Keeper operations the vault pays gas for */
+export const GAS_OPERATIONS: Record<'harvestYield' | 'strategyRebalance' | 'chainlinkUpkeep', GasOperation> = {
+  harvestYield: { gasUnits: 250000, runsPerWeek: 28 },
+  strategyRebalance: { gasUnits: 450000, runsPerWeek: 28 },
+  chainlinkUpkeep: { gasUnits: 85000, runsPerWeek: 40 }
+};
+
+/** Prices the development stub reports; they reproduce the fixed weekly estimates */
+export const STUB_GAS_PRICE_GWEI = 50;
+export const STUB_POL_PRICE_USD = 0.5;
+
+const GAS_ESTIMATE_TTL_MS = 5 * 60 * 1000;
+
+const DEFAULT_POLYGON_RPC_URL = 'https://polygon-rpc.com';
+const DEFAULT_POL_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=polygon-ecosystem-token&vs_currencies=usd';
+
+const rpcUrl = import.meta.env.VITE_POLYGON_RPC_URL || DEFAULT_POLYGON_RPC_URL;
+const priceUrl = import.meta.env.VITE_POL_PRICE_URL || DEFAULT_POL_PRICE_URL;
+const useStub = (import.meta.env.VITE_GAS_ESTIMATOR || (import.meta.env.DEV ? 'stub' : 'live')) === 'stub';
+
+let cached: GasEstimate | null = null;
+let inFlight: Promise<GasEstimateResult> | null = null;
+
+/**
+ * Weekly costs at the given gas and POL prices.
+ */
+export function estimateWeeklyGas(gasPriceGwei: number, polPriceUsd: number, source: GasEstimateSource): GasEstimate {
+  const usdPerGas = gasPriceGwei * 1e-9 * polPriceUsd;
+  const weekly = (operation: GasOperation) => operation.gasUnits * operation.runsPerWeek * usdPerGas;
+  const harvestYield = weekly(GAS_OPERATIONS.harvestYield);
+  const strategyRebalance = weekly(GAS_OPERATIONS.strategyRebalance);
+  const chainlinkUpkeep = weekly(GAS_OPERATIONS.chainlinkUpkeep);
+  return {
+    gasPriceGwei,
+    polPriceUsd,
+    harvestYield,
+    strategyRebalance,
+    chainlinkUpkeep,
+    weeklyTotal: harvestYield + strategyRebalance + chainlinkUpkeep,
+    source,
+    fetchedAt: new Date()
+  };
+}
+
+function fallbackEstimate(): GasEstimate {
+  return {
+    ...estimateWeeklyGas(STUB_GAS_PRICE_GWEI, STUB_POL_PRICE_USD, 'fallback'),
+    ...WEEKLY_GAS_FEES
+  };
+}
+
+async function fetchGasPriceGwei(): Promise<number> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_gasPrice', params: [] })
+  });
+  if (!response.ok) {
+    throw new Error(`Gas price request failed (${response.status})`);
+  }
+  const data = await response.json();
+  if (data.error || typeof data.result !== 'string') {
+    throw new Error(data.error?.message || 'Invalid gas price response');
+  }
+  return parseInt(data.result, 16) / 1e9;
+}
+
+async function fetchPolPriceUsd(): Promise<number> {
+  const response = await fetch(priceUrl);
+  if (!response.ok) {
+    throw new Error(`POL price request failed (${response.status})`);
+  }
+  const data = await response.json();
+  const price = Object.values(data as Record<string, { usd?: number }>)[0]?.usd;
+  if (typeof price !== 'number' || !(price > 0)) {
+    throw new Error('Invalid POL price response');
+  }
+  return price;
+}
+
+/**
+ * Current weekly gas estimate, from the cache when it is fresh. Always
+ * returns an estimate; on failure it is the fixed fallback and `error` is set.
+ */
+export async function fetchGasEstimate(): Promise<GasEstimateResult> {
+  if (cached && Date.now() - cached.fetchedAt.getTime() < GAS_ESTIMATE_TTL_MS) {
+    return { success: true, estimate: cached };
+  }
+  if (useStub) {
+    cached = estimateWeeklyGas(STUB_GAS_PRICE_GWEI, STUB_POL_PRICE_USD, 'stub');
+    return { success: true, estimate: cached };
+  }
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    try {
+      const [gasPriceGwei, polPriceUsd] = await Promise.all([fetchGasPriceGwei(), fetchPolPriceUsd()]);
+      cached = estimateWeeklyGas(gasPriceGwei, polPriceUsd, 'live');
+      console.log('[GasService] Estimated weekly gas:', cached.weeklyTotal.toFixed(3), `at ${gasPriceGwei.toFixed(1)} gwei, POL $${polPriceUsd}`);
+      return { success: true, estimate: cached };
+    } catch (error) {
+      console.error('[GasService] Error estimating gas:', error);
+      return {
+        success: false,
+        estimate: fallbackEstimate(),
+        error: (error as Error).message || 'Failed to estimate gas'
+      };
+    } finally {
+      inFlight = null;
+    }
+  })();
+  return inFlight;
+}
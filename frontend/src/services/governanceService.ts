@@ -0,0 +1,156 @@
+/**
+ * Governance Service for The Vault Club
+ *
+ * Member proposals and votes on group contracts. Votes are unanimous: a
+ * proposal passes once every other active member approves and is rejected by
+ * a single "no". Tallying and applying a passed proposal happen server-side
+ * in the proposal RPCs, so the client only creates proposals and casts votes.
+ *
+ * - kick: removes a member; every member except the target must approve.
+ * - terminate: ends the contract early for everyone; every active member must
+ *   approve. Passing records a settlement (see settlementService).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ProposalType = 'kick' | 'terminate';
+export type ProposalStatus = 'open' | 'passed' | 'rejected' | 'cancelled';
+
+export type ProposalVote = Tables<'contract_proposal_votes'>;
+export type ContractProposal = Tables<'contract_proposals'> & {
+  votes: ProposalVote[];
+};
+
+export interface ProposalListResult {
+  success: boolean;
+  proposals: ContractProposal[];
+  /** The signed-in user's id, for matching their own votes */
+  userId: string | null;
+  error?: string;
+}
+
+export interface ProposalActionResult {
+  success: boolean;
+  /** Proposal status after the action, e.g. 'passed' once the vote is unanimous */
+  status?: ProposalStatus;
+  error?: string;
+}
+
+/**
+ * Loads a contract's proposals, newest first, with their votes.
+ */
+export async function fetchContractProposals(contractId: string): Promise<ProposalListResult> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: proposals, error } = await supabase
+      .from('contract_proposals')
+      .select('*')
+      .eq('contract_id', contractId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[GovernanceService] Error fetching proposals:', error);
+      return { success: false, proposals: [], userId: user?.id || null, error: error.message };
+    }
+
+    if (!proposals || proposals.length === 0) {
+      return { success: true, proposals: [], userId: user?.id || null };
+    }
+
+    const { data: votes, error: votesError } = await supabase
+      .from('contract_proposal_votes')
+      .select('*')
+      .in('proposal_id', proposals.map(p => p.id));
+
+    if (votesError) {
+      console.error('[GovernanceService] Error fetching votes:', votesError);
+      return { success: false, proposals: [], userId: user?.id || null, error: votesError.message };
+    }
+
+    return {
+      success: true,
+      proposals: proposals.map(p => ({ ...p, votes: (votes || []).filter(v => v.proposal_id === p.id) })),
+      userId: user?.id || null
+    };
+  } catch (error) {
+    console.error('[GovernanceService] Exception fetching proposals:', error);
+    return {
+      success: false,
+      proposals: [],
+      userId: null,
+      error: (error as Error).message || 'Failed to fetch proposals'
+    };
+  }
+}
+
+/**
+ * Opens a proposal. The proposer's own approval is recorded with it.
+ * `targetMember` is the member identity (wallet address or user id) a kick
+ * applies to; termination proposals have no target.
+ */
+export async function createProposal(
+  contractId: string,
+  type: ProposalType,
+  targetMember: string | null,
+  reason?: string
+): Promise<ProposalActionResult> {
+  console.log('[GovernanceService] Creating proposal:', type, contractId);
+
+  try {
+    const { data: proposalId, error } = await supabase.rpc('create_contract_proposal', {
+      p_contract_id: contractId,
+      p_proposal_type: type,
+      p_target_member: targetMember || undefined,
+      p_reason: reason || undefined
+    });
+
+    if (error) {
+      console.error('[GovernanceService] Error creating proposal:', error);
+      return { success: false, error: error.message };
+    }
+
+    // The proposer's vote alone can be unanimous in a two-member contract
+    const { data: proposal } = await supabase
+      .from('contract_proposals')
+      .select('status')
+      .eq('id', proposalId)
+      .maybeSingle();
+
+    return { success: true, status: (proposal?.status as ProposalStatus) || 'open' };
+  } catch (error) {
+    console.error('[GovernanceService] Exception creating proposal:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to create proposal'
+    };
+  }
+}
+
+/**
+ * Casts (or changes) the signed-in member's vote on an open proposal.
+ */
+export async function castVote(proposalId: string, approve: boolean): Promise<ProposalActionResult> {
+  console.log('[GovernanceService] Casting vote:', proposalId, approve);
+
+  try {
+    const { data: status, error } = await supabase.rpc('cast_proposal_vote', {
+      p_proposal_id: proposalId,
+      p_approve: approve
+    });
+
+    if (error) {
+      console.error('[GovernanceService] Error casting vote:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, status: status as ProposalStatus };
+  } catch (error) {
+    console.error('[GovernanceService] Exception casting vote:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to cast vote'
+    };
+  }
+}
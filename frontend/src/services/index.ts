@@ -5,3 +5,10 @@
  */
 
 export * from './authService';
+export * from './contractService';
+export * from './depositService';
+export * from './gasService';
+export * from './governanceService';
+export * from './marketDataService';
+export * from './settlementService';
+export * from './strandConfigService';
@@ -0,0 +1,389 @@
+/**
+ * Market Data Service for The Vault Club
+ *
+ * Live rates and prices behind the strands: the strand APYs from DeFi Llama
+ * pools, and the Bitcoin price from CoinGecko.
+ *
+ * Each value comes from a provider with its own TTL. Results are cached in
+ * memory and in IndexedDB, so a reload within the TTL doesn't refetch, and a
+ * failed refresh can fall back to the last good value. Every result says
+ * where it came from, along with the pools or feeds it was read from:
+ * - `live`: fetched from the source within the TTL
+ * - `cached`: a saved value, either from an earlier visit or the last good
+ *   value after a failed refresh; show its age
+ * - `fallback`: nothing has ever loaded; a built-in default
+ *
+ * The DeFi Llama pools list is large and feeds several providers, so it is
+ * downloaded once per TTL and shared. Use the hooks in use-market-data.ts from
+ * components; React Query de-duplicates concurrent requests for a provider.
+ * Which pools feed each strand is set by the strand rate config (see
+ * strandConfigService.ts); Strand 3's candidates are also scored for quality
+ * so contracts can use the pick for their risk level (see poolScreening.ts).
+ * Backtests read the recorded APY history of those same pools and the BTC
+ * price history (see marketHistory.ts).
+ */
+
+import { POOL_MIN_SCORES, screenPools, selectRiskAdjustedPool, type ScreenablePool, type ScreenedPool } from '@/lib/poolScreening';
+import {
+  buildMarketHistory,
+  combineRuleHistory,
+  monthlyAverages,
+  monthlyOpens,
+  type DatedValue,
+  type MarketHistoryPoint,
+  type MonthlySeries
+} from '@/lib/marketHistory';
+import { adjustRuleApy, deriveStrandRate, matchRulePools, STRAND_KEYS, type StrandKey } from '@/lib/strandRates';
+import { fetchStrandRateConfig } from './strandConfigService';
+
+export type MarketDataStatus = 'live' | 'cached' | 'fallback';
+
+/** A pool or feed a value was read from */
+export interface MarketDataSource {
+  name: string;
+  /** DeFi Llama pool ID */
+  poolId?: string;
+  tvlUsd?: number;
+  apy?: number;
+}
+
+export interface MarketDataResult<T> {
+  value: T;
+  status: MarketDataStatus;
+  /** When the value was fetched; null for fallbacks */
+  fetchedAt: Date | null;
+  provider: string;
+  sources: MarketDataSource[];
+  /** Why the latest refresh failed, for cached and fallback values */
+  error?: string;
+}
+
+export interface MarketDataFetch<T> {
+  value: T;
+  sources: MarketDataSource[];
+}
+
+export interface MarketDataProvider<T> {
+  id: string;
+  /** Source shown to users */
+  label: string;
+  ttlMs: number;
+  fallback: T;
+  /** `force` skips any shared cache the provider reads from */
+  fetch: (force: boolean) => Promise<MarketDataFetch<T>>;
+}
+
+export interface LendingRates {
+  /** Strand 1 lending APY (Spark USDC by default) */
+  liquidityRate: number;
+  /** Strand 2 supply APY (Aave Polygon USDC/DAI with the re-deposit boost by default) */
+  aavePolygonRate: number;
+}
+
+/** A risk level's Strand 3 pick */
+export interface RiskAdjustedPick {
+  poolId: string;
+  /** With the strand rule's multiplier and cap applied */
+  apy: number;
+  /** False when no candidate met the level's minimum score */
+  meetsMinimum: boolean;
+}
+
+export interface PoolScreeningResult {
+  /** Strand 3 candidate pools, best score first */
+  candidates: ScreenedPool[];
+  /** Whether contracts use their risk level's pick instead of the top APY */
+  riskScreened: boolean;
+  picks: Record<string, RiskAdjustedPick>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  sources: MarketDataSource[];
+  fetchedAt: number;
+}
+
+export const MARKET_DATA_TTL_MS = 5 * 60 * 1000;
+/** Monthly history only gains a row once a month */
+export const MARKET_HISTORY_TTL_MS = 12 * 60 * 60 * 1000;
+
+/** How many ranked candidates to keep */
+const MAX_SCREENED_POOLS = 25;
+
+const LLAMA_POOLS_URL = 'https://yields.llama.fi/pools';
+const COINGECKO_BTC_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd';
+const LLAMA_POOL_CHART_URL = 'https://yields.llama.fi/chart';
+/** DeFi Llama's copy of the CoinGecko BTC price history */
+const LLAMA_BTC_CHART_URL = 'https://coins.llama.fi/chart/coingecko:bitcoin';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'tvc-market-data';
+const STORE_NAME = 'entries';
+
+/** Values fetched from their sources this session */
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+
+let poolsCache: { pools: ScreenablePool[]; fetchedAt: number } | null = null;
+let poolsRequest: Promise<ScreenablePool[]> | null = null;
+
+const poolSource = (pool: ScreenablePool): MarketDataSource => ({
+  name: `${pool.project} ${pool.symbol} (${pool.chain})`,
+  poolId: pool.pool,
+  tvlUsd: pool.tvlUsd,
+  apy: pool.apy
+});
+
+/**
+ * The full DeFi Llama pools list, shared by every provider that reads it.
+ */
+async function fetchLlamaPools(force: boolean): Promise<ScreenablePool[]> {
+  if (!force && poolsCache && Date.now() - poolsCache.fetchedAt < MARKET_DATA_TTL_MS) {
+    return poolsCache.pools;
+  }
+  if (poolsRequest) return poolsRequest;
+
+  poolsRequest = (async () => {
+    try {
+      const response = await fetch(LLAMA_POOLS_URL);
+      if (!response.ok) {
+        throw new Error(`DeFi Llama request failed (${response.status})`);
+      }
+      const data = await response.json();
+      if (!Array.isArray(data?.data)) {
+        throw new Error('Invalid DeFi Llama response');
+      }
+      poolsCache = { pools: data.data, fetchedAt: Date.now() };
+      return poolsCache.pools;
+    } finally {
+      poolsRequest = null;
+    }
+  })();
+  return poolsRequest;
+}
+
+export const lendingRatesProvider: MarketDataProvider<LendingRates> = {
+  id: 'lending-rates',
+  label: 'DeFi Llama',
+  ttlMs: MARKET_DATA_TTL_MS,
+  fallback: { liquidityRate: 3.5, aavePolygonRate: 4.0 },
+  fetch: async force => {
+    const [pools, { config }] = await Promise.all([fetchLlamaPools(force), fetchStrandRateConfig(force)]);
+    const strand1 = deriveStrandRate(config.strands.strand1, pools);
+    const strand2 = deriveStrandRate(config.strands.strand2, pools);
+    return {
+      value: { liquidityRate: strand1.apy, aavePolygonRate: strand2.apy },
+      sources: [...strand1.pools, ...strand2.pools].map(poolSource)
+    };
+  }
+};
+
+export const quickSwapApyProvider: MarketDataProvider<number> = {
+  id: 'quickswap-apy',
+  label: 'DeFi Llama',
+  ttlMs: MARKET_DATA_TTL_MS,
+  fallback: 12.5,
+  fetch: async force => {
+    const [pools, { config }] = await Promise.all([fetchLlamaPools(force), fetchStrandRateConfig(force)]);
+    const strand3 = deriveStrandRate(config.strands.strand3, pools);
+    return { value: strand3.apy, sources: strand3.pools.map(poolSource) };
+  }
+};
+
+export const poolScreeningProvider: MarketDataProvider<PoolScreeningResult> = {
+  id: 'pool-screening',
+  label: 'DeFi Llama',
+  ttlMs: MARKET_DATA_TTL_MS,
+  fallback: { candidates: [], riskScreened: false, picks: {} },
+  fetch: async force => {
+    const [pools, { config }] = await Promise.all([fetchLlamaPools(force), fetchStrandRateConfig(force)]);
+    const rule = config.strands.strand3;
+    const candidates = screenPools(matchRulePools(rule, pools).filter(pool => pool.apy > 0));
+    if (candidates.length === 0) {
+      throw new Error(`${rule.label}: no pools to screen`);
+    }
+
+    const picks: Record<string, RiskAdjustedPick> = {};
+    Object.keys(POOL_MIN_SCORES).forEach(riskLevel => {
+      const choice = selectRiskAdjustedPool(candidates, riskLevel);
+      picks[riskLevel] = { poolId: choice.pick.pool.pool, apy: adjustRuleApy(rule, choice.pick.riskAdjustedApy), meetsMinimum: choice.meetsMinimum };
+    });
+    const picked = [...new Set(Object.values(picks).map(pick => pick.poolId))]
+      .map(poolId => candidates.find(candidate => candidate.pool.pool === poolId));
+    const ranked = candidates.slice(0, MAX_SCREENED_POOLS);
+    // Keep every pick in the list even when it ranks lower
+    const unranked = picked.filter(candidate => !ranked.includes(candidate));
+
+    return {
+      value: { candidates: [...ranked, ...unranked], riskScreened: rule.riskScreened, picks },
+      sources: picked.map(candidate => poolSource(candidate.pool))
+    };
+  }
+};
+
+/**
+ * A pool's daily APY history.
+ */
+async function fetchPoolHistory(poolId: string): Promise<DatedValue[]> {
+  const response = await fetch(`${LLAMA_POOL_CHART_URL}/${poolId}`);
+  if (!response.ok) {
+    throw new Error(`DeFi Llama chart request failed (${response.status})`);
+  }
+  const data = await response.json();
+  if (!Array.isArray(data?.data)) {
+    throw new Error('Invalid DeFi Llama chart response');
+  }
+  return data.data
+    .filter((row: { apy?: unknown }) => typeof row.apy === 'number')
+    .map((row: { timestamp: string; apy: number }) => ({ date: new Date(row.timestamp), value: row.apy }));
+}
+
+/**
+ * Daily BTC prices in USD from `since` to today.
+ */
+async function fetchBitcoinHistory(since: Date): Promise<DatedValue[]> {
+  const days = Math.ceil((Date.now() - since.getTime()) / DAY_MS);
+  const response = await fetch(`${LLAMA_BTC_CHART_URL}?start=${Math.floor(since.getTime() / 1000)}&span=${days}&period=1d`);
+  if (!response.ok) {
+    throw new Error(`BTC price history request failed (${response.status})`);
+  }
+  const data = await response.json();
+  const prices = data?.coins?.['coingecko:bitcoin']?.prices;
+  if (!Array.isArray(prices)) {
+    throw new Error('Invalid BTC price history response');
+  }
+  return prices
+    .filter((row: { price?: unknown }) => typeof row.price === 'number' && row.price > 0)
+    .map((row: { timestamp: number; price: number }) => ({ date: new Date(row.timestamp * 1000), value: row.price }));
+}
+
+export const marketHistoryProvider: MarketDataProvider<MarketHistoryPoint[]> = {
+  id: 'market-history',
+  label: 'DeFi Llama',
+  ttlMs: MARKET_HISTORY_TTL_MS,
+  fallback: [],
+  fetch: async force => {
+    const [pools, { config }] = await Promise.all([fetchLlamaPools(force), fetchStrandRateConfig(force)]);
+    // The pools each strand's rule picks today, replayed over their own history
+    const strands = STRAND_KEYS.map(key => {
+      const rule = config.strands[key];
+      const derived = deriveStrandRate(rule, pools);
+      return { key, rule: derived.fromFallback ? rule.fallback : rule, pools: derived.pools };
+    });
+    const charts = await Promise.all(strands.map(strand => Promise.all(strand.pools.map(pool => fetchPoolHistory(pool.pool)))));
+    const strandHistory = Object.fromEntries(strands.map((strand, i) => [
+      strand.key,
+      combineRuleHistory(strand.rule, charts[i].map(monthlyAverages))
+    ])) as Record<StrandKey, MonthlySeries>;
+
+    const months = Object.values(strandHistory).flatMap(series => Object.keys(series)).sort();
+    if (months.length === 0) {
+      throw new Error('No APY history for the strand pools');
+    }
+    const btc = monthlyOpens(await fetchBitcoinHistory(new Date(`${months[0]}-01T00:00:00Z`)));
+    const history = buildMarketHistory(strandHistory, btc);
+    if (history.length === 0) {
+      throw new Error('No months with history for every strand');
+    }
+
+    return {
+      value: history,
+      sources: [...strands.flatMap(strand => strand.pools.map(poolSource)), { name: 'CoinGecko BTC/USD' }]
+    };
+  }
+};
+
+export const bitcoinPriceProvider: MarketDataProvider<number> = {
+  id: 'bitcoin-price',
+  label: 'CoinGecko',
+  ttlMs: MARKET_DATA_TTL_MS,
+  fallback: 95000,
+  fetch: async () => {
+    const response = await fetch(COINGECKO_BTC_URL);
+    if (!response.ok) {
+      throw new Error(`CoinGecko request failed (${response.status})`);
+    }
+    const data = await response.json();
+    const price = data?.bitcoin?.usd;
+    if (typeof price !== 'number' || !(price > 0)) {
+      throw new Error('Invalid CoinGecko response');
+    }
+    return { value: price, sources: [{ name: 'CoinGecko BTC/USD' }] };
+  }
+};
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function readPersisted<T>(id: string): Promise<CacheEntry<T> | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  const entry = await new Promise<CacheEntry<T> | null>(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => resolve(null);
+  });
+  db.close();
+  return entry;
+}
+
+async function writePersisted<T>(id: string, entry: CacheEntry<T>): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry, id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => resolve();
+  });
+  db.close();
+}
+
+/**
+ * Loads a provider's value: from cache while it is within the TTL, otherwise
+ * fetched fresh. `force` always fetches, for manual refreshes. Never throws;
+ * a failure returns the last good value as `cached`, or the provider's fallback.
+ */
+export async function loadMarketData<T>(provider: MarketDataProvider<T>, force = false): Promise<MarketDataResult<T>> {
+  const result = (entry: CacheEntry<T>, status: MarketDataStatus, error?: string): MarketDataResult<T> => ({
+    value: entry.value,
+    status,
+    fetchedAt: new Date(entry.fetchedAt),
+    provider: provider.label,
+    sources: entry.sources || [],
+    error
+  });
+  const isFresh = (entry: CacheEntry<T> | null | undefined) => !!entry && Date.now() - entry.fetchedAt < provider.ttlMs;
+
+  const fetched = memoryCache.get(provider.id) as CacheEntry<T> | undefined;
+  if (!force && isFresh(fetched)) {
+    return result(fetched, 'live');
+  }
+  // Saved by an earlier visit
+  const persisted = fetched ? null : await readPersisted<T>(provider.id);
+  if (!force && isFresh(persisted)) {
+    return result(persisted, 'cached');
+  }
+
+  try {
+    const entry: CacheEntry<T> = { ...(await provider.fetch(force)), fetchedAt: Date.now() };
+    memoryCache.set(provider.id, entry);
+    await writePersisted(provider.id, entry);
+    return result(entry, 'live');
+  } catch (error) {
+    const message = (error as Error).message || 'Failed to load market data';
+    console.error(`[MarketDataService] Error loading ${provider.id}:`, error);
+    const lastGood = fetched || persisted;
+    if (lastGood) {
+      return result(lastGood, 'cached', message);
+    }
+    return { value: provider.fallback, status: 'fallback', fetchedAt: null, provider: provider.label, sources: [], error: message };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Market Snapshot Service for The Vault Club
+ *
+ * Reads the hourly strand APY and BTC price history that the
+ * record-market-snapshot edge function stores in `market_snapshots`. The
+ * `get_market_snapshots` RPC averages it into buckets sized for each range.
+ *
+ * Set VITE_MARKET_SNAPSHOTS=local (the default in development) to read the
+ * bundled stand-in in /src/data/devMarketSnapshots.ts instead of Supabase.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type MarketHistoryRange = '7D' | '30D' | '1Y';
+
+export interface MarketSnapshot {
+  capturedAt: Date;
+  strand1Apy: number;
+  strand2Apy: number;
+  strand3Apy: number;
+  btcPrice: number;
+}
+
+export interface MarketSnapshotResult {
+  success: boolean;
+  snapshots: MarketSnapshot[];
+  source: 'supabase' | 'local';
+  error?: string;
+}
+
+/** How far back each range goes and how many hours each averaged point covers */
+export const MARKET_HISTORY_RANGES: Record<MarketHistoryRange, { days: number; bucketHours: number }> = {
+  '7D': { days: 7, bucketHours: 1 },
+  '30D': { days: 30, bucketHours: 6 },
+  '1Y': { days: 365, bucketHours: 24 }
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const useLocalStandIn = (import.meta.env.VITE_MARKET_SNAPSHOTS || (import.meta.env.DEV ? 'local' : 'supabase')) === 'local';
+
+/**
+ * Averages snapshots into buckets of `bucketHours`, starting at `since`.
+ */
+function bucketSnapshots(snapshots: MarketSnapshot[], since: Date, bucketHours: number): MarketSnapshot[] {
+  const bucketMs = bucketHours * HOUR_MS;
+  const buckets = new Map<number, MarketSnapshot[]>();
+  snapshots.forEach(snapshot => {
+    const start = since.getTime() + Math.floor((snapshot.capturedAt.getTime() - since.getTime()) / bucketMs) * bucketMs;
+    buckets.set(start, [...(buckets.get(start) || []), snapshot]);
+  });
+  const average = (rows: MarketSnapshot[], key: Exclude<keyof MarketSnapshot, 'capturedAt'>) => rows.reduce((sum, row) => sum + row[key], 0) / rows.length;
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([start, rows]) => ({
+      capturedAt: new Date(start),
+      strand1Apy: average(rows, 'strand1Apy'),
+      strand2Apy: average(rows, 'strand2Apy'),
+      strand3Apy: average(rows, 'strand3Apy'),
+      btcPrice: average(rows, 'btcPrice')
+    }));
+}
+
+async function fetchLocalSnapshots(since: Date, bucketHours: number): Promise<MarketSnapshot[]> {
+  const { DEV_MARKET_SNAPSHOTS } = await import('@/data/devMarketSnapshots');
+  // Replay the stand-in as if its last row were taken now
+  const lastAt = new Date(`${DEV_MARKET_SNAPSHOTS[DEV_MARKET_SNAPSHOTS.length - 1][0]}:00:00Z`).getTime();
+  const shift = Date.now() - lastAt;
+  const snapshots = DEV_MARKET_SNAPSHOTS
+    .map(([hour, strand1Apy, strand2Apy, strand3Apy, btcPrice]) => ({
+      capturedAt: new Date(new Date(`${hour}:00:00Z`).getTime() + shift),
+      strand1Apy,
+      strand2Apy,
+      strand3Apy,
+      btcPrice
+    }))
+    .filter(snapshot => snapshot.capturedAt >= since);
+  return bucketSnapshots(snapshots, since, bucketHours);
+}
+
+/**
+ * Loads the snapshot history for a range, oldest first.
+ */
+export async function fetchMarketSnapshots(range: MarketHistoryRange): Promise<MarketSnapshotResult> {
+  const { days, bucketHours } = MARKET_HISTORY_RANGES[range];
+  const since = new Date(Date.now() - days * 24 * HOUR_MS);
+  const source = useLocalStandIn ? 'local' : 'supabase';
+
+  try {
+    if (useLocalStandIn) {
+      return { success: true, snapshots: await fetchLocalSnapshots(since, bucketHours), source };
+    }
+
+    const { data, error } = await supabase.rpc('get_market_snapshots', {
+      p_since: since.toISOString(),
+      p_bucket: `${bucketHours} hours`
+    });
+
+    if (error) {
+      console.error('[MarketSnapshotService] Error fetching snapshots:', error);
+      return { success: false, snapshots: [], source, error: error.message };
+    }
+
+    return {
+      success: true,
+      snapshots: (data || []).map(row => ({
+        capturedAt: new Date(row.captured_at),
+        strand1Apy: Number(row.strand1_apy),
+        strand2Apy: Number(row.strand2_apy),
+        strand3Apy: Number(row.strand3_apy),
+        btcPrice: Number(row.btc_price)
+      })),
+      source
+    };
+  } catch (error) {
+    console.error('[MarketSnapshotService] Exception fetching snapshots:', error);
+    return {
+      success: false,
+      snapshots: [],
+      source,
+      error: (error as Error).message || 'Failed to fetch market history'
+    };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Settlement Service for The Vault Club
+ *
+ * Records members leaving a contract before maturity. An emergency individual
+ * exit pays out principal only; value above the principal is forfeited to the
+ * remaining members as a disruption fee. The `exit_contract` RPC values the
+ * member's share from the deposit ledger and the contract balance on the
+ * server, caps the payout at their principal and takes it out of the
+ * contract's balances.
+ *
+ * A unanimous termination vote (see governanceService) closes the whole
+ * contract. The proposal RPC records a settlement with the balance, principal
+ * and the 35% of yield retained for the protocol reserve; per-member amounts
+ * are derived from the ownership ledger with `computeGroupTermination`.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ContractExit = Tables<'contract_exits'>;
+export type ContractSettlement = Tables<'contract_settlements'>;
+
+export interface ExitContractResult {
+  success: boolean;
+  exitId?: string;
+  /** The amount actually paid out, as recorded */
+  payout?: number;
+  forfeitedYield?: number;
+  error?: string;
+}
+
+/**
+ * Exits the signed-in member from a contract and returns the recorded payout.
+ */
+export async function exitContract(contractId: string): Promise<ExitContractResult> {
+  console.log('[SettlementService] Exiting contract:', contractId);
+
+  try {
+    const { data, error } = await supabase.rpc('exit_contract', {
+      p_contract_id: contractId
+    });
+
+    if (error) {
+      console.error('[SettlementService] Exit error:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log('[SettlementService] Exit recorded:', data);
+    const { data: exit, error: exitError } = await supabase
+      .from('contract_exits')
+      .select('payout, forfeited_yield')
+      .eq('id', data)
+      .single();
+    if (exitError) {
+      // The exit went through; only the amounts couldn't be read back
+      console.error('[SettlementService] Error reading exit:', exitError);
+      return { success: true, exitId: data };
+    }
+    return { success: true, exitId: data, payout: Number(exit.payout), forfeitedYield: Number(exit.forfeited_yield) };
+  } catch (error) {
+    console.error('[SettlementService] Exit exception:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to exit contract'
+    };
+  }
+}
+
+/**
+ * Loads the exits recorded for the given contracts, oldest first.
+ */
+export async function fetchContractExits(
+  contractIds: string[]
+): Promise<{ success: boolean; exits: ContractExit[]; error?: string }> {
+  if (contractIds.length === 0) {
+    return { success: true, exits: [] };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('contract_exits')
+      .select('*')
+      .in('contract_id', contractIds)
+      .order('exited_at', { ascending: true });
+
+    if (error) {
+      console.error('[SettlementService] Error fetching exits:', error);
+      return { success: false, exits: [], error: error.message };
+    }
+
+    return { success: true, exits: data || [] };
+  } catch (error) {
+    console.error('[SettlementService] Exception fetching exits:', error);
+    return {
+      success: false,
+      exits: [],
+      error: (error as Error).message || 'Failed to fetch exits'
+    };
+  }
+}
+
+/**
+ * Loads the termination settlements recorded for the given contracts.
+ */
+export async function fetchContractSettlements(
+  contractIds: string[]
+): Promise<{ success: boolean; settlements: ContractSettlement[]; error?: string }> {
+  if (contractIds.length === 0) {
+    return { success: true, settlements: [] };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('contract_settlements')
+      .select('*')
+      .in('contract_id', contractIds);
+
+    if (error) {
+      console.error('[SettlementService] Error fetching settlements:', error);
+      return { success: false, settlements: [], error: error.message };
+    }
+
+    return { success: true, settlements: data || [] };
+  } catch (error) {
+    console.error('[SettlementService] Exception fetching settlements:', error);
+    return {
+      success: false,
+      settlements: [],
+      error: (error as Error).message || 'Failed to fetch settlements'
+    };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Strand Config Service for The Vault Club
+ *
+ * Loads the rules that map each strand to DeFi Llama pools. An admin-saved
+ * override in the `strand_rate_config` table wins when it validates;
+ * otherwise the bundled rules in /src/data/strandRateConfig.ts are used, and
+ * the validation errors are returned so admins can see why.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_STRAND_RATE_CONFIG } from '@/data/strandRateConfig';
+import { parseStrandRateConfig, type StrandRateConfig } from '@/lib/strandRates';
+
+export interface StrandConfigResult {
+  success: boolean;
+  config: StrandRateConfig;
+  source: 'supabase' | 'bundled';
+  /** When the Supabase override was last saved */
+  updatedAt?: Date;
+  /** Why the Supabase override was rejected or couldn't be read */
+  errors: string[];
+}
+
+/** Rules change rarely; re-read them at most this often */
+const CONFIG_TTL_MS = 10 * 60 * 1000;
+
+let configCache: { result: StrandConfigResult; loadedAt: number } | null = null;
+let configRequest: Promise<StrandConfigResult> | null = null;
+
+function bundledConfig(errors: string[]): StrandConfigResult {
+  const parsed = parseStrandRateConfig(DEFAULT_STRAND_RATE_CONFIG);
+  if (!parsed.success) {
+    // A broken bundled config is a build mistake, not something to recover from
+    throw new Error(`Invalid bundled strand rate config: ${parsed.errors.join('; ')}`);
+  }
+  return { success: errors.length === 0, config: parsed.config, source: 'bundled', errors };
+}
+
+async function loadConfig(): Promise<StrandConfigResult> {
+  try {
+    const { data, error } = await supabase
+      .from('strand_rate_config')
+      .select('config, updated_at')
+      .eq('id', 'default')
+      .maybeSingle();
+
+    if (error) {
+      console.error('[StrandConfigService] Error fetching config:', error);
+      return bundledConfig([`Couldn't read the saved config: ${error.message}`]);
+    }
+    if (!data) {
+      return bundledConfig([]);
+    }
+
+    const parsed = parseStrandRateConfig(data.config);
+    if (!parsed.success) {
+      console.error('[StrandConfigService] Saved config is invalid:', parsed.errors);
+      return bundledConfig(parsed.errors);
+    }
+    return { success: true, config: parsed.config, source: 'supabase', updatedAt: new Date(data.updated_at), errors: [] };
+  } catch (error) {
+    console.error('[StrandConfigService] Exception fetching config:', error);
+    return bundledConfig([(error as Error).message || 'Failed to load the saved config']);
+  }
+}
+
+/**
+ * The strand rate rules in effect. `force` re-reads the saved override.
+ * Never rejects; falls back to the bundled rules.
+ */
+export async function fetchStrandRateConfig(force = false): Promise<StrandConfigResult> {
+  if (!force && configCache && Date.now() - configCache.loadedAt < CONFIG_TTL_MS) {
+    return configCache.result;
+  }
+  if (configRequest) return configRequest;
+
+  configRequest = loadConfig()
+    .then(result => {
+      configCache = { result, loadedAt: Date.now() };
+      return result;
+    })
+    .finally(() => {
+      configRequest = null;
+    });
+  return configRequest;
+}
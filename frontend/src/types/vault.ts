@@ -0,0 +1,80 @@
+// Shared Vault Club contract types used by the UI and the services layer
+
+export type DepositFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Phase2TriggerType = 'time' | 'value' | 'both';
+
+export interface SchedulePeriod {
+  yearStart: number;
+  yearEnd: number;
+  amount: number;
+}
+
+export interface ClubCreationData {
+  lockupPeriod: number;
+  rigorLevel: string;
+  riskLevel: string;
+  maxMembers: number;
+  isPrivate: boolean;
+  isChargedContract: boolean;
+  customDepositFrequency: DepositFrequency;
+  customWeeklyAmount: number;
+  customSchedule: SchedulePeriod[];
+  // Phase 2 trigger settings
+  phase2TriggerType: Phase2TriggerType;
+  phase2TimePercent: number; // 0-100
+  phase2ValueThreshold: number; // Dollar amount
+}
+
+/** Settings a contract template fixes; the rest fall back to defaults */
+export type TemplateSettings = Pick<ClubCreationData, 'lockupPeriod' | 'rigorLevel' | 'riskLevel' | 'isChargedContract'> &
+  Partial<Pick<ClubCreationData, 'customDepositFrequency' | 'customWeeklyAmount' | 'customSchedule' | 'phase2TriggerType' | 'phase2TimePercent' | 'phase2ValueThreshold'>>;
+
+/** The settings that decide what a contract's members owe and how often */
+export interface DepositTerms {
+  rigorLevel: string;
+  customDepositFrequency?: DepositFrequency;
+  customWeeklyAmount?: number;
+  customSchedule?: SchedulePeriod[];
+}
+
+export interface RemovedMember {
+  member: string;
+  status: string;
+  removedAt: string | null;
+  principalLockedUntil: string | null;
+}
+
+export interface Subclub {
+  id: string;
+  contractAddress: string;
+  name: string;
+  creator: string | null;
+  maxMembers: number;
+  lockupPeriod: number;
+  rigorLevel: string;
+  riskLevel: string;
+  isPrivate: boolean;
+  isChargedContract: boolean;
+  currentMembers: number;
+  createdAt: string;
+  status: string;
+  totalDeposits: number;
+  members: string[];
+  /** When each member joined, keyed by member identity */
+  memberJoinedAt?: Record<string, string>;
+  /** Former members (e.g. kicked by vote) and when their principal unlocks */
+  removedMembers?: RemovedMember[];
+  borderColor: string;
+  customDepositFrequency?: DepositFrequency;
+  customWeeklyAmount?: number;
+  customSchedule?: SchedulePeriod[];
+  /** Deposit terms replaced by parameter edits, oldest first; each was in force until `until` */
+  previousTerms?: (DepositTerms & { until: string })[];
+  phase2TriggerType: Phase2TriggerType;
+  phase2TimePercent: number;
+  phase2ValueThreshold: number;
+  strand1Balance: string;
+  strand2Balance: string;
+  strand3Balance: string;
+  totalContractBalance: string;
+}
@@ -0,0 +1,32 @@
+/**
+ * Monte Carlo worker
+ *
+ * Runs projections off the main thread so the Future page stays responsive.
+ * Each request carries an id that is echoed back with its result.
+ */
+
+import { runMonteCarlo, type MonteCarloConfig, type MonteCarloResult } from '@/lib/monteCarlo';
+import type { SimulationInputs } from '@/lib/simulationEngine';
+
+export interface MonteCarloRequest {
+  id: number;
+  inputs: SimulationInputs;
+  config: MonteCarloConfig;
+}
+
+export interface MonteCarloResponse {
+  id: number;
+  result?: MonteCarloResult;
+  error?: string;
+}
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { id, inputs, config } = event.data;
+  let response: MonteCarloResponse;
+  try {
+    response = { id, result: runMonteCarlo(inputs, config) };
+  } catch (error) {
+    response = { id, error: (error as Error).message || 'Failed to run projection' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,48 @@
+import type { StrandRateConfigInput } from "./strandRates.ts";
+
+/**
+ * Bundled strand rate configuration
+ *
+ * How each strand's live APY is picked from DeFi Llama pools (see
+ * strandRates.ts for the format), for the app and the edge functions alike.
+ * Used as-is unless an admin has saved a valid override in the
+ * `strand_rate_config` table.
+ */
+export const DEFAULT_STRAND_RATE_CONFIG: StrandRateConfigInput = {
+  version: 1,
+  strands: {
+    strand1: {
+      label: "Capital Strand",
+      method: "weighted",
+      selectors: [
+        { project: "sparklend", chain: "Ethereum", symbolIncludes: "USDC" }
+      ]
+    },
+    strand2: {
+      label: "Yield Strand",
+      method: "weighted",
+      selectors: [
+        { project: "aave-v3", chain: "Polygon", symbol: "USDC", weight: 1 },
+        { project: "aave-v3", chain: "Polygon", symbol: "DAI", weight: 1 }
+      ],
+      multiplier: 1.2,
+      multiplierReason: "supplied USDC is borrowed against and re-deposited as DAI, compounding the supply rate"
+    },
+    strand3: {
+      label: "Momentum Strand",
+      method: "max",
+      selectors: [
+        { project: ["quickswap-v3", "quickswap-dex", "quickswap"], chain: "Polygon" }
+      ],
+      minTvlUsd: 100000,
+      riskScreened: true,
+      fallback: {
+        label: "Any Polygon pool",
+        method: "max",
+        selectors: [{ chain: "Polygon" }],
+        minTvlUsd: 500000,
+        maxApy: 25
+      }
+    }
+  }
+};
@@ -0,0 +1,239 @@
+import { z } from "zod";
+
+/**
+ * Strand rate configuration
+ *
+ * Declares how each strand's live APY is derived from DeFi Llama pools
+ * instead of hard-coding protocol filters. A strand rule lists pool
+ * selectors (a pool ID, or project/chain/symbol matches), a minimum TVL, and
+ * how to combine the matches:
+ * - `weighted`: each selector's best match, averaged by the selector weights.
+ *   Every selector must match.
+ * - `max`: the highest positive APY among all matches.
+ * The result is multiplied by `multiplier` (with a stated reason) and capped
+ * at `maxApy`. When nothing matches, an optional `fallback` rule is tried
+ * instead. A `max` rule can set `riskScreened` to have each contract pick
+ * among the matches by pool quality and its risk level instead (see
+ * src/lib/poolScreening.ts); the plain top APY is still the strand's headline rate.
+ *
+ * Configs are validated before use; describeStrandRule turns a rule into the
+ * plain-language steps shown to admins.
+ *
+ * This one module serves both the app (re-exported from src/lib/strandRates.ts)
+ * and the edge functions, so recorded snapshots use exactly the live rules.
+ * Deno maps the bare `zod` import in each function's deno.json.
+ */
+
+export type StrandKey = "strand1" | "strand2" | "strand3";
+
+export const STRAND_KEYS: StrandKey[] = ["strand1", "strand2", "strand3"];
+
+/** The fields of a DeFi Llama pool the rules read */
+export interface RatePool {
+  pool: string;
+  project: string;
+  chain: string;
+  symbol: string;
+  apy: number;
+  tvlUsd: number;
+}
+
+const PoolSelectorSchema = z.object({
+  /** Exact DeFi Llama pool ID; other fields are ignored when set */
+  poolId: z.string().min(1).optional(),
+  /** One project slug, or any of several */
+  project: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+  chain: z.string().min(1).optional(),
+  symbol: z.string().min(1).optional(),
+  symbolIncludes: z.string().min(1).optional(),
+  /** Share of a weighted rate; selectors without one share equally */
+  weight: z.number().positive().optional()
+}).refine(selector => selector.poolId || selector.project || selector.chain, {
+  message: "A selector needs a poolId, a project or a chain"
+});
+
+const ruleFields = {
+  label: z.string().min(1),
+  method: z.enum(["weighted", "max"]),
+  selectors: z.array(PoolSelectorSchema).min(1),
+  minTvlUsd: z.number().nonnegative().default(0),
+  multiplier: z.number().positive().default(1),
+  /** Why the multiplier is applied; required when it isn't 1 */
+  multiplierReason: z.string().min(1).optional(),
+  maxApy: z.number().positive().optional()
+};
+
+const explainsMultiplier = (rule: { multiplier: number; multiplierReason?: string }) => rule.multiplier === 1 || !!rule.multiplierReason;
+const multiplierMessage = { message: "Explain the multiplier in multiplierReason", path: ["multiplierReason"] };
+
+/** A rule tried when the strand's own rule matches no pools */
+const FallbackRuleSchema = z.object(ruleFields).refine(explainsMultiplier, multiplierMessage);
+
+const StrandRateRuleSchema = z.object({
+  ...ruleFields,
+  /** Pick by pool screening and the contract's risk level; `max` rules only */
+  riskScreened: z.boolean().default(false),
+  fallback: FallbackRuleSchema.optional()
+}).refine(explainsMultiplier, multiplierMessage).refine(rule => !rule.riskScreened || rule.method === "max", {
+  message: "Only max rules can be risk screened",
+  path: ["riskScreened"]
+});
+
+export const StrandRateConfigSchema = z.object({
+  version: z.literal(1),
+  strands: z.object({
+    strand1: StrandRateRuleSchema,
+    strand2: StrandRateRuleSchema,
+    strand3: StrandRateRuleSchema
+  })
+});
+
+export type PoolSelector = z.infer<typeof PoolSelectorSchema>;
+/** The matching and adjustment part of a rule, shared by strand rules and their fallbacks */
+export type RateRule = z.infer<typeof FallbackRuleSchema>;
+export type StrandRateRule = z.infer<typeof StrandRateRuleSchema>;
+export type StrandRateConfig = z.infer<typeof StrandRateConfigSchema>;
+/** A config as written, before defaults are filled in */
+export type StrandRateConfigInput = z.input<typeof StrandRateConfigSchema>;
+
+export interface StrandRateConfigParseResult {
+  success: boolean;
+  config?: StrandRateConfig;
+  /** One line per problem, with the path to the offending field */
+  errors: string[];
+}
+
+export interface DerivedStrandRate {
+  apy: number;
+  /** The pools the rate was computed from */
+  pools: RatePool[];
+  /** Whether the rule's fallback produced the rate */
+  fromFallback: boolean;
+}
+
+/**
+ * Validates a raw config and fills in defaults.
+ */
+export function parseStrandRateConfig(raw: unknown): StrandRateConfigParseResult {
+  const result = StrandRateConfigSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, config: result.data, errors: [] };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => `${issue.path.join(".") || "config"}: ${issue.message}`)
+  };
+}
+
+function matchesSelector(pool: RatePool, selector: PoolSelector): boolean {
+  if (selector.poolId) return pool.pool === selector.poolId;
+  const projects = Array.isArray(selector.project) ? selector.project : [selector.project];
+  return (!selector.project || projects.includes(pool.project))
+    && (!selector.chain || pool.chain === selector.chain)
+    && (!selector.symbol || pool.symbol === selector.symbol)
+    && (!selector.symbolIncludes || pool.symbol.includes(selector.symbolIncludes));
+}
+
+const describeSelector = (selector: PoolSelector) => selector.poolId
+  ? `pool ${selector.poolId}`
+  : [
+      selector.project ? (Array.isArray(selector.project) ? selector.project.join(" / ") : selector.project) : "any pool",
+      selector.symbol || (selector.symbolIncludes ? `*${selector.symbolIncludes}*` : null),
+      selector.chain ? `on ${selector.chain}` : null
+    ].filter(Boolean).join(" ");
+
+/**
+ * Every pool a rule could use: above its minimum TVL and matching any
+ * selector.
+ */
+export function matchRulePools<P extends RatePool>(rule: RateRule, pools: P[]): P[] {
+  return pools.filter(pool => pool.tvlUsd >= rule.minTvlUsd
+    && Number.isFinite(pool.apy)
+    && rule.selectors.some(selector => matchesSelector(pool, selector)));
+}
+
+/**
+ * A rule's multiplier and cap applied to a raw pool APY.
+ */
+export function adjustRuleApy(rule: RateRule, apy: number): number {
+  const adjusted = apy * rule.multiplier;
+  return rule.maxApy !== undefined ? Math.min(adjusted, rule.maxApy) : adjusted;
+}
+
+function applyRule(rule: RateRule, pools: RatePool[]): { apy: number; pools: RatePool[] } {
+  const eligible = matchRulePools(rule, pools);
+  const bestMatch = (selector: PoolSelector) => eligible
+    .filter(pool => matchesSelector(pool, selector))
+    .reduce<RatePool | null>((best, pool) => !best || pool.apy > best.apy ? pool : best, null);
+
+  if (rule.method === "weighted") {
+    const used = rule.selectors.map(selector => {
+      const pool = bestMatch(selector);
+      if (!pool) throw new Error(`${rule.label}: no pool matches ${describeSelector(selector)}`);
+      return pool;
+    });
+    const weights = rule.selectors.map(selector => selector.weight ?? 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const apy = used.reduce((sum, pool, i) => sum + pool.apy * weights[i], 0) / totalWeight;
+    return { apy: adjustRuleApy(rule, apy), pools: used };
+  }
+
+  const best = rule.selectors.map(bestMatch).filter((pool): pool is RatePool => pool !== null && pool.apy > 0)
+    .reduce<RatePool | null>((top, pool) => !top || pool.apy > top.apy ? pool : top, null);
+  if (!best) throw new Error(`${rule.label}: no pools match`);
+  return { apy: adjustRuleApy(rule, best.apy), pools: [best] };
+}
+
+/**
+ * Applies a strand rule to the DeFi Llama pools, or its fallback when the
+ * rule matches nothing. Throws when neither finds the pools it needs, so
+ * callers can fall back to a cached value.
+ */
+export function deriveStrandRate(rule: StrandRateRule, pools: RatePool[]): DerivedStrandRate {
+  try {
+    return { ...applyRule(rule, pools), fromFallback: false };
+  } catch (error) {
+    if (!rule.fallback) throw error;
+    try {
+      return { ...applyRule(rule.fallback, pools), fromFallback: true };
+    } catch (fallbackError) {
+      throw new Error(`${(error as Error).message}; fallback ${(fallbackError as Error).message}`);
+    }
+  }
+}
+
+function describeRuleSteps(rule: RateRule): string[] {
+  const steps: string[] = [];
+  const tvl = rule.minTvlUsd > 0 ? ` with at least $${rule.minTvlUsd.toLocaleString()} TVL` : "";
+  if (rule.method === "weighted") {
+    const weights = rule.selectors.map(selector => selector.weight ?? 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    rule.selectors.forEach((selector, i) => {
+      const share = rule.selectors.length > 1 ? `${Math.round(weights[i] / totalWeight * 100)}% × ` : "";
+      steps.push(`${share}APY of ${describeSelector(selector)}${tvl}`);
+    });
+  } else {
+    steps.push(`Highest APY among ${rule.selectors.map(describeSelector).join(", ")}${tvl}`);
+  }
+  if (rule.multiplier !== 1) {
+    steps.push(`× ${rule.multiplier}: ${rule.multiplierReason}`);
+  }
+  if (rule.maxApy !== undefined) {
+    steps.push(`Capped at ${rule.maxApy}%`);
+  }
+  return steps;
+}
+
+/**
+ * The steps a rule takes, in plain language.
+ */
+export function describeStrandRule(rule: StrandRateRule): string[] {
+  const steps = describeRuleSteps(rule);
+  if (rule.riskScreened) {
+    steps.push("Contracts use the screened pool for their risk level instead of the top APY");
+  }
+  if (rule.fallback) {
+    steps.push(`If nothing matches: ${describeRuleSteps(rule.fallback).map(step => step.charAt(0).toLowerCase() + step.slice(1)).join(", ")}`);
+  }
+  return steps;
+}
@@ -0,0 +1,108 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { DEFAULT_STRAND_RATE_CONFIG } from "../_shared/strandRateConfig.ts";
+import { STRAND_KEYS, deriveStrandRate, parseStrandRateConfig, type RatePool, type StrandRateConfig } from "../_shared/strandRates.ts";
+
+/**
+ * Market Snapshot Edge Function
+ *
+ * Records the current strand APYs and BTC price into `market_snapshots` for
+ * the Dataset page's history charts. Runs hourly from pg_cron (see the
+ * market_snapshots migration) and only accepts the service role key.
+ *
+ * Rates are derived with the same rules as the frontend (see
+ * ../_shared/strandRates.ts): the admin override saved in
+ * `strand_rate_config` when it validates, otherwise the bundled rules. Strand 3
+ * records the top APY, as the headline rate does, even when it is risk screened.
+ */
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+/**
+ * The strand rate rules in effect. An override that fails validation is
+ * logged and skipped, as in the app.
+ */
+async function loadStrandRateConfig(supabaseAdmin: SupabaseClient): Promise<{ config: StrandRateConfig; source: "supabase" | "bundled" }> {
+  const { data, error } = await supabaseAdmin
+    .from("strand_rate_config")
+    .select("config")
+    .eq("id", "default")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to read strand rate config, using bundled rules:", error);
+  } else if (data) {
+    const parsed = parseStrandRateConfig(data.config);
+    if (parsed.success) {
+      return { config: parsed.config!, source: "supabase" };
+    }
+    console.error("Saved strand rate config is invalid, using bundled rules:", parsed.errors);
+  }
+
+  const bundled = parseStrandRateConfig(DEFAULT_STRAND_RATE_CONFIG);
+  if (!bundled.success) {
+    throw new Error(`Invalid bundled strand rate config: ${bundled.errors.join("; ")}`);
+  }
+  return { config: bundled.config!, source: "bundled" };
+}
+
+async function getStrandApys(config: StrandRateConfig): Promise<Record<string, number>> {
+  const response = await fetch("https://yields.llama.fi/pools");
+  if (!response.ok) {
+    throw new Error(`DeFi Llama request failed (${response.status})`);
+  }
+  const pools: RatePool[] = (await response.json()).data;
+
+  return Object.fromEntries(STRAND_KEYS.map(key => [key, deriveStrandRate(config.strands[key], pools).apy]));
+}
+
+async function getBitcoinPrice(): Promise<number> {
+  const response = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd");
+  if (!response.ok) {
+    throw new Error(`CoinGecko request failed (${response.status})`);
+  }
+  const price = (await response.json())?.bitcoin?.usd;
+  if (typeof price !== "number" || !(price > 0)) {
+    throw new Error("Invalid CoinGecko response");
+  }
+  return price;
+}
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: jsonHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const { config, source } = await loadStrandRateConfig(supabaseAdmin);
+    const [apys, btcPrice] = await Promise.all([getStrandApys(config), getBitcoinPrice()]);
+
+    const { data, error } = await supabaseAdmin
+      .from("market_snapshots")
+      .insert({
+        strand1_apy: apys.strand1,
+        strand2_apy: apys.strand2,
+        strand3_apy: apys.strand3,
+        btc_price: btcPrice
+      })
+      .select("id, captured_at")
+      .single();
+
+    if (error) {
+      console.error("Failed to store market snapshot:", error);
+      return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: jsonHeaders });
+    }
+
+    console.log("Recorded market snapshot:", data.id, apys, btcPrice, `(${source} rules)`);
+    return new Response(JSON.stringify({ success: true, snapshot: data, configSource: source }), { headers: jsonHeaders });
+  } catch (error) {
+    console.error("Error recording market snapshot:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message || "Failed to record market snapshot" }),
+      { status: 502, headers: jsonHeaders }
+    );
+  }
+});
@@ -0,0 +1,34 @@
+-- Vault Club contract settings
+-- Stores the parameters chosen in the Create Contract modal on the shared
+-- contracts table so deployed contracts survive reloads and devices.
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS contract_address text,
+  ADD COLUMN IF NOT EXISTS lockup_period integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS is_charged_contract boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS rigor_level text NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS risk_level text NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deposit_frequency text,
+  ADD COLUMN IF NOT EXISTS custom_amount numeric,
+  ADD COLUMN IF NOT EXISTS custom_schedule jsonb,
+  ADD COLUMN IF NOT EXISTS phase2_trigger_type text NOT NULL DEFAULT 'both',
+  ADD COLUMN IF NOT EXISTS phase2_time_percent numeric NOT NULL DEFAULT 50,
+  ADD COLUMN IF NOT EXISTS phase2_value_threshold numeric NOT NULL DEFAULT 1000000,
+  ADD COLUMN IF NOT EXISTS strand1_balance numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS strand2_balance numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS strand3_balance numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS border_color text;
+
+ALTER TABLE public.contracts
+  ADD CONSTRAINT contracts_rigor_level_check
+    CHECK (rigor_level IN ('light', 'medium', 'heavy', 'custom')),
+  ADD CONSTRAINT contracts_risk_level_check
+    CHECK (risk_level IN ('low', 'medium', 'high')),
+  ADD CONSTRAINT contracts_deposit_frequency_check
+    CHECK (deposit_frequency IS NULL OR deposit_frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  ADD CONSTRAINT contracts_phase2_trigger_type_check
+    CHECK (phase2_trigger_type IN ('time', 'value', 'both'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS contracts_contract_address_key
+  ON public.contracts (contract_address)
+  WHERE contract_address IS NOT NULL;
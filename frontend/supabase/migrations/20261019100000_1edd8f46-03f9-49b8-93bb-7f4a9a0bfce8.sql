@@ -0,0 +1,107 @@
+-- Vault Club contract membership
+-- Joins go through join_contract, which enforces privacy and capacity
+-- server-side. Contract creators are enrolled as the first participant.
+
+CREATE OR REPLACE FUNCTION public.join_contract(
+  p_contract_id uuid,
+  p_contribution_amount numeric,
+  p_wallet_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_active_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer accepting members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this contract';
+  END IF;
+
+  IF v_contract.is_private AND v_contract.user_id <> v_user_id THEN
+    RAISE EXCEPTION 'This is a private contract. You need a direct invitation from the contract owner.';
+  END IF;
+
+  SELECT count(*) INTO v_active_count
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND status = 'active';
+
+  IF v_active_count >= v_contract.maximum_participants THEN
+    RAISE EXCEPTION 'This contract is full. No more members can join.';
+  END IF;
+
+  IF p_contribution_amount < v_contract.minimum_contribution THEN
+    RAISE EXCEPTION 'Contribution is below the contract minimum of %', v_contract.minimum_contribution;
+  END IF;
+
+  INSERT INTO public.contract_participants (contract_id, user_id, contribution_amount, wallet_address, status)
+  VALUES (p_contract_id, v_user_id, p_contribution_amount, p_wallet_address, 'active');
+
+  UPDATE public.contracts
+  SET current_participants = v_active_count + 1,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Enroll the creator of a Vault Club contract as its first participant
+CREATE OR REPLACE FUNCTION public.enroll_vault_club_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.contract_type = 'vault_club' THEN
+    INSERT INTO public.contract_participants (contract_id, user_id, contribution_amount, wallet_address, status)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      NEW.minimum_contribution,
+      (SELECT wallet_address FROM public.user_wallets WHERE user_id = NEW.user_id LIMIT 1),
+      'active'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enroll_vault_club_creator ON public.contracts;
+CREATE TRIGGER enroll_vault_club_creator
+  AFTER INSERT ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.enroll_vault_club_creator();
+
+-- Public Vault Club contracts are discoverable by any signed-in user
+CREATE POLICY "Public vault club contracts are viewable by authenticated users"
+  ON public.contracts
+  FOR SELECT
+  TO authenticated
+  USING (contract_type = 'vault_club' AND is_private = false);
+
+-- Members of a contract can see each other
+CREATE POLICY "Participants can view co-participants"
+  ON public.contract_participants
+  FOR SELECT
+  TO authenticated
+  USING (public.is_contract_participant(contract_id) OR public.is_contract_owner(contract_id));
@@ -0,0 +1,91 @@
+-- Vault Club deposit ledger
+-- One row per deposit into a contract, with its strand split. Deposits are
+-- recorded through record_deposit so contract balances stay in step.
+
+CREATE TABLE IF NOT EXISTS public.contract_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  wallet_address text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  strand1_amount numeric NOT NULL DEFAULT 0,
+  strand2_amount numeric NOT NULL DEFAULT 0,
+  strand3_amount numeric NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'confirmed', 'failed')),
+  tx_hash text,
+  deposited_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS contract_deposits_user_deposited_at_idx
+  ON public.contract_deposits (user_id, deposited_at DESC);
+CREATE INDEX IF NOT EXISTS contract_deposits_contract_deposited_at_idx
+  ON public.contract_deposits (contract_id, deposited_at DESC);
+
+ALTER TABLE public.contract_deposits ENABLE ROW LEVEL SECURITY;
+
+-- Members can see every deposit made into their contracts
+CREATE POLICY "Participants can view contract deposits"
+  ON public.contract_deposits
+  FOR SELECT
+  TO authenticated
+  USING (public.is_contract_participant(contract_id) OR public.is_contract_owner(contract_id));
+
+CREATE OR REPLACE FUNCTION public.record_deposit(
+  p_contract_id uuid,
+  p_amount numeric,
+  p_strand1_amount numeric,
+  p_strand2_amount numeric,
+  p_strand3_amount numeric,
+  p_wallet_address text DEFAULT NULL,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deposit_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to deposit';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be positive';
+  END IF;
+
+  IF abs(p_strand1_amount + p_strand2_amount + p_strand3_amount - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Strand split does not add up to the deposit amount';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  INSERT INTO public.contract_deposits (
+    contract_id, user_id, wallet_address, amount,
+    strand1_amount, strand2_amount, strand3_amount, status, tx_hash
+  )
+  VALUES (
+    p_contract_id, v_user_id, p_wallet_address, p_amount,
+    p_strand1_amount, p_strand2_amount, p_strand3_amount, 'confirmed', p_tx_hash
+  )
+  RETURNING id INTO v_deposit_id;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount + p_amount,
+      strand1_balance = strand1_balance + p_strand1_amount,
+      strand2_balance = strand2_balance + p_strand2_amount,
+      strand3_balance = strand3_balance + p_strand3_amount,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_deposit_id;
+END;
+$$;
@@ -0,0 +1,311 @@
+-- Vault Club governance: unanimous "kick member" votes
+-- Any active member can propose removing another. The proposal passes once
+-- every other active member (everyone except the target) approves, and is
+-- rejected by a single "no". A passing kick marks the participant 'kicked'
+-- and locks their principal until the contract's Phase 2 date or maturity.
+
+ALTER TABLE public.contract_participants
+  ADD COLUMN IF NOT EXISTS removed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS principal_locked_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.contract_proposals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  proposal_type text NOT NULL CHECK (proposal_type IN ('kick')),
+  proposed_by uuid NOT NULL,
+  target_user_id uuid,
+  target_member text,
+  reason text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'passed', 'rejected', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS contract_proposals_contract_idx
+  ON public.contract_proposals (contract_id, created_at DESC);
+
+-- Only one open proposal of each kind per target
+CREATE UNIQUE INDEX IF NOT EXISTS contract_proposals_open_target_idx
+  ON public.contract_proposals (contract_id, proposal_type, COALESCE(target_user_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.contract_proposal_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id uuid NOT NULL REFERENCES public.contract_proposals(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  wallet_address text,
+  approve boolean NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (proposal_id, user_id)
+);
+
+ALTER TABLE public.contract_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_proposal_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view contract proposals"
+  ON public.contract_proposals
+  FOR SELECT
+  TO authenticated
+  USING (public.is_contract_participant(contract_id) OR public.is_contract_owner(contract_id));
+
+CREATE POLICY "Participants can view proposal votes"
+  ON public.contract_proposal_votes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.contract_proposals p
+      WHERE p.id = proposal_id
+        AND (public.is_contract_participant(p.contract_id) OR public.is_contract_owner(p.contract_id))
+    )
+  );
+
+-- Date a removed member's principal unlocks: the time-based Phase 2 date, else maturity
+CREATE OR REPLACE FUNCTION public.contract_principal_unlock_date(p_contract public.contracts)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_contract.phase2_trigger_type IN ('time', 'both')
+      THEN COALESCE(p_contract.start_date, p_contract.created_at)
+        + (p_contract.end_date - COALESCE(p_contract.start_date, p_contract.created_at)) * (p_contract.phase2_time_percent / 100.0)
+    ELSE p_contract.end_date
+  END;
+$$;
+
+-- Tallies a proposal and applies it once the vote is unanimous
+CREATE OR REPLACE FUNCTION public.resolve_contract_proposal(p_proposal_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.contract_proposals%ROWTYPE;
+  v_contract public.contracts%ROWTYPE;
+  v_eligible integer;
+  v_approvals integer;
+BEGIN
+  SELECT * INTO v_proposal FROM public.contract_proposals WHERE id = p_proposal_id FOR UPDATE;
+  IF v_proposal.status <> 'open' THEN
+    RETURN v_proposal.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contract_proposal_votes WHERE proposal_id = p_proposal_id AND NOT approve) THEN
+    UPDATE public.contract_proposals SET status = 'rejected', resolved_at = now() WHERE id = p_proposal_id;
+    RETURN 'rejected';
+  END IF;
+
+  SELECT count(*) INTO v_eligible
+  FROM public.contract_participants
+  WHERE contract_id = v_proposal.contract_id
+    AND status = 'active'
+    AND user_id IS DISTINCT FROM v_proposal.target_user_id;
+
+  SELECT count(*) INTO v_approvals
+  FROM public.contract_proposal_votes v
+  JOIN public.contract_participants cp
+    ON cp.contract_id = v_proposal.contract_id AND cp.user_id = v.user_id AND cp.status = 'active'
+  WHERE v.proposal_id = p_proposal_id AND v.approve;
+
+  IF v_approvals < v_eligible THEN
+    RETURN 'open';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = v_proposal.contract_id FOR UPDATE;
+
+  IF v_proposal.proposal_type = 'kick' THEN
+    UPDATE public.contract_participants
+    SET status = 'kicked',
+        removed_at = now(),
+        principal_locked_until = public.contract_principal_unlock_date(v_contract),
+        updated_at = now()
+    WHERE contract_id = v_proposal.contract_id AND user_id = v_proposal.target_user_id AND status = 'active';
+
+    UPDATE public.contracts
+    SET current_participants = (
+          SELECT count(*) FROM public.contract_participants
+          WHERE contract_id = v_proposal.contract_id AND status = 'active'
+        ),
+        updated_at = now()
+    WHERE id = v_proposal.contract_id;
+  END IF;
+
+  UPDATE public.contract_proposals SET status = 'passed', resolved_at = now() WHERE id = p_proposal_id;
+  RETURN 'passed';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_contract_proposal(
+  p_contract_id uuid,
+  p_proposal_type text,
+  p_target_member text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_proposer public.contract_participants%ROWTYPE;
+  v_target public.contract_participants%ROWTYPE;
+  v_proposal_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to propose a vote';
+  END IF;
+
+  SELECT * INTO v_proposer FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only active members can propose a vote';
+  END IF;
+
+  IF p_proposal_type = 'kick' THEN
+    SELECT * INTO v_target FROM public.contract_participants
+    WHERE contract_id = p_contract_id
+      AND status = 'active'
+      AND (wallet_address = p_target_member OR user_id::text = p_target_member);
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That member is not active in this contract';
+    END IF;
+    IF v_target.user_id = v_user_id THEN
+      RAISE EXCEPTION 'You cannot propose to kick yourself';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.contract_proposals
+      WHERE contract_id = p_contract_id AND proposal_type = 'kick'
+        AND target_user_id = v_target.user_id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'A vote to kick this member is already open';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown proposal type: %', p_proposal_type;
+  END IF;
+
+  INSERT INTO public.contract_proposals (contract_id, proposal_type, proposed_by, target_user_id, target_member, reason)
+  VALUES (p_contract_id, p_proposal_type, v_user_id, v_target.user_id, COALESCE(v_target.wallet_address, v_target.user_id::text), p_reason)
+  RETURNING id INTO v_proposal_id;
+
+  -- Proposing counts as an approval
+  INSERT INTO public.contract_proposal_votes (proposal_id, user_id, wallet_address, approve)
+  VALUES (v_proposal_id, v_user_id, v_proposer.wallet_address, true);
+
+  PERFORM public.resolve_contract_proposal(v_proposal_id);
+  RETURN v_proposal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cast_proposal_vote(p_proposal_id uuid, p_approve boolean)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_proposal public.contract_proposals%ROWTYPE;
+  v_voter public.contract_participants%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to vote';
+  END IF;
+
+  SELECT * INTO v_proposal FROM public.contract_proposals WHERE id = p_proposal_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+  IF v_proposal.status <> 'open' THEN
+    RAISE EXCEPTION 'This vote has already closed';
+  END IF;
+
+  SELECT * INTO v_voter FROM public.contract_participants
+  WHERE contract_id = v_proposal.contract_id AND user_id = v_user_id AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only active members can vote';
+  END IF;
+  IF v_proposal.target_user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot vote on your own removal';
+  END IF;
+
+  INSERT INTO public.contract_proposal_votes (proposal_id, user_id, wallet_address, approve)
+  VALUES (p_proposal_id, v_user_id, v_voter.wallet_address, p_approve)
+  ON CONFLICT (proposal_id, user_id) DO UPDATE SET approve = EXCLUDED.approve, created_at = now();
+
+  RETURN public.resolve_contract_proposal(p_proposal_id);
+END;
+$$;
+
+-- Members removed by vote cannot rejoin the same contract
+CREATE OR REPLACE FUNCTION public.join_contract(
+  p_contract_id uuid,
+  p_contribution_amount numeric,
+  p_wallet_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_active_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer accepting members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this contract';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'kicked'
+  ) THEN
+    RAISE EXCEPTION 'You were removed from this contract by a member vote and cannot rejoin';
+  END IF;
+
+  IF v_contract.is_private AND v_contract.user_id <> v_user_id THEN
+    RAISE EXCEPTION 'This is a private contract. You need a direct invitation from the contract owner.';
+  END IF;
+
+  SELECT count(*) INTO v_active_count
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND status = 'active';
+
+  IF v_active_count >= v_contract.maximum_participants THEN
+    RAISE EXCEPTION 'This contract is full. No more members can join.';
+  END IF;
+
+  IF p_contribution_amount < v_contract.minimum_contribution THEN
+    RAISE EXCEPTION 'Contribution is below the contract minimum of %', v_contract.minimum_contribution;
+  END IF;
+
+  INSERT INTO public.contract_participants (contract_id, user_id, contribution_amount, wallet_address, status)
+  VALUES (p_contract_id, v_user_id, p_contribution_amount, p_wallet_address, 'active');
+
+  UPDATE public.contracts
+  SET current_participants = v_active_count + 1,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN true;
+END;
+$$;
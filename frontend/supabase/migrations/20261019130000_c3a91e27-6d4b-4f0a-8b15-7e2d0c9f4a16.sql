@@ -0,0 +1,107 @@
+-- Vault Club emergency individual exit
+-- A member may leave a live contract early but receives principal only; any
+-- value above their principal is forfeited to the remaining members as a
+-- disruption fee. Exits are recorded in contract_exits.
+
+CREATE TABLE IF NOT EXISTS public.contract_exits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  wallet_address text,
+  principal numeric NOT NULL,
+  current_value numeric NOT NULL,
+  forfeited_yield numeric NOT NULL DEFAULT 0,
+  payout numeric NOT NULL,
+  exited_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, user_id)
+);
+
+ALTER TABLE public.contract_exits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view contract exits"
+  ON public.contract_exits
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR public.is_contract_participant(contract_id)
+    OR public.is_contract_owner(contract_id)
+  );
+
+-- p_current_value is the member's ownership value as shown to them; the
+-- payout never exceeds the principal recorded in the deposit ledger.
+CREATE OR REPLACE FUNCTION public.exit_contract(p_contract_id uuid, p_current_value numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_participant public.contract_participants%ROWTYPE;
+  v_principal numeric;
+  v_payout numeric;
+  v_remaining_ratio numeric;
+  v_exit_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to exit a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer active';
+  END IF;
+
+  SELECT * INTO v_participant FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_principal
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'confirmed';
+
+  v_payout := LEAST(v_principal, GREATEST(p_current_value, 0), v_contract.current_amount);
+
+  INSERT INTO public.contract_exits (contract_id, user_id, wallet_address, principal, current_value, forfeited_yield, payout)
+  VALUES (
+    p_contract_id, v_user_id, v_participant.wallet_address, v_principal, p_current_value,
+    GREATEST(p_current_value - v_principal, 0), v_payout
+  )
+  RETURNING id INTO v_exit_id;
+
+  UPDATE public.contract_participants
+  SET status = 'exited', removed_at = now(), updated_at = now()
+  WHERE id = v_participant.id;
+
+  -- The payout leaves every strand in proportion to its balance
+  v_remaining_ratio := CASE WHEN v_contract.current_amount > 0
+    THEN (v_contract.current_amount - v_payout) / v_contract.current_amount
+    ELSE 1 END;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount - v_payout,
+      strand1_balance = strand1_balance * v_remaining_ratio,
+      strand2_balance = strand2_balance * v_remaining_ratio,
+      strand3_balance = strand3_balance * v_remaining_ratio,
+      current_participants = (
+        SELECT count(*) FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ),
+      status = CASE WHEN EXISTS (
+        SELECT 1 FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ) THEN status ELSE 'closed' END,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_exit_id;
+END;
+$$;
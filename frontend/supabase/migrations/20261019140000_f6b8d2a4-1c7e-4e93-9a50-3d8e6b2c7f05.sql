@@ -0,0 +1,217 @@
+-- Vault Club governance: unanimous group termination
+-- Adds a 'terminate' proposal type. When every active member approves, the
+-- contract is terminated and a settlement is recorded: principal is returned
+-- in full and 35% of the total yield is retained for the protocol reserve.
+
+ALTER TABLE public.contract_proposals
+  DROP CONSTRAINT IF EXISTS contract_proposals_proposal_type_check;
+ALTER TABLE public.contract_proposals
+  ADD CONSTRAINT contract_proposals_proposal_type_check CHECK (proposal_type IN ('kick', 'terminate'));
+
+CREATE TABLE IF NOT EXISTS public.contract_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL UNIQUE REFERENCES public.contracts(id) ON DELETE CASCADE,
+  proposal_id uuid REFERENCES public.contract_proposals(id) ON DELETE SET NULL,
+  total_principal numeric NOT NULL,
+  total_value numeric NOT NULL,
+  total_yield numeric NOT NULL,
+  retention_rate numeric NOT NULL,
+  retained_yield numeric NOT NULL,
+  settled_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.contract_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view contract settlements"
+  ON public.contract_settlements
+  FOR SELECT
+  TO authenticated
+  USING (public.is_contract_participant(contract_id) OR public.is_contract_owner(contract_id));
+
+-- No new deposits once a contract has been terminated or closed
+CREATE OR REPLACE FUNCTION public.ensure_contract_accepts_deposits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.contracts WHERE id = NEW.contract_id AND status <> 'active') THEN
+    RAISE EXCEPTION 'This contract is no longer accepting deposits';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ensure_contract_accepts_deposits ON public.contract_deposits;
+CREATE TRIGGER ensure_contract_accepts_deposits
+  BEFORE INSERT ON public.contract_deposits
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_contract_accepts_deposits();
+
+CREATE OR REPLACE FUNCTION public.resolve_contract_proposal(p_proposal_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.contract_proposals%ROWTYPE;
+  v_contract public.contracts%ROWTYPE;
+  v_eligible integer;
+  v_approvals integer;
+  v_total_principal numeric;
+  v_total_yield numeric;
+BEGIN
+  SELECT * INTO v_proposal FROM public.contract_proposals WHERE id = p_proposal_id FOR UPDATE;
+  IF v_proposal.status <> 'open' THEN
+    RETURN v_proposal.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contract_proposal_votes WHERE proposal_id = p_proposal_id AND NOT approve) THEN
+    UPDATE public.contract_proposals SET status = 'rejected', resolved_at = now() WHERE id = p_proposal_id;
+    RETURN 'rejected';
+  END IF;
+
+  SELECT count(*) INTO v_eligible
+  FROM public.contract_participants
+  WHERE contract_id = v_proposal.contract_id
+    AND status = 'active'
+    AND user_id IS DISTINCT FROM v_proposal.target_user_id;
+
+  SELECT count(*) INTO v_approvals
+  FROM public.contract_proposal_votes v
+  JOIN public.contract_participants cp
+    ON cp.contract_id = v_proposal.contract_id AND cp.user_id = v.user_id AND cp.status = 'active'
+  WHERE v.proposal_id = p_proposal_id AND v.approve;
+
+  IF v_approvals < v_eligible THEN
+    RETURN 'open';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = v_proposal.contract_id FOR UPDATE;
+
+  IF v_proposal.proposal_type = 'kick' THEN
+    UPDATE public.contract_participants
+    SET status = 'kicked',
+        removed_at = now(),
+        principal_locked_until = public.contract_principal_unlock_date(v_contract),
+        updated_at = now()
+    WHERE contract_id = v_proposal.contract_id AND user_id = v_proposal.target_user_id AND status = 'active';
+
+    UPDATE public.contracts
+    SET current_participants = (
+          SELECT count(*) FROM public.contract_participants
+          WHERE contract_id = v_proposal.contract_id AND status = 'active'
+        ),
+        updated_at = now()
+    WHERE id = v_proposal.contract_id;
+  ELSIF v_proposal.proposal_type = 'terminate' THEN
+    -- Principal still in the contract: deposits of everyone who has not exited
+    SELECT COALESCE(sum(d.amount), 0) INTO v_total_principal
+    FROM public.contract_deposits d
+    WHERE d.contract_id = v_proposal.contract_id
+      AND d.status = 'confirmed'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.contract_exits e
+        WHERE e.contract_id = d.contract_id AND e.user_id = d.user_id
+      );
+
+    v_total_yield := v_contract.current_amount - v_total_principal;
+
+    INSERT INTO public.contract_settlements (
+      contract_id, proposal_id, total_principal, total_value, total_yield, retention_rate, retained_yield
+    )
+    VALUES (
+      v_proposal.contract_id, p_proposal_id, v_total_principal, v_contract.current_amount,
+      v_total_yield, 0.35, GREATEST(v_total_yield, 0) * 0.35
+    );
+
+    UPDATE public.contracts
+    SET status = 'terminated', updated_at = now()
+    WHERE id = v_proposal.contract_id;
+
+    -- Any other open votes on this contract are moot
+    UPDATE public.contract_proposals
+    SET status = 'cancelled', resolved_at = now()
+    WHERE contract_id = v_proposal.contract_id AND status = 'open' AND id <> p_proposal_id;
+  END IF;
+
+  UPDATE public.contract_proposals SET status = 'passed', resolved_at = now() WHERE id = p_proposal_id;
+  RETURN 'passed';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_contract_proposal(
+  p_contract_id uuid,
+  p_proposal_type text,
+  p_target_member text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_proposer public.contract_participants%ROWTYPE;
+  v_target public.contract_participants%ROWTYPE;
+  v_proposal_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to propose a vote';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.contracts WHERE id = p_contract_id AND status = 'active') THEN
+    RAISE EXCEPTION 'This contract is no longer active';
+  END IF;
+
+  SELECT * INTO v_proposer FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only active members can propose a vote';
+  END IF;
+
+  IF p_proposal_type = 'kick' THEN
+    SELECT * INTO v_target FROM public.contract_participants
+    WHERE contract_id = p_contract_id
+      AND status = 'active'
+      AND (wallet_address = p_target_member OR user_id::text = p_target_member);
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That member is not active in this contract';
+    END IF;
+    IF v_target.user_id = v_user_id THEN
+      RAISE EXCEPTION 'You cannot propose to kick yourself';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.contract_proposals
+      WHERE contract_id = p_contract_id AND proposal_type = 'kick'
+        AND target_user_id = v_target.user_id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'A vote to kick this member is already open';
+    END IF;
+  ELSIF p_proposal_type = 'terminate' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.contract_proposals
+      WHERE contract_id = p_contract_id AND proposal_type = 'terminate' AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'A termination vote is already open';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown proposal type: %', p_proposal_type;
+  END IF;
+
+  INSERT INTO public.contract_proposals (contract_id, proposal_type, proposed_by, target_user_id, target_member, reason)
+  VALUES (
+    p_contract_id, p_proposal_type, v_user_id, v_target.user_id,
+    CASE WHEN p_proposal_type = 'kick' THEN COALESCE(v_target.wallet_address, v_target.user_id::text) END,
+    p_reason
+  )
+  RETURNING id INTO v_proposal_id;
+
+  -- Proposing counts as an approval
+  INSERT INTO public.contract_proposal_votes (proposal_id, user_id, wallet_address, approve)
+  VALUES (v_proposal_id, v_user_id, v_proposer.wallet_address, true);
+
+  PERFORM public.resolve_contract_proposal(v_proposal_id);
+  RETURN v_proposal_id;
+END;
+$$;
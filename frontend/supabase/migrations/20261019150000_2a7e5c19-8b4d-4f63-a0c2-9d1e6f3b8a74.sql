@@ -0,0 +1,164 @@
+-- Vault Club contract parameter edits
+-- A live contract's parameters may change at most once every 60 days. The
+-- window is enforced by a trigger on contracts, so it holds for direct
+-- updates as well as the update_contract_parameters RPC, and every change is
+-- logged to contract_parameter_changes with the previous values.
+
+CREATE TABLE IF NOT EXISTS public.contract_parameter_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id uuid NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  changed_by uuid,
+  wallet_address text,
+  previous jsonb NOT NULL,
+  changes jsonb NOT NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS contract_parameter_changes_contract_idx
+  ON public.contract_parameter_changes (contract_id, changed_at DESC);
+
+ALTER TABLE public.contract_parameter_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view contract parameter changes"
+  ON public.contract_parameter_changes
+  FOR SELECT
+  TO authenticated
+  USING (public.is_contract_participant(contract_id) OR public.is_contract_owner(contract_id));
+
+-- The editable parameters of a contract, keyed by column name
+CREATE OR REPLACE FUNCTION public.contract_parameters(p_contract public.contracts)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'lockup_period', p_contract.lockup_period,
+    'is_charged_contract', p_contract.is_charged_contract,
+    'rigor_level', p_contract.rigor_level,
+    'risk_level', p_contract.risk_level,
+    'maximum_participants', p_contract.maximum_participants,
+    'is_private', p_contract.is_private,
+    'deposit_frequency', p_contract.deposit_frequency,
+    'custom_amount', p_contract.custom_amount,
+    'custom_schedule', p_contract.custom_schedule,
+    'phase2_trigger_type', p_contract.phase2_trigger_type,
+    'phase2_time_percent', p_contract.phase2_time_percent,
+    'phase2_value_threshold', p_contract.phase2_value_threshold
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_contract_edit_window()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous jsonb := public.contract_parameters(OLD);
+  v_current jsonb := public.contract_parameters(NEW);
+  v_changes jsonb;
+  v_last_change timestamptz;
+BEGIN
+  IF v_previous = v_current THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active contracts can be edited';
+  END IF;
+
+  SELECT max(changed_at) INTO v_last_change
+  FROM public.contract_parameter_changes
+  WHERE contract_id = OLD.id;
+
+  IF v_last_change IS NOT NULL AND v_last_change > now() - interval '60 days' THEN
+    RAISE EXCEPTION 'Contract parameters can only be changed once every 60 days. The next edit is allowed on %',
+      to_char(v_last_change + interval '60 days', 'YYYY-MM-DD');
+  END IF;
+
+  SELECT jsonb_object_agg(key, value) INTO v_changes
+  FROM jsonb_each(v_current)
+  WHERE v_previous -> key IS DISTINCT FROM value;
+
+  INSERT INTO public.contract_parameter_changes (contract_id, changed_by, wallet_address, previous, changes)
+  VALUES (
+    OLD.id,
+    auth.uid(),
+    (SELECT wallet_address FROM public.contract_participants WHERE contract_id = OLD.id AND user_id = auth.uid() LIMIT 1),
+    (SELECT jsonb_object_agg(key, v_previous -> key) FROM jsonb_object_keys(v_changes) AS key),
+    v_changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_contract_edit_window ON public.contracts;
+CREATE TRIGGER enforce_contract_edit_window
+  BEFORE UPDATE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_contract_edit_window();
+
+-- Owner-only edit of a live contract's parameters. Keys in p_parameters are
+-- column names; missing keys keep their current value.
+CREATE OR REPLACE FUNCTION public.update_contract_parameters(p_contract_id uuid, p_parameters jsonb)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_lockup integer;
+  v_charged boolean;
+  v_max integer;
+  v_start timestamptz;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to edit a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+  IF v_contract.user_id <> v_user_id THEN
+    RAISE EXCEPTION 'Only the contract owner can edit its parameters';
+  END IF;
+
+  v_lockup := COALESCE((p_parameters ->> 'lockup_period')::integer, v_contract.lockup_period);
+  v_charged := COALESCE((p_parameters ->> 'is_charged_contract')::boolean, v_contract.is_charged_contract);
+  v_max := COALESCE((p_parameters ->> 'maximum_participants')::integer, v_contract.maximum_participants);
+  v_start := COALESCE(v_contract.start_date, v_contract.created_at);
+
+  IF v_lockup < 1 THEN
+    RAISE EXCEPTION 'Lockup period must be at least 1';
+  END IF;
+  IF v_max < v_contract.current_participants THEN
+    RAISE EXCEPTION 'Maximum members cannot be below the current % members', v_contract.current_participants;
+  END IF;
+  IF v_start + CASE WHEN v_charged THEN make_interval(months => v_lockup) ELSE make_interval(years => v_lockup) END <= now() THEN
+    RAISE EXCEPTION 'The new lockup period would end the contract in the past';
+  END IF;
+
+  UPDATE public.contracts
+  SET lockup_period = v_lockup,
+      is_charged_contract = v_charged,
+      end_date = v_start + CASE WHEN v_charged THEN make_interval(months => v_lockup) ELSE make_interval(years => v_lockup) END,
+      rigor_level = COALESCE(p_parameters ->> 'rigor_level', rigor_level),
+      risk_level = COALESCE(p_parameters ->> 'risk_level', risk_level),
+      maximum_participants = v_max,
+      is_private = COALESCE((p_parameters ->> 'is_private')::boolean, is_private),
+      deposit_frequency = CASE WHEN p_parameters ? 'deposit_frequency' THEN p_parameters ->> 'deposit_frequency' ELSE deposit_frequency END,
+      custom_amount = CASE WHEN p_parameters ? 'custom_amount' THEN (p_parameters ->> 'custom_amount')::numeric ELSE custom_amount END,
+      custom_schedule = CASE WHEN p_parameters ? 'custom_schedule' THEN NULLIF(p_parameters -> 'custom_schedule', 'null'::jsonb) ELSE custom_schedule END,
+      phase2_trigger_type = COALESCE(p_parameters ->> 'phase2_trigger_type', phase2_trigger_type),
+      phase2_time_percent = COALESCE((p_parameters ->> 'phase2_time_percent')::numeric, phase2_time_percent),
+      phase2_value_threshold = COALESCE((p_parameters ->> 'phase2_value_threshold')::numeric, phase2_value_threshold),
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  -- When the next edit is allowed; NULL if nothing actually changed and no edit has been made yet
+  RETURN (SELECT max(changed_at) + interval '60 days' FROM public.contract_parameter_changes WHERE contract_id = p_contract_id);
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Vault Club utility fees per deposit cycle
+-- Each deposit records the utility fee charged for the weeks it covers: the
+-- member's weekly rate ($1.25 for charged contracts, $1.00 otherwise) times
+-- the whole weeks since their previous confirmed deposit into the contract,
+-- or since they joined it. A cycle is never less than one week.
+
+ALTER TABLE public.contract_deposits
+  ADD COLUMN IF NOT EXISTS fee_weeks integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS utility_fee_rate numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS utility_fee numeric NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.record_deposit(
+  p_contract_id uuid,
+  p_amount numeric,
+  p_strand1_amount numeric,
+  p_strand2_amount numeric,
+  p_strand3_amount numeric,
+  p_wallet_address text DEFAULT NULL,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deposit_id uuid;
+  v_joined_at timestamptz;
+  v_cycle_start timestamptz;
+  v_fee_rate numeric;
+  v_fee_weeks integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to deposit';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be positive';
+  END IF;
+
+  IF abs(p_strand1_amount + p_strand2_amount + p_strand3_amount - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Strand split does not add up to the deposit amount';
+  END IF;
+
+  SELECT joined_at INTO v_joined_at
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT CASE WHEN is_charged_contract THEN 1.25 ELSE 1.00 END INTO v_fee_rate
+  FROM public.contracts
+  WHERE id = p_contract_id;
+
+  SELECT COALESCE(max(deposited_at), v_joined_at) INTO v_cycle_start
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'confirmed';
+
+  v_fee_weeks := GREATEST(1, floor(extract(epoch FROM now() - v_cycle_start) / 604800)::integer);
+
+  INSERT INTO public.contract_deposits (
+    contract_id, user_id, wallet_address, amount,
+    strand1_amount, strand2_amount, strand3_amount, status, tx_hash,
+    fee_weeks, utility_fee_rate, utility_fee
+  )
+  VALUES (
+    p_contract_id, v_user_id, p_wallet_address, p_amount,
+    p_strand1_amount, p_strand2_amount, p_strand3_amount, 'confirmed', p_tx_hash,
+    v_fee_weeks, v_fee_rate, v_fee_weeks * v_fee_rate
+  )
+  RETURNING id INTO v_deposit_id;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount + p_amount,
+      strand1_balance = strand1_balance + p_strand1_amount,
+      strand2_balance = strand2_balance + p_strand2_amount,
+      strand3_balance = strand3_balance + p_strand3_amount,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_deposit_id;
+END;
+$$;
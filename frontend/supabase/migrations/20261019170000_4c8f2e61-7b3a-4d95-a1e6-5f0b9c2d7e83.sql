@@ -0,0 +1,70 @@
+-- Market history snapshots
+-- The record-market-snapshot edge function stores the strand APYs and the BTC
+-- price once an hour. Anyone can read them; only the service role writes.
+-- get_market_snapshots averages them into buckets so a year of history
+-- stays a few hundred points.
+
+CREATE TABLE IF NOT EXISTS public.market_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  captured_at timestamptz NOT NULL DEFAULT now(),
+  strand1_apy numeric NOT NULL,
+  strand2_apy numeric NOT NULL,
+  strand3_apy numeric NOT NULL,
+  btc_price numeric NOT NULL,
+  source text NOT NULL DEFAULT 'defillama+coingecko'
+);
+
+CREATE INDEX IF NOT EXISTS market_snapshots_captured_at_idx
+  ON public.market_snapshots (captured_at DESC);
+
+ALTER TABLE public.market_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view market snapshots"
+  ON public.market_snapshots
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.get_market_snapshots(p_since timestamptz, p_bucket interval)
+RETURNS TABLE (
+  captured_at timestamptz,
+  strand1_apy numeric,
+  strand2_apy numeric,
+  strand3_apy numeric,
+  btc_price numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_bin(p_bucket, s.captured_at, p_since) AS captured_at,
+    avg(s.strand1_apy),
+    avg(s.strand2_apy),
+    avg(s.strand3_apy),
+    avg(s.btc_price)
+  FROM public.market_snapshots s
+  WHERE s.captured_at >= p_since
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Hourly snapshot. The project URL and service role key are read from Vault
+-- secrets named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'record-market-snapshot',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/record-market-snapshot',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
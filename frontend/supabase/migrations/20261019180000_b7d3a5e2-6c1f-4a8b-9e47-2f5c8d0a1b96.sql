@@ -0,0 +1,50 @@
+-- Strand rate configuration
+-- Overrides the bundled rules (src/data/strandRateConfig.ts) for how each
+-- strand's live APY is picked from DeFi Llama pools. A single row; the app
+-- validates the config before using it and falls back to the bundled rules
+-- when it is missing or invalid. Anyone can read it; only admins edit it.
+
+CREATE TABLE IF NOT EXISTS public.strand_rate_config (
+  id text PRIMARY KEY DEFAULT 'default' CHECK (id = 'default'),
+  config jsonb NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.strand_rate_config ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the strand rate config"
+  ON public.strand_rate_config
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert the strand rate config"
+  ON public.strand_rate_config
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update the strand rate config"
+  ON public.strand_rate_config
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.touch_strand_rate_config()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER strand_rate_config_touch
+  BEFORE INSERT OR UPDATE ON public.strand_rate_config
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_strand_rate_config();
@@ -0,0 +1,98 @@
+-- Emergency exits valued on the server
+-- exit_contract used to trust the current value sent by the client and
+-- stored whatever it was told as the forfeited yield. The value is now the
+-- member's confirmed deposits as a share of every remaining (not exited)
+-- member's confirmed deposits, times the contract balance.
+
+DROP FUNCTION IF EXISTS public.exit_contract(uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.exit_contract(p_contract_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_participant public.contract_participants%ROWTYPE;
+  v_principal numeric;
+  v_total_principal numeric;
+  v_current_value numeric;
+  v_payout numeric;
+  v_remaining_ratio numeric;
+  v_exit_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to exit a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer active';
+  END IF;
+
+  SELECT * INTO v_participant FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_principal
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'confirmed';
+
+  -- Members who already exited took their principal out and own nothing
+  SELECT COALESCE(sum(d.amount), 0) INTO v_total_principal
+  FROM public.contract_deposits d
+  WHERE d.contract_id = p_contract_id
+    AND d.status = 'confirmed'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.contract_exits e
+      WHERE e.contract_id = p_contract_id AND e.user_id = d.user_id
+    );
+
+  v_current_value := CASE WHEN v_total_principal > 0
+    THEN GREATEST(v_contract.current_amount, 0) * v_principal / v_total_principal
+    ELSE 0 END;
+  v_payout := GREATEST(LEAST(v_principal, v_current_value, v_contract.current_amount), 0);
+
+  INSERT INTO public.contract_exits (contract_id, user_id, wallet_address, principal, current_value, forfeited_yield, payout)
+  VALUES (
+    p_contract_id, v_user_id, v_participant.wallet_address, v_principal, v_current_value,
+    GREATEST(v_current_value - v_principal, 0), v_payout
+  )
+  RETURNING id INTO v_exit_id;
+
+  UPDATE public.contract_participants
+  SET status = 'exited', removed_at = now(), updated_at = now()
+  WHERE id = v_participant.id;
+
+  -- The payout leaves every strand in proportion to its balance
+  v_remaining_ratio := CASE WHEN v_contract.current_amount > 0
+    THEN (v_contract.current_amount - v_payout) / v_contract.current_amount
+    ELSE 1 END;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount - v_payout,
+      strand1_balance = strand1_balance * v_remaining_ratio,
+      strand2_balance = strand2_balance * v_remaining_ratio,
+      strand3_balance = strand3_balance * v_remaining_ratio,
+      current_participants = (
+        SELECT count(*) FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ),
+      status = CASE WHEN EXISTS (
+        SELECT 1 FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ) THEN status ELSE 'closed' END,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_exit_id;
+END;
+$$;
@@ -0,0 +1,318 @@
+-- Vault Club governance: kick votes need a second voter and a missed deposit
+-- In a two-member contract the proposer's automatic approval was the only
+-- vote needed, so either member could remove the other at once, for any
+-- reason. A kick now needs at least one active member besides the proposer
+-- and the target, passes only with an approval from someone other than the
+-- proposer, and can only target a member who has missed a deposit.
+
+-- The deposit schedule engine (src/lib/depositSchedule.ts) ported to SQL so a
+-- member's record can be checked here. Amount owed for the period due at
+-- p_at, by rigor tier or custom schedule:
+CREATE OR REPLACE FUNCTION public.contract_period_amount(p_contract public.contracts, p_at timestamptz)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_years numeric := GREATEST(0, extract(epoch FROM p_at - COALESCE(p_contract.start_date, p_contract.created_at)) / (365.25 * 86400));
+  v_period jsonb;
+BEGIN
+  IF p_contract.rigor_level = 'custom' THEN
+    IF jsonb_typeof(p_contract.custom_schedule) = 'array' THEN
+      FOR v_period IN SELECT * FROM jsonb_array_elements(p_contract.custom_schedule) LOOP
+        IF v_years >= (v_period ->> 'yearStart')::numeric - 1 AND v_years < (v_period ->> 'yearEnd')::numeric THEN
+          RETURN (v_period ->> 'amount')::numeric;
+        END IF;
+      END LOOP;
+    END IF;
+    RETURN COALESCE(p_contract.custom_amount, 0);
+  END IF;
+
+  RETURN CASE p_contract.rigor_level
+    WHEN 'light' THEN CASE WHEN v_years < 1 THEN 100 WHEN v_years < 2 THEN 150 WHEN v_years < 3 THEN 200 ELSE 250 END
+    WHEN 'medium' THEN CASE WHEN v_years < 3 THEN 50 WHEN v_years < 6 THEN 100 WHEN v_years < 10 THEN 200 ELSE 250 END
+    WHEN 'heavy' THEN CASE WHEN v_years < 3 THEN 100 WHEN v_years < 6 THEN 200 WHEN v_years < 10 THEN 300 ELSE 400 END
+    ELSE 0
+  END;
+END;
+$$;
+
+-- Periods a member left unpaid past the 7-day grace period, applying their
+-- confirmed deposits to the oldest open period first as the app does
+CREATE OR REPLACE FUNCTION public.contract_member_missed_deposits(p_contract_id uuid, p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.contracts%ROWTYPE;
+  v_joined_at timestamptz;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_step interval;
+  v_deposit_at timestamptz[];
+  v_deposit_amount numeric[];
+  v_cursor integer := 1;
+  v_index integer := 0;
+  v_due timestamptz;
+  v_amount_due numeric;
+  v_amount_paid numeric;
+  v_applied numeric;
+  v_missed integer := 0;
+BEGIN
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT joined_at INTO v_joined_at FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = p_user_id
+  ORDER BY joined_at DESC
+  LIMIT 1;
+
+  v_start := COALESCE(v_contract.start_date, v_contract.created_at);
+  v_end := v_start + CASE WHEN v_contract.is_charged_contract
+    THEN make_interval(months => v_contract.lockup_period)
+    ELSE make_interval(years => v_contract.lockup_period)
+  END;
+  v_step := CASE
+    WHEN v_contract.rigor_level = 'custom' THEN CASE COALESCE(v_contract.deposit_frequency, 'weekly')
+      WHEN 'daily' THEN interval '1 day'
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'yearly' THEN interval '1 year'
+      ELSE interval '7 days'
+    END
+    WHEN v_contract.rigor_level = 'light' THEN interval '1 month'
+    ELSE interval '7 days'
+  END;
+
+  SELECT COALESCE(array_agg(deposited_at ORDER BY deposited_at), '{}'), COALESCE(array_agg(amount ORDER BY deposited_at), '{}')
+  INTO v_deposit_at, v_deposit_amount
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = p_user_id AND status = 'confirmed';
+
+  LOOP
+    v_due := v_start + v_step * v_index;
+    -- Only periods whose grace period has ended can be missed
+    EXIT WHEN v_due >= v_end OR v_due + interval '7 days' >= now();
+    v_index := v_index + 1;
+
+    -- Due dates stay on the contract's grid; a member only owes those after joining
+    CONTINUE WHEN v_joined_at IS NOT NULL AND v_due + interval '1 day' < v_joined_at;
+
+    v_amount_due := public.contract_period_amount(v_contract, v_due);
+    v_amount_paid := 0;
+    WHILE v_cursor <= cardinality(v_deposit_at)
+      AND v_amount_paid < v_amount_due - 0.01
+      AND v_deposit_at[v_cursor] <= v_due + interval '7 days'
+    LOOP
+      v_applied := LEAST(v_deposit_amount[v_cursor], v_amount_due - v_amount_paid);
+      v_amount_paid := v_amount_paid + v_applied;
+      v_deposit_amount[v_cursor] := v_deposit_amount[v_cursor] - v_applied;
+      IF v_deposit_amount[v_cursor] <= 0.01 THEN
+        v_cursor := v_cursor + 1;
+      END IF;
+    END LOOP;
+
+    IF v_amount_paid < v_amount_due - 0.01 THEN
+      v_missed := v_missed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_missed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_contract_proposal(p_proposal_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.contract_proposals%ROWTYPE;
+  v_contract public.contracts%ROWTYPE;
+  v_eligible integer;
+  v_approvals integer;
+  v_total_principal numeric;
+  v_total_yield numeric;
+BEGIN
+  SELECT * INTO v_proposal FROM public.contract_proposals WHERE id = p_proposal_id FOR UPDATE;
+  IF v_proposal.status <> 'open' THEN
+    RETURN v_proposal.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contract_proposal_votes WHERE proposal_id = p_proposal_id AND NOT approve) THEN
+    UPDATE public.contract_proposals SET status = 'rejected', resolved_at = now() WHERE id = p_proposal_id;
+    RETURN 'rejected';
+  END IF;
+
+  SELECT count(*) INTO v_eligible
+  FROM public.contract_participants
+  WHERE contract_id = v_proposal.contract_id
+    AND status = 'active'
+    AND user_id IS DISTINCT FROM v_proposal.target_user_id;
+
+  SELECT count(*) INTO v_approvals
+  FROM public.contract_proposal_votes v
+  JOIN public.contract_participants cp
+    ON cp.contract_id = v_proposal.contract_id AND cp.user_id = v.user_id AND cp.status = 'active'
+  WHERE v.proposal_id = p_proposal_id AND v.approve;
+
+  IF v_approvals < v_eligible THEN
+    RETURN 'open';
+  END IF;
+
+  -- The proposer's own vote never removes a member on its own
+  IF v_proposal.proposal_type = 'kick' AND NOT EXISTS (
+    SELECT 1
+    FROM public.contract_proposal_votes v
+    JOIN public.contract_participants cp
+      ON cp.contract_id = v_proposal.contract_id AND cp.user_id = v.user_id AND cp.status = 'active'
+    WHERE v.proposal_id = p_proposal_id AND v.approve AND v.user_id <> v_proposal.proposed_by
+  ) THEN
+    RETURN 'open';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = v_proposal.contract_id FOR UPDATE;
+
+  IF v_proposal.proposal_type = 'kick' THEN
+    UPDATE public.contract_participants
+    SET status = 'kicked',
+        removed_at = now(),
+        principal_locked_until = public.contract_principal_unlock_date(v_contract),
+        updated_at = now()
+    WHERE contract_id = v_proposal.contract_id AND user_id = v_proposal.target_user_id AND status = 'active';
+
+    UPDATE public.contracts
+    SET current_participants = (
+          SELECT count(*) FROM public.contract_participants
+          WHERE contract_id = v_proposal.contract_id AND status = 'active'
+        ),
+        updated_at = now()
+    WHERE id = v_proposal.contract_id;
+  ELSIF v_proposal.proposal_type = 'terminate' THEN
+    -- Principal still in the contract: deposits of everyone who has not exited
+    SELECT COALESCE(sum(d.amount), 0) INTO v_total_principal
+    FROM public.contract_deposits d
+    WHERE d.contract_id = v_proposal.contract_id
+      AND d.status = 'confirmed'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.contract_exits e
+        WHERE e.contract_id = d.contract_id AND e.user_id = d.user_id
+      );
+
+    v_total_yield := v_contract.current_amount - v_total_principal;
+
+    INSERT INTO public.contract_settlements (
+      contract_id, proposal_id, total_principal, total_value, total_yield, retention_rate, retained_yield
+    )
+    VALUES (
+      v_proposal.contract_id, p_proposal_id, v_total_principal, v_contract.current_amount,
+      v_total_yield, 0.35, GREATEST(v_total_yield, 0) * 0.35
+    );
+
+    UPDATE public.contracts
+    SET status = 'terminated', updated_at = now()
+    WHERE id = v_proposal.contract_id;
+
+    -- Any other open votes on this contract are moot
+    UPDATE public.contract_proposals
+    SET status = 'cancelled', resolved_at = now()
+    WHERE contract_id = v_proposal.contract_id AND status = 'open' AND id <> p_proposal_id;
+  END IF;
+
+  UPDATE public.contract_proposals SET status = 'passed', resolved_at = now() WHERE id = p_proposal_id;
+  RETURN 'passed';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_contract_proposal(
+  p_contract_id uuid,
+  p_proposal_type text,
+  p_target_member text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_proposer public.contract_participants%ROWTYPE;
+  v_target public.contract_participants%ROWTYPE;
+  v_proposal_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to propose a vote';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.contracts WHERE id = p_contract_id AND status = 'active') THEN
+    RAISE EXCEPTION 'This contract is no longer active';
+  END IF;
+
+  SELECT * INTO v_proposer FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only active members can propose a vote';
+  END IF;
+
+  IF p_proposal_type = 'kick' THEN
+    SELECT * INTO v_target FROM public.contract_participants
+    WHERE contract_id = p_contract_id
+      AND status = 'active'
+      AND (wallet_address = p_target_member OR user_id::text = p_target_member);
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That member is not active in this contract';
+    END IF;
+    IF v_target.user_id = v_user_id THEN
+      RAISE EXCEPTION 'You cannot propose to kick yourself';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.contract_participants
+      WHERE contract_id = p_contract_id
+        AND status = 'active'
+        AND user_id <> v_user_id
+        AND user_id IS DISTINCT FROM v_target.user_id
+    ) THEN
+      RAISE EXCEPTION 'Removing a member needs at least one other member to vote';
+    END IF;
+    IF public.contract_member_missed_deposits(p_contract_id, v_target.user_id) = 0 THEN
+      RAISE EXCEPTION 'Only members who have missed a deposit can be removed';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.contract_proposals
+      WHERE contract_id = p_contract_id AND proposal_type = 'kick'
+        AND target_user_id = v_target.user_id AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'A vote to kick this member is already open';
+    END IF;
+  ELSIF p_proposal_type = 'terminate' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.contract_proposals
+      WHERE contract_id = p_contract_id AND proposal_type = 'terminate' AND status = 'open'
+    ) THEN
+      RAISE EXCEPTION 'A termination vote is already open';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown proposal type: %', p_proposal_type;
+  END IF;
+
+  INSERT INTO public.contract_proposals (contract_id, proposal_type, proposed_by, target_user_id, target_member, reason)
+  VALUES (
+    p_contract_id, p_proposal_type, v_user_id, v_target.user_id,
+    CASE WHEN p_proposal_type = 'kick' THEN COALESCE(v_target.wallet_address, v_target.user_id::text) END,
+    p_reason
+  )
+  RETURNING id INTO v_proposal_id;
+
+  -- Proposing counts as an approval
+  INSERT INTO public.contract_proposal_votes (proposal_id, user_id, wallet_address, approve)
+  VALUES (v_proposal_id, v_user_id, v_proposer.wallet_address, true);
+
+  PERFORM public.resolve_contract_proposal(v_proposal_id);
+  RETURN v_proposal_id;
+END;
+$$;
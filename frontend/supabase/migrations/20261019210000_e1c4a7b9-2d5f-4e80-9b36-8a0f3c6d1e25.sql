@@ -0,0 +1,84 @@
+-- Vault Club deposits: no negative strand amounts
+-- record_deposit only checked that the strand split added up to the deposit,
+-- so a split such as 200 / -100 / 0 for a 100 deposit was accepted and moved
+-- balance out of a strand. Each strand amount must now be zero or more.
+
+CREATE OR REPLACE FUNCTION public.record_deposit(
+  p_contract_id uuid,
+  p_amount numeric,
+  p_strand1_amount numeric,
+  p_strand2_amount numeric,
+  p_strand3_amount numeric,
+  p_wallet_address text DEFAULT NULL,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deposit_id uuid;
+  v_joined_at timestamptz;
+  v_cycle_start timestamptz;
+  v_fee_rate numeric;
+  v_fee_weeks integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to deposit';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be positive';
+  END IF;
+
+  IF p_strand1_amount < 0 OR p_strand2_amount < 0 OR p_strand3_amount < 0 THEN
+    RAISE EXCEPTION 'Strand amounts cannot be negative';
+  END IF;
+
+  IF abs(p_strand1_amount + p_strand2_amount + p_strand3_amount - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Strand split does not add up to the deposit amount';
+  END IF;
+
+  SELECT joined_at INTO v_joined_at
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT CASE WHEN is_charged_contract THEN 1.25 ELSE 1.00 END INTO v_fee_rate
+  FROM public.contracts
+  WHERE id = p_contract_id;
+
+  SELECT COALESCE(max(deposited_at), v_joined_at) INTO v_cycle_start
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'confirmed';
+
+  v_fee_weeks := GREATEST(1, floor(extract(epoch FROM now() - v_cycle_start) / 604800)::integer);
+
+  INSERT INTO public.contract_deposits (
+    contract_id, user_id, wallet_address, amount,
+    strand1_amount, strand2_amount, strand3_amount, status, tx_hash,
+    fee_weeks, utility_fee_rate, utility_fee
+  )
+  VALUES (
+    p_contract_id, v_user_id, p_wallet_address, p_amount,
+    p_strand1_amount, p_strand2_amount, p_strand3_amount, 'confirmed', p_tx_hash,
+    v_fee_weeks, v_fee_rate, v_fee_weeks * v_fee_rate
+  )
+  RETURNING id INTO v_deposit_id;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount + p_amount,
+      strand1_balance = strand1_balance + p_strand1_amount,
+      strand2_balance = strand2_balance + p_strand2_amount,
+      strand3_balance = strand3_balance + p_strand3_amount,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_deposit_id;
+END;
+$$;
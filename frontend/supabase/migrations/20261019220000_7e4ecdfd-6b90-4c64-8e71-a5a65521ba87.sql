@@ -0,0 +1,105 @@
+-- Vault Club utility fees by elapsed time
+-- record_deposit charged at least one week of fees per deposit, so a member
+-- who paid several times in a week (or caught up on missed periods) paid for
+-- weeks that had not passed. Fees now accrue from a per-member fee cursor,
+-- kept apart from deposit timestamps: each deposit charges the whole weeks
+-- since the cursor (zero if under a week has passed) and moves the cursor on
+-- by exactly those weeks, so part-weeks carry over to the next deposit.
+
+ALTER TABLE public.contract_participants
+  ADD COLUMN IF NOT EXISTS fees_accrued_until timestamptz;
+
+-- Existing members have been charged up to their join date plus every fee week recorded so far
+UPDATE public.contract_participants cp
+SET fees_accrued_until = cp.joined_at + COALESCE((
+      SELECT sum(d.fee_weeks)
+      FROM public.contract_deposits d
+      WHERE d.contract_id = cp.contract_id
+        AND d.user_id = cp.user_id
+        AND d.status = 'confirmed'
+        AND d.deposited_at >= cp.joined_at
+    ), 0) * interval '1 week'
+WHERE cp.fees_accrued_until IS NULL;
+
+CREATE OR REPLACE FUNCTION public.record_deposit(
+  p_contract_id uuid,
+  p_amount numeric,
+  p_strand1_amount numeric,
+  p_strand2_amount numeric,
+  p_strand3_amount numeric,
+  p_wallet_address text DEFAULT NULL,
+  p_tx_hash text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_deposit_id uuid;
+  v_participant_id uuid;
+  v_fees_from timestamptz;
+  v_fee_rate numeric;
+  v_fee_weeks integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to deposit';
+  END IF;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be positive';
+  END IF;
+
+  IF p_strand1_amount < 0 OR p_strand2_amount < 0 OR p_strand3_amount < 0 THEN
+    RAISE EXCEPTION 'Strand amounts cannot be negative';
+  END IF;
+
+  IF abs(p_strand1_amount + p_strand2_amount + p_strand3_amount - p_amount) > 0.01 THEN
+    RAISE EXCEPTION 'Strand split does not add up to the deposit amount';
+  END IF;
+
+  -- Locked so concurrent deposits can't charge the same weeks twice
+  SELECT id, COALESCE(fees_accrued_until, joined_at) INTO v_participant_id, v_fees_from
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT CASE WHEN is_charged_contract THEN 1.25 ELSE 1.00 END INTO v_fee_rate
+  FROM public.contracts
+  WHERE id = p_contract_id;
+
+  v_fee_weeks := GREATEST(0, floor(extract(epoch FROM now() - v_fees_from) / 604800)::integer);
+
+  UPDATE public.contract_participants
+  SET fees_accrued_until = v_fees_from + v_fee_weeks * interval '1 week',
+      updated_at = now()
+  WHERE id = v_participant_id;
+
+  INSERT INTO public.contract_deposits (
+    contract_id, user_id, wallet_address, amount,
+    strand1_amount, strand2_amount, strand3_amount, status, tx_hash,
+    fee_weeks, utility_fee_rate, utility_fee
+  )
+  VALUES (
+    p_contract_id, v_user_id, p_wallet_address, p_amount,
+    p_strand1_amount, p_strand2_amount, p_strand3_amount, 'confirmed', p_tx_hash,
+    v_fee_weeks, v_fee_rate, v_fee_weeks * v_fee_rate
+  )
+  RETURNING id INTO v_deposit_id;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount + p_amount,
+      strand1_balance = strand1_balance + p_strand1_amount,
+      strand2_balance = strand2_balance + p_strand2_amount,
+      strand3_balance = strand3_balance + p_strand3_amount,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_deposit_id;
+END;
+$$;
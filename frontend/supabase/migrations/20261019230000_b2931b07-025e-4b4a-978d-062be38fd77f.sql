@@ -0,0 +1,163 @@
+-- Vault Club deposit terms at each due date
+-- update_contract_parameters rewrites the contract row, and the missed
+-- deposit check read every period against it, so an edit such as medium to
+-- heavy rigor turned each on-time $50 week before it into a missed $100 one,
+-- with the ownership penalties and kick eligibility that follow. Each period
+-- is now checked against the terms in force on its due date, rebuilt from
+-- the edits logged in contract_parameter_changes, as src/lib/depositSchedule.ts
+-- does with a contract's previousTerms.
+
+-- The contract with its deposit terms (rigor, frequency, custom amount and
+-- schedule) as they stood at p_at: values replaced by a later edit are taken
+-- from that edit's `previous`
+CREATE OR REPLACE FUNCTION public.contract_terms_at(p_contract public.contracts, p_at timestamptz)
+RETURNS public.contracts
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_terms public.contracts := p_contract;
+  v_column text;
+  v_value jsonb;
+BEGIN
+  FOREACH v_column IN ARRAY ARRAY['rigor_level', 'deposit_frequency', 'custom_amount', 'custom_schedule'] LOOP
+    SELECT previous -> v_column INTO v_value
+    FROM public.contract_parameter_changes
+    WHERE contract_id = p_contract.id AND changed_at > p_at AND previous ? v_column
+    ORDER BY changed_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      CASE v_column
+        WHEN 'rigor_level' THEN v_terms.rigor_level := v_value #>> '{}';
+        WHEN 'deposit_frequency' THEN v_terms.deposit_frequency := v_value #>> '{}';
+        WHEN 'custom_amount' THEN v_terms.custom_amount := (v_value #>> '{}')::numeric;
+        ELSE v_terms.custom_schedule := NULLIF(v_value, 'null'::jsonb);
+      END CASE;
+    END IF;
+  END LOOP;
+
+  RETURN v_terms;
+END;
+$$;
+
+-- Time between due dates under a contract's deposit terms
+CREATE OR REPLACE FUNCTION public.contract_period_step(p_contract public.contracts)
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_contract.rigor_level = 'custom' THEN CASE COALESCE(p_contract.deposit_frequency, 'weekly')
+      WHEN 'daily' THEN interval '1 day'
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'yearly' THEN interval '1 year'
+      ELSE interval '7 days'
+    END
+    WHEN p_contract.rigor_level = 'light' THEN interval '1 month'
+    ELSE interval '7 days'
+  END;
+$$;
+
+-- Periods a member left unpaid past the 7-day grace period, applying their
+-- confirmed deposits to the oldest open period first as the app does. Between
+-- edits, due dates follow the frequency then in force on the grid from the
+-- contract's start date.
+CREATE OR REPLACE FUNCTION public.contract_member_missed_deposits(p_contract_id uuid, p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.contracts%ROWTYPE;
+  v_terms public.contracts%ROWTYPE;
+  v_joined_at timestamptz;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_bounds timestamptz[];
+  v_segment integer;
+  v_step interval;
+  v_deposit_at timestamptz[];
+  v_deposit_amount numeric[];
+  v_cursor integer := 1;
+  v_index integer;
+  v_due timestamptz;
+  v_amount_due numeric;
+  v_amount_paid numeric;
+  v_applied numeric;
+  v_missed integer := 0;
+BEGIN
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT joined_at INTO v_joined_at FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = p_user_id
+  ORDER BY joined_at DESC
+  LIMIT 1;
+
+  v_start := COALESCE(v_contract.start_date, v_contract.created_at);
+  v_end := v_start + CASE WHEN v_contract.is_charged_contract
+    THEN make_interval(months => v_contract.lockup_period)
+    ELSE make_interval(years => v_contract.lockup_period)
+  END;
+
+  -- Stretches between edits of the deposit terms
+  v_bounds := ARRAY[v_start]
+    || ARRAY(
+      SELECT changed_at FROM public.contract_parameter_changes
+      WHERE contract_id = p_contract_id
+        AND changed_at > v_start AND changed_at < v_end
+        AND previous ?| ARRAY['rigor_level', 'deposit_frequency', 'custom_amount', 'custom_schedule']
+      ORDER BY changed_at
+    )
+    || ARRAY[v_end];
+
+  SELECT COALESCE(array_agg(deposited_at ORDER BY deposited_at), '{}'), COALESCE(array_agg(amount ORDER BY deposited_at), '{}')
+  INTO v_deposit_at, v_deposit_amount
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = p_user_id AND status = 'confirmed';
+
+  <<segments>>
+  FOR v_segment IN 1 .. cardinality(v_bounds) - 1 LOOP
+    v_terms := public.contract_terms_at(v_contract, v_bounds[v_segment]);
+    v_step := public.contract_period_step(v_terms);
+    v_index := 0;
+
+    LOOP
+      v_due := v_start + v_step * v_index;
+      v_index := v_index + 1;
+      CONTINUE WHEN v_due < v_bounds[v_segment];
+      EXIT WHEN v_due >= v_bounds[v_segment + 1];
+      -- Only periods whose grace period has ended can be missed
+      EXIT segments WHEN v_due + interval '7 days' >= now();
+
+      -- Due dates stay on the contract's grid; a member only owes those after joining
+      CONTINUE WHEN v_joined_at IS NOT NULL AND v_due + interval '1 day' < v_joined_at;
+
+      v_amount_due := public.contract_period_amount(v_terms, v_due);
+      v_amount_paid := 0;
+      WHILE v_cursor <= cardinality(v_deposit_at)
+        AND v_amount_paid < v_amount_due - 0.01
+        AND v_deposit_at[v_cursor] <= v_due + interval '7 days'
+      LOOP
+        v_applied := LEAST(v_deposit_amount[v_cursor], v_amount_due - v_amount_paid);
+        v_amount_paid := v_amount_paid + v_applied;
+        v_deposit_amount[v_cursor] := v_deposit_amount[v_cursor] - v_applied;
+        IF v_deposit_amount[v_cursor] <= 0.01 THEN
+          v_cursor := v_cursor + 1;
+        END IF;
+      END LOOP;
+
+      IF v_amount_paid < v_amount_due - 0.01 THEN
+        v_missed := v_missed + 1;
+      END IF;
+    END LOOP;
+  END LOOP segments;
+
+  RETURN v_missed;
+END;
+$$;
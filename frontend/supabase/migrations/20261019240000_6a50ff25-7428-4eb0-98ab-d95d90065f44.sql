@@ -0,0 +1,415 @@
+-- Vault Club emergency exits: paid from ownership shares, once per member
+-- exit_contract valued a member's exit by their deposits as a share of every
+-- remaining member's deposits, ignoring the ownership penalties for missed
+-- deposits and their redistribution, so it paid a different amount from the
+-- preview. The ownership ledger (src/lib/ownershipLedger.ts) is ported here
+-- and exit_contract pays from its shares. Exited members can no longer
+-- rejoin: contract_exits allows one exit per member, so a second exit failed.
+
+-- Grace period ends of the periods a member missed before p_until, oldest
+-- first, checked against the deposit terms in force on each due date
+CREATE OR REPLACE FUNCTION public.contract_member_missed_periods(p_contract_id uuid, p_user_id uuid, p_until timestamptz)
+RETURNS SETOF timestamptz
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.contracts%ROWTYPE;
+  v_terms public.contracts%ROWTYPE;
+  v_joined_at timestamptz;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_bounds timestamptz[];
+  v_segment integer;
+  v_step interval;
+  v_deposit_at timestamptz[];
+  v_deposit_amount numeric[];
+  v_cursor integer := 1;
+  v_index integer;
+  v_due timestamptz;
+  v_amount_due numeric;
+  v_amount_paid numeric;
+  v_applied numeric;
+BEGIN
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT joined_at INTO v_joined_at FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = p_user_id
+  ORDER BY joined_at DESC
+  LIMIT 1;
+
+  v_start := COALESCE(v_contract.start_date, v_contract.created_at);
+  v_end := v_start + CASE WHEN v_contract.is_charged_contract
+    THEN make_interval(months => v_contract.lockup_period)
+    ELSE make_interval(years => v_contract.lockup_period)
+  END;
+
+  -- Stretches between edits of the deposit terms
+  v_bounds := ARRAY[v_start]
+    || ARRAY(
+      SELECT changed_at FROM public.contract_parameter_changes
+      WHERE contract_id = p_contract_id
+        AND changed_at > v_start AND changed_at < v_end
+        AND previous ?| ARRAY['rigor_level', 'deposit_frequency', 'custom_amount', 'custom_schedule']
+      ORDER BY changed_at
+    )
+    || ARRAY[v_end];
+
+  SELECT COALESCE(array_agg(deposited_at ORDER BY deposited_at), '{}'), COALESCE(array_agg(amount ORDER BY deposited_at), '{}')
+  INTO v_deposit_at, v_deposit_amount
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = p_user_id AND status = 'confirmed';
+
+  <<segments>>
+  FOR v_segment IN 1 .. cardinality(v_bounds) - 1 LOOP
+    v_terms := public.contract_terms_at(v_contract, v_bounds[v_segment]);
+    v_step := public.contract_period_step(v_terms);
+    v_index := 0;
+
+    LOOP
+      v_due := v_start + v_step * v_index;
+      v_index := v_index + 1;
+      CONTINUE WHEN v_due < v_bounds[v_segment];
+      EXIT WHEN v_due >= v_bounds[v_segment + 1];
+      -- Only periods whose grace period has ended can be missed
+      EXIT segments WHEN v_due + interval '7 days' >= p_until;
+
+      -- Due dates stay on the contract's grid; a member only owes those after joining
+      CONTINUE WHEN v_joined_at IS NOT NULL AND v_due + interval '1 day' < v_joined_at;
+
+      v_amount_due := public.contract_period_amount(v_terms, v_due);
+      v_amount_paid := 0;
+      WHILE v_cursor <= cardinality(v_deposit_at)
+        AND v_amount_paid < v_amount_due - 0.01
+        AND v_deposit_at[v_cursor] <= v_due + interval '7 days'
+      LOOP
+        v_applied := LEAST(v_deposit_amount[v_cursor], v_amount_due - v_amount_paid);
+        v_amount_paid := v_amount_paid + v_applied;
+        v_deposit_amount[v_cursor] := v_deposit_amount[v_cursor] - v_applied;
+        IF v_deposit_amount[v_cursor] <= 0.01 THEN
+          v_cursor := v_cursor + 1;
+        END IF;
+      END LOOP;
+
+      IF v_amount_paid < v_amount_due - 0.01 THEN
+        RETURN NEXT v_due + interval '7 days';
+      END IF;
+    END LOOP;
+  END LOOP segments;
+END;
+$$;
+
+-- Periods a member has missed so far
+CREATE OR REPLACE FUNCTION public.contract_member_missed_deposits(p_contract_id uuid, p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer FROM public.contract_member_missed_periods(p_contract_id, p_user_id, now());
+$$;
+
+-- Ownership shares (percent) from contributions plus penalty adjustments,
+-- over the members still in the ledger
+CREATE OR REPLACE FUNCTION public.contract_ownership_split(p_contributed numeric[], p_adjustments numeric[], p_in_ledger boolean[])
+RETURNS numeric[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_total numeric := 0;
+  v_raw numeric[] := array_fill(0::numeric, ARRAY[cardinality(p_contributed)]);
+  v_raw_total numeric := 0;
+  v_i integer;
+BEGIN
+  FOR v_i IN 1 .. cardinality(p_contributed) LOOP
+    IF p_in_ledger[v_i] THEN
+      v_total := v_total + p_contributed[v_i];
+    END IF;
+  END LOOP;
+  IF v_total <= 0 THEN
+    RETURN array_fill(0::numeric, ARRAY[cardinality(p_contributed)]);
+  END IF;
+
+  FOR v_i IN 1 .. cardinality(p_contributed) LOOP
+    IF p_in_ledger[v_i] THEN
+      v_raw[v_i] := GREATEST(0, p_contributed[v_i] / v_total * 100 + p_adjustments[v_i]);
+      v_raw_total := v_raw_total + v_raw[v_i];
+    END IF;
+  END LOOP;
+
+  FOR v_i IN 1 .. cardinality(p_contributed) LOOP
+    v_raw[v_i] := CASE WHEN v_raw_total > 0 THEN v_raw[v_i] / v_raw_total * 100 ELSE 0 END;
+  END LOOP;
+  RETURN v_raw;
+END;
+$$;
+
+-- Each member's ownership share, replaying deposits, exits and penalties in
+-- time order: every third missed deposit costs 3 points, once its grace
+-- period ends, shared among the other members pro-rata to their shares then.
+-- Missed deposits count until a member exits or is kicked.
+CREATE OR REPLACE FUNCTION public.contract_ownership_shares(p_contract_id uuid)
+RETURNS TABLE (user_id uuid, contributed numeric, penalty_points numeric, share numeric)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_members uuid[];
+  v_count integer;
+  v_contributed numeric[];
+  v_adjustments numeric[];
+  v_points numeric[];
+  v_in_ledger boolean[];
+  v_shares numeric[];
+  v_event record;
+  v_i integer;
+  v_j integer;
+  v_lost numeric;
+  v_others_total numeric;
+BEGIN
+  SELECT array_agg(DISTINCT m.member_id) INTO v_members
+  FROM (
+    SELECT cp.user_id AS member_id FROM public.contract_participants cp WHERE cp.contract_id = p_contract_id
+    UNION
+    SELECT d.user_id FROM public.contract_deposits d WHERE d.contract_id = p_contract_id AND d.status = 'confirmed'
+  ) m;
+  IF v_members IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_count := cardinality(v_members);
+  v_contributed := array_fill(0::numeric, ARRAY[v_count]);
+  v_adjustments := array_fill(0::numeric, ARRAY[v_count]);
+  v_points := array_fill(0::numeric, ARRAY[v_count]);
+  v_in_ledger := array_fill(true, ARRAY[v_count]);
+
+  -- Deposits before exits before penalties at the same instant, as the app orders them
+  FOR v_event IN
+    SELECT e.at, e.kind, e.member_id, e.amount
+    FROM (
+      SELECT d.deposited_at AS at, 0 AS kind, d.user_id AS member_id, d.amount
+      FROM public.contract_deposits d
+      WHERE d.contract_id = p_contract_id AND d.status = 'confirmed'
+      UNION ALL
+      SELECT x.exited_at, 1, x.user_id, 0
+      FROM public.contract_exits x
+      WHERE x.contract_id = p_contract_id
+      UNION ALL
+      SELECT missed.grace_ends_at, 2, m.member_id, 3
+      FROM unnest(v_members) AS m(member_id)
+      CROSS JOIN LATERAL (
+        SELECT max(cp.removed_at) AS removed_at
+        FROM public.contract_participants cp
+        WHERE cp.contract_id = p_contract_id AND cp.user_id = m.member_id AND cp.status <> 'active'
+      ) removal
+      CROSS JOIN LATERAL public.contract_member_missed_periods(p_contract_id, m.member_id, LEAST(now(), COALESCE(removal.removed_at, now())))
+        WITH ORDINALITY AS missed(grace_ends_at, n)
+      WHERE missed.n % 3 = 0
+    ) e
+    ORDER BY e.at, e.kind
+  LOOP
+    v_i := array_position(v_members, v_event.member_id);
+
+    IF v_event.kind = 0 THEN
+      v_contributed[v_i] := v_contributed[v_i] + v_event.amount;
+    ELSIF v_event.kind = 1 THEN
+      v_in_ledger[v_i] := false;
+      v_contributed[v_i] := 0;
+      v_adjustments[v_i] := 0;
+    ELSIF v_in_ledger[v_i] THEN
+      v_shares := public.contract_ownership_split(v_contributed, v_adjustments, v_in_ledger);
+      v_lost := LEAST(v_event.amount, v_shares[v_i]);
+      v_others_total := 0;
+      FOR v_j IN 1 .. v_count LOOP
+        IF v_j <> v_i AND v_in_ledger[v_j] AND v_shares[v_j] > 0 THEN
+          v_others_total := v_others_total + v_shares[v_j];
+        END IF;
+      END LOOP;
+
+      -- Nobody to redistribute to, or nothing left to lose
+      CONTINUE WHEN v_others_total <= 0 OR v_lost <= 0;
+
+      v_adjustments[v_i] := v_adjustments[v_i] - v_lost;
+      FOR v_j IN 1 .. v_count LOOP
+        IF v_j <> v_i AND v_in_ledger[v_j] AND v_shares[v_j] > 0 THEN
+          v_adjustments[v_j] := v_adjustments[v_j] + v_lost * v_shares[v_j] / v_others_total;
+        END IF;
+      END LOOP;
+      v_points[v_i] := v_points[v_i] + v_lost;
+    END IF;
+  END LOOP;
+
+  v_shares := public.contract_ownership_split(v_contributed, v_adjustments, v_in_ledger);
+  RETURN QUERY
+    SELECT v_members[i], v_contributed[i], v_points[i], v_shares[i]
+    FROM generate_series(1, v_count) AS i
+    WHERE v_in_ledger[i];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.exit_contract(p_contract_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_participant public.contract_participants%ROWTYPE;
+  v_principal numeric;
+  v_share numeric;
+  v_current_value numeric;
+  v_payout numeric;
+  v_remaining_ratio numeric;
+  v_exit_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to exit a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer active';
+  END IF;
+
+  SELECT * INTO v_participant FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not an active member of this contract';
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_principal
+  FROM public.contract_deposits
+  WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'confirmed';
+
+  SELECT s.share INTO v_share
+  FROM public.contract_ownership_shares(p_contract_id) s
+  WHERE s.user_id = v_user_id;
+
+  v_current_value := GREATEST(v_contract.current_amount, 0) * COALESCE(v_share, 0) / 100;
+  v_payout := GREATEST(LEAST(v_principal, v_current_value, v_contract.current_amount), 0);
+
+  INSERT INTO public.contract_exits (contract_id, user_id, wallet_address, principal, current_value, forfeited_yield, payout)
+  VALUES (
+    p_contract_id, v_user_id, v_participant.wallet_address, v_principal, v_current_value,
+    GREATEST(v_current_value - v_principal, 0), v_payout
+  )
+  RETURNING id INTO v_exit_id;
+
+  UPDATE public.contract_participants
+  SET status = 'exited', removed_at = now(), updated_at = now()
+  WHERE id = v_participant.id;
+
+  -- The payout leaves every strand in proportion to its balance
+  v_remaining_ratio := CASE WHEN v_contract.current_amount > 0
+    THEN (v_contract.current_amount - v_payout) / v_contract.current_amount
+    ELSE 1 END;
+
+  UPDATE public.contracts
+  SET current_amount = current_amount - v_payout,
+      strand1_balance = strand1_balance * v_remaining_ratio,
+      strand2_balance = strand2_balance * v_remaining_ratio,
+      strand3_balance = strand3_balance * v_remaining_ratio,
+      current_participants = (
+        SELECT count(*) FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ),
+      status = CASE WHEN EXISTS (
+        SELECT 1 FROM public.contract_participants
+        WHERE contract_id = p_contract_id AND status = 'active'
+      ) THEN status ELSE 'closed' END,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN v_exit_id;
+END;
+$$;
+
+-- Members removed by vote or who exited cannot rejoin the same contract
+CREATE OR REPLACE FUNCTION public.join_contract(
+  p_contract_id uuid,
+  p_contribution_amount numeric,
+  p_wallet_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_contract public.contracts%ROWTYPE;
+  v_active_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a contract';
+  END IF;
+
+  SELECT * INTO v_contract FROM public.contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+
+  IF v_contract.status <> 'active' THEN
+    RAISE EXCEPTION 'This contract is no longer accepting members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You are already a member of this contract';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'kicked'
+  ) THEN
+    RAISE EXCEPTION 'You were removed from this contract by a member vote and cannot rejoin';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.contract_participants
+    WHERE contract_id = p_contract_id AND user_id = v_user_id AND status = 'exited'
+  ) THEN
+    RAISE EXCEPTION 'You have exited this contract and cannot rejoin it';
+  END IF;
+
+  IF v_contract.is_private AND v_contract.user_id <> v_user_id THEN
+    RAISE EXCEPTION 'This is a private contract. You need a direct invitation from the contract owner.';
+  END IF;
+
+  SELECT count(*) INTO v_active_count
+  FROM public.contract_participants
+  WHERE contract_id = p_contract_id AND status = 'active';
+
+  IF v_active_count >= v_contract.maximum_participants THEN
+    RAISE EXCEPTION 'This contract is full. No more members can join.';
+  END IF;
+
+  IF p_contribution_amount < v_contract.minimum_contribution THEN
+    RAISE EXCEPTION 'Contribution is below the contract minimum of %', v_contract.minimum_contribution;
+  END IF;
+
+  INSERT INTO public.contract_participants (contract_id, user_id, contribution_amount, wallet_address, status)
+  VALUES (p_contract_id, v_user_id, p_contribution_amount, p_wallet_address, 'active');
+
+  UPDATE public.contracts
+  SET current_participants = v_active_count + 1,
+      updated_at = now()
+  WHERE id = p_contract_id;
+
+  RETURN true;
+END;
+$$;